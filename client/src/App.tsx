@@ -11,13 +11,25 @@ import Drivers from "@/pages/Drivers";
 import DriverApp from "@/pages/DriverApp";
 import SuperAdminNew from "@/pages/SuperAdminNew";
 import ClientLogin from "@/pages/ClientLogin";
+import StaffLogin from "@/pages/StaffLogin";
 import ClientOrders from "@/pages/ClientOrders";
 import ClientDashboard from "@/pages/ClientDashboard";
+import ClientImport from "@/pages/ClientImport";
+import ClientApiKeys from "@/pages/ClientApiKeys";
+import ClientWebhooks from "@/pages/ClientWebhooks";
+import ClientInvoices from "@/pages/ClientInvoices";
+import ClientBilling from "@/pages/ClientBilling";
+import ClientSettings from "@/pages/ClientSettings";
+import ClientResetPassword from "@/pages/ClientResetPassword";
+import ClientAcceptInvite from "@/pages/ClientAcceptInvite";
+import ClientUsers from "@/pages/ClientUsers";
 import TrackOrder from "@/pages/TrackOrder";
 import { useAuth } from "@/hooks/useAuth";
+import { useRealtimeCacheSync } from "@/hooks/useRealtimeCacheSync";
 
 function Router() {
   const { isAuthenticated, isLoading, user } = useAuth();
+  useRealtimeCacheSync(isAuthenticated);
 
   if (isLoading) {
     return (
@@ -34,7 +46,10 @@ function Router() {
     return (
       <Switch>
         <Route path="/" component={Landing} />
+        <Route path="/login" component={StaffLogin} />
         <Route path="/client-login" component={ClientLogin} />
+        <Route path="/client-reset-password" component={ClientResetPassword} />
+        <Route path="/client-accept-invite" component={ClientAcceptInvite} />
         <Route path="/track" component={TrackOrder} />
         <Route component={Landing} />
       </Switch>
@@ -65,10 +80,17 @@ function Router() {
         <Route path="/" component={ClientDashboard} />
         <Route path="/dashboard" component={ClientDashboard} />
         <Route path="/orders" component={ClientOrders} />
+        <Route path="/orders/import" component={ClientImport} />
         <Route path="/orders/all" component={ClientOrders} />
         <Route path="/orders/pending" component={ClientOrders} />
         <Route path="/orders/in-transit" component={ClientOrders} />
         <Route path="/track" component={TrackOrder} />
+        <Route path="/settings/users" component={ClientUsers} />
+        <Route path="/settings/api-keys" component={ClientApiKeys} />
+        <Route path="/settings/webhooks" component={ClientWebhooks} />
+        <Route path="/invoices" component={ClientInvoices} />
+        <Route path="/billing" component={ClientBilling} />
+        <Route path="/settings" component={ClientSettings} />
         <Route component={NotFound} />
       </Switch>
     );
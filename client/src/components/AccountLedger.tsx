@@ -0,0 +1,196 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Download } from "lucide-react";
+import { AGING_BUCKETS, type AgingBucket, type LedgerEntry } from "@shared/schema";
+
+export interface AgingReport {
+  balance: number;
+  buckets: Record<AgingBucket, number>;
+  unappliedCredit: number;
+}
+
+export interface ClientLedger extends AgingReport {
+  clientId: number;
+  creditLimit: string | null;
+  creditPolicy: string;
+  unbilled: number;
+  entries: LedgerEntry[];
+}
+
+const ENTRY_TYPE_STYLES: Record<string, { label: string; className: string }> = {
+  invoice: { label: "Invoice", className: "bg-blue-100 text-blue-800" },
+  payment: { label: "Payment", className: "bg-green-100 text-green-800" },
+  adjustment: { label: "Adjustment", className: "bg-gray-100 text-gray-800" },
+  credit_note: { label: "Credit note", className: "bg-purple-100 text-purple-800" },
+};
+
+export function formatMoney(amount: number) {
+  return new Intl.NumberFormat("en-US", { style: "currency", currency: "USD" }).format(amount);
+}
+
+function monthStart() {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, "0")}-01`;
+}
+
+function todayDate() {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, "0")}-${String(now.getDate()).padStart(2, "0")}`;
+}
+
+// Balance, aging, credit headroom, statement export and the entries themselves for one
+// client. Shared by the client Billing page and the super admin Accounts tab.
+export default function AccountLedger({ clientId }: { clientId: number }) {
+  const [from, setFrom] = useState(monthStart);
+  const [to, setTo] = useState(todayDate);
+
+  const { data: ledger, isLoading } = useQuery<ClientLedger>({
+    queryKey: [`/api/clients/${clientId}/ledger`],
+  });
+
+  if (isLoading || !ledger) {
+    return <p className="text-sm text-gray-500">Loading...</p>;
+  }
+
+  const creditLimit = ledger.creditLimit === null ? null : parseFloat(ledger.creditLimit);
+  const exposure = ledger.balance + ledger.unbilled;
+  const statementUrl = (format: "pdf" | "csv") =>
+    `/api/clients/${clientId}/statement?${new URLSearchParams({ from, to, format })}`;
+  // Newest first; the running balance is worked out oldest first
+  let running = 0;
+  const entries = ledger.entries
+    .map((entry) => ({ ...entry, balance: (running += parseFloat(entry.amount)) }))
+    .reverse();
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Balance</CardDescription>
+            <CardTitle className={ledger.balance < 0 ? "text-green-700" : undefined}>{formatMoney(ledger.balance)}</CardTitle>
+          </CardHeader>
+          <CardContent className="text-xs text-gray-500">
+            {ledger.unappliedCredit > 0 ? `${formatMoney(ledger.unappliedCredit)} unapplied credit` : "Issued invoices less payments and credits"}
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Not yet invoiced</CardDescription>
+            <CardTitle>{formatMoney(ledger.unbilled)}</CardTitle>
+          </CardHeader>
+          <CardContent className="text-xs text-gray-500">Priced orders not on an issued invoice</CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Credit limit</CardDescription>
+            <CardTitle className={creditLimit !== null && exposure > creditLimit ? "text-red-700" : undefined}>
+              {creditLimit === null ? "No limit" : formatMoney(creditLimit)}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="text-xs text-gray-500">
+            {creditLimit === null
+              ? "Orders are never held for credit"
+              : `${formatMoney(Math.max(creditLimit - exposure, 0))} available · ${ledger.creditPolicy === "block" ? "new orders blocked when over" : "warning when over"}`}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Aging</CardTitle>
+          <CardDescription>Open invoice amounts by days past due</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-5 gap-4">
+            {AGING_BUCKETS.map((bucket) => (
+              <div key={bucket.key} className="text-center">
+                <div className="text-xs text-gray-500">{bucket.label}</div>
+                <div className={`text-lg font-semibold ${bucket.key !== "current" && ledger.buckets[bucket.key] > 0 ? "text-red-700" : ""}`}>
+                  {formatMoney(ledger.buckets[bucket.key])}
+                </div>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-end justify-between space-y-0 gap-4 flex-wrap">
+          <div>
+            <CardTitle>Ledger</CardTitle>
+            <CardDescription>Invoices, payments, adjustments and credit notes</CardDescription>
+          </div>
+          <div className="flex items-end gap-2">
+            <div className="space-y-1">
+              <Label htmlFor="statement-from" className="text-xs">From</Label>
+              <Input id="statement-from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} className="w-40" />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="statement-to" className="text-xs">To</Label>
+              <Input id="statement-to" type="date" value={to} onChange={(e) => setTo(e.target.value)} className="w-40" />
+            </div>
+            <Button variant="outline" size="sm" asChild disabled={!from || !to}>
+              <a href={statementUrl("pdf")} download>
+                <Download className="mr-2 h-4 w-4" />
+                PDF
+              </a>
+            </Button>
+            <Button variant="outline" size="sm" asChild disabled={!from || !to}>
+              <a href={statementUrl("csv")} download>
+                <Download className="mr-2 h-4 w-4" />
+                CSV
+              </a>
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Description</TableHead>
+                <TableHead>Reference</TableHead>
+                <TableHead className="text-right">Debit</TableHead>
+                <TableHead className="text-right">Credit</TableHead>
+                <TableHead className="text-right">Balance</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {entries.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center">No ledger entries yet</TableCell>
+                </TableRow>
+              ) : (
+                entries.map((entry) => {
+                  const amount = parseFloat(entry.amount);
+                  const style = ENTRY_TYPE_STYLES[entry.type];
+                  return (
+                    <TableRow key={entry.id}>
+                      <TableCell className="text-sm">{new Date(`${entry.entryDate}T00:00:00`).toLocaleDateString()}</TableCell>
+                      <TableCell>
+                        <Badge className={style?.className}>{style?.label ?? entry.type}</Badge>
+                      </TableCell>
+                      <TableCell className="text-sm">{entry.description}</TableCell>
+                      <TableCell className="text-sm text-gray-500">{entry.reference ?? "-"}</TableCell>
+                      <TableCell className="text-right text-sm">{amount > 0 ? formatMoney(amount) : ""}</TableCell>
+                      <TableCell className="text-right text-sm">{amount < 0 ? formatMoney(-amount) : ""}</TableCell>
+                      <TableCell className="text-right text-sm font-medium">{formatMoney(entry.balance)}</TableCell>
+                    </TableRow>
+                  );
+                })
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,304 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import AccountLedger, { formatMoney, type AgingReport } from "@/components/AccountLedger";
+import { ArrowLeft, CreditCard, Gauge } from "lucide-react";
+import { AGING_BUCKETS, CREDIT_POLICIES, PAYMENT_METHODS, type Invoice } from "@shared/schema";
+
+interface AccountSummary extends AgingReport {
+  clientId: number;
+  clientName: string;
+  creditLimit: string | null;
+  creditPolicy: string;
+}
+
+const ENTRY_TYPES = [
+  { value: "payment", label: "Payment" },
+  { value: "credit_note", label: "Credit note" },
+  { value: "adjustment", label: "Adjustment (+/-)" },
+];
+
+const emptyEntry = { type: "payment", amount: "", invoiceId: "none", paymentMethod: "check", reference: "", entryDate: "", description: "" };
+
+function invalidateLedger(clientId: number) {
+  queryClient.invalidateQueries({ queryKey: ["/api/ledger/aging"] });
+  queryClient.invalidateQueries({ queryKey: [`/api/clients/${clientId}/ledger`] });
+  queryClient.invalidateQueries({ queryKey: ["/api/invoices"] });
+}
+
+// Super admin receivables: aging across clients, then one client's ledger with manual
+// payments, adjustments, credit notes and the credit limit.
+export default function AccountsPanel() {
+  const { toast } = useToast();
+  const [selected, setSelected] = useState<AccountSummary | null>(null);
+  const [entryOpen, setEntryOpen] = useState(false);
+  const [entry, setEntry] = useState(emptyEntry);
+  const [creditOpen, setCreditOpen] = useState(false);
+  const [credit, setCredit] = useState({ limit: "", policy: "warn" });
+
+  const { data: accounts = [], isLoading } = useQuery<AccountSummary[]>({
+    queryKey: ["/api/ledger/aging"],
+    retry: false,
+  });
+
+  const { data: openInvoices = [] } = useQuery<Invoice[]>({
+    queryKey: ["/api/invoices", { clientId: selected?.clientId, status: "issued" }],
+    enabled: !!selected,
+  });
+
+  const onError = (error: any) => {
+    toast({ title: "Error", description: error.message || "Something went wrong", variant: "destructive" });
+  };
+
+  const entryMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest(`/api/clients/${selected!.clientId}/ledger`, {
+        method: "POST",
+        body: JSON.stringify({
+          type: entry.type,
+          amount: entry.amount,
+          invoiceId: entry.invoiceId === "none" ? undefined : parseInt(entry.invoiceId),
+          paymentMethod: entry.type === "payment" ? entry.paymentMethod : undefined,
+          reference: entry.reference || undefined,
+          entryDate: entry.entryDate || undefined,
+          description: entry.description || undefined,
+        }),
+      });
+    },
+    onSuccess: () => {
+      toast({ title: "Entry Recorded", description: "The client's balance has been updated." });
+      invalidateLedger(selected!.clientId);
+      setEntryOpen(false);
+      setEntry(emptyEntry);
+    },
+    onError,
+  });
+
+  const creditMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest(`/api/clients/${selected!.clientId}/settings`, {
+        method: "PATCH",
+        body: JSON.stringify({ creditLimit: credit.limit.trim() || null, creditPolicy: credit.policy }),
+      });
+      return response.json();
+    },
+    onSuccess: (client) => {
+      toast({ title: "Credit Limit Saved" });
+      setSelected((current) => current && { ...current, creditLimit: client.creditLimit, creditPolicy: client.creditPolicy });
+      invalidateLedger(client.id);
+      setCreditOpen(false);
+    },
+    onError,
+  });
+
+  if (selected) {
+    return (
+      <div className="space-y-4">
+        <div className="flex justify-between items-center">
+          <div className="flex items-center gap-2">
+            <Button variant="ghost" size="sm" onClick={() => setSelected(null)}>
+              <ArrowLeft className="h-4 w-4" />
+            </Button>
+            <h2 className="text-xl font-semibold">{selected.clientName}</h2>
+          </div>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              onClick={() => {
+                setCredit({ limit: selected.creditLimit ?? "", policy: selected.creditPolicy });
+                setCreditOpen(true);
+              }}
+            >
+              <Gauge className="mr-2 h-4 w-4" />
+              Credit Limit
+            </Button>
+            <Button className="bg-shippxpress-navy hover:bg-shippxpress-navy/90" onClick={() => setEntryOpen(true)}>
+              <CreditCard className="mr-2 h-4 w-4" />
+              Record Entry
+            </Button>
+          </div>
+        </div>
+
+        <AccountLedger clientId={selected.clientId} />
+
+        <Dialog open={entryOpen} onOpenChange={setEntryOpen}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Record ledger entry</DialogTitle>
+              <DialogDescription>
+                Enter payments and credit notes as positive amounts. A payment that clears an invoice marks it paid.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-1">
+                <Label>Type</Label>
+                <Select value={entry.type} onValueChange={(type) => setEntry({ ...entry, type })}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {ENTRY_TYPES.map((type) => (
+                      <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="entry-amount">Amount</Label>
+                <Input id="entry-amount" value={entry.amount} onChange={(e) => setEntry({ ...entry, amount: e.target.value })} placeholder="0.00" />
+              </div>
+              <div className="space-y-1">
+                <Label>Invoice</Label>
+                <Select value={entry.invoiceId} onValueChange={(invoiceId) => setEntry({ ...entry, invoiceId })}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">On account</SelectItem>
+                    {openInvoices.map((invoice) => (
+                      <SelectItem key={invoice.id} value={invoice.id.toString()}>
+                        {invoice.invoiceNumber} ({formatMoney(parseFloat(invoice.total))})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {entry.type === "payment" && (
+                <div className="space-y-1">
+                  <Label>Method</Label>
+                  <Select value={entry.paymentMethod} onValueChange={(paymentMethod) => setEntry({ ...entry, paymentMethod })}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {PAYMENT_METHODS.map((method) => (
+                        <SelectItem key={method} value={method}>{method.toUpperCase()}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              <div className="space-y-1">
+                <Label htmlFor="entry-reference">Reference</Label>
+                <Input id="entry-reference" value={entry.reference} onChange={(e) => setEntry({ ...entry, reference: e.target.value })} placeholder="Check #, remittance id" />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="entry-date">Date</Label>
+                <Input id="entry-date" type="date" value={entry.entryDate} onChange={(e) => setEntry({ ...entry, entryDate: e.target.value })} />
+              </div>
+              <div className="space-y-1 col-span-2">
+                <Label htmlFor="entry-description">Description{entry.type === "adjustment" ? "" : " (optional)"}</Label>
+                <Input id="entry-description" value={entry.description} onChange={(e) => setEntry({ ...entry, description: e.target.value })} />
+              </div>
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setEntryOpen(false)}>Cancel</Button>
+              <Button onClick={() => entryMutation.mutate()} disabled={!entry.amount || entryMutation.isPending}>
+                {entryMutation.isPending ? "Saving..." : "Record"}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
+        <Dialog open={creditOpen} onOpenChange={setCreditOpen}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Credit limit</DialogTitle>
+              <DialogDescription>
+                Counts the balance plus priced orders not yet invoiced. Leave the limit empty for no limit.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="credit-limit">Limit</Label>
+                <Input id="credit-limit" value={credit.limit} onChange={(e) => setCredit({ ...credit, limit: e.target.value })} placeholder="No limit" />
+              </div>
+              <div className="space-y-1">
+                <Label>When over the limit</Label>
+                <Select value={credit.policy} onValueChange={(policy) => setCredit({ ...credit, policy })}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {CREDIT_POLICIES.map((policy) => (
+                      <SelectItem key={policy} value={policy}>{policy === "block" ? "Block new orders" : "Warn only"}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setCreditOpen(false)}>Cancel</Button>
+              <Button onClick={() => creditMutation.mutate()} disabled={creditMutation.isPending}>
+                {creditMutation.isPending ? "Saving..." : "Save"}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <h2 className="text-xl font-semibold">Accounts</h2>
+      <Card>
+        <CardHeader>
+          <CardTitle>Receivables aging</CardTitle>
+          <CardDescription>Open balances by days past due. Select a client to see its ledger.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Client</TableHead>
+                <TableHead className="text-right">Balance</TableHead>
+                {AGING_BUCKETS.map((bucket) => (
+                  <TableHead key={bucket.key} className="text-right">{bucket.label}</TableHead>
+                ))}
+                <TableHead className="text-right">Credit Limit</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={8} className="text-center">Loading...</TableCell>
+                </TableRow>
+              ) : accounts.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={8} className="text-center">No clients found</TableCell>
+                </TableRow>
+              ) : (
+                accounts.map((account) => (
+                  <TableRow key={account.clientId} className="cursor-pointer hover:bg-gray-50" onClick={() => setSelected(account)}>
+                    <TableCell className="font-medium">{account.clientName}</TableCell>
+                    <TableCell className="text-right font-medium">{formatMoney(account.balance)}</TableCell>
+                    {AGING_BUCKETS.map((bucket) => (
+                      <TableCell
+                        key={bucket.key}
+                        className={`text-right text-sm ${bucket.key !== "current" && account.buckets[bucket.key] > 0 ? "text-red-700" : ""}`}
+                      >
+                        {formatMoney(account.buckets[bucket.key])}
+                      </TableCell>
+                    ))}
+                    <TableCell className="text-right text-sm">
+                      {account.creditLimit === null ? (
+                        "-"
+                      ) : (
+                        <span className="flex items-center justify-end gap-2">
+                          {formatMoney(parseFloat(account.creditLimit))}
+                          {account.creditPolicy === "block" && <Badge variant="outline">Block</Badge>}
+                        </span>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
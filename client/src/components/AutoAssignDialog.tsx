@@ -0,0 +1,140 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Wand2 } from "lucide-react";
+
+interface AutoAssignResult {
+  dryRun: boolean;
+  assignments: { orderId: number; orderNumber: string; driverId: number; reason: string }[];
+  skipped: { orderId: number; orderNumber: string; reason: string }[];
+}
+
+// Previews the auto-assignment plan, then commits exactly the previewed orders
+export default function AutoAssignDialog() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+  const [preview, setPreview] = useState<AutoAssignResult | null>(null);
+
+  const runMutation = useMutation({
+    mutationFn: async (body: { dryRun: boolean; orderIds?: number[] }) => {
+      const response = await apiRequest("/api/orders/auto-assign", {
+        method: "POST",
+        body: JSON.stringify(body),
+      });
+      return response.json() as Promise<AutoAssignResult>;
+    },
+    onSuccess: (result) => {
+      if (result.dryRun) {
+        setPreview(result);
+        return;
+      }
+      toast({
+        title: "Orders Assigned",
+        description: `${result.assignments.length} orders assigned${result.skipped.length ? `, ${result.skipped.length} skipped` : ""}.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+      setOpen(false);
+      setPreview(null);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to auto-assign orders",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openPreview = () => {
+    setPreview(null);
+    setOpen(true);
+    runMutation.mutate({ dryRun: true });
+  };
+
+  return (
+    <>
+      <Button variant="outline" onClick={openPreview}>
+        <Wand2 className="mr-2 h-4 w-4" />
+        Auto-Assign
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Auto-Assign Pending Orders</DialogTitle>
+            <DialogDescription>
+              Drivers are chosen by zone, current load, distance and vehicle size. Pinned orders are left alone.
+            </DialogDescription>
+          </DialogHeader>
+
+          {!preview ? (
+            <div className="py-8 text-center text-sm text-gray-500">Building assignment plan...</div>
+          ) : (
+            <div className="space-y-4">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Order</TableHead>
+                    <TableHead>Driver</TableHead>
+                    <TableHead>Why</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {preview.assignments.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={3} className="text-center">No orders can be assigned right now</TableCell>
+                    </TableRow>
+                  ) : (
+                    preview.assignments.map((assignment) => (
+                      <TableRow key={assignment.orderId}>
+                        <TableCell className="font-medium">{assignment.orderNumber}</TableCell>
+                        <TableCell>Driver #{assignment.driverId}</TableCell>
+                        <TableCell className="text-xs text-gray-600">{assignment.reason}</TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+
+              {preview.skipped.length > 0 && (
+                <div>
+                  <h3 className="font-medium text-sm mb-2">Skipped ({preview.skipped.length})</h3>
+                  <div className="space-y-1">
+                    {preview.skipped.map((skip) => (
+                      <div key={skip.orderId} className="flex items-center justify-between text-sm">
+                        <span>{skip.orderNumber}</span>
+                        <Badge variant="secondary">{skip.reason}</Badge>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <div className="flex justify-end space-x-2">
+                <Button variant="outline" onClick={() => setOpen(false)}>
+                  Cancel
+                </Button>
+                <Button
+                  onClick={() => runMutation.mutate({
+                    dryRun: false,
+                    orderIds: preview.assignments.map((assignment) => assignment.orderId),
+                  })}
+                  disabled={runMutation.isPending || preview.assignments.length === 0}
+                >
+                  {runMutation.isPending ? "Assigning..." : `Assign ${preview.assignments.length} Orders`}
+                </Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
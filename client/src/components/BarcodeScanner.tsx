@@ -3,50 +3,126 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
-import { Camera, Scan, CheckCircle, AlertCircle, Keyboard } from "lucide-react";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Camera, Scan, CheckCircle, AlertCircle, AlertTriangle, Keyboard, Loader2, X } from "lucide-react";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
+import { queueDriverMutation } from "@/lib/driverSync";
+import { playScanFeedback } from "@/lib/scanFeedback";
+import { useBarcodeDecoder } from "@/hooks/useBarcodeDecoder";
 import { useToast } from "@/hooks/use-toast";
+import { getPieceTrackingId, normalizeOrderNumber, parsePieceTrackingId, type Order } from "@shared/schema";
+import { canTransition, getScanStatusPath, ORDER_STATUS_LABELS, SCAN_TARGET_STATUSES, type OrderStatus } from "@shared/orderStatus";
+
+// The camera sees the same label on many consecutive frames
+const DUPLICATE_WINDOW_MS = 2500;
 
 interface BarcodeScannerProps {
   onScanSuccess?: (orderNumber: string, action: "pickup" | "delivery") => void;
   action: "pickup" | "delivery";
   driverId?: number;
+  queueOffline?: boolean; // drivers queue scans through the offline sync instead of calling the API
+  routeOrders?: Pick<Order, "orderNumber" | "status">[]; // when given, labels not on the route are flagged
+}
+
+type ScanState = "queued" | "saving" | "done" | "flagged" | "error";
+
+interface ScanEntry {
+  code: string;
+  state: ScanState;
+  message?: string;
 }
 
-export default function BarcodeScanner({ onScanSuccess, action, driverId }: BarcodeScannerProps) {
+// apiRequest errors read "409: {json}"; show the server's message when there is one
+function describeError(error: any): string {
+  const body = /^\d{3}: ([\s\S]*)$/.exec(error?.message ?? "")?.[1];
+  try {
+    return JSON.parse(body ?? "").message ?? body;
+  } catch {
+    return body || error?.message || "Failed to update order status";
+  }
+}
+
+export default function BarcodeScanner({ onScanSuccess, action, driverId, queueOffline = false, routeOrders }: BarcodeScannerProps) {
   const [isScanning, setIsScanning] = useState(false);
   const [manualInput, setManualInput] = useState("");
-  const [lastScanned, setLastScanned] = useState<string | null>(null);
   const [scanMethod, setScanMethod] = useState<"camera" | "manual">("manual");
+  const [continuous, setContinuous] = useState(true);
+  const [batchMode, setBatchMode] = useState(false);
+  const [entries, setEntries] = useState<ScanEntry[]>([]);
   const videoRef = useRef<HTMLVideoElement>(null);
   const streamRef = useRef<MediaStream | null>(null);
+  const lastDetection = useRef<{ code: string; at: number } | null>(null);
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
-  // Update order status mutation
+  const targetStatus = SCAN_TARGET_STATUSES[action];
+
+  // A failed scan can be retried by scanning it again
+  const addEntry = (entry: ScanEntry) => {
+    setEntries((current) => [entry, ...current.filter((existing) => existing.code !== entry.code)]);
+  };
+
+  const updateEntry = (code: string, update: Partial<ScanEntry>) => {
+    setEntries((current) => current.map((entry) => (entry.code === code ? { ...entry, ...update } : entry)));
+  };
+
+  // Piece scan outcome worth showing next to the entry
+  const describePieceScan = (result: { duplicate: boolean; proofRequired: boolean; order: Order }) => {
+    if (result.duplicate) return "Already scanned";
+    if (result.proofRequired) return "All pieces delivered - capture proof of delivery to complete the order";
+    return `Order ${ORDER_STATUS_LABELS[result.order.status as OrderStatus] ?? result.order.status}`;
+  };
+
+  // Update order status for one or more scanned labels, in scan order. Piece labels are
+  // scanned individually and the order status rolls up from its pieces.
   const updateOrderMutation = useMutation({
-    mutationFn: async ({ orderNumber, status }: { orderNumber: string; status: string }) => {
-      return apiRequest("PATCH", `/api/orders/${orderNumber}/status`, {
-        status,
-        updatedBy: driverId ? `Driver ${driverId}` : "Driver",
-        notes: `${action === "pickup" ? "Picked up" : "Delivered"} - Barcode scanned`
-      });
+    mutationFn: async (codes: string[]) => {
+      const saved: string[] = [];
+      for (const code of codes) {
+        updateEntry(code, { state: "saving" });
+        try {
+          let message: string | undefined;
+          if (queueOffline) {
+            await queueDriverMutation({ type: "scan", orderNumber: code, action });
+          } else if (parsePieceTrackingId(code)) {
+            const response = await apiRequest("/api/packages/scan", {
+              method: "POST",
+              body: JSON.stringify({ code, action }),
+            });
+            message = describePieceScan(await response.json());
+          } else {
+            await apiRequest(`/api/orders/${code}/status`, {
+              method: "PATCH",
+              body: JSON.stringify({
+                status: targetStatus,
+                notes: `${action === "pickup" ? "Picked up" : "Delivered"} - Barcode scanned`
+              }),
+            });
+          }
+          updateEntry(code, { state: "done", message });
+          saved.push(code);
+        } catch (error) {
+          updateEntry(code, { state: "error", message: describeError(error) });
+        }
+      }
+      return saved;
     },
-    onSuccess: (data, variables) => {
-      toast({
-        title: "Success",
-        description: `Order ${variables.orderNumber} ${action === "pickup" ? "picked up" : "delivered"} successfully`,
-      });
-      setLastScanned(variables.orderNumber);
+    onSuccess: (saved, codes) => {
       queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
-      onScanSuccess?.(variables.orderNumber, action);
-    },
-    onError: (error) => {
+      saved.forEach((code) => onScanSuccess?.(code, action));
+
+      const failed = codes.length - saved.length;
+      const verb = action === "pickup" ? "picked up" : "delivered";
       toast({
-        title: "Error",
-        description: error.message || `Failed to update order status`,
-        variant: "destructive",
+        title: failed ? "Some Scans Failed" : "Success",
+        description: queueOffline && !navigator.onLine
+          ? `${saved.length} scan${saved.length === 1 ? "" : "s"} saved offline. They will sync when you're back online.`
+          : codes.length === 1 && !failed
+          ? `${parsePieceTrackingId(saved[0]) ? "Package" : "Order"} ${saved[0]} ${verb} successfully`
+          : `${saved.length} labels ${verb}${failed ? `, ${failed} failed` : ""}`,
+        variant: failed ? "destructive" : "default",
       });
     },
   });
@@ -57,13 +133,9 @@ export default function BarcodeScanner({ onScanSuccess, action, driverId }: Barc
       const stream = await navigator.mediaDevices.getUserMedia({
         video: { facingMode: "environment" } // Use back camera on mobile
       });
-      
-      if (videoRef.current) {
-        videoRef.current.srcObject = stream;
-        streamRef.current = stream;
-        setIsScanning(true);
-        setScanMethod("camera");
-      }
+      streamRef.current = stream;
+      setIsScanning(true);
+      setScanMethod("camera");
     } catch (error) {
       toast({
         title: "Camera Error",
@@ -83,46 +155,88 @@ export default function BarcodeScanner({ onScanSuccess, action, driverId }: Barc
     setIsScanning(false);
   };
 
-  // Process scanned/entered order number
-  const processOrderNumber = (orderNumber: string) => {
-    if (!orderNumber.trim()) return;
-    
-    const cleanOrderNumber = orderNumber.trim().toUpperCase();
-    
-    // Validate order number format (ORD-YYYY-XXXXXX)
-    if (!/^ORD-\d{4}-\d{6}$/.test(cleanOrderNumber)) {
-      toast({
-        title: "Invalid Format",
-        description: "Order number should be in format: ORD-YYYY-XXXXXX",
-        variant: "destructive",
-      });
+  // The video element only mounts once scanning starts
+  useEffect(() => {
+    if (isScanning && videoRef.current && streamRef.current) {
+      videoRef.current.srcObject = streamRef.current;
+    }
+  }, [isScanning]);
+
+  // Why a scanned order can't take this action, or null when it can
+  const checkScan = (orderNumber: string): string | null => {
+    if (!routeOrders) return null;
+    const order = routeOrders.find((candidate) => candidate.orderNumber === orderNumber);
+    if (!order) return "Not on your route";
+    if (order.status === targetStatus) return `Already ${ORDER_STATUS_LABELS[targetStatus].toLowerCase()}`;
+    // The sync takes a picked order through in transit on its way to delivered
+    let from = order.status;
+    for (const status of getScanStatusPath(order.status, action)) {
+      if (!canTransition(from, status, "driver")) {
+        return `Order is ${ORDER_STATUS_LABELS[order.status as OrderStatus] ?? order.status}`;
+      }
+      from = status;
+    }
+    return null;
+  };
+
+  // Process scanned/entered order number or piece tracking id
+  const processCode = (text: string, source: "camera" | "manual") => {
+    const raw = text.trim();
+    if (!raw) return;
+
+    const piece = parsePieceTrackingId(raw);
+    const orderNumber = piece?.orderNumber ?? normalizeOrderNumber(raw);
+    const code = piece ? getPieceTrackingId(piece.orderNumber, piece.pieceNumber) : orderNumber ?? raw;
+
+    // Suppress repeat reads of a label that's still in view or already in this session
+    const now = Date.now();
+    const repeated = source === "camera" && lastDetection.current?.code === code && now - lastDetection.current.at < DUPLICATE_WINDOW_MS;
+    lastDetection.current = { code, at: now };
+    if (repeated) return;
+    if (entries.some((entry) => entry.code === code && entry.state !== "error")) {
+      if (source === "manual") {
+        toast({ title: "Already Scanned", description: `${code} is already in this session.` });
+      }
       return;
     }
 
-    // Update order status based on action
-    const newStatus = action === "pickup" ? "picked_up" : "delivered";
-    updateOrderMutation.mutate({ orderNumber: cleanOrderNumber, status: newStatus });
+    if (!orderNumber) {
+      if (source === "manual") {
+        toast({
+          title: "Invalid Format",
+          description: "Order number should look like the one printed under the label barcode (ORD-...)",
+          variant: "destructive",
+        });
+        return;
+      }
+      addEntry({ code, state: "flagged", message: "Not a shipping label" });
+      playScanFeedback("warning");
+    } else {
+      const problem = checkScan(orderNumber);
+      if (problem) {
+        // Flag rather than update: the label may belong to another driver or be misrouted
+        addEntry({ code, state: "flagged", message: problem });
+        playScanFeedback("warning");
+      } else {
+        addEntry({ code, state: "queued" });
+        playScanFeedback("success");
+        if (!batchMode) updateOrderMutation.mutate([code]);
+      }
+    }
+
+    if (source === "camera" && !continuous) stopCamera();
   };
 
+  useBarcodeDecoder(videoRef, isScanning && scanMethod === "camera", (barcode) => processCode(barcode.text, "camera"));
+
   // Handle manual input submission
   const handleManualSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    processOrderNumber(manualInput);
+    processCode(manualInput, "manual");
     setManualInput("");
   };
 
-  // Simulate barcode detection (in real implementation, you'd use a barcode scanning library)
-  useEffect(() => {
-    if (isScanning && scanMethod === "camera") {
-      // This would be replaced with actual barcode scanning logic
-      // For demo purposes, we'll show instructions
-      const interval = setInterval(() => {
-        // In a real implementation, this would process video frames for barcodes
-      }, 100);
-
-      return () => clearInterval(interval);
-    }
-  }, [isScanning, scanMethod]);
+  const queuedCodes = entries.filter((entry) => entry.state === "queued").map((entry) => entry.code).reverse();
 
   // Cleanup camera on unmount
   useEffect(() => {
@@ -160,7 +274,10 @@ export default function BarcodeScanner({ onScanSuccess, action, driverId }: Barc
           <Button
             variant={scanMethod === "manual" ? "default" : "outline"}
             size="sm"
-            onClick={() => setScanMethod("manual")}
+            onClick={() => {
+              stopCamera();
+              setScanMethod("manual");
+            }}
             className="flex-1"
           >
             <Keyboard className="h-4 w-4 mr-1" />
@@ -168,6 +285,23 @@ export default function BarcodeScanner({ onScanSuccess, action, driverId }: Barc
           </Button>
         </div>
 
+        {/* Scan Modes */}
+        <div className="flex items-center justify-between text-sm">
+          <div className="flex items-center gap-2">
+            <Switch id={`${action}-continuous`} checked={continuous} onCheckedChange={setContinuous} />
+            <Label htmlFor={`${action}-continuous`}>Continuous</Label>
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch
+              id={`${action}-batch`}
+              checked={batchMode}
+              onCheckedChange={setBatchMode}
+              disabled={queuedCodes.length > 0}
+            />
+            <Label htmlFor={`${action}-batch`}>Batch</Label>
+          </div>
+        </div>
+
         {/* Camera Scanning */}
         {scanMethod === "camera" && (
           <div className="space-y-3">
@@ -182,11 +316,12 @@ export default function BarcodeScanner({ onScanSuccess, action, driverId }: Barc
                   ref={videoRef}
                   autoPlay
                   playsInline
-                  className="w-full h-48 bg-black rounded-lg"
+                  muted
+                  className="w-full h-48 bg-black rounded-lg object-cover"
                 />
                 <div className="text-center">
                   <p className="text-sm text-gray-600 mb-2">
-                    Position barcode in the camera view
+                    Position the barcode or QR code in the camera view
                   </p>
                   <Button onClick={stopCamera} variant="outline">
                     Stop Camera
@@ -201,39 +336,87 @@ export default function BarcodeScanner({ onScanSuccess, action, driverId }: Barc
         {scanMethod === "manual" && (
           <form onSubmit={handleManualSubmit} className="space-y-3">
             <div>
-              <label className="text-sm font-medium">Order Number:</label>
+              <label className="text-sm font-medium">Order or Package Number:</label>
               <Input
                 value={manualInput}
                 onChange={(e) => setManualInput(e.target.value)}
-                placeholder="ORD-2025-123456"
+                placeholder="ORD-..."
                 className="mt-1"
-                disabled={updateOrderMutation.isPending}
+                disabled={updateOrderMutation.isPending && !batchMode}
               />
             </div>
-            <Button 
-              type="submit" 
+            <Button
+              type="submit"
               className="w-full"
-              disabled={!manualInput.trim() || updateOrderMutation.isPending}
+              disabled={!manualInput.trim() || (updateOrderMutation.isPending && !batchMode)}
             >
-              {updateOrderMutation.isPending ? (
+              {updateOrderMutation.isPending && !batchMode ? (
                 "Processing..."
               ) : (
                 <>
                   <Scan className="h-4 w-4 mr-2" />
-                  {action === "pickup" ? "Confirm Pickup" : "Confirm Delivery"}
+                  {batchMode ? "Add to Batch" : action === "pickup" ? "Confirm Pickup" : "Confirm Delivery"}
                 </>
               )}
             </Button>
           </form>
         )}
 
-        {/* Last Scanned */}
-        {lastScanned && (
-          <div className="flex items-center gap-2 p-3 bg-green-50 rounded-lg border border-green-200">
-            <CheckCircle className="h-5 w-5 text-green-600" />
-            <div className="flex-1">
-              <p className="text-sm font-medium text-green-900">Last Scanned:</p>
-              <p className="text-sm text-green-700">{lastScanned}</p>
+        {/* Batch Commit */}
+        {batchMode && (
+          <Button
+            className="w-full"
+            onClick={() => updateOrderMutation.mutate(queuedCodes)}
+            disabled={queuedCodes.length === 0 || updateOrderMutation.isPending}
+          >
+            {updateOrderMutation.isPending
+              ? "Saving..."
+              : `${action === "pickup" ? "Confirm Pickup" : "Confirm Delivery"} (${queuedCodes.length})`}
+          </Button>
+        )}
+
+        {/* Session Scans */}
+        {entries.length > 0 && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <p className="text-sm font-medium">Scanned ({entries.length})</p>
+              <Button size="sm" variant="ghost" onClick={() => setEntries([])} disabled={updateOrderMutation.isPending}>
+                Clear
+              </Button>
+            </div>
+            <div className="max-h-48 overflow-y-auto space-y-1">
+              {entries.map((entry) => (
+                <div
+                  key={entry.code}
+                  className={`flex items-center gap-2 p-2 rounded border text-sm ${
+                    entry.state === "flagged" || entry.state === "error"
+                      ? "bg-orange-50 border-orange-200"
+                      : entry.state === "done"
+                      ? "bg-green-50 border-green-200"
+                      : "bg-gray-50 border-gray-200"
+                  }`}
+                >
+                  {entry.state === "done" && <CheckCircle className="h-4 w-4 text-green-600" />}
+                  {entry.state === "saving" && <Loader2 className="h-4 w-4 animate-spin text-gray-500" />}
+                  {entry.state === "queued" && <Scan className="h-4 w-4 text-gray-500" />}
+                  {entry.state === "flagged" && <AlertTriangle className="h-4 w-4 text-orange-600" />}
+                  {entry.state === "error" && <AlertCircle className="h-4 w-4 text-red-600" />}
+                  <div className="flex-1 min-w-0">
+                    <p className="truncate font-medium">{entry.code}</p>
+                    {entry.message && <p className="text-xs text-gray-600">{entry.message}</p>}
+                  </div>
+                  {entry.state === "queued" && (
+                    <button
+                      type="button"
+                      onClick={() => setEntries((current) => current.filter((candidate) => candidate.code !== entry.code))}
+                      className="text-gray-400 hover:text-gray-600"
+                      title="Remove from batch"
+                    >
+                      <X className="h-4 w-4" />
+                    </button>
+                  )}
+                </div>
+              ))}
             </div>
           </div>
         )}
@@ -242,13 +425,14 @@ export default function BarcodeScanner({ onScanSuccess, action, driverId }: Barc
         <div className="text-xs text-gray-500 space-y-1">
           <p className="font-medium">Instructions:</p>
           <ul className="list-disc list-inside space-y-1">
-            <li>Scan the barcode on the shipping label</li>
+            <li>Scan the barcode or QR code on each package label</li>
             <li>Or manually enter the order number</li>
-            <li>This will automatically update the order status</li>
-            <li>Ensure you scan at the correct location</li>
+            <li>Continuous mode keeps the camera open between parcels</li>
+            <li>Batch mode collects parcels and updates them together</li>
+            <li>Labels that aren't on your route are flagged, not updated</li>
           </ul>
         </div>
       </CardContent>
     </Card>
   );
-}
\ No newline at end of file
+}
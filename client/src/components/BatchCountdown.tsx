@@ -1,4 +1,5 @@
 import { useState, useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { Clock, Package, AlertTriangle } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -7,40 +8,51 @@ interface BatchCountdownProps {
   onBatchDeadlineChange?: (isAfterDeadline: boolean) => void;
 }
 
+interface BatchSchedule {
+  timezone: string;
+  today: string;
+  currentBatch: {
+    id: number;
+    date: string;
+    cutoffTime: string;
+    cutoffAt: string;
+    isToday: boolean;
+  };
+  nextBatchDate: string;
+}
+
 export default function BatchCountdown({ onBatchDeadlineChange }: BatchCountdownProps) {
   const [timeUntilCutoff, setTimeUntilCutoff] = useState("");
-  const [isAfterCutoff, setIsAfterCutoff] = useState(false);
-  const [currentBatchDate, setCurrentBatchDate] = useState("");
-  const [nextBatchDate, setNextBatchDate] = useState("");
+
+  // Cutoff and calendar come from the server so every portal counts down to the same moment
+  const { data: schedule, refetch } = useQuery<BatchSchedule>({
+    queryKey: ["/api/route-batches/schedule"],
+    refetchInterval: 5 * 60 * 1000,
+  });
+
+  const isAfterCutoff = schedule ? !schedule.currentBatch.isToday : false;
 
   useEffect(() => {
-    const updateCountdown = () => {
-      const now = new Date();
-      const cutoffTime = new Date();
-      cutoffTime.setHours(14, 30, 0, 0); // 2:30 PM
-
-      // If we're past 2:30 PM today, set cutoff for tomorrow
-      if (now > cutoffTime) {
-        cutoffTime.setDate(cutoffTime.getDate() + 1);
-        setIsAfterCutoff(true);
-        setCurrentBatchDate(formatDate(getTomorrow()));
-        setNextBatchDate(formatDate(getDayAfterTomorrow()));
-      } else {
-        setIsAfterCutoff(false);
-        setCurrentBatchDate(formatDate(now));
-        setNextBatchDate(formatDate(getTomorrow()));
-      }
+    if (onBatchDeadlineChange) {
+      onBatchDeadlineChange(isAfterCutoff);
+    }
+  }, [isAfterCutoff, onBatchDeadlineChange]);
+
+  useEffect(() => {
+    if (!schedule) return;
 
-      const diff = cutoffTime.getTime() - now.getTime();
+    const cutoffAt = new Date(schedule.currentBatch.cutoffAt).getTime();
+    const updateCountdown = () => {
+      const diff = Math.max(cutoffAt - Date.now(), 0);
       const hours = Math.floor(diff / (1000 * 60 * 60));
       const minutes = Math.floor((diff % (1000 * 60 * 60)) / (1000 * 60));
       const seconds = Math.floor((diff % (1000 * 60)) / 1000);
 
       setTimeUntilCutoff(`${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`);
 
-      // Notify parent component about batch deadline status
-      if (onBatchDeadlineChange) {
-        onBatchDeadlineChange(isAfterCutoff);
+      // The batch just closed; pick up the next one
+      if (diff === 0) {
+        refetch();
       }
     };
 
@@ -48,10 +60,11 @@ export default function BatchCountdown({ onBatchDeadlineChange }: BatchCountdown
     const interval = setInterval(updateCountdown, 1000);
 
     return () => clearInterval(interval);
-  }, [isAfterCutoff, onBatchDeadlineChange]);
+  }, [schedule, refetch]);
 
-  const formatDate = (date: Date) => {
-    return date.toLocaleDateString('en-US', { 
+  // Batch dates are calendar days; anchor at noon so no local offset shifts the day
+  const formatDate = (date: string) => {
+    return new Date(`${date}T12:00:00`).toLocaleDateString('en-US', { 
       weekday: 'long', 
       year: 'numeric', 
       month: 'long', 
@@ -59,17 +72,12 @@ export default function BatchCountdown({ onBatchDeadlineChange }: BatchCountdown
     });
   };
 
-  const getTomorrow = () => {
-    const tomorrow = new Date();
-    tomorrow.setDate(tomorrow.getDate() + 1);
-    return tomorrow;
+  const formatCutoff = (time: string) => {
+    const [hours, minutes] = time.split(':').map(Number);
+    return new Date(2000, 0, 1, hours, minutes).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
   };
 
-  const getDayAfterTomorrow = () => {
-    const dayAfter = new Date();
-    dayAfter.setDate(dayAfter.getDate() + 2);
-    return dayAfter;
-  };
+  const cutoffLabel = schedule ? formatCutoff(schedule.currentBatch.cutoffTime) : "";
 
   return (
     <Card className="bg-gradient-to-r from-primary-50 to-orange-50 border-primary-200">
@@ -86,18 +94,18 @@ export default function BatchCountdown({ onBatchDeadlineChange }: BatchCountdown
             <span className="text-sm font-medium">Next Cutoff:</span>
           </div>
           <Badge variant={isAfterCutoff ? "destructive" : "default"} className="text-base font-mono">
-            {timeUntilCutoff}
+            {schedule ? timeUntilCutoff : "--:--:--"}
           </Badge>
         </div>
 
-        {isAfterCutoff ? (
+        {schedule && (isAfterCutoff ? (
           <div className="bg-orange-100 border border-orange-300 rounded-lg p-3">
             <div className="flex items-center space-x-2 text-orange-800">
               <AlertTriangle className="h-4 w-4" />
-              <span className="font-medium">After 2:30 PM Cutoff</span>
+              <span className="font-medium">Today's Batch Is Closed</span>
             </div>
             <p className="text-sm text-orange-700 mt-1">
-              New orders will be added to tomorrow's batch ({nextBatchDate})
+              New orders will be added to the next batch ({formatDate(schedule.currentBatch.date)})
             </p>
           </div>
         ) : (
@@ -107,17 +115,17 @@ export default function BatchCountdown({ onBatchDeadlineChange }: BatchCountdown
               <span className="font-medium">Current Batch Active</span>
             </div>
             <p className="text-sm text-green-700 mt-1">
-              Orders will be included in today's batch ({currentBatchDate})
+              Orders will be included in today's batch ({formatDate(schedule.currentBatch.date)})
             </p>
           </div>
-        )}
+        ))}
 
         <div className="text-xs text-gray-500 border-t pt-2">
-          <p>• Batches are processed daily at 2:30 PM</p>
-          <p>• Orders after cutoff go to next day's batch</p>
+          <p>• Batches close at {cutoffLabel || "the daily cutoff"} ({schedule?.timezone ?? "local time"})</p>
+          <p>• Orders after cutoff go to the next service day's batch{schedule ? ` (${formatDate(schedule.nextBatchDate)})` : ""}</p>
           <p>• Route optimization happens automatically</p>
         </div>
       </CardContent>
     </Card>
   );
-}
\ No newline at end of file
+}
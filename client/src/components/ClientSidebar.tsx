@@ -17,18 +17,27 @@ import {
   LogOut,
   User,
   BarChart3,
-  Truck
+  Truck,
+  Upload,
+  KeyRound,
+  Webhook,
+  Receipt,
+  Users
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { cn } from "@/lib/utils";
 import { useAuth } from "@/hooks/useAuth";
+import { CLIENT_ROLE_LABELS, CLIENT_SHIPPING_ROLES, type ClientRole } from "@shared/schema";
 import shippxpressLogo from "@assets/logo_ship_1751420016110.jpg";
 
 interface ClientSidebarProps {
   className?: string;
 }
 
+// Items with `roles` are only shown to client users holding one of them
+const ADMIN_ONLY: readonly ClientRole[] = ["client_admin"];
+
 const clientMenuItems = [
   {
     title: "Overview",
@@ -44,6 +53,7 @@ const clientMenuItems = [
       { icon: Package, label: "All Orders", href: "/orders", badge: "12" },
       { icon: Clock, label: "Pending", href: "/orders?status=pending", badge: "3" },
       { icon: Truck, label: "In Transit", href: "/orders?status=in-transit", badge: "7" },
+      { icon: Upload, label: "Bulk Import", href: "/orders/import", roles: CLIENT_SHIPPING_ROLES },
       { icon: MapPin, label: "Track Orders", href: "/tracking" },
     ]
   },
@@ -52,6 +62,7 @@ const clientMenuItems = [
     items: [
       { icon: Calendar, label: "Schedule Pickup", href: "/schedule" },
       { icon: Calculator, label: "Billing", href: "/billing" },
+      { icon: Receipt, label: "Invoices", href: "/invoices" },
       { icon: FileText, label: "Reports", href: "/reports" },
       { icon: Camera, label: "Documents", href: "/documents" },
     ]
@@ -62,6 +73,9 @@ const clientMenuItems = [
       { icon: User, label: "Profile", href: "/profile" },
       { icon: Search, label: "Order History", href: "/history" },
       { icon: Settings, label: "Settings", href: "/settings" },
+      { icon: Users, label: "Users", href: "/settings/users", roles: ADMIN_ONLY },
+      { icon: KeyRound, label: "API Keys", href: "/settings/api-keys", roles: ADMIN_ONLY },
+      { icon: Webhook, label: "Webhooks", href: "/settings/webhooks", roles: ADMIN_ONLY },
     ]
   },
 ];
@@ -70,6 +84,7 @@ export default function ClientSidebar({ className }: ClientSidebarProps) {
   const [collapsed, setCollapsed] = useState(false);
   const [location] = useLocation();
   const { user } = useAuth();
+  const clientRole = (user?.clientRole ?? "client_admin") as ClientRole;
 
   const handleLogout = () => {
     window.location.href = "/api/logout";
@@ -117,7 +132,7 @@ export default function ClientSidebar({ className }: ClientSidebarProps) {
               <p className="text-sm font-medium text-white">
                 {user?.firstName && user?.lastName ? `${user.firstName} ${user.lastName}` : "Client User"}
               </p>
-              <p className="text-xs text-white/70">Client Account</p>
+              <p className="text-xs text-white/70">Client {CLIENT_ROLE_LABELS[clientRole]}</p>
             </div>
           </div>
         </div>
@@ -133,7 +148,7 @@ export default function ClientSidebar({ className }: ClientSidebarProps) {
               </h3>
             )}
             <nav className="space-y-1">
-              {section.items.map((item, itemIndex) => {
+              {section.items.filter((item) => !("roles" in item) || item.roles!.includes(clientRole)).map((item, itemIndex) => {
                 const Icon = item.icon;
                 const isActive = location === item.href || (item.href === "/" && location === "/");
                 
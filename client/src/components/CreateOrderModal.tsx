@@ -27,6 +27,8 @@ import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Plus, Trash2, Calculator } from "lucide-react";
+import PriceBreakdown from "@/components/PriceBreakdown";
+import { useQuote } from "@/hooks/useQuote";
 
 type CreateOrderForm = z.infer<typeof insertOrderSchema>;
 
@@ -45,7 +47,6 @@ export default function CreateOrderModal({ open, onOpenChange }: CreateOrderModa
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [estimatedDistance, setEstimatedDistance] = useState<number>(25);
-  const [costEstimate, setCostEstimate] = useState({ weight: 0, distance: 25, total: 0 });
   const [clientLocation, setClientLocation] = useState<{lat: number, lng: number} | null>(null);
   const [isLoadingLocation, setIsLoadingLocation] = useState(false);
   const [isAddressValidated, setIsAddressValidated] = useState(false);
@@ -88,34 +89,6 @@ export default function CreateOrderModal({ open, onOpenChange }: CreateOrderModa
     name: "packages",
   });
 
-  // Calculate total weight from packages
-  const calculateTotalWeight = useCallback(() => {
-    const packages = form.getValues('packages');
-    const totalWeight = packages.reduce((sum, pkg) => sum + (pkg.weight || 0), 0);
-    return totalWeight;
-  }, [form]);
-
-  // Calculate cost estimate
-  const calculateCostEstimate = useCallback(() => {
-    const totalWeight = calculateTotalWeight();
-    const distance = estimatedDistance;
-    
-    // Base rate calculation
-    const weightRate = 0.50; // $0.50 per pound
-    const distanceRate = 0.75; // $0.75 per mile
-    const baseFee = 5.00; // $5 base fee
-    
-    const weightCost = totalWeight * weightRate;
-    const distanceCost = distance * distanceRate;
-    const total = baseFee + weightCost + distanceCost;
-    
-    setCostEstimate({
-      weight: totalWeight,
-      distance,
-      total: Math.round(total * 100) / 100
-    });
-  }, [calculateTotalWeight, estimatedDistance]);
-
   // Get current location
   const getCurrentLocation = useCallback(() => {
     if (navigator.geolocation) {
@@ -331,17 +304,24 @@ export default function CreateOrderModal({ open, onOpenChange }: CreateOrderModa
     }
   }, [open, clientLocation, getCurrentLocation]);
 
-  // Recalculate cost when packages or distance change
-  useEffect(() => {
-    calculateCostEstimate();
-  }, [calculateCostEstimate, estimatedDistance, form.watch('packages')]);
+  // Server quote; the browser distance only counts when the address can't be geocoded
+  const watchedValues = form.watch();
+  const { quote, isLoading: isQuoting } = useQuote({
+    deliveryLine1: watchedValues.deliveryLine1,
+    deliveryLine2: watchedValues.deliveryLine2,
+    deliveryCity: watchedValues.deliveryCity,
+    deliveryState: watchedValues.deliveryState,
+    deliveryZip: watchedValues.deliveryZip,
+    deliveryCountry: watchedValues.deliveryCountry,
+    packages: watchedValues.packages ?? [],
+    distance: estimatedDistance,
+  });
 
   const createOrderMutation = useMutation({
     mutationFn: async (data: CreateOrderForm) => {
       const orderData = {
         ...data,
-        estimatedDistance,
-        costEstimate: costEstimate.total,
+        distance: estimatedDistance,
       };
       
       const response = await apiRequest('/api/orders', {
@@ -358,11 +338,18 @@ export default function CreateOrderModal({ open, onOpenChange }: CreateOrderModa
       
       return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (order) => {
       toast({
         title: "Order Created",
         description: "Your order has been successfully created.",
       });
+      if (order?.creditWarning) {
+        toast({
+          title: "Over Credit Limit",
+          description: `This account is now over its $${order.creditWarning.limit.toFixed(2)} credit limit. Please contact billing.`,
+          variant: "destructive",
+        });
+      }
       queryClient.invalidateQueries({ queryKey: ['/api/orders'] });
       form.reset();
       onOpenChange(false);
@@ -716,20 +703,29 @@ export default function CreateOrderModal({ open, onOpenChange }: CreateOrderModa
                 <Calculator className="h-4 w-4" />
                 <h3 className="text-sm font-medium">Cost Estimate</h3>
               </div>
-              <div className="grid grid-cols-3 gap-4 text-sm">
-                <div className="text-center">
-                  <div className="text-xs text-gray-600">Weight</div>
-                  <div className="font-medium">{costEstimate.weight} lbs</div>
-                </div>
-                <div className="text-center">
-                  <div className="text-xs text-gray-600">Distance</div>
-                  <div className="font-medium">{costEstimate.distance} mi</div>
-                </div>
-                <div className="text-center">
-                  <div className="text-xs text-gray-600">Total</div>
-                  <div className="font-semibold text-lg">${costEstimate.total}</div>
+              {quote ? (
+                <div className="grid grid-cols-3 gap-4 text-sm">
+                  <div className="text-center">
+                    <div className="text-xs text-gray-600">Weight</div>
+                    <div className="font-medium">{quote.billableWeight} lbs</div>
+                  </div>
+                  <div className="text-center">
+                    <div className="text-xs text-gray-600">Distance</div>
+                    <div className="font-medium">{quote.distanceMiles} mi</div>
+                  </div>
+                  <div className="text-center">
+                    <div className="text-xs text-gray-600">Total</div>
+                    <div className="font-semibold text-lg">${quote.total.toFixed(2)}</div>
+                  </div>
+                  <div className="col-span-3">
+                    <PriceBreakdown quote={quote} />
+                  </div>
                 </div>
-              </div>
+              ) : (
+                <p className="text-xs text-gray-600">
+                  {isQuoting ? "Calculating..." : "Enter the delivery address to see the cost"}
+                </p>
+              )}
             </div>
 
             {/* Submit Button */}
@@ -1,10 +1,10 @@
-import { useState, useEffect, useCallback, useRef } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useForm, useFieldArray } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
-import { insertOrderSchema } from "@shared/schema";
+import { insertOrderSchema, ORDER_PRIORITIES, ORDER_PRIORITY_LABELS, type OrderPriority } from "@shared/schema";
 import { z } from "zod";
 import {
   Dialog,
@@ -24,7 +24,11 @@ import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Plus, Trash2, X } from "lucide-react";
+import OrderPresetPicker from "@/components/OrderPresetPicker";
+import PriceBreakdown from "@/components/PriceBreakdown";
+import { useQuote } from "@/hooks/useQuote";
 
 type CreateOrderForm = z.infer<typeof insertOrderSchema>;
 
@@ -40,7 +44,7 @@ function getTodayDate() {
 export function CreateOrderModalNew({ open, onOpenChange }: CreateOrderModalProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
-  const [costEstimate, setCostEstimate] = useState({ weight: 1, distance: 25, total: 0 });
+  const [weight, setWeight] = useState(1);
   const autocompleteRef = useRef<google.maps.places.Autocomplete | null>(null);
 
   const form = useForm<CreateOrderForm>({
@@ -95,22 +99,6 @@ export function CreateOrderModalNew({ open, onOpenChange }: CreateOrderModalProp
     name: "packages",
   });
 
-  // Calculate cost estimate
-  const calculateCostEstimate = useCallback(() => {
-    const weightRate = 0.50; // $0.50 per pound
-    const distanceRate = 0.75; // $0.75 per mile
-    const baseFee = 5.00; // $5 base fee
-    
-    const weightCost = costEstimate.weight * weightRate;
-    const distanceCost = costEstimate.distance * distanceRate;
-    const total = baseFee + weightCost + distanceCost;
-    
-    setCostEstimate(prev => ({
-      ...prev,
-      total: Math.round(total * 100) / 100
-    }));
-  }, [costEstimate.weight, costEstimate.distance]);
-
   // Initialize Google Places Autocomplete
   useEffect(() => {
     if (open && window.google?.maps?.places) {
@@ -166,11 +154,6 @@ export function CreateOrderModalNew({ open, onOpenChange }: CreateOrderModalProp
     };
   }, [open, form]);
 
-  // Calculate cost estimate when weight/distance changes
-  useEffect(() => {
-    calculateCostEstimate();
-  }, [calculateCostEstimate]);
-
   const createOrderMutation = useMutation({
     mutationFn: (data: CreateOrderForm) => {
       return apiRequest("/api/orders", {
@@ -186,6 +169,13 @@ export function CreateOrderModalNew({ open, onOpenChange }: CreateOrderModalProp
         title: "Success",
         description: "Order created successfully!",
       });
+      if (order?.creditWarning) {
+        toast({
+          title: "Over Credit Limit",
+          description: `This account is now over its $${order.creditWarning.limit.toFixed(2)} credit limit. Please contact billing.`,
+          variant: "destructive",
+        });
+      }
       
       // Clear all cache and force fresh data
       queryClient.clear();
@@ -220,9 +210,10 @@ export function CreateOrderModalNew({ open, onOpenChange }: CreateOrderModalProp
     // Transform the data for the API
     const transformedData = {
       ...data,
+      deliveryWindowStart: data.deliveryWindowStart || undefined,
+      deliveryWindowEnd: data.deliveryWindowEnd || undefined,
       packages: data.packages || [{ description: "Package", quantity: 1 }],
-      weight: costEstimate.weight || 1,
-      distance: costEstimate.distance || 25,
+      weight: weight || 1,
     };
     
     createOrderMutation.mutate(transformedData);
@@ -230,6 +221,20 @@ export function CreateOrderModalNew({ open, onOpenChange }: CreateOrderModalProp
 
   const watchedValues = form.watch();
 
+  // Priced on the server from the client's rate card; the same quote is frozen on create
+  const { quote, isLoading: isQuoting } = useQuote({
+    deliveryLine1: watchedValues.deliveryLine1,
+    deliveryLine2: watchedValues.deliveryLine2,
+    deliveryCity: watchedValues.deliveryCity,
+    deliveryState: watchedValues.deliveryState,
+    deliveryZip: watchedValues.deliveryZip,
+    deliveryCountry: watchedValues.deliveryCountry,
+    packages: watchedValues.packages ?? [],
+    weight: weight || 1,
+    priority: watchedValues.priority,
+    fragile: watchedValues.fragile,
+  });
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="max-w-[1100px] h-[85vh] overflow-hidden p-0">
@@ -446,6 +451,36 @@ export function CreateOrderModalNew({ open, onOpenChange }: CreateOrderModalProp
                     )}
                   />
 
+                  {/* Delivery Window */}
+                  <div className="grid grid-cols-2 gap-3">
+                    <FormField
+                      control={form.control}
+                      name="deliveryWindowStart"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel className="text-sm font-medium">Deliver After</FormLabel>
+                          <FormControl>
+                            <Input type="time" className="h-9" {...field} value={field.value ?? ""} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="deliveryWindowEnd"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel className="text-sm font-medium">Deliver Before</FormLabel>
+                          <FormControl>
+                            <Input type="time" className="h-9" {...field} value={field.value ?? ""} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+
                   {/* Special Instructions */}
                   <FormField
                     control={form.control}
@@ -476,12 +511,10 @@ export function CreateOrderModalNew({ open, onOpenChange }: CreateOrderModalProp
             <div className="p-4 border-b bg-blue-100">
               <div className="flex items-center justify-between">
                 <h3 className="font-medium text-blue-900">Shipping Details</h3>
-                <Button
-                  size="sm"
-                  className="bg-blue-600 hover:bg-blue-700 text-white"
-                >
-                  Apply Preset ▼
-                </Button>
+                <OrderPresetPicker
+                  getValues={() => form.getValues()}
+                  onApply={(values) => form.reset({ ...form.getValues(), ...values })}
+                />
               </div>
             </div>
 
@@ -502,8 +535,8 @@ export function CreateOrderModalNew({ open, onOpenChange }: CreateOrderModalProp
                   <div className="flex items-center gap-2">
                     <Input 
                       type="number" 
-                      value={costEstimate.weight} 
-                      onChange={(e) => setCostEstimate(prev => ({ ...prev, weight: parseFloat(e.target.value) || 0 }))}
+                      value={weight} 
+                      onChange={(e) => setWeight(parseFloat(e.target.value) || 0)}
                       className="h-8 text-sm"
                       min="0"
                       step="0.1"
@@ -513,16 +546,26 @@ export function CreateOrderModalNew({ open, onOpenChange }: CreateOrderModalProp
                 </div>
                 <div className="bg-white p-3 rounded border">
                   <div className="text-xs text-gray-600 mb-1">Service</div>
-                  <Select defaultValue="ground">
+                  <Select
+                    value={watchedValues.priority ?? "normal"}
+                    onValueChange={(value) => form.setValue("priority", value as OrderPriority)}
+                  >
                     <SelectTrigger className="h-8 text-sm">
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="ground">Ground</SelectItem>
-                      <SelectItem value="express">Express</SelectItem>
-                      <SelectItem value="overnight">Overnight</SelectItem>
+                      {ORDER_PRIORITIES.map((priority) => (
+                        <SelectItem key={priority} value={priority}>{ORDER_PRIORITY_LABELS[priority]}</SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
+                  <label className="flex items-center gap-2 mt-2 text-xs text-gray-600">
+                    <Checkbox
+                      checked={watchedValues.fragile ?? false}
+                      onCheckedChange={(checked) => form.setValue("fragile", checked === true)}
+                    />
+                    Fragile
+                  </label>
                 </div>
               </div>
 
@@ -554,10 +597,18 @@ export function CreateOrderModalNew({ open, onOpenChange }: CreateOrderModalProp
               {/* Rate */}
               <div className="bg-white p-4 rounded border">
                 <div className="text-sm font-medium text-green-700 mb-2">Rate</div>
-                <div className="text-2xl font-bold text-green-700">${costEstimate.total.toFixed(2)}</div>
-                <div className="text-xs text-gray-600 mt-1">
-                  Base: $5.00 + Weight: ${(costEstimate.weight * 0.5).toFixed(2)} + Distance: ${(25 * 0.75).toFixed(2)}
-                </div>
+                {quote ? (
+                  <>
+                    <div className="text-2xl font-bold text-green-700">${quote.total.toFixed(2)}</div>
+                    <div className="mt-1">
+                      <PriceBreakdown quote={quote} />
+                    </div>
+                  </>
+                ) : (
+                  <div className="text-xs text-gray-600">
+                    {isQuoting ? "Calculating..." : "Enter the delivery address to see the rate"}
+                  </div>
+                )}
               </div>
 
               {/* Delivery */}
@@ -0,0 +1,102 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { AlertTriangle } from "lucide-react";
+import {
+  DELIVERY_FAILURE_REASONS,
+  DELIVERY_FAILURE_REASON_LABELS,
+  type DeliveryFailureReason,
+  type Order,
+} from "@shared/schema";
+
+interface FailedDeliveryDialogProps {
+  order: Pick<Order, "id" | "orderNumber"> | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export default function FailedDeliveryDialog({ order, onOpenChange }: FailedDeliveryDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [reasonCode, setReasonCode] = useState<DeliveryFailureReason | "">("");
+  const [notes, setNotes] = useState("");
+
+  const recordAttemptMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest(`/api/orders/${order!.id}/attempts`, {
+        method: "POST",
+        body: JSON.stringify({ reasonCode, notes: notes || undefined }),
+      });
+      return response.json();
+    },
+    onSuccess: ({ order: updated, attempt }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+      toast({
+        title: "Attempt Recorded",
+        description: updated.status === "return_to_sender"
+          ? `Attempt ${attempt.attemptNumber} recorded. ${updated.orderNumber} will be returned to sender.`
+          : `Attempt ${attempt.attemptNumber} recorded. ${updated.orderNumber} has been rescheduled.`,
+      });
+      setReasonCode("");
+      setNotes("");
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to record delivery attempt",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={!!order} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <AlertTriangle className="h-5 w-5 text-error-600" />
+            Failed Delivery
+          </DialogTitle>
+          <DialogDescription>
+            Record why {order?.orderNumber} could not be delivered.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <Select value={reasonCode} onValueChange={(value) => setReasonCode(value as DeliveryFailureReason)}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select a reason" />
+            </SelectTrigger>
+            <SelectContent>
+              {DELIVERY_FAILURE_REASONS.map((reason) => (
+                <SelectItem key={reason} value={reason}>
+                  {DELIVERY_FAILURE_REASON_LABELS[reason]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Textarea
+            placeholder="Notes (optional)"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            className="min-h-[80px] resize-none"
+          />
+
+          <Button
+            className="w-full bg-error-600 hover:bg-error-700"
+            onClick={() => recordAttemptMutation.mutate()}
+            disabled={!reasonCode || recordAttemptMutation.isPending}
+          >
+            {recordAttemptMutation.isPending ? "Recording..." : "Record Failed Attempt"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,85 @@
+import { useState, useEffect } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/useAuth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { AlertCircle, LogOut } from "lucide-react";
+
+interface Impersonation {
+  impersonatorId: string;
+  impersonatorName: string;
+  clientId: number;
+  startedAt: string;
+  expiresAt: string;
+}
+
+// Shown across the client portal while a super admin is impersonating the client. When
+// the impersonation runs out the server has already restored the admin's session, so
+// the page just reloads into the admin panel.
+export default function ImpersonationBanner() {
+  const { user } = useAuth();
+  const impersonation = (user as { impersonation?: Impersonation | null } | undefined)?.impersonation;
+  const [timeLeft, setTimeLeft] = useState("");
+
+  const backToAdmin = () => {
+    queryClient.clear();
+    window.location.href = "/";
+  };
+
+  const exitMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("/api/impersonation/exit", { method: "POST" });
+    },
+    // Either way the admin's own session is what's left
+    onSettled: backToAdmin,
+  });
+
+  useEffect(() => {
+    if (!impersonation) return;
+
+    const expiresAt = new Date(impersonation.expiresAt).getTime();
+    let ended = false;
+    const updateCountdown = () => {
+      const diff = Math.max(expiresAt - Date.now(), 0);
+      const minutes = Math.floor(diff / (1000 * 60));
+      const seconds = Math.floor((diff % (1000 * 60)) / 1000);
+      setTimeLeft(`${minutes}:${seconds.toString().padStart(2, '0')}`);
+
+      if (diff === 0 && !ended) {
+        ended = true;
+        exitMutation.mutate();
+      }
+    };
+
+    updateCountdown();
+    const interval = setInterval(updateCountdown, 1000);
+
+    return () => clearInterval(interval);
+  }, [impersonation?.expiresAt]);
+
+  if (!impersonation) return null;
+
+  return (
+    <div className="bg-orange-500 text-white px-4 py-2">
+      <div className="flex justify-between items-center">
+        <div className="flex items-center space-x-2">
+          <AlertCircle className="h-4 w-4" />
+          <span className="font-medium">
+            {impersonation.impersonatorName} is viewing this portal as the client
+          </span>
+          <span className="text-sm text-orange-100">Ends in {timeLeft}</span>
+        </div>
+        <Button
+          size="sm"
+          variant="secondary"
+          onClick={() => exitMutation.mutate()}
+          disabled={exitMutation.isPending}
+          className="bg-white text-orange-500 hover:bg-gray-100"
+        >
+          <LogOut className="h-4 w-4 mr-2" />
+          Back to Admin
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,230 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import InvoicesTable from "@/components/InvoicesTable";
+import { Play } from "lucide-react";
+import { INVOICE_STATUSES, type Invoice, type InvoiceStatus } from "@shared/schema";
+
+interface InvoicesPanelProps {
+  clients: { id: number; name: string }[];
+}
+
+interface InvoiceRunResult {
+  clientId: number;
+  clientName: string;
+  invoice: Invoice | null;
+  linesAdded: number;
+  credits: number;
+  unpriced: string[];
+}
+
+function previousMonth() {
+  const now = new Date();
+  const date = new Date(now.getFullYear(), now.getMonth() - 1, 1);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}`;
+}
+
+// Super admin billing: monthly invoicing runs and the invoice lifecycle
+// (draft → issued → paid, or void with a reason).
+export default function InvoicesPanel({ clients }: InvoicesPanelProps) {
+  const { toast } = useToast();
+  const [month, setMonth] = useState(previousMonth);
+  const [clientId, setClientId] = useState("all");
+  const [includeFailedAttempts, setIncludeFailedAttempts] = useState(false);
+  const [issue, setIssue] = useState(false);
+  const [statusFilter, setStatusFilter] = useState("all");
+  const [voiding, setVoiding] = useState<Invoice | null>(null);
+  const [voidReason, setVoidReason] = useState("");
+
+  const { data: invoices = [], isLoading } = useQuery<Invoice[]>({
+    queryKey: ["/api/invoices", statusFilter === "all" ? {} : { status: statusFilter }],
+    retry: false,
+  });
+
+  const runMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("/api/invoices/run", {
+        method: "POST",
+        body: JSON.stringify({
+          month,
+          clientId: clientId === "all" ? undefined : parseInt(clientId),
+          includeFailedAttempts,
+          issue,
+        }),
+      });
+      return response.json() as Promise<InvoiceRunResult[]>;
+    },
+    onSuccess: (results) => {
+      const invoiced = results.filter((result) => result.invoice);
+      const unpriced = results.reduce((sum, result) => sum + result.unpriced.length, 0);
+      toast({
+        title: "Invoicing Complete",
+        description: `${invoiced.length} of ${results.length} clients invoiced for ${month}.` +
+          (unpriced > 0 ? ` ${unpriced} orders have no frozen price and were skipped.` : ""),
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/invoices"] });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to run invoicing", variant: "destructive" });
+    },
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: async ({ id, status, reason }: { id: number; status: InvoiceStatus; reason?: string }) => {
+      await apiRequest(`/api/invoices/${id}/status`, {
+        method: "PATCH",
+        body: JSON.stringify({ status, reason }),
+      });
+    },
+    onSuccess: (_, { status }) => {
+      toast({ title: "Invoice Updated", description: `Invoice marked as ${status}.` });
+      queryClient.invalidateQueries({ queryKey: ["/api/invoices"] });
+      setVoiding(null);
+      setVoidReason("");
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to update invoice", variant: "destructive" });
+    },
+  });
+
+  const clientNames = Object.fromEntries(clients.map((client) => [client.id, client.name]));
+
+  return (
+    <div className="space-y-4">
+      <h2 className="text-xl font-semibold">Invoices</h2>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Monthly invoicing run</CardTitle>
+          <CardDescription>
+            Bills delivered orders at their frozen prices. Re-running a month adds new orders to its draft.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-wrap items-end gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="invoice-month">Month</Label>
+            <Input id="invoice-month" type="month" value={month} onChange={(e) => setMonth(e.target.value)} className="w-44" />
+          </div>
+          <div className="space-y-1">
+            <Label>Client</Label>
+            <Select value={clientId} onValueChange={setClientId}>
+              <SelectTrigger className="w-52">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All active clients</SelectItem>
+                {clients.map((client) => (
+                  <SelectItem key={client.id} value={client.id.toString()}>{client.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <label className="flex items-center gap-2 text-sm pb-2">
+            <Switch checked={includeFailedAttempts} onCheckedChange={setIncludeFailedAttempts} />
+            Bill failed attempts
+          </label>
+          <label className="flex items-center gap-2 text-sm pb-2">
+            <Switch checked={issue} onCheckedChange={setIssue} />
+            Issue immediately
+          </label>
+          <Button
+            onClick={() => runMutation.mutate()}
+            disabled={!month || runMutation.isPending}
+            className="bg-shippxpress-navy hover:bg-shippxpress-navy/90"
+          >
+            <Play className="mr-2 h-4 w-4" />
+            {runMutation.isPending ? "Running..." : "Run Invoicing"}
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle>All invoices</CardTitle>
+          <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All statuses</SelectItem>
+              {INVOICE_STATUSES.map((value) => (
+                <SelectItem key={value} value={value}>
+                  {value.charAt(0).toUpperCase() + value.slice(1)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent>
+          <InvoicesTable
+            invoices={invoices}
+            isLoading={isLoading}
+            clientNames={clientNames}
+            actions={(invoice) => (
+              <>
+                {invoice.status === "draft" && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={statusMutation.isPending}
+                    onClick={() => statusMutation.mutate({ id: invoice.id, status: "issued" })}
+                  >
+                    Issue
+                  </Button>
+                )}
+                {invoice.status === "issued" && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={statusMutation.isPending}
+                    onClick={() => statusMutation.mutate({ id: invoice.id, status: "paid" })}
+                  >
+                    Mark Paid
+                  </Button>
+                )}
+                {(invoice.status === "draft" || invoice.status === "issued") && (
+                  <Button size="sm" variant="ghost" className="text-red-600" onClick={() => setVoiding(invoice)}>
+                    Void
+                  </Button>
+                )}
+              </>
+            )}
+          />
+        </CardContent>
+      </Card>
+
+      <Dialog open={voiding !== null} onOpenChange={(open) => !open && setVoiding(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Void {voiding?.invoiceNumber}</DialogTitle>
+            <DialogDescription>
+              Its orders become billable again on the next run. This can't be undone.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-1">
+            <Label htmlFor="void-reason">Reason</Label>
+            <Input id="void-reason" value={voidReason} onChange={(e) => setVoidReason(e.target.value)} />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setVoiding(null)}>Cancel</Button>
+            <Button
+              variant="destructive"
+              disabled={!voidReason.trim() || statusMutation.isPending}
+              onClick={() => voiding && statusMutation.mutate({ id: voiding.id, status: "void", reason: voidReason.trim() })}
+            >
+              Void Invoice
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
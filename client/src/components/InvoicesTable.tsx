@@ -0,0 +1,152 @@
+import { useState, type ReactNode } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Download, Eye } from "lucide-react";
+import type { Invoice, InvoiceLine } from "@shared/schema";
+
+export const INVOICE_STATUS_STYLES: Record<string, string> = {
+  draft: "bg-gray-100 text-gray-800",
+  issued: "bg-blue-100 text-blue-800",
+  paid: "bg-green-100 text-green-800",
+  void: "bg-red-100 text-red-800",
+};
+
+type InvoiceWithLines = Invoice & { lines: InvoiceLine[] };
+
+interface InvoicesTableProps {
+  invoices: Invoice[];
+  isLoading: boolean;
+  clientNames?: Record<number, string>; // shown as a column when given
+  actions?: (invoice: Invoice) => ReactNode;
+}
+
+export function formatInvoiceAmount(amount: string, currency: string) {
+  return new Intl.NumberFormat("en-US", { style: "currency", currency }).format(parseFloat(amount));
+}
+
+function formatPeriod(invoice: Invoice) {
+  const format = (date: string) => new Date(`${date}T00:00:00`).toLocaleDateString();
+  return invoice.periodStart === invoice.periodEnd
+    ? format(invoice.periodStart)
+    : `${format(invoice.periodStart)} – ${format(invoice.periodEnd)}`;
+}
+
+function InvoiceLinesDialog({ invoiceId, onClose }: { invoiceId: number; onClose: () => void }) {
+  const { data: invoice, isLoading } = useQuery<InvoiceWithLines>({
+    queryKey: [`/api/invoices/${invoiceId}`],
+  });
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-4xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{invoice?.invoiceNumber ?? "Invoice"}</DialogTitle>
+          <DialogDescription>{invoice && `${formatPeriod(invoice)} · ${invoice.status}`}</DialogDescription>
+        </DialogHeader>
+        {isLoading || !invoice ? (
+          <p className="text-sm text-gray-500">Loading...</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Description</TableHead>
+                <TableHead className="text-right">Weight</TableHead>
+                <TableHead className="text-right">Distance</TableHead>
+                <TableHead className="text-right">Priority</TableHead>
+                <TableHead className="text-right">Other</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {invoice.lines.map((line) => (
+                <TableRow key={line.id} className={line.type === "credit" ? "text-red-700" : undefined}>
+                  <TableCell className="text-xs">{line.serviceDate}</TableCell>
+                  <TableCell className="text-xs">{line.description}</TableCell>
+                  <TableCell className="text-right text-xs">{formatInvoiceAmount(line.weightCharge, invoice.currency)}</TableCell>
+                  <TableCell className="text-right text-xs">{formatInvoiceAmount(line.distanceCharge, invoice.currency)}</TableCell>
+                  <TableCell className="text-right text-xs">{formatInvoiceAmount(line.priorityCharge, invoice.currency)}</TableCell>
+                  <TableCell className="text-right text-xs">{formatInvoiceAmount(line.otherCharges, invoice.currency)}</TableCell>
+                  <TableCell className="text-right text-xs font-medium">{formatInvoiceAmount(line.amount, invoice.currency)}</TableCell>
+                </TableRow>
+              ))}
+              <TableRow>
+                <TableCell colSpan={6} className="text-right font-semibold">Total</TableCell>
+                <TableCell className="text-right font-semibold">{formatInvoiceAmount(invoice.total, invoice.currency)}</TableCell>
+              </TableRow>
+            </TableBody>
+          </Table>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Invoice list shared by the client Billing page and the super admin Invoices tab
+export default function InvoicesTable({ invoices, isLoading, clientNames, actions }: InvoicesTableProps) {
+  const [viewing, setViewing] = useState<number | null>(null);
+  const columnCount = clientNames ? 8 : 7;
+
+  return (
+    <>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Invoice #</TableHead>
+            {clientNames && <TableHead>Client</TableHead>}
+            <TableHead>Period</TableHead>
+            <TableHead>Type</TableHead>
+            <TableHead>Status</TableHead>
+            <TableHead className="text-right">Total</TableHead>
+            <TableHead>Due</TableHead>
+            <TableHead>Actions</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {isLoading ? (
+            <TableRow>
+              <TableCell colSpan={columnCount} className="text-center">Loading...</TableCell>
+            </TableRow>
+          ) : invoices.length === 0 ? (
+            <TableRow>
+              <TableCell colSpan={columnCount} className="text-center">No invoices found</TableCell>
+            </TableRow>
+          ) : (
+            invoices.map((invoice) => (
+              <TableRow key={invoice.id}>
+                <TableCell className="font-mono text-sm">{invoice.invoiceNumber}</TableCell>
+                {clientNames && <TableCell>{clientNames[invoice.clientId] ?? `Client #${invoice.clientId}`}</TableCell>}
+                <TableCell className="text-sm">{formatPeriod(invoice)}</TableCell>
+                <TableCell className="text-sm">{invoice.kind === "monthly" ? "Monthly" : "Per order"}</TableCell>
+                <TableCell>
+                  <Badge className={INVOICE_STATUS_STYLES[invoice.status]}>
+                    {invoice.status.charAt(0).toUpperCase() + invoice.status.slice(1)}
+                  </Badge>
+                </TableCell>
+                <TableCell className="text-right font-medium">{formatInvoiceAmount(invoice.total, invoice.currency)}</TableCell>
+                <TableCell className="text-sm">{invoice.dueAt ? new Date(invoice.dueAt).toLocaleDateString() : "-"}</TableCell>
+                <TableCell>
+                  <div className="flex items-center gap-1">
+                    <Button size="sm" variant="ghost" title="View lines" onClick={() => setViewing(invoice.id)}>
+                      <Eye className="h-4 w-4" />
+                    </Button>
+                    <Button size="sm" variant="ghost" title="Download PDF" asChild>
+                      <a href={`/api/invoices/${invoice.id}/pdf`} download>
+                        <Download className="h-4 w-4" />
+                      </a>
+                    </Button>
+                    {actions?.(invoice)}
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))
+          )}
+        </TableBody>
+      </Table>
+      {viewing !== null && <InvoiceLinesDialog invoiceId={viewing} onClose={() => setViewing(null)} />}
+    </>
+  );
+}
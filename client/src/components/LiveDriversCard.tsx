@@ -0,0 +1,53 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Navigation } from "lucide-react";
+import { useLiveDriverLocations } from "@/hooks/useLiveTracking";
+
+// Drivers currently carrying this client's orders, positioned live over the tracking socket.
+// The server only sends drivers the signed-in user is allowed to see.
+export default function LiveDriversCard() {
+  const { locations, connected } = useLiveDriverLocations();
+  const drivers = Object.values(locations);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <Navigation className="h-5 w-5" />
+            Drivers On The Road
+          </CardTitle>
+          <Badge variant={connected ? "default" : "secondary"}>{connected ? "Live" : "Connecting..."}</Badge>
+        </div>
+        <CardDescription>Live positions of drivers carrying your orders</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {drivers.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-4">No drivers are out with your orders right now</p>
+        ) : (
+          <div className="space-y-3">
+            {drivers.map((driver) => (
+              <div key={driver.driverId} className="flex items-center justify-between p-3 border rounded-lg">
+                <div>
+                  <h4 className="text-sm font-semibold">Driver #{driver.driverId}</h4>
+                  <p className="text-xs text-gray-500">
+                    {driver.lat.toFixed(5)}, {driver.lng.toFixed(5)}
+                    {driver.recordedAt && ` • updated ${new Date(driver.recordedAt).toLocaleTimeString()}`}
+                  </p>
+                </div>
+                <a
+                  href={`https://www.google.com/maps?q=${driver.lat},${driver.lng}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-sm text-shippxpress-navy hover:text-shippxpress-orange"
+                >
+                  View map
+                </a>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
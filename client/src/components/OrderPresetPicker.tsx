@@ -0,0 +1,238 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { BookmarkPlus, FileText, MapPin, Trash2 } from "lucide-react";
+import type { AddressBookEntry, InsertOrder, OrderTemplate } from "@shared/schema";
+
+// Order form fields a template or saved address can fill in
+export type OrderPresetValues = Pick<
+  InsertOrder,
+  | "customerName"
+  | "customerPhone"
+  | "customerEmail"
+  | "deliveryLine1"
+  | "deliveryLine2"
+  | "deliveryCity"
+  | "deliveryState"
+  | "deliveryZip"
+  | "deliveryCountry"
+  | "specialInstructions"
+  | "packages"
+>;
+
+interface OrderPresetPickerProps {
+  getValues: () => OrderPresetValues;
+  onApply: (values: Partial<OrderPresetValues>) => void;
+}
+
+type SaveMode = "template" | "address";
+
+export default function OrderPresetPicker({ getValues, onApply }: OrderPresetPickerProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [saveMode, setSaveMode] = useState<SaveMode | null>(null);
+  const [name, setName] = useState("");
+
+  const { data: templates = [] } = useQuery<OrderTemplate[]>({
+    queryKey: ["/api/order-templates"],
+  });
+
+  const { data: addresses = [] } = useQuery<AddressBookEntry[]>({
+    queryKey: ["/api/address-book"],
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (mode: SaveMode) => {
+      const values = getValues();
+      const address = {
+        customerName: values.customerName,
+        customerPhone: values.customerPhone || null,
+        customerEmail: values.customerEmail || null,
+        deliveryLine1: values.deliveryLine1,
+        deliveryLine2: values.deliveryLine2 || null,
+        deliveryCity: values.deliveryCity,
+        deliveryState: values.deliveryState,
+        deliveryZip: values.deliveryZip,
+        deliveryCountry: values.deliveryCountry || "USA",
+      };
+      const body = mode === "template"
+        ? { ...address, name, packages: values.packages, specialInstructions: values.specialInstructions || null }
+        : { ...address, label: name };
+
+      const response = await apiRequest(mode === "template" ? "/api/order-templates" : "/api/address-book", {
+        method: "POST",
+        body: JSON.stringify(body),
+      });
+      return response.json();
+    },
+    onSuccess: (_data, mode) => {
+      queryClient.invalidateQueries({ queryKey: [mode === "template" ? "/api/order-templates" : "/api/address-book"] });
+      toast({
+        title: "Saved",
+        description: mode === "template" ? `Template "${name}" saved.` : `Address "${name}" saved to your address book.`,
+      });
+      setSaveMode(null);
+      setName("");
+    },
+    onError: (error) => {
+      toast({
+        title: "Could not save",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async ({ kind, id }: { kind: SaveMode; id: number }) => {
+      await apiRequest(kind === "template" ? `/api/order-templates/${id}` : `/api/address-book/${id}`, {
+        method: "DELETE",
+      });
+      return kind;
+    },
+    onSuccess: (kind) => {
+      queryClient.invalidateQueries({ queryKey: [kind === "template" ? "/api/order-templates" : "/api/address-book"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const applyTemplate = (template: OrderTemplate) => {
+    onApply({
+      customerName: template.customerName,
+      customerPhone: template.customerPhone ?? "",
+      customerEmail: template.customerEmail ?? "",
+      deliveryLine1: template.deliveryLine1,
+      deliveryLine2: template.deliveryLine2 ?? "",
+      deliveryCity: template.deliveryCity,
+      deliveryState: template.deliveryState,
+      deliveryZip: template.deliveryZip,
+      deliveryCountry: template.deliveryCountry,
+      specialInstructions: template.specialInstructions ?? "",
+      packages: template.packages as OrderPresetValues["packages"],
+    });
+  };
+
+  const applyAddress = (entry: AddressBookEntry) => {
+    onApply({
+      customerName: entry.customerName,
+      customerPhone: entry.customerPhone ?? "",
+      customerEmail: entry.customerEmail ?? "",
+      deliveryLine1: entry.deliveryLine1,
+      deliveryLine2: entry.deliveryLine2 ?? "",
+      deliveryCity: entry.deliveryCity,
+      deliveryState: entry.deliveryState,
+      deliveryZip: entry.deliveryZip,
+      deliveryCountry: entry.deliveryCountry,
+    });
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button size="sm" className="bg-blue-600 hover:bg-blue-700 text-white">
+            Apply Preset ▼
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-72 max-h-96 overflow-y-auto">
+          <DropdownMenuLabel>Templates</DropdownMenuLabel>
+          {templates.length === 0 && (
+            <div className="px-2 py-1.5 text-xs text-gray-500">No saved templates</div>
+          )}
+          {templates.map((template) => (
+            <DropdownMenuItem key={`template-${template.id}`} onSelect={() => applyTemplate(template)}>
+              <FileText className="h-4 w-4 mr-2 text-gray-500" />
+              <span className="flex-1 truncate">{template.name}</span>
+              <Trash2
+                className="h-3.5 w-3.5 text-gray-400 hover:text-red-600"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  deleteMutation.mutate({ kind: "template", id: template.id });
+                }}
+              />
+            </DropdownMenuItem>
+          ))}
+
+          <DropdownMenuSeparator />
+          <DropdownMenuLabel>Address Book</DropdownMenuLabel>
+          {addresses.length === 0 && (
+            <div className="px-2 py-1.5 text-xs text-gray-500">No saved addresses</div>
+          )}
+          {addresses.map((entry) => (
+            <DropdownMenuItem key={`address-${entry.id}`} onSelect={() => applyAddress(entry)}>
+              <MapPin className="h-4 w-4 mr-2 text-gray-500" />
+              <div className="flex-1 min-w-0">
+                <div className="truncate">{entry.label}</div>
+                <div className="truncate text-xs text-gray-500">
+                  {entry.formattedAddress || `${entry.deliveryLine1}, ${entry.deliveryCity}`}
+                </div>
+              </div>
+              <Trash2
+                className="h-3.5 w-3.5 text-gray-400 hover:text-red-600"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  deleteMutation.mutate({ kind: "address", id: entry.id });
+                }}
+              />
+            </DropdownMenuItem>
+          ))}
+
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={() => setSaveMode("template")}>
+            <BookmarkPlus className="h-4 w-4 mr-2" />
+            Save current order as template
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => setSaveMode("address")}>
+            <BookmarkPlus className="h-4 w-4 mr-2" />
+            Save address to address book
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={!!saveMode} onOpenChange={(open) => !open && setSaveMode(null)}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>{saveMode === "template" ? "Save Template" : "Save Address"}</DialogTitle>
+            <DialogDescription>
+              {saveMode === "template"
+                ? "Save the recipient, address and packages for repeat shipments."
+                : "The address is validated before it is added to your address book."}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <Input
+              placeholder={saveMode === "template" ? "Template name" : "Label, e.g. Main Warehouse"}
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+            <Button
+              className="w-full bg-shippxpress-navy hover:bg-shippxpress-navy/90 text-white"
+              onClick={() => saveMode && saveMutation.mutate(saveMode)}
+              disabled={!name.trim() || saveMutation.isPending}
+            >
+              {saveMutation.isPending ? (saveMode === "address" ? "Validating..." : "Saving...") : "Save"}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
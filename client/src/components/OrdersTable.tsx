@@ -1,6 +1,7 @@
 import { useState, useEffect } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
 import { apiRequest } from "@/lib/queryClient";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -9,20 +10,34 @@ import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
-import { Eye, Route, Edit, Plus, Upload, Phone, MapPin, Clock, FileText, Printer, X, Package2 } from "lucide-react";
+import { Eye, Route, Edit, Plus, Upload, Phone, MapPin, Clock, FileText, Printer, X, Package2, Pin, PinOff } from "lucide-react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { CreateOrderModalNew } from "./CreateOrderModalNew";
-import ShippingLabel from "./ShippingLabel";
-import { Order, Driver } from "@shared/schema";
+import PackageLabels from "./PackageLabels";
+import PackagesPanel from "./PackagesPanel";
+import ProofOfDeliveryPanel from "./ProofOfDeliveryPanel";
+import PriceBreakdown from "./PriceBreakdown";
+import { Order, Driver, PIECE_EXCEPTION_LABELS, type PieceException } from "@shared/schema";
+import { ORDER_STATUSES, ORDER_STATUS_LABELS, canTransition } from "@shared/orderStatus";
 
 interface OrdersTableProps {
   limit?: number;
   showFilters?: boolean;
   statusFilter?: string;
+  canAssign?: boolean;
+  canVoid?: boolean;
 }
 
-export default function OrdersTable({ limit, showFilters = true, statusFilter: propStatusFilter }: OrdersTableProps) {
+// Orders carry the price frozen when they were created; older ones predate server
+// pricing and show the legacy estimate
+function getOrderPrice(order: Order): number {
+  if (order.price) return parseFloat(order.price);
+  return parseFloat(order.weight || "0") * 0.75 + parseFloat(order.distance || "0") * 0.025;
+}
+
+export default function OrdersTable({ limit, showFilters = true, statusFilter: propStatusFilter, canAssign = false, canVoid = true }: OrdersTableProps) {
   const { toast } = useToast();
+  const { user } = useAuth();
   const queryClient = useQueryClient();
   const [statusFilter, setStatusFilter] = useState("all");
   const [searchQuery, setSearchQuery] = useState("");
@@ -59,6 +74,7 @@ export default function OrdersTable({ limit, showFilters = true, statusFilter: p
 
   const { data: availableDrivers = [] } = useQuery<Driver[]>({
     queryKey: ["/api/drivers/available"],
+    enabled: canAssign,
   });
 
   const assignDriverMutation = useMutation({
@@ -96,6 +112,27 @@ export default function OrdersTable({ limit, showFilters = true, statusFilter: p
     },
   });
 
+  // Auto-assignment skips pinned orders; manual assignments are pinned automatically
+  const pinAssignmentMutation = useMutation({
+    mutationFn: async ({ orderId, pinned }: { orderId: number; pinned: boolean }) => {
+      await apiRequest(`/api/orders/${orderId}/pin`, {
+        method: "PATCH",
+        body: JSON.stringify({ pinned }),
+        headers: { "Content-Type": "application/json" },
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to update the assignment pin. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
   const voidOrderMutation = useMutation({
     mutationFn: async (orderId: number) => {
       await apiRequest(`/api/orders/${orderId}/void`, {
@@ -137,14 +174,19 @@ export default function OrdersTable({ limit, showFilters = true, statusFilter: p
         return "bg-error-100 text-error-800";
       case "assigned":
         return "bg-primary-100 text-primary-800";
+      case "partially_picked":
       case "picked":
         return "bg-warning-100 text-warning-800";
       case "in_transit":
+      case "partially_delivered":
         return "bg-warning-100 text-warning-800";
       case "delivered":
         return "bg-success-100 text-success-800";
       case "failed":
         return "bg-error-100 text-error-800";
+      case "return_to_sender":
+      case "returned":
+        return "bg-warning-100 text-warning-800";
       case "voided":
         return "bg-gray-300 text-gray-600";
       default:
@@ -158,9 +200,11 @@ export default function OrdersTable({ limit, showFilters = true, statusFilter: p
         return <Clock className="h-3 w-3" />;
       case "assigned":
         return <Eye className="h-3 w-3" />;
+      case "partially_picked":
       case "picked":
         return <Route className="h-3 w-3" />;
       case "in_transit":
+      case "partially_delivered":
         return <Route className="h-3 w-3" />;
       case "delivered":
         return <Eye className="h-3 w-3" />;
@@ -228,13 +272,9 @@ export default function OrdersTable({ limit, showFilters = true, statusFilter: p
                   </SelectTrigger>
                   <SelectContent>
                     <SelectItem value="all">All Status</SelectItem>
-                    <SelectItem value="pending">Pending</SelectItem>
-                    <SelectItem value="assigned">Assigned</SelectItem>
-                    <SelectItem value="picked">Picked</SelectItem>
-                    <SelectItem value="in_transit">In Transit</SelectItem>
-                    <SelectItem value="delivered">Delivered</SelectItem>
-                    <SelectItem value="failed">Failed</SelectItem>
-                    <SelectItem value="voided">Voided</SelectItem>
+                    {ORDER_STATUSES.map((status) => (
+                      <SelectItem key={status} value={status}>{ORDER_STATUS_LABELS[status]}</SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
               )}
@@ -356,10 +396,15 @@ export default function OrdersTable({ limit, showFilters = true, statusFilter: p
                         {order.status === 'voided' && (
                           <div className="text-xs text-red-500 mt-1">Order cancelled</div>
                         )}
+                        {order.pieceException && (
+                          <div className="text-xs text-red-500 mt-1">
+                            {PIECE_EXCEPTION_LABELS[order.pieceException as PieceException] ?? "Pieces missing"}
+                          </div>
+                        )}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap">
                         <div className="text-sm font-medium text-gray-900">
-                          ${((order.weight || 0) * 0.75 + (order.distance || 0) * 0.025).toFixed(2)}
+                          ${getOrderPrice(order).toFixed(2)}
                         </div>
                         <div className="text-xs text-gray-500">
                           {order.weight || 0} lbs • {order.distance || 0} mi
@@ -402,21 +447,20 @@ export default function OrdersTable({ limit, showFilters = true, statusFilter: p
                                 </div>
                                 <div>
                                   <h3 className="font-medium text-sm mb-2">Package Details</h3>
-                                  {order.packages?.map((pkg: any, index: number) => (
-                                    <div key={index} className="text-sm border p-2 rounded mb-2">
-                                      <p>Package {index + 1}/{order.packages.length}</p>
-                                      <p>Weight: {pkg.weight} lbs</p>
-                                      <p>Dimensions: {pkg.dimensions?.length}" × {pkg.dimensions?.width}" × {pkg.dimensions?.height}"</p>
-                                      {pkg.description && <p>Description: {pkg.description}</p>}
-                                    </div>
-                                  ))}
+                                  <PackagesPanel orderId={order.id} pieceException={order.pieceException} />
                                 </div>
                                 <div className="grid grid-cols-2 gap-4">
                                   <div>
                                     <h3 className="font-medium text-sm mb-2">Billing</h3>
-                                    <p className="text-sm">Weight: {order.weight || 0} lbs × $0.75 = ${((order.weight || 0) * 0.75).toFixed(2)}</p>
-                                    <p className="text-sm">Distance: {order.distance || 0} mi × $0.025 = ${((order.distance || 0) * 0.025).toFixed(2)}</p>
-                                    <p className="text-sm font-medium">Total: ${((order.weight || 0) * 0.75 + (order.distance || 0) * 0.025).toFixed(2)}</p>
+                                    {order.priceBreakdown ? (
+                                      <PriceBreakdown quote={order.priceBreakdown} />
+                                    ) : (
+                                      <>
+                                        <p className="text-sm">Weight: {order.weight || 0} lbs × $0.75 = ${(parseFloat(order.weight || "0") * 0.75).toFixed(2)}</p>
+                                        <p className="text-sm">Distance: {order.distance || 0} mi × $0.025 = ${(parseFloat(order.distance || "0") * 0.025).toFixed(2)}</p>
+                                        <p className="text-sm font-medium">Total: ${getOrderPrice(order).toFixed(2)}</p>
+                                      </>
+                                    )}
                                   </div>
                                   <div>
                                     <h3 className="font-medium text-sm mb-2">Status</h3>
@@ -425,6 +469,12 @@ export default function OrdersTable({ limit, showFilters = true, statusFilter: p
                                     </Badge>
                                   </div>
                                 </div>
+                                {(order.status === "delivered" || order.deliveryProofUrl) && (
+                                  <div>
+                                    <h3 className="font-medium text-sm mb-2">Proof of Delivery</h3>
+                                    <ProofOfDeliveryPanel orderId={order.id} />
+                                  </div>
+                                )}
                               </div>
                             </DialogContent>
                           </Dialog>
@@ -439,20 +489,7 @@ export default function OrdersTable({ limit, showFilters = true, statusFilter: p
                               <DialogHeader className="mb-6">
                                 <DialogTitle className="text-xl">Shipping Labels - {order.orderNumber}</DialogTitle>
                               </DialogHeader>
-                              <div className="space-y-8">
-                                {order.packages?.map((pkg: any, index: number) => (
-                                  <div key={index} className="border-b border-gray-200 pb-6 last:border-b-0">
-                                    <h3 className="font-semibold text-lg mb-4 text-gray-800">
-                                      Package {index + 1} of {order.packages.length}
-                                    </h3>
-                                    <div className="flex justify-center">
-                                      <ShippingLabel 
-                                        order={{...order, currentPackage: index + 1, totalPackages: order.packages.length, packageDetails: pkg}} 
-                                      />
-                                    </div>
-                                  </div>
-                                ))}
-                              </div>
+                              <PackageLabels order={order} />
                             </DialogContent>
                           </Dialog>
 
@@ -466,7 +503,43 @@ export default function OrdersTable({ limit, showFilters = true, statusFilter: p
                             <Package2 className="h-4 w-4" />
                           </Button>
 
-                          {order.status !== 'voided' && order.status !== 'delivered' && (
+                          {canAssign && (order.status === 'pending' || order.status === 'assigned') && (
+                            <>
+                              <Select
+                                value={order.driverId ? order.driverId.toString() : undefined}
+                                onValueChange={(value) => assignDriverMutation.mutate({ orderId: order.id, driverId: parseInt(value) })}
+                                disabled={assignDriverMutation.isPending}
+                              >
+                                <SelectTrigger className="w-36 h-8">
+                                  <SelectValue placeholder="Assign driver" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {order.driverId && !availableDrivers.some((driver) => driver.id === order.driverId) && (
+                                    <SelectItem value={order.driverId.toString()}>Driver #{order.driverId}</SelectItem>
+                                  )}
+                                  {availableDrivers.map((driver) => (
+                                    <SelectItem key={driver.id} value={driver.id.toString()}>
+                                      Driver #{driver.id}{driver.vehicleType ? ` (${driver.vehicleType})` : ''}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                              {order.driverId && (
+                                <Button
+                                  size="sm"
+                                  variant="ghost"
+                                  title={order.assignmentPinned ? "Pinned: auto-assign won't change it. Click to unpin" : "Pin this assignment"}
+                                  onClick={() => pinAssignmentMutation.mutate({ orderId: order.id, pinned: !order.assignmentPinned })}
+                                  disabled={pinAssignmentMutation.isPending}
+                                  className={order.assignmentPinned ? "text-shippxpress-orange" : "text-gray-400"}
+                                >
+                                  {order.assignmentPinned ? <Pin className="h-4 w-4" /> : <PinOff className="h-4 w-4" />}
+                                </Button>
+                              )}
+                            </>
+                          )}
+
+                          {canVoid && canTransition(order.status, 'voided', user?.role) && (
                             <Button 
                               size="sm" 
                               variant="ghost" 
@@ -546,22 +619,7 @@ export default function OrdersTable({ limit, showFilters = true, statusFilter: p
           <DialogHeader className="mb-6">
             <DialogTitle className="text-xl">Shipping Labels - {selectedOrder?.orderNumber}</DialogTitle>
           </DialogHeader>
-          {selectedOrder && (
-            <div className="space-y-8">
-              {selectedOrder.packages?.map((pkg: any, index: number) => (
-                <div key={index} className="border-b border-gray-200 pb-6 last:border-b-0">
-                  <h3 className="font-semibold text-lg mb-4 text-gray-800">
-                    Package {index + 1} of {selectedOrder.packages.length}
-                  </h3>
-                  <div className="flex justify-center">
-                    <ShippingLabel 
-                      order={{...selectedOrder, currentPackage: index + 1, totalPackages: selectedOrder.packages.length, packageDetails: pkg}} 
-                    />
-                  </div>
-                </div>
-              ))}
-            </div>
-          )}
+          {selectedOrder && <PackageLabels order={selectedOrder} />}
         </DialogContent>
       </Dialog>
     </>
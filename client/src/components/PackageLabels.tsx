@@ -0,0 +1,46 @@
+import { useQuery } from "@tanstack/react-query";
+import ShippingLabel from "@/components/ShippingLabel";
+import type { PackageWithScans } from "@/components/PackagesPanel";
+import type { Order } from "@shared/schema";
+
+interface PackageLabelsProps {
+  order: Order;
+}
+
+// One label per piece, each barcode carrying that piece's tracking id
+export default function PackageLabels({ order }: PackageLabelsProps) {
+  const { data: pieces = [], isLoading } = useQuery<PackageWithScans[]>({
+    queryKey: [`/api/orders/${order.id}/packages`],
+  });
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-500">Loading labels...</p>;
+  }
+
+  return (
+    <div className="space-y-8">
+      {pieces.map((piece) => (
+        <div key={piece.id} className="border-b border-gray-200 pb-6 last:border-b-0">
+          <h3 className="font-semibold text-lg mb-4 text-gray-800">
+            Package {piece.pieceNumber} of {pieces.length}
+          </h3>
+          <div className="flex justify-center">
+            <ShippingLabel
+              order={{
+                ...order,
+                currentPackage: piece.pieceNumber,
+                totalPackages: pieces.length,
+                trackingId: piece.trackingId,
+                packageDetails: {
+                  description: piece.description,
+                  weight: piece.weight ? parseFloat(piece.weight) : undefined,
+                  dimensions: piece.dimensions,
+                },
+              }}
+            />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
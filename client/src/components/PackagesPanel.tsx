@@ -0,0 +1,66 @@
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { AlertTriangle } from "lucide-react";
+import { PIECE_EXCEPTION_LABELS, type Package, type PackageScan, type PieceException } from "@shared/schema";
+
+export type PackageWithScans = Package & { scans: PackageScan[] };
+
+const PACKAGE_STATUS_STYLES: Record<string, string> = {
+  pending: "bg-gray-100 text-gray-800",
+  picked: "bg-warning-100 text-warning-800",
+  delivered: "bg-success-100 text-success-800",
+  missing: "bg-error-100 text-error-800",
+};
+
+interface PackagesPanelProps {
+  orderId: number;
+  pieceException?: string | null;
+}
+
+// Piece-level status and scan history for the order detail views
+export default function PackagesPanel({ orderId, pieceException }: PackagesPanelProps) {
+  const { data: pieces = [], isLoading } = useQuery<PackageWithScans[]>({
+    queryKey: [`/api/orders/${orderId}/packages`],
+  });
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-500">Loading packages...</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      {pieceException && (
+        <div className="flex items-center gap-2 rounded border border-error-200 bg-error-50 p-2 text-sm text-error-800">
+          <AlertTriangle className="h-4 w-4" />
+          {PIECE_EXCEPTION_LABELS[pieceException as PieceException] ?? pieceException}
+        </div>
+      )}
+      {pieces.map((piece) => (
+        <div key={piece.id} className="text-sm border p-2 rounded">
+          <div className="flex items-center justify-between">
+            <p className="font-medium">
+              Package {piece.pieceNumber}/{pieces.length}
+              <span className="ml-2 font-mono text-xs text-gray-500">{piece.trackingId}</span>
+            </p>
+            <Badge className={PACKAGE_STATUS_STYLES[piece.status] ?? PACKAGE_STATUS_STYLES.pending}>
+              {piece.status.charAt(0).toUpperCase() + piece.status.slice(1)}
+            </Badge>
+          </div>
+          {piece.description && <p>Description: {piece.description}</p>}
+          {piece.weight && <p>Weight: {piece.weight} lbs</p>}
+          {piece.dimensions && <p>Dimensions: {piece.dimensions}</p>}
+          {piece.scans.length > 0 && (
+            <ul className="mt-1 text-xs text-gray-500">
+              {piece.scans.map((scan) => (
+                <li key={scan.id}>
+                  {scan.action === "pickup" ? "Picked up" : "Delivered"} {new Date(scan.scannedAt).toLocaleString()}
+                  {scan.driverId && ` by driver #${scan.driverId}`}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
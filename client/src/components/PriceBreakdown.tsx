@@ -0,0 +1,31 @@
+import type { PriceQuote } from "@shared/schema";
+
+interface PriceBreakdownProps {
+  quote: PriceQuote;
+}
+
+function formatMoney(amount: number, currency: string) {
+  return new Intl.NumberFormat("en-US", { style: "currency", currency }).format(amount);
+}
+
+// Itemized lines of a server quote, as previewed on create and frozen on the order
+export default function PriceBreakdown({ quote }: PriceBreakdownProps) {
+  return (
+    <div className="text-xs text-gray-600 space-y-0.5">
+      {quote.lines.map((line) => (
+        <div key={line.code} className="flex justify-between">
+          <span>{line.description}</span>
+          <span>{formatMoney(line.amount, quote.currency)}</span>
+        </div>
+      ))}
+      <div className="flex justify-between border-t pt-0.5 font-medium text-gray-800">
+        <span>Total</span>
+        <span>{formatMoney(quote.total, quote.currency)}</span>
+      </div>
+      <div className="text-gray-400">
+        {quote.rateCardName}
+        {quote.distanceSource === "none" && " · distance not yet known"}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,254 @@
+import { useEffect, useRef, useState, type PointerEvent } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { queueDriverMutation } from "@/lib/driverSync";
+import { useToast } from "@/hooks/use-toast";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Camera, CheckCircle, MapPin } from "lucide-react";
+import type { Order } from "@shared/schema";
+
+// Photos are downscaled on the device so uploads stay small on mobile data
+const MAX_PHOTO_DIMENSION = 1600;
+const PHOTO_QUALITY = 0.8;
+
+interface ProofOfDeliveryDialogProps {
+  order: Pick<Order, "id" | "orderNumber"> | null;
+  onOpenChange: (open: boolean) => void;
+  queueOffline?: boolean; // drivers queue POD through the offline sync instead of uploading directly
+}
+
+function resizePhoto(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      const scale = Math.min(1, MAX_PHOTO_DIMENSION / Math.max(image.width, image.height));
+      const canvas = document.createElement("canvas");
+      canvas.width = Math.round(image.width * scale);
+      canvas.height = Math.round(image.height * scale);
+      canvas.getContext("2d")!.drawImage(image, 0, 0, canvas.width, canvas.height);
+      URL.revokeObjectURL(url);
+      resolve(canvas.toDataURL("image/jpeg", PHOTO_QUALITY));
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("Could not read photo"));
+    };
+    image.src = url;
+  });
+}
+
+// Captures photo, signature, recipient name and geotag, then marks the order delivered
+export default function ProofOfDeliveryDialog({ order, onOpenChange, queueOffline = false }: ProofOfDeliveryDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const signatureRef = useRef<HTMLCanvasElement>(null);
+  const drawing = useRef(false);
+  const [photo, setPhoto] = useState<string | null>(null);
+  const [hasSignature, setHasSignature] = useState(false);
+  const [recipientName, setRecipientName] = useState("");
+  const [position, setPosition] = useState<GeolocationPosition | null>(null);
+  const [positionError, setPositionError] = useState<string | null>(null);
+
+  const reset = () => {
+    setPhoto(null);
+    setHasSignature(false);
+    setRecipientName("");
+  };
+
+  // Blank form and a fresh geotag each time the dialog opens for an order
+  useEffect(() => {
+    if (!order) return;
+    reset();
+    setPosition(null);
+    setPositionError(null);
+    if (!navigator.geolocation) {
+      setPositionError("Location is not available on this device");
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(
+      setPosition,
+      (error) => setPositionError(error.message),
+      { enableHighAccuracy: true, timeout: 15000, maximumAge: 30000 }
+    );
+  }, [order?.id]);
+
+  const clearSignature = () => {
+    const canvas = signatureRef.current;
+    canvas?.getContext("2d")?.clearRect(0, 0, canvas.width, canvas.height);
+    setHasSignature(false);
+  };
+
+  const pointAt = (event: PointerEvent<HTMLCanvasElement>) => {
+    const canvas = event.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: ((event.clientX - rect.left) / rect.width) * canvas.width,
+      y: ((event.clientY - rect.top) / rect.height) * canvas.height,
+    };
+  };
+
+  const startStroke = (event: PointerEvent<HTMLCanvasElement>) => {
+    const context = event.currentTarget.getContext("2d");
+    if (!context) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    drawing.current = true;
+    const { x, y } = pointAt(event);
+    context.lineWidth = 2.5;
+    context.lineCap = "round";
+    context.strokeStyle = "#111827";
+    context.beginPath();
+    context.moveTo(x, y);
+  };
+
+  const continueStroke = (event: PointerEvent<HTMLCanvasElement>) => {
+    if (!drawing.current) return;
+    const context = event.currentTarget.getContext("2d");
+    if (!context) return;
+    const { x, y } = pointAt(event);
+    context.lineTo(x, y);
+    context.stroke();
+    setHasSignature(true);
+  };
+
+  const endStroke = () => {
+    drawing.current = false;
+  };
+
+  const handlePhoto = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      setPhoto(await resizePhoto(file));
+    } catch (error: any) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    }
+  };
+
+  const deliverMutation = useMutation({
+    mutationFn: async () => {
+      const proof = {
+        photo: photo!,
+        signature: signatureRef.current!.toDataURL("image/png"),
+        recipientName,
+        lat: position?.coords.latitude ?? null,
+        lng: position?.coords.longitude ?? null,
+        accuracy: position?.coords.accuracy ?? null,
+        capturedAt: new Date().toISOString(),
+      };
+
+      if (queueOffline) {
+        await queueDriverMutation({ type: "proof", orderId: order!.id, proof });
+        await queueDriverMutation({ type: "status", orderId: order!.id, status: "delivered" });
+        return;
+      }
+
+      await apiRequest(`/api/orders/${order!.id}/proof-of-delivery`, {
+        method: "POST",
+        body: JSON.stringify(proof),
+      });
+      await apiRequest(`/api/orders/${order!.id}/status`, {
+        method: "PATCH",
+        body: JSON.stringify({ status: "delivered" }),
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+      toast({
+        title: "Delivered",
+        description: queueOffline && !navigator.onLine
+          ? `Proof of delivery for ${order?.orderNumber} saved offline. It will sync when you're back online.`
+          : `Proof of delivery saved for ${order?.orderNumber}.`,
+      });
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save proof of delivery",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={!!order} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <CheckCircle className="h-5 w-5 text-success-600" />
+            Proof of Delivery
+          </DialogTitle>
+          <DialogDescription>
+            Photo, signature and recipient name for {order?.orderNumber}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Photo</Label>
+            {photo && <img src={photo} alt="Delivered package" className="h-40 w-full rounded border object-cover" />}
+            <label className="flex items-center justify-center w-full rounded-md border border-dashed py-3 text-sm text-gray-600 cursor-pointer">
+              <Camera className="h-4 w-4 mr-2" />
+              {photo ? "Retake Photo" : "Take Photo"}
+              <input
+                type="file"
+                accept="image/*"
+                capture="environment"
+                className="hidden"
+                onChange={(e) => handlePhoto(e.target.files?.[0])}
+              />
+            </label>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Recipient Signature</Label>
+              <Button type="button" size="sm" variant="ghost" onClick={clearSignature} disabled={!hasSignature}>
+                Clear
+              </Button>
+            </div>
+            <canvas
+              ref={signatureRef}
+              width={600}
+              height={200}
+              className="w-full h-32 rounded border bg-white touch-none"
+              onPointerDown={startStroke}
+              onPointerMove={continueStroke}
+              onPointerUp={endStroke}
+              onPointerLeave={endStroke}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="pod-recipient">Recipient Name</Label>
+            <Input
+              id="pod-recipient"
+              placeholder="Printed name"
+              value={recipientName}
+              onChange={(e) => setRecipientName(e.target.value)}
+            />
+          </div>
+
+          <p className="flex items-center text-xs text-gray-500">
+            <MapPin className="h-3 w-3 mr-1" />
+            {position
+              ? `Location captured (±${Math.round(position.coords.accuracy)} m)`
+              : positionError ?? "Getting location..."}
+          </p>
+
+          <Button
+            className="w-full bg-success-600 hover:bg-success-700"
+            onClick={() => deliverMutation.mutate()}
+            disabled={!photo || !hasSignature || !recipientName.trim() || deliverMutation.isPending}
+          >
+            {deliverMutation.isPending ? "Saving..." : "Confirm Delivery"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
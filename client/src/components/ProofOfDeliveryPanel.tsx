@@ -0,0 +1,57 @@
+import { useQuery } from "@tanstack/react-query";
+import { MapPin } from "lucide-react";
+import type { DeliveryProof } from "@shared/schema";
+
+type DeliveryProofResponse = Omit<DeliveryProof, "photoKey" | "signatureKey"> & {
+  photoUrl: string;
+  signatureUrl: string;
+};
+
+interface ProofOfDeliveryPanelProps {
+  orderId: number;
+}
+
+// POD artifacts for the order detail views (admin and client portal share OrdersTable)
+export default function ProofOfDeliveryPanel({ orderId }: ProofOfDeliveryPanelProps) {
+  const { data: proof, isLoading, error } = useQuery<DeliveryProofResponse>({
+    queryKey: [`/api/orders/${orderId}/proof-of-delivery`],
+    retry: false,
+  });
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-500">Loading proof of delivery...</p>;
+  }
+
+  if (error || !proof) {
+    return <p className="text-sm text-gray-500">No proof of delivery captured</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-4">
+        <a href={proof.photoUrl} target="_blank" rel="noreferrer">
+          <img src={proof.photoUrl} alt="Delivered package" className="h-40 w-full rounded border object-cover" />
+        </a>
+        <div className="h-40 rounded border bg-white flex items-center justify-center">
+          <img src={proof.signatureUrl} alt={`Signature of ${proof.recipientName}`} className="max-h-full max-w-full object-contain" />
+        </div>
+      </div>
+      <div className="text-sm space-y-1">
+        <p>Received by <span className="font-medium">{proof.recipientName}</span></p>
+        <p className="text-gray-500">Captured {new Date(proof.capturedAt).toLocaleString()}</p>
+        {proof.lat && proof.lng && (
+          <a
+            href={`https://www.google.com/maps?q=${proof.lat},${proof.lng}`}
+            target="_blank"
+            rel="noreferrer"
+            className="inline-flex items-center text-primary-600 hover:underline"
+          >
+            <MapPin className="h-3 w-3 mr-1" />
+            {parseFloat(proof.lat).toFixed(5)}, {parseFloat(proof.lng).toFixed(5)}
+            {proof.accuracy && ` (±${Math.round(parseFloat(proof.accuracy))} m)`}
+          </a>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,341 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus } from "lucide-react";
+import type { RateCard, RateTier, Surcharge } from "@shared/schema";
+
+interface RateCardsPanelProps {
+  clients: { id: number; name: string }[];
+}
+
+// Tiers are typed as "upTo=rate" pairs, the last one open-ended with "*": "10=0.60, *=0.45".
+// A bare number is a single flat rate.
+const TIER_PATTERN = /^\s*(\*|\d+(\.\d+)?)\s*=\s*\d+(\.\d+)?\s*$/;
+
+function parseTiers(text: string): RateTier[] {
+  if (/^\s*\d+(\.\d+)?\s*$/.test(text)) {
+    return [{ upTo: null, rate: parseFloat(text) }];
+  }
+  return text.split(",").map((part) => {
+    const [upTo, rate] = part.split("=").map((value) => value.trim());
+    return { upTo: upTo === "*" ? null : parseFloat(upTo), rate: parseFloat(rate) };
+  });
+}
+
+function formatTiers(tiers: RateTier[]): string {
+  if (tiers.length === 1 && tiers[0].upTo === null) return `$${tiers[0].rate}`;
+  return tiers.map((tier) => `${tier.upTo === null ? "rest" : `≤${tier.upTo}`} @ $${tier.rate}`).join(", ");
+}
+
+function formatSurcharge(surcharge: Surcharge): string {
+  return surcharge.type === "percent" ? `${surcharge.amount}%` : `$${surcharge.amount}`;
+}
+
+const tiersField = z.string().min(1, "Required").refine(
+  (text) => /^\s*\d+(\.\d+)?\s*$/.test(text) || text.split(",").every((part) => TIER_PATTERN.test(part)),
+  "Use a rate, or upTo=rate pairs ending with *=rate",
+);
+const optionalNumber = z.string().refine((text) => text === "" || !isNaN(parseFloat(text)), "Must be a number");
+
+const rateCardFormSchema = z.object({
+  clientId: z.string(),
+  name: z.string().min(1, "Name is required"),
+  baseFee: z.string().min(1, "Required"),
+  weightTiers: tiersField,
+  distanceTiers: tiersField,
+  dimDivisor: optionalNumber,
+  priorityPercent: optionalNumber,
+  expressPercent: optionalNumber,
+  fragileFee: optionalNumber,
+  zoneSurcharges: z.string().refine(
+    (text) => text.trim() === "" || text.split(",").every((part) => /^\s*\d+\s*=\s*\d+(\.\d+)?\s*$/.test(part)),
+    "Use zoneId=amount pairs",
+  ),
+  minimumCharge: optionalNumber,
+  effectiveFrom: z.string().min(1, "Start date is required"),
+});
+
+type RateCardForm = z.infer<typeof rateCardFormSchema>;
+
+function toRateCardPayload(data: RateCardForm) {
+  const percent = (text: string) => (text ? { type: "percent" as const, amount: parseFloat(text) } : undefined);
+  const prioritySurcharges = {
+    ...(data.priorityPercent ? { priority: percent(data.priorityPercent) } : {}),
+    ...(data.expressPercent ? { express: percent(data.expressPercent) } : {}),
+  };
+
+  return {
+    clientId: data.clientId === "default" ? null : parseInt(data.clientId),
+    name: data.name,
+    baseFee: data.baseFee,
+    weightTiers: parseTiers(data.weightTiers),
+    distanceTiers: parseTiers(data.distanceTiers),
+    dimDivisor: data.dimDivisor ? parseInt(data.dimDivisor) : null,
+    prioritySurcharges: Object.keys(prioritySurcharges).length ? prioritySurcharges : null,
+    fragileSurcharge: data.fragileFee ? { type: "flat", amount: parseFloat(data.fragileFee) } : null,
+    zoneSurcharges: data.zoneSurcharges.trim()
+      ? data.zoneSurcharges.split(",").map((part) => {
+          const [zoneId, amount] = part.split("=");
+          return { zoneId: parseInt(zoneId), amount: parseFloat(amount) };
+        })
+      : null,
+    minimumCharge: data.minimumCharge || null,
+    effectiveFrom: new Date(`${data.effectiveFrom}T00:00:00`).toISOString(),
+  };
+}
+
+function getCardState(card: RateCard): { label: string; variant: "default" | "secondary" | "outline" } {
+  const now = new Date();
+  if (new Date(card.effectiveFrom) > now) return { label: "Scheduled", variant: "outline" };
+  if (card.effectiveTo && new Date(card.effectiveTo) <= now) return { label: "Ended", variant: "secondary" };
+  return { label: "In effect", variant: "default" };
+}
+
+// Super admin management of billing rate cards. Cards in effect can't be edited, only
+// ended; new rates are a new card with a future start date.
+export default function RateCardsPanel({ clients }: RateCardsPanelProps) {
+  const { toast } = useToast();
+  const [createOpen, setCreateOpen] = useState(false);
+
+  const { data: rateCards = [], isLoading } = useQuery<RateCard[]>({
+    queryKey: ["/api/rate-cards"],
+    retry: false,
+  });
+
+  const form = useForm<RateCardForm>({
+    resolver: zodResolver(rateCardFormSchema),
+    defaultValues: {
+      clientId: "default",
+      name: "",
+      baseFee: "5.00",
+      weightTiers: "0.50",
+      distanceTiers: "0.75",
+      dimDivisor: "",
+      priorityPercent: "",
+      expressPercent: "",
+      fragileFee: "",
+      zoneSurcharges: "",
+      minimumCharge: "",
+      effectiveFrom: new Date().toISOString().split("T")[0],
+    },
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (data: RateCardForm) => {
+      await apiRequest("/api/rate-cards", {
+        method: "POST",
+        body: JSON.stringify(toRateCardPayload(data)),
+      });
+    },
+    onSuccess: () => {
+      toast({ title: "Rate Card Created", description: "New orders will be priced with it from its start date." });
+      queryClient.invalidateQueries({ queryKey: ["/api/rate-cards"] });
+      setCreateOpen(false);
+      form.reset();
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to create rate card", variant: "destructive" });
+    },
+  });
+
+  const endMutation = useMutation({
+    mutationFn: async (cardId: number) => {
+      await apiRequest(`/api/rate-cards/${cardId}`, {
+        method: "PATCH",
+        body: JSON.stringify({ effectiveTo: new Date().toISOString() }),
+      });
+    },
+    onSuccess: () => {
+      toast({ title: "Rate Card Ended", description: "Existing orders keep the price they were created with." });
+      queryClient.invalidateQueries({ queryKey: ["/api/rate-cards"] });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to end rate card", variant: "destructive" });
+    },
+  });
+
+  const clientName = (clientId: number | null) =>
+    clientId === null ? "Default" : clients.find((client) => client.id === clientId)?.name ?? `Client #${clientId}`;
+
+  const textField = (name: keyof RateCardForm, label: string, placeholder?: string, type = "text") => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <FormControl>
+            <Input type={type} placeholder={placeholder} {...field} />
+          </FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <h2 className="text-xl font-semibold">Rate Cards</h2>
+        <Dialog open={createOpen} onOpenChange={setCreateOpen}>
+          <DialogTrigger asChild>
+            <Button className="bg-shippxpress-navy hover:bg-shippxpress-navy/90">
+              <Plus className="mr-2 h-4 w-4" />
+              Add Rate Card
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>Create Rate Card</DialogTitle>
+              <DialogDescription>
+                Tiers are graduated: "10=0.60, *=0.45" charges $0.60 for the first 10 and $0.45 beyond
+              </DialogDescription>
+            </DialogHeader>
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit((data) => createMutation.mutate(data))} className="space-y-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="clientId"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Applies To</FormLabel>
+                        <Select onValueChange={field.onChange} defaultValue={field.value}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="default">Default (all other clients)</SelectItem>
+                            {clients.map((client) => (
+                              <SelectItem key={client.id} value={client.id.toString()}>{client.name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  {textField("name", "Name", "e.g. 2026 standard rates")}
+                  {textField("baseFee", "Base Fee ($)")}
+                  {textField("minimumCharge", "Minimum Charge ($)", "None")}
+                  {textField("weightTiers", "Per lb")}
+                  {textField("distanceTiers", "Per mile")}
+                  {textField("dimDivisor", "Dimensional Divisor (in³/lb)", "None, e.g. 139")}
+                  {textField("fragileFee", "Fragile Surcharge ($)", "None")}
+                  {textField("priorityPercent", "Priority Surcharge (%)", "None")}
+                  {textField("expressPercent", "Express Surcharge (%)", "None")}
+                  {textField("zoneSurcharges", "Zone Surcharges ($)", "zoneId=amount, ...")}
+                  {textField("effectiveFrom", "Effective From", undefined, "date")}
+                </div>
+                <div className="flex justify-end space-x-2">
+                  <Button type="button" variant="outline" onClick={() => setCreateOpen(false)}>
+                    Cancel
+                  </Button>
+                  <Button type="submit" disabled={createMutation.isPending}>
+                    {createMutation.isPending ? "Creating..." : "Create Rate Card"}
+                  </Button>
+                </div>
+              </form>
+            </Form>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Rate Cards</CardTitle>
+          <CardDescription>
+            Orders are priced with the client's card in effect when they're created, else the default card
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Client</TableHead>
+                <TableHead>Name</TableHead>
+                <TableHead>Rates</TableHead>
+                <TableHead>Surcharges</TableHead>
+                <TableHead>Effective</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center">Loading...</TableCell>
+                </TableRow>
+              ) : rateCards.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center">
+                    No rate cards yet; orders use the standard $5.00 + $0.50/lb + $0.75/mi
+                  </TableCell>
+                </TableRow>
+              ) : (
+                rateCards.map((card) => {
+                  const state = getCardState(card);
+                  return (
+                    <TableRow key={card.id}>
+                      <TableCell>{clientName(card.clientId)}</TableCell>
+                      <TableCell className="font-medium">{card.name}</TableCell>
+                      <TableCell className="text-xs">
+                        <div>Base ${card.baseFee}{card.minimumCharge && `, min $${card.minimumCharge}`}</div>
+                        <div>Per lb: {formatTiers(card.weightTiers)}</div>
+                        <div>Per mile: {formatTiers(card.distanceTiers)}</div>
+                        {card.dimDivisor && <div>Dim weight ÷ {card.dimDivisor}</div>}
+                      </TableCell>
+                      <TableCell className="text-xs">
+                        {Object.entries(card.prioritySurcharges ?? {}).map(([priority, surcharge]) => (
+                          <div key={priority} className="capitalize">{priority}: {formatSurcharge(surcharge as Surcharge)}</div>
+                        ))}
+                        {card.fragileSurcharge && <div>Fragile: {formatSurcharge(card.fragileSurcharge)}</div>}
+                        {card.zoneSurcharges?.map((zone) => (
+                          <div key={zone.zoneId}>Zone #{zone.zoneId}: ${zone.amount}</div>
+                        ))}
+                      </TableCell>
+                      <TableCell className="text-xs">
+                        {new Date(card.effectiveFrom).toLocaleDateString()}
+                        {" – "}
+                        {card.effectiveTo ? new Date(card.effectiveTo).toLocaleDateString() : "open"}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={state.variant}>{state.label}</Badge>
+                      </TableCell>
+                      <TableCell>
+                        {state.label === "In effect" && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => endMutation.mutate(card.id)}
+                            disabled={endMutation.isPending}
+                          >
+                            End Now
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -11,6 +11,7 @@ interface ShippingLabelProps {
   order: Order & {
     currentPackage?: number;
     totalPackages?: number;
+    trackingId?: string; // piece tracking id; labels without one carry the order number
     packageDetails?: any;
   };
   onClose?: () => void;
@@ -79,11 +80,12 @@ export default function ShippingLabel({ order, onClose }: ShippingLabelProps) {
       
       const imgData = canvas.toDataURL("image/png");
       pdf.addImage(imgData, "PNG", 0, 0, 4, 6);
-      pdf.save(`shipping-label-${order.orderNumber}.pdf`);
+      pdf.save(`shipping-label-${order.trackingId ?? order.orderNumber}.pdf`);
     }
   };
 
-  const barcodeDataURL = generateBarcode(order.orderNumber);
+  const trackingNumber = order.trackingId ?? order.orderNumber;
+  const barcodeDataURL = generateBarcode(trackingNumber);
   const packages = Array.isArray(order.packages) ? order.packages : [];
   const totalWeight = packages.reduce((sum, pkg) => sum + (pkg.weight || 0), 0);
 
@@ -162,7 +164,7 @@ export default function ShippingLabel({ order, onClose }: ShippingLabelProps) {
               className="mx-auto mb-1"
               style={{ maxWidth: "300px" }}
             />
-            <p className="text-lg font-bold tracking-wider">{order.orderNumber}</p>
+            <p className="text-lg font-bold tracking-wider">{trackingNumber}</p>
           </div>
 
           {/* Package Details */}
@@ -182,7 +184,9 @@ export default function ShippingLabel({ order, onClose }: ShippingLabelProps) {
               <p className="font-bold mb-1">Package Details:</p>
               {order.packageDetails ? (
                 <p className="text-xs leading-relaxed">
-                  Package {order.currentPackage}: {order.packageDetails.dimensions?.length || 0}"×{order.packageDetails.dimensions?.width || 0}"×{order.packageDetails.dimensions?.height || 0}" - {order.packageDetails.weight || 0}lbs
+                  Package {order.currentPackage}: {typeof order.packageDetails.dimensions === "string"
+                    ? order.packageDetails.dimensions
+                    : `${order.packageDetails.dimensions?.length || 0}"×${order.packageDetails.dimensions?.width || 0}"×${order.packageDetails.dimensions?.height || 0}"`} - {order.packageDetails.weight || 0}lbs
                   {order.packageDetails.description && <><br /><span className="italic mt-1 block">{order.packageDetails.description}</span></>}
                 </p>
               ) : packages.length > 0 ? (
@@ -0,0 +1,43 @@
+import { useEffect, useRef, type RefObject } from "react";
+import { createFrameDecoder, type DecodedBarcode } from "@/lib/barcodeDecoder";
+
+const FRAME_INTERVAL_MS = 150;
+
+// Decodes frames from the video element while enabled, one frame at a time
+export function useBarcodeDecoder(
+  videoRef: RefObject<HTMLVideoElement>,
+  enabled: boolean,
+  onDecoded: (barcode: DecodedBarcode) => void
+) {
+  const onDecodedRef = useRef(onDecoded);
+  onDecodedRef.current = onDecoded;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    createFrameDecoder().then((decoder) => {
+      const tick = async () => {
+        const video = videoRef.current;
+        if (cancelled) return;
+        if (video && video.readyState >= video.HAVE_CURRENT_DATA) {
+          try {
+            const barcode = await decoder.decode(video);
+            if (barcode && !cancelled) onDecodedRef.current(barcode);
+          } catch (error) {
+            console.error("Barcode decoding failed:", error);
+          }
+        }
+        if (!cancelled) timer = setTimeout(tick, FRAME_INTERVAL_MS);
+      };
+      tick();
+    });
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [enabled, videoRef]);
+}
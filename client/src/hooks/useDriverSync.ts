@@ -0,0 +1,64 @@
+import { useEffect, useState } from "react";
+import { useToast } from "@/hooks/use-toast";
+import { getQueuedMutations, onQueueChange } from "@/lib/offlineStore";
+import { flushDriverQueue, onDriverSyncResults } from "@/lib/driverSync";
+
+const RETRY_INTERVAL_MS = 30 * 1000;
+
+// Connectivity and pending-change count for the driver app's sync indicator. Replays the
+// offline queue when the connection comes back and surfaces changes the server discarded.
+export function useDriverSync(enabled: boolean) {
+  const { toast } = useToast();
+  const [online, setOnline] = useState(() => navigator.onLine);
+  const [pendingCount, setPendingCount] = useState(0);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const refreshCount = () => {
+      getQueuedMutations()
+        .then((queued) => setPendingCount(queued.length))
+        .catch((error) => console.error("Failed to read offline queue:", error));
+    };
+    const handleOnline = () => {
+      setOnline(true);
+      flushDriverQueue();
+    };
+    const handleOffline = () => setOnline(false);
+
+    refreshCount();
+    flushDriverQueue();
+    const unwatch = onQueueChange(refreshCount);
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+    return () => {
+      unwatch();
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+    };
+  }, [enabled]);
+
+  // Covers server errors and flaky connections that never fire an "online" event
+  useEffect(() => {
+    if (!enabled || pendingCount === 0) return;
+    const interval = setInterval(flushDriverQueue, RETRY_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [enabled, pendingCount]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    return onDriverSyncResults((results) => {
+      results
+        .filter((result) => result.outcome !== "applied")
+        .forEach((result) => {
+          toast({
+            title: result.outcome === "conflict" ? "Order Changed While Offline" : "Change Not Saved",
+            description: result.message ?? "An offline change could not be applied.",
+            variant: "destructive",
+          });
+        });
+    });
+  }, [enabled, toast]);
+
+  return { online, pendingCount, syncNow: flushDriverQueue };
+}
@@ -0,0 +1,102 @@
+import { useEffect, useRef, useState } from "react";
+import { onRealtimeStatus, sendRealtime, subscribeRealtime } from "@/lib/realtime";
+
+// Live driver positions over the shared realtime socket (see lib/realtime.ts)
+
+const PING_INTERVAL_MS = 10 * 1000;
+
+export interface LiveDriverLocation {
+  driverId: number;
+  lat: number;
+  lng: number;
+  heading: number | null;
+  speed: number | null;
+  recordedAt: string | null;
+}
+
+// Subscribes while enabled and reports whether the socket is up
+export function useRealtime(enabled: boolean, onMessage: (message: any) => void) {
+  const [connected, setConnected] = useState(false);
+  const onMessageRef = useRef(onMessage);
+  onMessageRef.current = onMessage;
+
+  useEffect(() => {
+    if (!enabled) return;
+    const unsubscribe = subscribeRealtime((message) => onMessageRef.current(message));
+    const unwatch = onRealtimeStatus(setConnected);
+    return () => {
+      unwatch();
+      unsubscribe();
+    };
+  }, [enabled]);
+
+  return enabled && connected;
+}
+
+// Latest position per driver the signed-in admin or client is allowed to see
+export function useLiveDriverLocations(enabled = true) {
+  const [locations, setLocations] = useState<Record<number, LiveDriverLocation>>({});
+
+  const connected = useRealtime(enabled, (message) => {
+    if (message.type === "snapshot") {
+      setLocations(Object.fromEntries(message.drivers.map((location: LiveDriverLocation) => [location.driverId, location])));
+    } else if (message.type === "location") {
+      setLocations((current) => ({ ...current, [message.driverId]: message }));
+    }
+  });
+
+  return { locations, connected };
+}
+
+// Streams the device position while a driver is signed in and on duty
+export function useDriverLocationPublisher(enabled: boolean) {
+  const [lastSentAt, setLastSentAt] = useState<Date | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const latest = useRef<GeolocationPosition | null>(null);
+
+  const connected = useRealtime(enabled, (message) => {
+    if (message.type === "ack") {
+      setLastSentAt(new Date(message.recordedAt));
+      setError(null);
+    } else if (message.type === "error") {
+      setError(message.message);
+    }
+  });
+
+  useEffect(() => {
+    if (!enabled || !navigator.geolocation) return;
+
+    const watchId = navigator.geolocation.watchPosition(
+      (position) => {
+        latest.current = position;
+      },
+      (positionError) => setError(positionError.message),
+      { enableHighAccuracy: true, maximumAge: 5000 }
+    );
+    return () => navigator.geolocation.clearWatch(watchId);
+  }, [enabled]);
+
+  useEffect(() => {
+    if (!connected) return;
+
+    const send = () => {
+      const position = latest.current;
+      if (!position) return;
+      sendRealtime({
+        type: "location",
+        lat: position.coords.latitude,
+        lng: position.coords.longitude,
+        accuracy: position.coords.accuracy,
+        heading: position.coords.heading,
+        speed: position.coords.speed,
+        recordedAt: new Date(position.timestamp).toISOString(),
+      });
+    };
+
+    send();
+    const interval = setInterval(send, PING_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [connected]);
+
+  return { connected, lastSentAt, error };
+}
@@ -0,0 +1,36 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import type { PriceQuote, QuoteRequest } from "@shared/schema";
+
+const QUOTE_DEBOUNCE_MS = 500;
+
+// Live server quote for an order being filled in. Waits until the address is complete
+// and the form has been still for a moment, so typing doesn't fire a request per key.
+export function useQuote(input: QuoteRequest) {
+  const [debounced, setDebounced] = useState(input);
+  const serialized = JSON.stringify(input);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebounced(JSON.parse(serialized)), QUOTE_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [serialized]);
+
+  const isComplete = !!(debounced.deliveryLine1 && debounced.deliveryCity && debounced.deliveryState && debounced.deliveryZip);
+
+  const { data: quote, isFetching, error } = useQuery<PriceQuote>({
+    queryKey: ["/api/quote", debounced],
+    queryFn: async () => {
+      const response = await apiRequest("/api/quote", {
+        method: "POST",
+        body: JSON.stringify(debounced),
+      });
+      return response.json();
+    },
+    enabled: isComplete,
+    staleTime: 60_000,
+    placeholderData: (previous) => previous,
+  });
+
+  return { quote: isComplete ? quote : undefined, isLoading: isFetching, error };
+}
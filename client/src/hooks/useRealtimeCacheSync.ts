@@ -0,0 +1,72 @@
+import { useQueryClient, type QueryClient } from "@tanstack/react-query";
+import type { Driver, Order } from "@shared/schema";
+import { useRealtime } from "@/hooks/useLiveTracking";
+
+// Applies pushed order/driver/stats events to the query cache so lists update
+// without polling. The server only sends what the signed-in user may see.
+
+function patchOrderLists(queryClient: QueryClient, order: Order) {
+  queryClient.getQueriesData<Order[]>({ queryKey: ["/api/orders"] }).forEach(([queryKey, orders]) => {
+    if (!Array.isArray(orders)) return;
+
+    // Search matching happens server-side; refetch rather than guess
+    const params = queryKey[1] as { status?: string; search?: string } | undefined;
+    if (params?.search) {
+      queryClient.invalidateQueries({ queryKey, exact: true });
+      return;
+    }
+
+    const matches = !params?.status || params.status === order.status;
+    const exists = orders.some((existing) => existing.id === order.id);
+    if (matches && exists) {
+      queryClient.setQueryData(queryKey, orders.map((existing) => (existing.id === order.id ? order : existing)));
+    } else if (matches) {
+      queryClient.setQueryData(queryKey, [order, ...orders]);
+    } else if (exists) {
+      queryClient.setQueryData(queryKey, orders.filter((existing) => existing.id !== order.id));
+    }
+  });
+}
+
+function removeOrder(queryClient: QueryClient, orderId: number) {
+  queryClient.getQueriesData<Order[]>({ queryKey: ["/api/orders"] }).forEach(([queryKey, orders]) => {
+    if (!Array.isArray(orders)) return;
+    queryClient.setQueryData(queryKey, orders.filter((existing) => existing.id !== orderId));
+  });
+}
+
+function patchDriver(queryClient: QueryClient, driver: Driver) {
+  queryClient.setQueryData<Driver[]>(["/api/drivers"], (drivers) => {
+    if (!drivers) return drivers;
+    if (!drivers.some((existing) => existing.id === driver.id)) return [...drivers, driver];
+    return drivers.map((existing) => (existing.id === driver.id ? { ...existing, ...driver } : existing));
+  });
+
+  queryClient.setQueryData<Driver[]>(["/api/drivers/available"], (drivers) => {
+    if (!drivers) return drivers;
+    const others = drivers.filter((existing) => existing.id !== driver.id);
+    return driver.status === "online" && driver.isAvailable ? [...others, driver] : others;
+  });
+}
+
+export function useRealtimeCacheSync(enabled: boolean) {
+  const queryClient = useQueryClient();
+
+  return useRealtime(enabled, (message) => {
+    switch (message.type) {
+      case "order.created":
+      case "order.updated":
+        patchOrderLists(queryClient, message.order);
+        break;
+      case "order.removed":
+        removeOrder(queryClient, message.orderId);
+        break;
+      case "driver.updated":
+        patchDriver(queryClient, message.driver);
+        break;
+      case "stats":
+        queryClient.setQueryData(["/api/dashboard/stats"], message.stats);
+        break;
+    }
+  });
+}
@@ -1,3 +1,11 @@
 export function isUnauthorizedError(error: Error): boolean {
   return /^401: .*Unauthorized/.test(error.message);
-}
\ No newline at end of file
+}
+// apiRequest errors read "<status>: <body>"; returns the server's JSON message when there is one
+export function getApiErrorMessage(error: Error, fallback: string): string {
+  try {
+    return JSON.parse(error.message.replace(/^\d+:\s*/, "")).message || fallback;
+  } catch {
+    return fallback;
+  }
+}
@@ -0,0 +1,97 @@
+import {
+  BarcodeFormat,
+  BinaryBitmap,
+  DecodeHintType,
+  HTMLCanvasElementLuminanceSource,
+  HybridBinarizer,
+  MultiFormatReader,
+  NotFoundException,
+} from "@zxing/library";
+
+// Decodes CODE128 (what ShippingLabel prints) and QR codes from live video frames.
+// Uses the browser's native BarcodeDetector where it supports both formats (Chrome on
+// Android) and falls back to ZXing on a downscaled canvas copy of the frame elsewhere.
+
+export type ScanFormat = "code_128" | "qr_code";
+
+export interface DecodedBarcode {
+  text: string;
+  format: ScanFormat;
+}
+
+export interface FrameDecoder {
+  decode(video: HTMLVideoElement): Promise<DecodedBarcode | null>;
+}
+
+const NATIVE_FORMATS: ScanFormat[] = ["code_128", "qr_code"];
+const MAX_FRAME_WIDTH = 1280; // larger frames cost more than they add for label-sized codes
+
+interface NativeBarcodeDetector {
+  detect(source: CanvasImageSource): Promise<{ rawValue: string; format: string }[]>;
+}
+
+declare global {
+  interface Window {
+    BarcodeDetector?: {
+      new (options: { formats: string[] }): NativeBarcodeDetector;
+      getSupportedFormats(): Promise<string[]>;
+    };
+  }
+}
+
+async function createNativeDecoder(): Promise<FrameDecoder | null> {
+  if (!window.BarcodeDetector) return null;
+  try {
+    const supported = await window.BarcodeDetector.getSupportedFormats();
+    if (!NATIVE_FORMATS.every((format) => supported.includes(format))) return null;
+  } catch {
+    return null;
+  }
+
+  const detector = new window.BarcodeDetector({ formats: NATIVE_FORMATS });
+  return {
+    async decode(video) {
+      const [barcode] = await detector.detect(video);
+      return barcode ? { text: barcode.rawValue, format: barcode.format as ScanFormat } : null;
+    },
+  };
+}
+
+function createZxingDecoder(): FrameDecoder {
+  const reader = new MultiFormatReader();
+  const hints = new Map<DecodeHintType, unknown>([
+    [DecodeHintType.POSSIBLE_FORMATS, [BarcodeFormat.CODE_128, BarcodeFormat.QR_CODE]],
+    [DecodeHintType.TRY_HARDER, true],
+  ]);
+  reader.setHints(hints);
+  const canvas = document.createElement("canvas");
+  const context = canvas.getContext("2d", { willReadFrequently: true });
+
+  return {
+    async decode(video) {
+      if (!context || !video.videoWidth) return null;
+      const scale = Math.min(1, MAX_FRAME_WIDTH / video.videoWidth);
+      canvas.width = Math.round(video.videoWidth * scale);
+      canvas.height = Math.round(video.videoHeight * scale);
+      context.drawImage(video, 0, 0, canvas.width, canvas.height);
+
+      try {
+        const bitmap = new BinaryBitmap(new HybridBinarizer(new HTMLCanvasElementLuminanceSource(canvas)));
+        const result = reader.decodeWithState(bitmap);
+        return {
+          text: result.getText(),
+          format: result.getBarcodeFormat() === BarcodeFormat.QR_CODE ? "qr_code" : "code_128",
+        };
+      } catch (error) {
+        if (error instanceof NotFoundException) return null; // nothing in this frame
+        throw error;
+      } finally {
+        reader.reset();
+      }
+    },
+  };
+}
+
+export async function createFrameDecoder(): Promise<FrameDecoder> {
+  return (await createNativeDecoder()) ?? createZxingDecoder();
+}
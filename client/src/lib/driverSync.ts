@@ -0,0 +1,171 @@
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  cacheOrders,
+  enqueueMutation,
+  getCachedOrders,
+  getQueuedMutations,
+  removeQueuedMutations,
+  type QueuedMutation,
+} from "@/lib/offlineStore";
+import { normalizeOrderNumber, parsePieceTrackingId, type DriverSyncMutation, type DriverSyncOutcome, type Order } from "@shared/schema";
+
+// Offline-first writes for the driver app. Every status change, scan and POD capture is
+// queued in IndexedDB first, applied optimistically to the order list, then replayed
+// through /api/driver/sync (see server/driverSync.ts) whenever the device is online.
+
+type DistributiveOmit<T, K extends keyof any> = T extends any ? Omit<T, K> : never;
+export type NewDriverMutation = DistributiveOmit<DriverSyncMutation, "id" | "clientTimestamp">;
+
+export interface DriverSyncResult {
+  id: string;
+  outcome: DriverSyncOutcome;
+  message?: string;
+  order?: Order;
+}
+
+const MAX_BATCH_SIZE = 25;
+
+const resultListeners = new Set<(results: DriverSyncResult[]) => void>();
+let flushing: Promise<void> | null = null;
+
+// Status the order will have once a queued change is applied, if it changes status at all.
+// A piece scan can't tell offline whether it was the last piece, so it shows as partial.
+function pendingStatus(mutation: DriverSyncMutation, current: string): string | null {
+  if (mutation.type === "status") return mutation.status;
+  if (mutation.type !== "scan") return null;
+  if (!parsePieceTrackingId(mutation.orderNumber)) return mutation.action === "pickup" ? "picked" : "delivered";
+  if (mutation.action === "pickup") return current === "assigned" ? "partially_picked" : null;
+  return current === "in_transit" ? "partially_delivered" : null;
+}
+
+function targetsOrder(mutation: DriverSyncMutation, order: Order): boolean {
+  return mutation.type === "scan"
+    ? normalizeOrderNumber(mutation.orderNumber) === order.orderNumber
+    : mutation.orderId === order.id;
+}
+
+export function applyPendingMutations(orders: Order[], queued: QueuedMutation[]): Order[] {
+  if (queued.length === 0) return orders;
+  return orders.map((order) => {
+    const status = queued.reduce(
+      (current, { mutation }) => (targetsOrder(mutation, order) && pendingStatus(mutation, current)) || current,
+      order.status
+    );
+    return status === order.status ? order : { ...order, status };
+  });
+}
+
+// Failed fetches (no signal) reject with a TypeError; HTTP errors come back from apiRequest as Error
+function isNetworkError(error: unknown): boolean {
+  return error instanceof TypeError || !navigator.onLine;
+}
+
+// Query function for the driver's order list: network first, IndexedDB when offline,
+// with still-queued changes layered on top either way
+export async function fetchDriverOrders(): Promise<Order[]> {
+  let orders: Order[];
+  try {
+    const response = await apiRequest("/api/orders");
+    orders = await response.json();
+    await cacheOrders(orders).catch((error) => console.error("Failed to cache orders offline:", error));
+  } catch (error) {
+    if (!isNetworkError(error)) throw error;
+    orders = await getCachedOrders();
+  }
+  return applyPendingMutations(orders, await getQueuedMutations());
+}
+
+export async function queueDriverMutation(mutation: NewDriverMutation): Promise<void> {
+  const queued = {
+    ...mutation,
+    id: crypto.randomUUID(),
+    clientTimestamp: new Date().toISOString(),
+  } as DriverSyncMutation;
+
+  await enqueueMutation(queued);
+  queryClient.setQueryData<Order[]>(["/api/orders"], (orders) =>
+    orders && applyPendingMutations(orders, [{ seq: 0, mutation: queued }])
+  );
+  void flushDriverQueue();
+}
+
+// POD uploads are large, so each one goes in a request of its own
+function toBatches(queued: QueuedMutation[]): QueuedMutation[][] {
+  const batches: QueuedMutation[][] = [];
+  let current: QueuedMutation[] = [];
+  for (const entry of queued) {
+    if (entry.mutation.type === "proof" || current.length >= MAX_BATCH_SIZE) {
+      if (current.length) batches.push(current);
+      current = [];
+    }
+    current.push(entry);
+    if (entry.mutation.type === "proof") {
+      batches.push(current);
+      current = [];
+    }
+  }
+  if (current.length) batches.push(current);
+  return batches;
+}
+
+function publishResults(results: DriverSyncResult[]) {
+  if (results.length === 0) return;
+  queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+  resultListeners.forEach((listener) => listener(results));
+}
+
+async function flush() {
+  if (!navigator.onLine) return;
+
+  for (const batch of toBatches(await getQueuedMutations())) {
+    let response: Response;
+    try {
+      response = await fetch("/api/driver/sync", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ mutations: batch.map(({ mutation }) => mutation) }),
+        credentials: "include",
+      });
+    } catch {
+      return; // lost signal again; the rest stays queued
+    }
+
+    // A malformed entry would otherwise block the queue forever
+    if (response.status === 400) {
+      await removeQueuedMutations(batch.map(({ seq }) => seq));
+      publishResults(batch.map(({ mutation }) => ({
+        id: mutation.id,
+        outcome: "rejected",
+        message: "This change could not be read by the server and was discarded",
+      })));
+      continue;
+    }
+    if (!response.ok) return; // signed out or server trouble; retry later
+
+    const { results } = await response.json() as { results: DriverSyncResult[] };
+    const processed = new Set(results.map((result) => result.id));
+    await removeQueuedMutations(batch.filter(({ mutation }) => processed.has(mutation.id)).map(({ seq }) => seq));
+    publishResults(results);
+
+    // The server stops at its first unexpected error; try the remainder later
+    if (processed.size < batch.length) return;
+  }
+}
+
+export function flushDriverQueue(): Promise<void> {
+  if (!flushing) {
+    flushing = flush()
+      .catch((error) => console.error("Driver sync failed:", error))
+      .finally(() => {
+        flushing = null;
+      });
+  }
+  return flushing;
+}
+
+export function onDriverSyncResults(listener: (results: DriverSyncResult[]) => void): () => void {
+  resultListeners.add(listener);
+  return () => {
+    resultListeners.delete(listener);
+  };
+}
@@ -0,0 +1,105 @@
+import type { DriverSyncMutation, Order } from "@shared/schema";
+
+// IndexedDB persistence for the driver app: the last known assigned orders, and the
+// queue of changes made while offline. Survives reloads and the browser being killed.
+
+const DB_NAME = "shipxpress-driver";
+const DB_VERSION = 1;
+const ORDERS_STORE = "orders";
+const MUTATIONS_STORE = "mutations";
+
+export interface QueuedMutation {
+  seq: number; // auto-incremented, so the queue replays in the order changes were made
+  mutation: DriverSyncMutation;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+const queueListeners = new Set<() => void>();
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(ORDERS_STORE)) {
+          db.createObjectStore(ORDERS_STORE, { keyPath: "id" });
+        }
+        if (!db.objectStoreNames.contains(MUTATIONS_STORE)) {
+          db.createObjectStore(MUTATIONS_STORE, { keyPath: "seq", autoIncrement: true });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function completion(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+function notifyQueueChanged() {
+  queueListeners.forEach((listener) => listener());
+}
+
+// Replaces the cached order list with the latest one from the server
+export async function cacheOrders(orders: Order[]): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(ORDERS_STORE, "readwrite");
+  const store = tx.objectStore(ORDERS_STORE);
+  store.clear();
+  orders.forEach((order) => store.put(order));
+  await completion(tx);
+}
+
+export async function getCachedOrders(): Promise<Order[]> {
+  const db = await openDb();
+  const orders = await promisify(db.transaction(ORDERS_STORE).objectStore(ORDERS_STORE).getAll() as IDBRequest<Order[]>);
+  return orders.sort((a, b) => new Date(b.createdAt ?? 0).getTime() - new Date(a.createdAt ?? 0).getTime());
+}
+
+export async function enqueueMutation(mutation: DriverSyncMutation): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(MUTATIONS_STORE, "readwrite");
+  tx.objectStore(MUTATIONS_STORE).add({ mutation });
+  await completion(tx);
+  notifyQueueChanged();
+}
+
+export async function getQueuedMutations(): Promise<QueuedMutation[]> {
+  const db = await openDb();
+  return promisify(db.transaction(MUTATIONS_STORE).objectStore(MUTATIONS_STORE).getAll() as IDBRequest<QueuedMutation[]>);
+}
+
+export async function removeQueuedMutations(seqs: number[]): Promise<void> {
+  if (seqs.length === 0) return;
+  const db = await openDb();
+  const tx = db.transaction(MUTATIONS_STORE, "readwrite");
+  const store = tx.objectStore(MUTATIONS_STORE);
+  seqs.forEach((seq) => store.delete(seq));
+  await completion(tx);
+  notifyQueueChanged();
+}
+
+export function onQueueChange(listener: () => void): () => void {
+  queueListeners.add(listener);
+  return () => {
+    queueListeners.delete(listener);
+  };
+}
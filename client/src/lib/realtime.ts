@@ -0,0 +1,82 @@
+// One WebSocket per tab to /ws/tracking (see server/liveTracking.ts), shared by every
+// hook that needs live data. Opens on the first subscriber, closes after the last,
+// and reconnects with backoff while anyone is still listening.
+
+type MessageListener = (message: any) => void;
+type StatusListener = (connected: boolean) => void;
+
+const TRACKING_PATH = "/ws/tracking";
+const MAX_RECONNECT_DELAY_MS = 30 * 1000;
+
+const messageListeners = new Set<MessageListener>();
+const statusListeners = new Set<StatusListener>();
+let socket: WebSocket | null = null;
+let connected = false;
+let attempts = 0;
+let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+
+function setConnected(value: boolean) {
+  connected = value;
+  statusListeners.forEach((listener) => listener(value));
+}
+
+function connect() {
+  reconnectTimer = undefined;
+  const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+  const ws = new WebSocket(`${protocol}//${window.location.host}${TRACKING_PATH}`);
+  socket = ws;
+
+  ws.onopen = () => {
+    attempts = 0;
+    setConnected(true);
+  };
+  ws.onmessage = (event) => {
+    let message: any;
+    try {
+      message = JSON.parse(event.data);
+    } catch {
+      return; // ignore malformed frames
+    }
+    messageListeners.forEach((listener) => listener(message));
+  };
+  ws.onclose = () => {
+    if (socket !== ws) return;
+    socket = null;
+    setConnected(false);
+    if (messageListeners.size === 0) return;
+    const delay = Math.min(1000 * 2 ** attempts, MAX_RECONNECT_DELAY_MS);
+    attempts++;
+    reconnectTimer = setTimeout(connect, delay);
+  };
+}
+
+export function subscribeRealtime(listener: MessageListener): () => void {
+  messageListeners.add(listener);
+  if (!socket && !reconnectTimer) connect();
+
+  return () => {
+    messageListeners.delete(listener);
+    if (messageListeners.size > 0) return;
+    clearTimeout(reconnectTimer);
+    reconnectTimer = undefined;
+    const ws = socket;
+    socket = null;
+    ws?.close();
+    setConnected(false);
+  };
+}
+
+export function onRealtimeStatus(listener: StatusListener): () => void {
+  statusListeners.add(listener);
+  listener(connected);
+  return () => {
+    statusListeners.delete(listener);
+  };
+}
+
+// Returns false when the socket isn't open; callers retry on their next tick
+export function sendRealtime(message: object): boolean {
+  if (!socket || socket.readyState !== WebSocket.OPEN) return false;
+  socket.send(JSON.stringify(message));
+  return true;
+}
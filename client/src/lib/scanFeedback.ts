@@ -0,0 +1,34 @@
+// Audible and haptic confirmation for scans, so drivers don't have to look at the
+// screen between parcels. Vibration is a no-op on devices (and iOS) without support.
+
+export type ScanFeedback = "success" | "warning";
+
+let audioContext: AudioContext | null = null;
+
+function beep(frequency: number, startAt: number, durationSeconds: number) {
+  if (!audioContext) return;
+  const oscillator = audioContext.createOscillator();
+  const gain = audioContext.createGain();
+  oscillator.type = "square";
+  oscillator.frequency.value = frequency;
+  gain.gain.value = 0.08;
+  oscillator.connect(gain);
+  gain.connect(audioContext.destination);
+  oscillator.start(audioContext.currentTime + startAt);
+  oscillator.stop(audioContext.currentTime + startAt + durationSeconds);
+}
+
+export function playScanFeedback(kind: ScanFeedback) {
+  try {
+    audioContext ??= new AudioContext();
+    if (kind === "success") {
+      beep(1800, 0, 0.08);
+    } else {
+      beep(440, 0, 0.15);
+      beep(440, 0.22, 0.15);
+    }
+  } catch {
+    // Audio can be blocked until the user interacts with the page
+  }
+  navigator.vibrate?.(kind === "success" ? 80 : [120, 80, 120]);
+}
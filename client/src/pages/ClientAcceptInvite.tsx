@@ -0,0 +1,143 @@
+import { useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { apiRequest } from "@/lib/queryClient";
+import { getApiErrorMessage } from "@/lib/authUtils";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { UserPlus } from "lucide-react";
+
+const acceptInviteFormSchema = z.object({
+  firstName: z.string().trim().min(1, "First name is required"),
+  lastName: z.string().trim().min(1, "Last name is required"),
+  password: z.string().min(8, "Password must be at least 8 characters"),
+  confirmPassword: z.string(),
+}).refine((data) => data.password === data.confirmPassword, {
+  message: "Passwords don't match",
+  path: ["confirmPassword"],
+});
+
+type AcceptInviteForm = z.infer<typeof acceptInviteFormSchema>;
+
+// Landing page for the emailed invite link (?token=...)
+export default function ClientAcceptInvite() {
+  const { toast } = useToast();
+  const token = new URLSearchParams(window.location.search).get("token") ?? "";
+
+  const form = useForm<AcceptInviteForm>({
+    resolver: zodResolver(acceptInviteFormSchema),
+    defaultValues: { firstName: "", lastName: "", password: "", confirmPassword: "" },
+  });
+
+  const acceptMutation = useMutation({
+    mutationFn: async ({ confirmPassword, ...data }: AcceptInviteForm) => {
+      const response = await apiRequest("/api/client/accept-invite", {
+        method: "POST",
+        body: JSON.stringify({ ...data, token }),
+      });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      toast({ title: "Welcome Aboard", description: `Sign in with ${data.email} and your new password.` });
+      setTimeout(() => {
+        window.location.href = "/client-login";
+      }, 1000);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Invite Failed",
+        description: getApiErrorMessage(error, "This invite link is invalid or has expired."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <div className="text-center">
+          <UserPlus className="mx-auto h-12 w-12 text-blue-600" />
+          <h2 className="mt-6 text-3xl font-extrabold text-gray-900">
+            Set up your login
+          </h2>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Accept invitation</CardTitle>
+            <CardDescription>
+              {token ? "You'll sign in with the email address the invite was sent to." : "This page needs the link from your invite email."}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit((data) => acceptMutation.mutate(data))} className="space-y-6">
+                <div className="grid grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="firstName"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>First name</FormLabel>
+                        <FormControl>
+                          <Input autoComplete="given-name" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="lastName"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Last name</FormLabel>
+                        <FormControl>
+                          <Input autoComplete="family-name" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+                <FormField
+                  control={form.control}
+                  name="password"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Password</FormLabel>
+                      <FormControl>
+                        <Input type="password" autoComplete="new-password" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="confirmPassword"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Confirm password</FormLabel>
+                      <FormControl>
+                        <Input type="password" autoComplete="new-password" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <Button type="submit" className="w-full" disabled={!token || acceptMutation.isPending}>
+                  {acceptMutation.isPending ? "Saving..." : "Create login"}
+                </Button>
+              </form>
+            </Form>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,244 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import ClientSidebar from "@/components/ClientSidebar";
+import ImpersonationBanner from "@/components/ImpersonationBanner";
+import { KeyRound, Copy, RotateCw, Trash2 } from "lucide-react";
+import { API_KEY_SCOPES, type ApiKeyScope, type ClientApiKey } from "@shared/schema";
+
+type ApiKeyRow = Omit<ClientApiKey, "keyHash">;
+
+export default function ClientApiKeys() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<ApiKeyScope[]>(["orders:write", "orders:read", "tracking:read"]);
+  const [newKey, setNewKey] = useState<string | null>(null);
+
+  const keysUrl = `/api/clients/${user?.clientId}/api-keys`;
+
+  const { data: apiKeys = [], isLoading } = useQuery<ApiKeyRow[]>({
+    queryKey: [keysUrl],
+    enabled: !!user?.clientId,
+  });
+
+  const onKeyIssued = (data: ApiKeyRow & { key: string }) => {
+    queryClient.invalidateQueries({ queryKey: [keysUrl] });
+    setNewKey(data.key);
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest(keysUrl, {
+        method: "POST",
+        body: JSON.stringify({ name, scopes }),
+      });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      onKeyIssued(data);
+      setName("");
+    },
+    onError,
+  });
+
+  const rotateMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest(`${keysUrl}/${id}/rotate`, { method: "POST" });
+      return response.json();
+    },
+    onSuccess: onKeyIssued,
+    onError,
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest(`${keysUrl}/${id}`, { method: "DELETE" });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [keysUrl] });
+      toast({ title: "Key Revoked", description: "Requests using this key will now be rejected." });
+    },
+    onError,
+  });
+
+  const toggleScope = (scope: ApiKeyScope, checked: boolean) => {
+    setScopes((prev) => checked ? [...prev, scope] : prev.filter((s) => s !== scope));
+  };
+
+  return (
+    <div className="flex h-screen bg-gray-50">
+      <ClientSidebar />
+
+      <div className="flex-1 flex flex-col overflow-hidden">
+        <ImpersonationBanner />
+
+        {/* Header */}
+        <div className="bg-white shadow-sm border-b">
+          <div className="px-6 py-4">
+            <div className="flex items-center space-x-4">
+              <KeyRound className="h-8 w-8 text-shippxpress-navy" />
+              <div>
+                <h1 className="text-2xl font-bold text-gray-900">API Keys</h1>
+                <p className="text-gray-600">Let your own systems create and track orders through /api/v1</p>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-auto p-6 space-y-6">
+          {newKey && (
+            <Card className="border-green-300 bg-green-50">
+              <CardHeader>
+                <CardTitle className="text-green-800">Copy your new key now</CardTitle>
+                <CardDescription>It will not be shown again.</CardDescription>
+              </CardHeader>
+              <CardContent className="flex items-center gap-3">
+                <code className="flex-1 rounded bg-white border px-3 py-2 text-sm break-all">{newKey}</code>
+                <Button
+                  variant="outline"
+                  onClick={() => {
+                    navigator.clipboard.writeText(newKey);
+                    toast({ title: "Copied", description: "API key copied to clipboard." });
+                  }}
+                >
+                  <Copy className="h-4 w-4 mr-2" />
+                  Copy
+                </Button>
+                <Button variant="ghost" onClick={() => setNewKey(null)}>Done</Button>
+              </CardContent>
+            </Card>
+          )}
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Create a key</CardTitle>
+              <CardDescription>
+                Send it as <code>Authorization: Bearer &lt;key&gt;</code> or <code>X-API-Key</code>.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <Input
+                placeholder="Key name, e.g. Warehouse system"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                className="max-w-md"
+              />
+              <div className="flex gap-6">
+                {API_KEY_SCOPES.map((scope) => (
+                  <label key={scope} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={scopes.includes(scope)}
+                      onCheckedChange={(checked) => toggleScope(scope, checked === true)}
+                    />
+                    {scope}
+                  </label>
+                ))}
+              </div>
+              <Button
+                onClick={() => createMutation.mutate()}
+                disabled={!name.trim() || scopes.length === 0 || createMutation.isPending}
+                className="bg-shippxpress-navy hover:bg-shippxpress-navy/90 text-white"
+              >
+                {createMutation.isPending ? "Creating..." : "Create Key"}
+              </Button>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Your keys</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <p className="text-sm text-gray-500">Loading...</p>
+              ) : apiKeys.length === 0 ? (
+                <p className="text-sm text-gray-500">No API keys yet.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Key</TableHead>
+                      <TableHead>Scopes</TableHead>
+                      <TableHead>Last Used</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {apiKeys.map((apiKey) => (
+                      <TableRow key={apiKey.id}>
+                        <TableCell className="font-medium">{apiKey.name}</TableCell>
+                        <TableCell><code className="text-xs">{apiKey.keyPrefix}…</code></TableCell>
+                        <TableCell>
+                          <div className="flex flex-wrap gap-1">
+                            {(apiKey.scopes as ApiKeyScope[]).map((scope) => (
+                              <Badge key={scope} variant="secondary">{scope}</Badge>
+                            ))}
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-sm text-gray-600">
+                          {apiKey.lastUsedAt ? new Date(apiKey.lastUsedAt).toLocaleString() : "Never"}
+                        </TableCell>
+                        <TableCell>
+                          {apiKey.revokedAt ? (
+                            <Badge variant="outline" className="text-gray-500">Revoked</Badge>
+                          ) : (
+                            <Badge className="bg-green-100 text-green-800">Active</Badge>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {!apiKey.revokedAt && (
+                            <div className="flex justify-end space-x-2">
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => rotateMutation.mutate(apiKey.id)}
+                                disabled={rotateMutation.isPending}
+                              >
+                                <RotateCw className="h-4 w-4 mr-1" />
+                                Rotate
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                className="text-red-600 hover:text-red-700"
+                                onClick={() => revokeMutation.mutate(apiKey.id)}
+                                disabled={revokeMutation.isPending}
+                              >
+                                <Trash2 className="h-4 w-4 mr-1" />
+                                Revoke
+                              </Button>
+                            </div>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
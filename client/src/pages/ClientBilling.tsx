@@ -0,0 +1,40 @@
+import { useAuth } from "@/hooks/useAuth";
+import ClientSidebar from "@/components/ClientSidebar";
+import ImpersonationBanner from "@/components/ImpersonationBanner";
+import AccountLedger from "@/components/AccountLedger";
+import { Calculator } from "lucide-react";
+
+export default function ClientBilling() {
+  const { user } = useAuth();
+
+  return (
+    <div className="flex h-screen bg-gray-50">
+      <ClientSidebar />
+
+      <div className="flex-1 flex flex-col overflow-hidden">
+        <ImpersonationBanner />
+
+        {/* Header */}
+        <div className="bg-white shadow-sm border-b">
+          <div className="px-6 py-4">
+            <div className="flex items-center space-x-4">
+              <Calculator className="h-8 w-8 text-shippxpress-navy" />
+              <div>
+                <h1 className="text-2xl font-bold text-gray-900">Billing</h1>
+                <p className="text-gray-600">Your account balance, aging and statements</p>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-auto p-6">
+          {user?.clientId ? (
+            <AccountLedger clientId={user.clientId} />
+          ) : (
+            <p className="text-sm text-gray-500">Loading...</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
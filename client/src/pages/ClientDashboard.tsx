@@ -1,16 +1,12 @@
-import { useAuth } from "@/hooks/useAuth";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import ClientSidebar from "@/components/ClientSidebar";
+import ImpersonationBanner from "@/components/ImpersonationBanner";
+import LiveDriversCard from "@/components/LiveDriversCard";
 import { Package, Clock, Truck, CheckCircle, DollarSign, TrendingUp, MapPin, AlertCircle } from "lucide-react";
 import { useQuery } from "@tanstack/react-query";
 
 export default function ClientDashboard() {
-  const { user } = useAuth();
-
-  // Check if this is an impersonated session from super admin
-  const isImpersonated = user?.id?.startsWith('client_') && window.location.search.includes('from=admin');
-
   // Fetch orders for dashboard stats
   const { data: orders = [] } = useQuery<any[]>({
     queryKey: ['/api/orders'],
@@ -75,13 +71,7 @@ export default function ClientDashboard() {
       <ClientSidebar />
       
       <div className="flex-1 overflow-auto">
-        {/* Super Admin Impersonation Banner */}
-        {isImpersonated && (
-          <div className="bg-shippxpress-orange text-white px-4 py-2 text-center text-sm">
-            🔄 Super Admin logged in as client - 
-            <a href="/" className="underline ml-2">Return to Admin Panel</a>
-          </div>
-        )}
+        <ImpersonationBanner />
 
         <div className="p-6">
           {/* Header */}
@@ -159,6 +149,8 @@ export default function ClientDashboard() {
             </Card>
           </div>
 
+          <LiveDriversCard />
+
           {/* Recent Orders */}
           <Card>
             <CardHeader>
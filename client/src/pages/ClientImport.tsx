@@ -0,0 +1,254 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { getApiErrorMessage } from "@/lib/authUtils";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import ClientSidebar from "@/components/ClientSidebar";
+import ImpersonationBanner from "@/components/ImpersonationBanner";
+import { Upload, Download, FileText, CheckCircle, AlertCircle, AlertTriangle } from "lucide-react";
+
+interface ImportIssue {
+  row: number;
+  field?: string;
+  message: string;
+}
+
+interface ImportResult {
+  mode: "dry-run" | "commit";
+  totalRows: number;
+  validOrders: number;
+  errors: ImportIssue[];
+  warnings: ImportIssue[];
+  errorCsv: string;
+  created?: { rows: number[]; orderId: number; orderNumber: string }[];
+  creditWarning?: { limit: number };
+}
+
+const TEMPLATE_CSV = [
+  "order_ref,customer_name,customer_phone,customer_email,delivery_line1,delivery_line2,delivery_city,delivery_state,delivery_zip,pickup_date,special_instructions,package_description,package_quantity,package_weight,package_dimensions",
+  "A-100,Jane Doe,(555) 123-4567,jane@example.com,100 Main St,,Chicago,IL,60601,,Leave at front desk,Box,1,12.5,12x12x12",
+  "A-100,Jane Doe,(555) 123-4567,jane@example.com,100 Main St,,Chicago,IL,60601,,,Tube,1,3,36x4x4",
+].join("\r\n");
+
+// Issues shown inline; the full list is always in the error CSV
+const MAX_LISTED_ISSUES = 200;
+
+function downloadCsv(content: string, filename: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: "text/csv" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export default function ClientImport() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [file, setFile] = useState<File | null>(null);
+  const [result, setResult] = useState<ImportResult | null>(null);
+
+  const importMutation = useMutation({
+    mutationFn: async (mode: "dry-run" | "commit") => {
+      const response = await apiRequest(`/api/orders/import?mode=${mode}`, {
+        method: "POST",
+        body: await file!.text(),
+        headers: { "Content-Type": "text/csv" },
+      });
+      return response.json() as Promise<ImportResult>;
+    },
+    onSuccess: (data) => {
+      setResult(data);
+      if (data.mode === "commit") {
+        queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+        toast({
+          title: "Import Complete",
+          description: `Created ${data.created?.length ?? 0} orders from ${data.totalRows} rows.`,
+        });
+        if (data.creditWarning) {
+          toast({
+            title: "Over Credit Limit",
+            description: `This account is now over its $${data.creditWarning.limit.toFixed(2)} credit limit. Please contact billing.`,
+            variant: "destructive",
+          });
+        }
+      }
+    },
+    onError: (error) => {
+      toast({
+        title: "Import Failed",
+        description: getApiErrorMessage(error, error.message),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const issues = result ? [
+    ...result.errors.map((issue) => ({ ...issue, type: "error" as const })),
+    ...result.warnings.map((issue) => ({ ...issue, type: "warning" as const })),
+  ].sort((a, b) => a.row - b.row) : [];
+
+  return (
+    <div className="flex h-screen bg-gray-50">
+      <ClientSidebar />
+
+      <div className="flex-1 flex flex-col overflow-hidden">
+        <ImpersonationBanner />
+
+        {/* Header */}
+        <div className="bg-white shadow-sm border-b">
+          <div className="px-6 py-4">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-4">
+                <Upload className="h-8 w-8 text-shippxpress-navy" />
+                <div>
+                  <h1 className="text-2xl font-bold text-gray-900">Bulk Order Import</h1>
+                  <p className="text-gray-600">Upload a CSV to create many orders at once</p>
+                </div>
+              </div>
+              <Button
+                variant="outline"
+                onClick={() => downloadCsv(TEMPLATE_CSV, "order-import-template.csv")}
+                className="border-shippxpress-navy text-shippxpress-navy hover:bg-shippxpress-navy hover:text-white"
+              >
+                <FileText className="h-4 w-4 mr-2" />
+                Download Template
+              </Button>
+            </div>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-auto p-6 space-y-6">
+          {/* Upload */}
+          <Card>
+            <CardHeader>
+              <CardTitle>1. Choose a file</CardTitle>
+              <CardDescription>
+                One row per package. Rows with the same order_ref become one order with several packages.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="flex items-center gap-3">
+              <Input
+                type="file"
+                accept=".csv,text/csv"
+                onChange={(e) => {
+                  setFile(e.target.files?.[0] ?? null);
+                  setResult(null);
+                }}
+                className="max-w-md"
+              />
+              <Button
+                onClick={() => importMutation.mutate("dry-run")}
+                disabled={!file || importMutation.isPending}
+                className="bg-shippxpress-navy hover:bg-shippxpress-navy/90 text-white"
+              >
+                {importMutation.isPending && importMutation.variables === "dry-run" ? "Validating..." : "Validate (Dry Run)"}
+              </Button>
+            </CardContent>
+          </Card>
+
+          {/* Validation report */}
+          {result && (
+            <Card>
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <div>
+                    <CardTitle>
+                      {result.mode === "commit" ? "3. Import results" : "2. Validation report"}
+                    </CardTitle>
+                    <CardDescription>
+                      {result.totalRows} rows · {result.validOrders} valid orders · {result.errors.length} errors · {result.warnings.length} warnings
+                    </CardDescription>
+                  </div>
+                  <div className="flex space-x-2">
+                    {result.errorCsv && (
+                      <Button
+                        variant="outline"
+                        onClick={() => downloadCsv(result.errorCsv, "order-import-errors.csv")}
+                      >
+                        <Download className="h-4 w-4 mr-2" />
+                        Download Error CSV
+                      </Button>
+                    )}
+                    {result.mode === "dry-run" && result.validOrders > 0 && (
+                      <Button
+                        onClick={() => importMutation.mutate("commit")}
+                        disabled={importMutation.isPending}
+                        className="bg-shippxpress-orange hover:bg-shippxpress-orange/90 text-white"
+                      >
+                        {importMutation.isPending ? "Importing..." : `Import ${result.validOrders} Orders`}
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                {result.created && result.created.length > 0 && (
+                  <div>
+                    <h3 className="flex items-center gap-2 font-medium text-green-700 mb-2">
+                      <CheckCircle className="h-4 w-4" />
+                      Created orders
+                    </h3>
+                    <div className="flex flex-wrap gap-2">
+                      {result.created.map((order) => (
+                        <Badge key={order.orderId} variant="secondary">
+                          {order.orderNumber}
+                        </Badge>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {issues.length > 0 ? (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-20">Row</TableHead>
+                        <TableHead className="w-28">Type</TableHead>
+                        <TableHead className="w-40">Field</TableHead>
+                        <TableHead>Message</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {issues.slice(0, MAX_LISTED_ISSUES).map((issue, index) => (
+                        <TableRow key={index}>
+                          <TableCell>{issue.row || "File"}</TableCell>
+                          <TableCell>
+                            {issue.type === "error" ? (
+                              <span className="flex items-center gap-1 text-red-600">
+                                <AlertCircle className="h-4 w-4" /> Error
+                              </span>
+                            ) : (
+                              <span className="flex items-center gap-1 text-yellow-600">
+                                <AlertTriangle className="h-4 w-4" /> Warning
+                              </span>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-gray-600">{issue.field ?? "-"}</TableCell>
+                          <TableCell>{issue.message}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                ) : (
+                  <p className="text-sm text-green-700">No problems found.</p>
+                )}
+
+                {issues.length > MAX_LISTED_ISSUES && (
+                  <p className="text-sm text-gray-500">
+                    Showing the first {MAX_LISTED_ISSUES} of {issues.length} issues. Download the error CSV for the full list.
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import ClientSidebar from "@/components/ClientSidebar";
+import ImpersonationBanner from "@/components/ImpersonationBanner";
+import InvoicesTable, { formatInvoiceAmount } from "@/components/InvoicesTable";
+import { Receipt } from "lucide-react";
+import { INVOICE_STATUSES, type Invoice } from "@shared/schema";
+
+export default function ClientInvoices() {
+  const [status, setStatus] = useState("all");
+
+  const { data: invoices = [], isLoading } = useQuery<Invoice[]>({
+    queryKey: ["/api/invoices", status === "all" ? {} : { status }],
+  });
+
+  // Drafts are still being assembled, so only issued invoices count as owed
+  const outstanding = invoices.filter((invoice) => invoice.status === "issued");
+  const outstandingTotal = outstanding.reduce((sum, invoice) => sum + parseFloat(invoice.total), 0);
+
+  return (
+    <div className="flex h-screen bg-gray-50">
+      <ClientSidebar />
+
+      <div className="flex-1 flex flex-col overflow-hidden">
+        <ImpersonationBanner />
+
+        {/* Header */}
+        <div className="bg-white shadow-sm border-b">
+          <div className="px-6 py-4">
+            <div className="flex items-center space-x-4">
+              <Receipt className="h-8 w-8 text-shippxpress-navy" />
+              <div>
+                <h1 className="text-2xl font-bold text-gray-900">Invoices</h1>
+                <p className="text-gray-600">Monthly and per-order invoices for your deliveries</p>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-auto p-6 space-y-6">
+          <Card>
+            <CardHeader className="flex flex-row items-start justify-between space-y-0">
+              <div>
+                <CardTitle>Your invoices</CardTitle>
+                <CardDescription>
+                  {outstanding.length > 0
+                    ? `${outstanding.length} outstanding, ${formatInvoiceAmount(outstandingTotal.toFixed(2), outstanding[0].currency)} due`
+                    : "Nothing outstanding"}
+                </CardDescription>
+              </div>
+              <Select value={status} onValueChange={setStatus}>
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All statuses</SelectItem>
+                  {INVOICE_STATUSES.map((value) => (
+                    <SelectItem key={value} value={value}>
+                      {value.charAt(0).toUpperCase() + value.slice(1)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </CardHeader>
+            <CardContent>
+              <InvoicesTable invoices={invoices} isLoading={isLoading} />
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
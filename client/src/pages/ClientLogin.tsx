@@ -4,11 +4,14 @@ import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { getApiErrorMessage } from "@/lib/authUtils";
 import { useToast } from "@/hooks/use-toast";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Building2, Lock } from "lucide-react";
 
 const clientLoginSchema = z.object({
@@ -21,6 +24,8 @@ type ClientLoginForm = z.infer<typeof clientLoginSchema>;
 export default function ClientLogin() {
   const { toast } = useToast();
   const [showCredentials, setShowCredentials] = useState(false);
+  const [forgotOpen, setForgotOpen] = useState(false);
+  const [forgotUsername, setForgotUsername] = useState("");
 
   const form = useForm<ClientLoginForm>({
     resolver: zodResolver(clientLoginSchema),
@@ -53,7 +58,31 @@ export default function ClientLogin() {
     onError: (error) => {
       toast({
         title: "Login Failed",
-        description: "Invalid username or password. Please try again.",
+        description: /^423:/.test(error.message)
+          ? getApiErrorMessage(error, "This account is temporarily locked.")
+          : "Invalid username or password. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const forgotPasswordMutation = useMutation({
+    mutationFn: async (username: string) => {
+      const response = await apiRequest("/api/client/forgot-password", {
+        method: "POST",
+        body: JSON.stringify({ username }),
+      });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      toast({ title: "Check Your Email", description: data.message });
+      setForgotOpen(false);
+      setForgotUsername("");
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error, "Failed to request a password reset"),
         variant: "destructive",
       });
     },
@@ -131,9 +160,49 @@ export default function ClientLogin() {
                   {loginMutation.isPending ? "Signing in..." : "Sign in"}
                   <Lock className="ml-2 h-4 w-4" />
                 </Button>
+                <div className="text-center">
+                  <button
+                    type="button"
+                    className="text-sm text-blue-600 hover:text-blue-500"
+                    onClick={() => {
+                      setForgotUsername(form.getValues("username"));
+                      setForgotOpen(true);
+                    }}
+                  >
+                    Forgot your password?
+                  </button>
+                </div>
               </form>
             </Form>
 
+            <Dialog open={forgotOpen} onOpenChange={setForgotOpen}>
+              <DialogContent>
+                <DialogHeader>
+                  <DialogTitle>Reset your password</DialogTitle>
+                  <DialogDescription>
+                    We'll email a reset link to the account's contact address.
+                  </DialogDescription>
+                </DialogHeader>
+                <div className="space-y-1">
+                  <Label htmlFor="forgot-username">Username or Email</Label>
+                  <Input
+                    id="forgot-username"
+                    value={forgotUsername}
+                    onChange={(e) => setForgotUsername(e.target.value)}
+                    autoComplete="username"
+                  />
+                </div>
+                <DialogFooter>
+                  <Button
+                    onClick={() => forgotPasswordMutation.mutate(forgotUsername.trim())}
+                    disabled={!forgotUsername.trim() || forgotPasswordMutation.isPending}
+                  >
+                    {forgotPasswordMutation.isPending ? "Sending..." : "Send reset link"}
+                  </Button>
+                </DialogFooter>
+              </DialogContent>
+            </Dialog>
+
             {/* Demo Credentials */}
             <div className="mt-6 pt-6 border-t border-gray-200">
               <Button
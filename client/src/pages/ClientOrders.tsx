@@ -7,19 +7,19 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import OrdersTable from "@/components/OrdersTable";
 import { CreateOrderModalNew } from "@/components/CreateOrderModalNew";
 import ClientSidebar from "@/components/ClientSidebar";
+import ImpersonationBanner from "@/components/ImpersonationBanner";
 import BatchCountdown from "@/components/BatchCountdown";
-import { Package, AlertCircle, LogOut, DollarSign, FileText, X, Check, Printer, Upload, Plus } from "lucide-react";
+import { Package, DollarSign, FileText, X, Check, Printer, Upload, Plus } from "lucide-react";
 import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { useLocation } from "wouter";
+import { CLIENT_SHIPPING_ROLES, type ClientRole } from "@shared/schema";
 
 export default function ClientOrders() {
   const { user } = useAuth();
   const [createOrderOpen, setCreateOrderOpen] = useState(false);
-  const [location] = useLocation();
-
-  // Check if this is an impersonated session from super admin (not direct client login)
-  const isImpersonated = user?.id?.startsWith('client_') && window.location.search.includes('from=admin');
+  const [location, setLocation] = useLocation();
+  const canShip = CLIENT_SHIPPING_ROLES.includes((user?.clientRole ?? "client_admin") as ClientRole);
 
   // Determine current filter based on route
   const getCurrentFilter = () => {
@@ -120,26 +120,7 @@ export default function ClientOrders() {
         
         {/* Main Content */}
         <div className="flex-1 flex flex-col overflow-hidden">
-          {/* Impersonation Banner */}
-          {isImpersonated && (
-            <div className="bg-orange-500 text-white px-4 py-2">
-              <div className="flex justify-between items-center">
-                <div className="flex items-center space-x-2">
-                  <AlertCircle className="h-4 w-4" />
-                  <span className="font-medium">Super Admin logged in as client</span>
-                </div>
-                <Button 
-                  size="sm" 
-                  variant="secondary"
-                  onClick={() => window.location.href = "/api/logout"}
-                  className="bg-white text-orange-500 hover:bg-gray-100"
-                >
-                  <LogOut className="h-4 w-4 mr-2" />
-                  Back to Admin
-                </Button>
-              </div>
-            </div>
-          )}
+          <ImpersonationBanner />
 
           {/* Header */}
           <div className="bg-white shadow-sm border-b">
@@ -158,22 +139,25 @@ export default function ClientOrders() {
                 </div>
                 
                 {/* Action Buttons in Header */}
-                <div className="flex items-center space-x-3">
-                  <Button
-                    onClick={() => setCreateOrderOpen(true)}
-                    className="bg-shippxpress-orange hover:bg-shippxpress-orange/90 text-white"
-                  >
-                    <Plus className="h-4 w-4 mr-2" />
-                    New Order
-                  </Button>
-                  <Button
-                    variant="outline"
-                    className="border-shippxpress-navy text-shippxpress-navy hover:bg-shippxpress-navy hover:text-white"
-                  >
-                    <Upload className="h-4 w-4 mr-2" />
-                    Bulk Upload
-                  </Button>
-                </div>
+                {canShip && (
+                  <div className="flex items-center space-x-3">
+                    <Button
+                      onClick={() => setCreateOrderOpen(true)}
+                      className="bg-shippxpress-orange hover:bg-shippxpress-orange/90 text-white"
+                    >
+                      <Plus className="h-4 w-4 mr-2" />
+                      New Order
+                    </Button>
+                    <Button
+                      variant="outline"
+                      onClick={() => setLocation("/orders/import")}
+                      className="border-shippxpress-navy text-shippxpress-navy hover:bg-shippxpress-navy hover:text-white"
+                    >
+                      <Upload className="h-4 w-4 mr-2" />
+                      Bulk Upload
+                    </Button>
+                  </div>
+                )}
               </div>
             </div>
           </div>
@@ -191,6 +175,7 @@ export default function ClientOrders() {
                 <OrdersTable 
                   showFilters={true} 
                   statusFilter={currentFilter}
+                  canVoid={canShip}
                 />
               </CardContent>
             </Card>
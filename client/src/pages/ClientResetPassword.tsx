@@ -0,0 +1,113 @@
+import { useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { apiRequest } from "@/lib/queryClient";
+import { getApiErrorMessage } from "@/lib/authUtils";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { KeyRound } from "lucide-react";
+
+const resetPasswordFormSchema = z.object({
+  password: z.string().min(8, "Password must be at least 8 characters"),
+  confirmPassword: z.string(),
+}).refine((data) => data.password === data.confirmPassword, {
+  message: "Passwords don't match",
+  path: ["confirmPassword"],
+});
+
+type ResetPasswordForm = z.infer<typeof resetPasswordFormSchema>;
+
+// Landing page for the emailed reset link (?token=...)
+export default function ClientResetPassword() {
+  const { toast } = useToast();
+  const token = new URLSearchParams(window.location.search).get("token") ?? "";
+
+  const form = useForm<ResetPasswordForm>({
+    resolver: zodResolver(resetPasswordFormSchema),
+    defaultValues: { password: "", confirmPassword: "" },
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: async (data: ResetPasswordForm) => {
+      const response = await apiRequest("/api/client/reset-password", {
+        method: "POST",
+        body: JSON.stringify({ token, password: data.password }),
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Password Updated", description: "You can now sign in with your new password." });
+      setTimeout(() => {
+        window.location.href = "/client-login";
+      }, 1000);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Reset Failed",
+        description: getApiErrorMessage(error, "This reset link is invalid or has expired."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <div className="text-center">
+          <KeyRound className="mx-auto h-12 w-12 text-blue-600" />
+          <h2 className="mt-6 text-3xl font-extrabold text-gray-900">
+            Choose a new password
+          </h2>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Reset password</CardTitle>
+            <CardDescription>
+              {token ? "Reset links work once and expire after an hour." : "This page needs the link from your reset email."}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit((data) => resetMutation.mutate(data))} className="space-y-6">
+                <FormField
+                  control={form.control}
+                  name="password"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>New password</FormLabel>
+                      <FormControl>
+                        <Input type="password" autoComplete="new-password" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="confirmPassword"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Confirm password</FormLabel>
+                      <FormControl>
+                        <Input type="password" autoComplete="new-password" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <Button type="submit" className="w-full" disabled={!token || resetMutation.isPending}>
+                  {resetMutation.isPending ? "Saving..." : "Set password"}
+                </Button>
+              </form>
+            </Form>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
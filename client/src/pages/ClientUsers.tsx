@@ -0,0 +1,256 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { apiRequest } from "@/lib/queryClient";
+import { getApiErrorMessage } from "@/lib/authUtils";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import ClientSidebar from "@/components/ClientSidebar";
+import ImpersonationBanner from "@/components/ImpersonationBanner";
+import { Users, Mail, UserX, UserCheck } from "lucide-react";
+import { CLIENT_ROLES, CLIENT_ROLE_LABELS, type ClientRole, type User } from "@shared/schema";
+
+type ClientUserRow = Omit<User, "passwordHash"> & { status: "active" | "invited" | "inactive" | "shared" };
+
+const CLIENT_ROLE_DESCRIPTIONS: Record<ClientRole, string> = {
+  client_admin: "Everything, including users, API keys and webhooks",
+  shipper: "Create, import and void orders",
+  viewer: "Read-only access to orders and billing",
+};
+
+const STATUS_STYLES: Record<ClientUserRow["status"], { label: string; className: string }> = {
+  active: { label: "Active", className: "bg-green-100 text-green-800" },
+  invited: { label: "Invited", className: "bg-blue-100 text-blue-800" },
+  inactive: { label: "Deactivated", className: "bg-gray-100 text-gray-600" },
+  shared: { label: "Shared login", className: "bg-amber-100 text-amber-800" },
+};
+
+export default function ClientUsers() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [email, setEmail] = useState("");
+  const [clientRole, setClientRole] = useState<ClientRole>("shipper");
+
+  const usersUrl = `/api/clients/${user?.clientId}/users`;
+
+  const { data: users = [], isLoading } = useQuery<ClientUserRow[]>({
+    queryKey: [usersUrl],
+    enabled: !!user?.clientId,
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: getApiErrorMessage(error, "Something went wrong"),
+      variant: "destructive",
+    });
+  };
+
+  const inviteMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest(usersUrl, {
+        method: "POST",
+        body: JSON.stringify({ email, clientRole }),
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [usersUrl] });
+      toast({ title: "Invite Sent", description: `${email} will get an email to set up their login.` });
+      setEmail("");
+    },
+    onError,
+  });
+
+  const resendMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest(`${usersUrl}/${id}/resend-invite`, { method: "POST" });
+    },
+    onSuccess: () => {
+      toast({ title: "Invite Resent", description: "The earlier invite link no longer works." });
+    },
+    onError,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, updates }: { id: string; updates: { clientRole?: ClientRole; isActive?: boolean } }) => {
+      const response = await apiRequest(`${usersUrl}/${id}`, {
+        method: "PATCH",
+        body: JSON.stringify(updates),
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [usersUrl] });
+    },
+    onError,
+  });
+
+  return (
+    <div className="flex h-screen bg-gray-50">
+      <ClientSidebar />
+
+      <div className="flex-1 flex flex-col overflow-hidden">
+        <ImpersonationBanner />
+
+        {/* Header */}
+        <div className="bg-white shadow-sm border-b">
+          <div className="px-6 py-4">
+            <div className="flex items-center space-x-4">
+              <Users className="h-8 w-8 text-shippxpress-navy" />
+              <div>
+                <h1 className="text-2xl font-bold text-gray-900">Users</h1>
+                <p className="text-gray-600">Give each colleague their own login and role</p>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-auto p-6 space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Invite a user</CardTitle>
+              <CardDescription>{CLIENT_ROLE_DESCRIPTIONS[clientRole]}.</CardDescription>
+            </CardHeader>
+            <CardContent className="flex flex-wrap items-center gap-3">
+              <Input
+                type="email"
+                placeholder="colleague@company.com"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                className="max-w-sm"
+              />
+              <Select value={clientRole} onValueChange={(value) => setClientRole(value as ClientRole)}>
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CLIENT_ROLES.map((role) => (
+                    <SelectItem key={role} value={role}>{CLIENT_ROLE_LABELS[role]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                onClick={() => inviteMutation.mutate()}
+                disabled={!email.trim() || inviteMutation.isPending}
+                className="bg-shippxpress-navy hover:bg-shippxpress-navy/90 text-white"
+              >
+                <Mail className="h-4 w-4 mr-2" />
+                {inviteMutation.isPending ? "Sending..." : "Send Invite"}
+              </Button>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Your team</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <p className="text-sm text-gray-500">Loading...</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Email</TableHead>
+                      <TableHead>Role</TableHead>
+                      <TableHead>Last Sign-in</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {users.map((member) => {
+                      const editable = member.status !== "shared" && member.id !== user?.id;
+                      const role = (member.clientRole ?? "client_admin") as ClientRole;
+                      return (
+                        <TableRow key={member.id}>
+                          <TableCell className="font-medium">
+                            {[member.firstName, member.lastName].filter(Boolean).join(" ") || "—"}
+                            {member.id === user?.id && <span className="ml-2 text-xs text-gray-500">(you)</span>}
+                          </TableCell>
+                          <TableCell className="text-sm text-gray-600">{member.email}</TableCell>
+                          <TableCell>
+                            {editable && member.status !== "inactive" ? (
+                              <Select
+                                value={role}
+                                onValueChange={(value) => updateMutation.mutate({ id: member.id, updates: { clientRole: value as ClientRole } })}
+                              >
+                                <SelectTrigger className="w-32 h-8">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {CLIENT_ROLES.map((option) => (
+                                    <SelectItem key={option} value={option}>{CLIENT_ROLE_LABELS[option]}</SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            ) : (
+                              <span className="text-sm">{CLIENT_ROLE_LABELS[role]}</span>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-sm text-gray-600">
+                            {member.lastLoginAt ? new Date(member.lastLoginAt).toLocaleString() : "Never"}
+                          </TableCell>
+                          <TableCell>
+                            <Badge className={STATUS_STYLES[member.status].className}>{STATUS_STYLES[member.status].label}</Badge>
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {editable && (
+                              <div className="flex justify-end space-x-2">
+                                {member.status === "invited" && (
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    onClick={() => resendMutation.mutate(member.id)}
+                                    disabled={resendMutation.isPending}
+                                  >
+                                    <Mail className="h-4 w-4 mr-1" />
+                                    Resend
+                                  </Button>
+                                )}
+                                {member.status === "inactive" ? (
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    onClick={() => updateMutation.mutate({ id: member.id, updates: { isActive: true } })}
+                                    disabled={updateMutation.isPending}
+                                  >
+                                    <UserCheck className="h-4 w-4 mr-1" />
+                                    Reactivate
+                                  </Button>
+                                ) : (
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    className="text-red-600 hover:text-red-700"
+                                    onClick={() => updateMutation.mutate({ id: member.id, updates: { isActive: false } })}
+                                    disabled={updateMutation.isPending}
+                                  >
+                                    <UserX className="h-4 w-4 mr-1" />
+                                    Deactivate
+                                  </Button>
+                                )}
+                              </div>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,343 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import ClientSidebar from "@/components/ClientSidebar";
+import ImpersonationBanner from "@/components/ImpersonationBanner";
+import { Webhook, Send, Trash2, RotateCw, Eye, EyeOff } from "lucide-react";
+import {
+  WEBHOOK_EVENTS,
+  WEBHOOK_DELIVERY_STATUSES,
+  type WebhookEvent,
+  type WebhookEndpoint,
+  type WebhookDelivery,
+} from "@shared/schema";
+
+const DELIVERY_STATUS_STYLES: Record<string, string> = {
+  pending: "bg-gray-100 text-gray-800",
+  retrying: "bg-yellow-100 text-yellow-800",
+  sending: "bg-blue-100 text-blue-800",
+  delivered: "bg-green-100 text-green-800",
+  dead: "bg-red-100 text-red-800",
+};
+
+export default function ClientWebhooks() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [url, setUrl] = useState("");
+  const [events, setEvents] = useState<WebhookEvent[]>([...WEBHOOK_EVENTS]);
+  const [revealed, setRevealed] = useState<number | null>(null);
+  const [statusFilter, setStatusFilter] = useState("all");
+
+  const { data: endpoints = [] } = useQuery<WebhookEndpoint[]>({
+    queryKey: ["/api/webhooks"],
+  });
+
+  const { data: deliveries = [], isLoading: deliveriesLoading } = useQuery<WebhookDelivery[]>({
+    queryKey: ["/api/webhook-deliveries", statusFilter === "all" ? {} : { status: statusFilter }],
+    refetchInterval: 15000,
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("/api/webhooks", {
+        method: "POST",
+        body: JSON.stringify({ url, events }),
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/webhooks"] });
+      setUrl("");
+      toast({ title: "Webhook Added", description: "Use the signing secret to verify our requests." });
+    },
+    onError,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: number; isActive: boolean }) => {
+      const response = await apiRequest(`/api/webhooks/${id}`, {
+        method: "PATCH",
+        body: JSON.stringify({ isActive }),
+      });
+      return response.json();
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["/api/webhooks"] }),
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest(`/api/webhooks/${id}`, { method: "DELETE" });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/webhooks"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/webhook-deliveries"] });
+    },
+    onError,
+  });
+
+  const testMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest(`/api/webhooks/${id}/test`, { method: "POST" });
+      return response.json();
+    },
+    onSuccess: ({ status, delivery }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/webhook-deliveries"] });
+      toast({
+        title: status === "delivered" ? "Sample Event Delivered" : "Sample Event Failed",
+        description: status === "delivered"
+          ? `Your endpoint responded with ${delivery?.lastResponseStatus}.`
+          : delivery?.lastError || "The endpoint did not accept the event. It will be retried.",
+        variant: status === "delivered" ? undefined : "destructive",
+      });
+    },
+    onError,
+  });
+
+  const retryMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest(`/api/webhook-deliveries/${id}/retry`, { method: "POST" });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/webhook-deliveries"] });
+      toast({ title: "Retry Queued", description: "The delivery will be sent again shortly." });
+    },
+    onError,
+  });
+
+  const endpointUrl = (id: number) => endpoints.find((endpoint) => endpoint.id === id)?.url ?? `#${id}`;
+
+  return (
+    <div className="flex h-screen bg-gray-50">
+      <ClientSidebar />
+
+      <div className="flex-1 flex flex-col overflow-hidden">
+        <ImpersonationBanner />
+
+        {/* Header */}
+        <div className="bg-white shadow-sm border-b">
+          <div className="px-6 py-4">
+            <div className="flex items-center space-x-4">
+              <Webhook className="h-8 w-8 text-shippxpress-navy" />
+              <div>
+                <h1 className="text-2xl font-bold text-gray-900">Webhooks</h1>
+                <p className="text-gray-600">Receive order events in your own systems</p>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-auto p-6 space-y-6">
+          {/* Add endpoint */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Add an endpoint</CardTitle>
+              <CardDescription>
+                Each request is signed with <code>X-ShipXpress-Signature: t=…,v1=…</code>, an HMAC-SHA256 of
+                <code> t.body</code> using the endpoint's secret.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <Input
+                placeholder="https://example.com/webhooks/shipxpress"
+                value={url}
+                onChange={(e) => setUrl(e.target.value)}
+                className="max-w-xl"
+              />
+              <div className="flex flex-wrap gap-4">
+                {WEBHOOK_EVENTS.map((event) => (
+                  <label key={event} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={events.includes(event)}
+                      onCheckedChange={(checked) =>
+                        setEvents((prev) => checked === true ? [...prev, event] : prev.filter((e) => e !== event))
+                      }
+                    />
+                    {event}
+                  </label>
+                ))}
+              </div>
+              <Button
+                onClick={() => createMutation.mutate()}
+                disabled={!url.trim() || events.length === 0 || createMutation.isPending}
+                className="bg-shippxpress-navy hover:bg-shippxpress-navy/90 text-white"
+              >
+                {createMutation.isPending ? "Adding..." : "Add Endpoint"}
+              </Button>
+            </CardContent>
+          </Card>
+
+          {/* Endpoints */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Endpoints</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {endpoints.length === 0 ? (
+                <p className="text-sm text-gray-500">No webhook endpoints yet.</p>
+              ) : (
+                <div className="space-y-4">
+                  {endpoints.map((endpoint) => (
+                    <div key={endpoint.id} className="border rounded-lg p-4 space-y-3">
+                      <div className="flex items-center justify-between">
+                        <div className="font-medium break-all">{endpoint.url}</div>
+                        <div className="flex items-center space-x-2">
+                          <Switch
+                            checked={!!endpoint.isActive}
+                            onCheckedChange={(isActive) => updateMutation.mutate({ id: endpoint.id, isActive })}
+                          />
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => testMutation.mutate(endpoint.id)}
+                            disabled={testMutation.isPending}
+                          >
+                            <Send className="h-4 w-4 mr-1" />
+                            Send Sample Event
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            className="text-red-600 hover:text-red-700"
+                            onClick={() => deleteMutation.mutate(endpoint.id)}
+                            disabled={deleteMutation.isPending}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </div>
+                      <div className="flex flex-wrap gap-1">
+                        {(endpoint.events as WebhookEvent[]).map((event) => (
+                          <Badge key={event} variant="secondary">{event}</Badge>
+                        ))}
+                      </div>
+                      <div className="flex items-center gap-2 text-sm text-gray-600">
+                        <span>Signing secret:</span>
+                        <code className="bg-gray-100 rounded px-2 py-0.5">
+                          {revealed === endpoint.id ? endpoint.secret : "whsec_••••••••••••"}
+                        </code>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="h-7 w-7 p-0"
+                          onClick={() => setRevealed(revealed === endpoint.id ? null : endpoint.id)}
+                        >
+                          {revealed === endpoint.id ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Delivery log */}
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <div>
+                  <CardTitle>Delivery Log</CardTitle>
+                  <CardDescription>Failed deliveries are retried with exponential backoff before being marked dead.</CardDescription>
+                </div>
+                <Select value={statusFilter} onValueChange={setStatusFilter}>
+                  <SelectTrigger className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All statuses</SelectItem>
+                    {WEBHOOK_DELIVERY_STATUSES.map((status) => (
+                      <SelectItem key={status} value={status} className="capitalize">{status}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {deliveriesLoading ? (
+                <p className="text-sm text-gray-500">Loading...</p>
+              ) : deliveries.length === 0 ? (
+                <p className="text-sm text-gray-500">No deliveries yet.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Event</TableHead>
+                      <TableHead>Endpoint</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Attempts</TableHead>
+                      <TableHead>Response</TableHead>
+                      <TableHead>Created</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {deliveries.map((delivery) => (
+                      <TableRow key={delivery.id}>
+                        <TableCell className="font-medium">
+                          {delivery.eventType}
+                          {(delivery.payload as { test?: boolean })?.test && (
+                            <Badge variant="outline" className="ml-2">test</Badge>
+                          )}
+                        </TableCell>
+                        <TableCell className="max-w-[200px] truncate text-sm text-gray-600">
+                          {endpointUrl(delivery.endpointId)}
+                        </TableCell>
+                        <TableCell>
+                          <Badge className={DELIVERY_STATUS_STYLES[delivery.status]}>{delivery.status}</Badge>
+                        </TableCell>
+                        <TableCell>{delivery.attempts}</TableCell>
+                        <TableCell className="max-w-[240px] text-sm">
+                          {delivery.lastResponseStatus && <div>HTTP {delivery.lastResponseStatus}</div>}
+                          {delivery.lastError && (
+                            <div className="truncate text-red-600" title={delivery.lastError}>{delivery.lastError}</div>
+                          )}
+                          {delivery.status === "retrying" && delivery.nextAttemptAt && (
+                            <div className="text-gray-500">Next try {new Date(delivery.nextAttemptAt).toLocaleTimeString()}</div>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-sm text-gray-600">
+                          {delivery.createdAt ? new Date(delivery.createdAt).toLocaleString() : ""}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {(delivery.status === "dead" || delivery.status === "retrying") && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => retryMutation.mutate(delivery.id)}
+                              disabled={retryMutation.isPending}
+                            >
+                              <RotateCw className="h-4 w-4 mr-1" />
+                              Retry
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -61,7 +61,7 @@ export default function Dashboard() {
           
           <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mt-8">
             <div className="lg:col-span-2">
-              <OrdersTable limit={10} showFilters={false} />
+              <OrdersTable limit={10} showFilters={false} canAssign />
             </div>
             
             <div className="space-y-6">
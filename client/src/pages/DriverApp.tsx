@@ -1,6 +1,9 @@
 import { useEffect, useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/useAuth";
+import { useDriverLocationPublisher } from "@/hooks/useLiveTracking";
+import { useDriverSync } from "@/hooks/useDriverSync";
+import { fetchDriverOrders, queueDriverMutation } from "@/lib/driverSync";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { isUnauthorizedError } from "@/lib/authUtils";
@@ -22,15 +25,31 @@ import {
   CheckCircle,
   AlertTriangle,
   Menu,
-  Scan
+  Scan,
+  CloudOff,
+  RefreshCw
 } from "lucide-react";
 import BarcodeScanner from "@/components/BarcodeScanner";
+import FailedDeliveryDialog from "@/components/FailedDeliveryDialog";
+import ProofOfDeliveryDialog from "@/components/ProofOfDeliveryDialog";
+import { getAllowedTransitions, ORDER_STATUS_LABELS, type OrderStatus } from "@shared/orderStatus";
+
+// Button copy and colour for each status a driver can move an order to
+const DRIVER_ACTIONS: Partial<Record<OrderStatus, { label: string; className: string }>> = {
+  picked: { label: "Mark as Picked", className: "bg-warning-600 hover:bg-warning-700" },
+  in_transit: { label: "Start Delivery", className: "bg-warning-600 hover:bg-warning-700" },
+  delivered: { label: "Mark Delivered", className: "bg-success-600 hover:bg-success-700" },
+  failed: { label: "Mark Failed", className: "bg-error-600 hover:bg-error-700" },
+  returned: { label: "Mark Returned", className: "bg-primary-600 hover:bg-primary-700" },
+};
 
 export default function DriverApp() {
   const { toast } = useToast();
   const { user, isAuthenticated, isLoading } = useAuth();
   const queryClient = useQueryClient();
   const [activeTab, setActiveTab] = useState("home");
+  const [failingOrder, setFailingOrder] = useState<{ id: number; orderNumber: string } | null>(null);
+  const [deliveringOrder, setDeliveringOrder] = useState<{ id: number; orderNumber: string } | null>(null);
 
   // Redirect to home if not authenticated
   useEffect(() => {
@@ -47,14 +66,27 @@ export default function DriverApp() {
     }
   }, [isAuthenticated, isLoading, toast]);
 
+  const isDriver = user?.role === "driver";
+
+  // Share position with dispatch (and the clients whose orders we carry) while signed in
+  const locationStream = useDriverLocationPublisher(isAuthenticated && isDriver);
+
+  // Drivers work offline-first: orders come from IndexedDB without signal and changes
+  // are queued until they sync. Admins previewing the app talk to the API directly.
+  const sync = useDriverSync(isAuthenticated && isDriver);
+
   const { data: orders = [], isLoading: ordersLoading } = useQuery({
     queryKey: ["/api/orders"],
+    queryFn: isDriver ? fetchDriverOrders : undefined,
     enabled: isAuthenticated,
   });
 
   const updateStatusMutation = useMutation({
     mutationFn: async ({ orderId, status }: { orderId: number; status: string }) => {
-      await apiRequest("PATCH", `/api/orders/${orderId}/status`, { status });
+      await apiRequest(`/api/orders/${orderId}/status`, {
+        method: "PATCH",
+        body: JSON.stringify({ status }),
+      });
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
@@ -75,6 +107,15 @@ export default function DriverApp() {
         }, 500);
         return;
       }
+      if (error.message.startsWith("409:")) {
+        queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+        toast({
+          title: "Status Changed",
+          description: "This order was already updated elsewhere. Refreshing your orders.",
+          variant: "destructive",
+        });
+        return;
+      }
       toast({
         title: "Error",
         description: "Failed to update order status. Please try again.",
@@ -83,29 +124,53 @@ export default function DriverApp() {
     },
   });
 
+  const changeStatus = async (orderId: number, status: OrderStatus) => {
+    if (!isDriver) {
+      updateStatusMutation.mutate({ orderId, status });
+      return;
+    }
+    try {
+      await queueDriverMutation({ type: "status", orderId, status });
+      toast({
+        title: "Status Updated",
+        description: navigator.onLine ? "Order status has been updated." : "Saved offline. It will sync when you're back online.",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to save the status change on this device. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case "assigned":
         return "bg-primary-100 text-primary-800";
+      case "partially_picked":
       case "picked":
         return "bg-warning-100 text-warning-800";
       case "in_transit":
+      case "partially_delivered":
         return "bg-warning-100 text-warning-800";
       case "delivered":
         return "bg-success-100 text-success-800";
       case "failed":
         return "bg-error-100 text-error-800";
+      case "return_to_sender":
+        return "bg-error-100 text-error-800";
       default:
         return "bg-gray-100 text-gray-800";
     }
   };
 
   const currentOrders = Array.isArray(orders) ? orders.filter((order: any) => 
-    ["assigned", "picked", "in_transit"].includes(order.status)
+    getAllowedTransitions(order.status, "driver").length > 0
   ) : [];
 
   const completedOrders = Array.isArray(orders) ? orders.filter((order: any) => 
-    ["delivered", "failed"].includes(order.status)
+    ["delivered", "returned"].includes(order.status)
   ) : [];
 
   if (isLoading || !isAuthenticated) {
@@ -135,12 +200,34 @@ export default function DriverApp() {
               <h3 className="font-semibold">
                 {user?.firstName} {user?.lastName} 
               </h3>
-              <p className="text-primary-100 text-sm">Driver</p>
+              <p className="text-primary-100 text-sm flex items-center">
+                Driver
+                <span
+                  className={`ml-2 inline-block h-2 w-2 rounded-full ${locationStream.connected && !locationStream.error ? "bg-green-400" : "bg-gray-300"}`}
+                  title={locationStream.error ?? (locationStream.lastSentAt ? `Location shared at ${locationStream.lastSentAt.toLocaleTimeString()}` : "Location not shared yet")}
+                />
+              </p>
             </div>
           </div>
-          <Button variant="ghost" size="sm" className="text-white">
-            <Menu className="h-5 w-5" />
-          </Button>
+          <div className="flex items-center space-x-2">
+            {isDriver && (!sync.online || sync.pendingCount > 0) && (
+              <button
+                type="button"
+                onClick={() => sync.syncNow()}
+                className="flex items-center rounded-full bg-white/20 px-2 py-1 text-xs"
+                title={sync.online ? "Tap to sync now" : "Changes are saved on this device until you're back online"}
+              >
+                {sync.online
+                  ? <RefreshCw className="h-3 w-3 mr-1 animate-spin" />
+                  : <CloudOff className="h-3 w-3 mr-1" />}
+                {sync.online ? "Syncing" : "Offline"}
+                {sync.pendingCount > 0 && ` · ${sync.pendingCount} pending`}
+              </button>
+            )}
+            <Button variant="ghost" size="sm" className="text-white">
+              <Menu className="h-5 w-5" />
+            </Button>
+          </div>
         </div>
       </header>
 
@@ -220,46 +307,22 @@ export default function DriverApp() {
                           </div>
 
                           <div className="flex space-x-2 mt-3">
-                            {order.status === "assigned" && (
-                              <Button 
-                                size="sm" 
-                                className="flex-1 bg-warning-600 hover:bg-warning-700"
-                                onClick={() => updateStatusMutation.mutate({ 
-                                  orderId: order.id, 
-                                  status: "picked" 
-                                })}
-                                disabled={updateStatusMutation.isPending}
-                              >
-                                Mark as Picked
-                              </Button>
-                            )}
-                            {order.status === "picked" && (
-                              <Button 
-                                size="sm" 
-                                className="flex-1 bg-warning-600 hover:bg-warning-700"
-                                onClick={() => updateStatusMutation.mutate({ 
-                                  orderId: order.id, 
-                                  status: "in_transit" 
-                                })}
-                                disabled={updateStatusMutation.isPending}
-                              >
-                                Start Delivery
-                              </Button>
-                            )}
-                            {order.status === "in_transit" && (
+                            {getAllowedTransitions(order.status, "driver").map((next) => (
                               <Button 
+                                key={next}
                                 size="sm" 
-                                className="flex-1 bg-success-600 hover:bg-success-700"
-                                onClick={() => updateStatusMutation.mutate({ 
-                                  orderId: order.id, 
-                                  status: "delivered" 
-                                })}
+                                className={`flex-1 ${DRIVER_ACTIONS[next]?.className ?? ""}`}
+                                onClick={() => next === "failed"
+                                  ? setFailingOrder(order)
+                                  : next === "delivered"
+                                  ? setDeliveringOrder(order)
+                                  : changeStatus(order.id, next)}
                                 disabled={updateStatusMutation.isPending}
                               >
-                                <CheckCircle className="h-4 w-4 mr-1" />
-                                Mark Delivered
+                                {next === "delivered" && <CheckCircle className="h-4 w-4 mr-1" />}
+                                {DRIVER_ACTIONS[next]?.label ?? ORDER_STATUS_LABELS[next]}
                               </Button>
-                            )}
+                            ))}
                           </div>
                         </div>
                       ))}
@@ -273,7 +336,11 @@ export default function DriverApp() {
                     <CardTitle className="text-lg">Actions</CardTitle>
                   </CardHeader>
                   <CardContent className="space-y-3">
-                    <Button className="w-full bg-success-600 hover:bg-success-700">
+                    <Button
+                      className="w-full bg-success-600 hover:bg-success-700"
+                      onClick={() => setDeliveringOrder(currentOrders.find((order: any) => ["in_transit", "partially_delivered"].includes(order.status)) ?? null)}
+                      disabled={!currentOrders.some((order: any) => ["in_transit", "partially_delivered"].includes(order.status))}
+                    >
                       <Camera className="h-4 w-4 mr-2" />
                       Upload Delivery Proof
                     </Button>
@@ -373,6 +440,8 @@ export default function DriverApp() {
                     <CardContent>
                       <BarcodeScanner 
                         action="pickup" 
+                        queueOffline={isDriver}
+                        routeOrders={isDriver ? orders : undefined}
                         driverId={user?.id ? parseInt(user.id) : undefined}
                         onScanSuccess={(orderNumber) => {
                           queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
@@ -391,6 +460,8 @@ export default function DriverApp() {
                     <CardContent>
                       <BarcodeScanner 
                         action="delivery" 
+                        queueOffline={isDriver}
+                        routeOrders={isDriver ? orders : undefined}
                         driverId={user?.id ? parseInt(user.id) : undefined}
                         onScanSuccess={(orderNumber) => {
                           queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
@@ -417,6 +488,17 @@ export default function DriverApp() {
         </Tabs>
       </div>
 
+      <FailedDeliveryDialog
+        order={failingOrder}
+        onOpenChange={(open) => !open && setFailingOrder(null)}
+      />
+
+      <ProofOfDeliveryDialog
+        order={deliveringOrder}
+        queueOffline={isDriver}
+        onOpenChange={(open) => !open && setDeliveringOrder(null)}
+      />
+
       {/* Bottom Navigation */}
       <div className="fixed bottom-0 left-0 right-0 bg-white border-t px-4 py-2">
         <Tabs value={activeTab} onValueChange={setActiveTab}>
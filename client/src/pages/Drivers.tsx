@@ -1,6 +1,7 @@
 import { useEffect } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/useAuth";
+import { useLiveDriverLocations } from "@/hooks/useLiveTracking";
 import { useToast } from "@/hooks/use-toast";
 import Sidebar from "@/components/Sidebar";
 import Header from "@/components/Header";
@@ -8,11 +9,12 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
-import { Phone, MapPin, Truck } from "lucide-react";
+import { Phone, MapPin, Truck, Navigation } from "lucide-react";
 
 export default function Drivers() {
   const { toast } = useToast();
   const { isAuthenticated, isLoading } = useAuth();
+  const { locations } = useLiveDriverLocations(isAuthenticated);
 
   // Redirect to home if not authenticated
   useEffect(() => {
@@ -141,6 +143,18 @@ export default function Drivers() {
                       </div>
                     )}
                     
+                    {locations[driver.id] && (
+                      <div className="flex items-center text-sm text-gray-600">
+                        <Navigation className="h-4 w-4 mr-2 text-green-600" />
+                        {locations[driver.id].lat.toFixed(5)}, {locations[driver.id].lng.toFixed(5)}
+                        {locations[driver.id].recordedAt && (
+                          <span className="ml-1 text-xs text-gray-400">
+                            ({new Date(locations[driver.id].recordedAt!).toLocaleTimeString()})
+                          </span>
+                        )}
+                      </div>
+                    )}
+                    
                     {driver.location?.address && (
                       <div className="flex items-center text-sm text-gray-600">
                         <MapPin className="h-4 w-4 mr-2" />
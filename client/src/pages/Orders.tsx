@@ -4,6 +4,7 @@ import { useToast } from "@/hooks/use-toast";
 import Sidebar from "@/components/Sidebar";
 import Header from "@/components/Header";
 import OrdersTable from "@/components/OrdersTable";
+import AutoAssignDialog from "@/components/AutoAssignDialog";
 
 export default function Orders() {
   const { toast } = useToast();
@@ -46,7 +47,10 @@ export default function Orders() {
         />
         
         <main className="flex-1 p-6 overflow-y-auto">
-          <OrdersTable showFilters={true} />
+          <div className="flex justify-end mb-4">
+            <AutoAssignDialog />
+          </div>
+          <OrdersTable showFilters={true} canAssign />
         </main>
       </div>
     </div>
@@ -12,6 +12,7 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -40,6 +41,9 @@ import {
   MapPinPlus
 } from "lucide-react";
 import ShippXpressSidebar from "@/components/ShippXpressSidebar";
+import RateCardsPanel from "@/components/RateCardsPanel";
+import InvoicesPanel from "@/components/InvoicesPanel";
+import AccountsPanel from "@/components/AccountsPanel";
 
 // Type definitions
 interface SuperAdminStats {
@@ -56,6 +60,7 @@ interface Client {
   contact_email: string;
   contact_phone: string;
   is_active: boolean;
+  requireProofOfDelivery: boolean;
   created_at: string;
 }
 
@@ -72,17 +77,36 @@ interface Zone {
   id: number;
   name: string;
   direction: string;
-  max_distance: number;
-  base_address: string;
-  is_active: boolean;
+  ruleType: "polygon" | "radius" | "zip_prefix";
+  radius: number;
+  zipPrefixes: string[] | null;
+  priority: number;
+  isActive: boolean;
+}
+
+interface UnzonedOrder {
+  id: number;
+  orderNumber: string;
+  customerName: string;
+  deliveryCity: string;
+  deliveryState: string;
+  deliveryZip: string;
+  zoneException: "unmatched" | "ambiguous" | "no_coordinates" | null;
 }
 
+const ZONE_EXCEPTION_LABELS: Record<string, string> = {
+  unmatched: "No matching zone",
+  ambiguous: "Matches several zones",
+  no_coordinates: "Address not geocoded",
+};
+
 interface RouteBatch {
   id: number;
-  batch_date: string;
-  cutoff_time: string;
+  date: string;
+  cutoffTime: string;
   status: string;
-  order_count: number;
+  orderCount: number;
+  routeCount: number;
 }
 
 // Zod schemas
@@ -99,8 +123,8 @@ const assignZoneSchema = z.object({
 });
 
 const routeBatchSchema = z.object({
-  batch_date: z.string().min(1, "Date is required"),
-  cutoff_time: z.string().min(1, "Cutoff time is required"),
+  date: z.string().min(1, "Date is required"),
+  cutoffTime: z.string().min(1, "Cutoff time is required"),
 });
 
 type CreateClientForm = z.infer<typeof createClientSchema>;
@@ -140,6 +164,11 @@ export default function SuperAdmin() {
     retry: false,
   });
 
+  const { data: unzonedOrders = [], isLoading: unzonedLoading } = useQuery<UnzonedOrder[]>({
+    queryKey: ["/api/zones/exceptions"],
+    retry: false,
+  });
+
   const { data: batches = [] as RouteBatch[], isLoading: batchesLoading } = useQuery({
     queryKey: ["/api/route-batches"],
     retry: false,
@@ -167,8 +196,8 @@ export default function SuperAdmin() {
   const routeBatchForm = useForm<RouteBatchForm>({
     resolver: zodResolver(routeBatchSchema),
     defaultValues: {
-      batch_date: new Date().toISOString().split('T')[0],
-      cutoff_time: "14:30",
+      date: new Date().toISOString().split('T')[0],
+      cutoffTime: "14:30",
     },
   });
 
@@ -224,6 +253,93 @@ export default function SuperAdmin() {
     },
   });
 
+  const optimizeBatchMutation = useMutation({
+    mutationFn: async (batchId: number) => {
+      const response = await apiRequest(`/api/route-batches/${batchId}/optimize`, { method: "POST" });
+      return response.json();
+    },
+    onSuccess: (result: { routes: unknown[]; unassigned: { orderNumber: string; reason: string }[] }) => {
+      toast({
+        title: "Batch Optimized",
+        description: result.unassigned.length > 0
+          ? `${result.routes.length} routes planned. ${result.unassigned.length} orders could not be routed: ${result.unassigned.slice(0, 3).map((order) => `${order.orderNumber} (${order.reason})`).join(", ")}`
+          : `${result.routes.length} routes planned for all orders.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/route-batches"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to optimize batch",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const rezoneMutation = useMutation({
+    mutationFn: async (unzonedOnly: boolean) => {
+      const response = await apiRequest("/api/zones/rezone", {
+        method: "POST",
+        body: JSON.stringify({ unzonedOnly }),
+      });
+      return response.json();
+    },
+    onSuccess: (result: { processed: number; changed: number; exceptions: unknown[] }) => {
+      toast({
+        title: "Orders Re-zoned",
+        description: `${result.processed} orders checked, ${result.changed} changed zone, ${result.exceptions.length} still unzoned.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/zones/exceptions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to re-zone orders",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const setOrderZoneMutation = useMutation({
+    mutationFn: async ({ orderId, zoneId }: { orderId: number; zoneId: number }) => {
+      await apiRequest(`/api/orders/${orderId}/zone`, {
+        method: "POST",
+        body: JSON.stringify({ zoneId }),
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/zones/exceptions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to set order zone",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateClientSettingsMutation = useMutation({
+    mutationFn: async ({ clientId, requireProofOfDelivery }: { clientId: number; requireProofOfDelivery: boolean }) => {
+      await apiRequest(`/api/clients/${clientId}/settings`, {
+        method: "PATCH",
+        body: JSON.stringify({ requireProofOfDelivery }),
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/clients"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update client settings",
+        variant: "destructive",
+      });
+    },
+  });
+
   const createBatchMutation = useMutation({
     mutationFn: async (data: RouteBatchForm) => {
       await apiRequest("/api/route-batches", {
@@ -377,11 +493,14 @@ export default function SuperAdmin() {
 
           {/* Main Content Tabs */}
           <Tabs defaultValue="clients" className="space-y-4">
-            <TabsList className="grid w-full grid-cols-4">
+            <TabsList className="grid w-full grid-cols-7">
               <TabsTrigger value="clients">Clients</TabsTrigger>
               <TabsTrigger value="drivers">Drivers</TabsTrigger>
               <TabsTrigger value="zones">Zones</TabsTrigger>
               <TabsTrigger value="batches">Route Batches</TabsTrigger>
+              <TabsTrigger value="rates">Rates</TabsTrigger>
+              <TabsTrigger value="invoices">Invoices</TabsTrigger>
+              <TabsTrigger value="accounts">Accounts</TabsTrigger>
             </TabsList>
 
             {/* Clients Tab */}
@@ -487,17 +606,18 @@ export default function SuperAdmin() {
                         <TableHead>Email</TableHead>
                         <TableHead>Phone</TableHead>
                         <TableHead>Status</TableHead>
+                        <TableHead>POD Required</TableHead>
                         <TableHead>Actions</TableHead>
                       </TableRow>
                     </TableHeader>
                     <TableBody>
                       {clientsLoading ? (
                         <TableRow>
-                          <TableCell colSpan={5} className="text-center">Loading...</TableCell>
+                          <TableCell colSpan={6} className="text-center">Loading...</TableCell>
                         </TableRow>
                       ) : clientsData.length === 0 ? (
                         <TableRow>
-                          <TableCell colSpan={5} className="text-center">No clients found</TableCell>
+                          <TableCell colSpan={6} className="text-center">No clients found</TableCell>
                         </TableRow>
                       ) : (
                         clientsData.map((client: Client) => (
@@ -510,6 +630,13 @@ export default function SuperAdmin() {
                                 {client.is_active ? "Active" : "Inactive"}
                               </Badge>
                             </TableCell>
+                            <TableCell>
+                              <Switch
+                                checked={client.requireProofOfDelivery}
+                                onCheckedChange={(checked) => updateClientSettingsMutation.mutate({ clientId: client.id, requireProofOfDelivery: checked })}
+                                disabled={updateClientSettingsMutation.isPending}
+                              />
+                            </TableCell>
                             <TableCell>
                               <Button 
                                 size="sm" 
@@ -671,10 +798,20 @@ export default function SuperAdmin() {
             <TabsContent value="zones" className="space-y-4">
               <div className="flex justify-between items-center">
                 <h2 className="text-xl font-semibold">Zone Management</h2>
-                <Button className="bg-green-600 hover:bg-green-700">
-                  <MapPinPlus className="mr-2 h-4 w-4" />
-                  Add Zone
-                </Button>
+                <div className="flex space-x-2">
+                  <Button
+                    variant="outline"
+                    onClick={() => rezoneMutation.mutate(false)}
+                    disabled={rezoneMutation.isPending}
+                  >
+                    <MapPin className="mr-2 h-4 w-4" />
+                    {rezoneMutation.isPending ? "Re-zoning..." : "Re-zone Open Orders"}
+                  </Button>
+                  <Button className="bg-green-600 hover:bg-green-700">
+                    <MapPinPlus className="mr-2 h-4 w-4" />
+                    Add Zone
+                  </Button>
+                </div>
               </div>
 
               <Card>
@@ -688,8 +825,8 @@ export default function SuperAdmin() {
                       <TableRow>
                         <TableHead>Name</TableHead>
                         <TableHead>Direction</TableHead>
-                        <TableHead>Max Distance</TableHead>
-                        <TableHead>Base Address</TableHead>
+                        <TableHead>Rule</TableHead>
+                        <TableHead>Priority</TableHead>
                         <TableHead>Status</TableHead>
                       </TableRow>
                     </TableHeader>
@@ -707,13 +844,90 @@ export default function SuperAdmin() {
                           <TableRow key={zone.id}>
                             <TableCell className="font-medium">{zone.name}</TableCell>
                             <TableCell>{zone.direction}</TableCell>
-                            <TableCell>{zone.max_distance} miles</TableCell>
-                            <TableCell>{zone.base_address}</TableCell>
                             <TableCell>
-                              <Badge variant={zone.is_active ? "default" : "secondary"}>
-                                {zone.is_active ? "Active" : "Inactive"}
+                              {zone.ruleType === "polygon" && "Polygon"}
+                              {zone.ruleType === "radius" && `Within ${zone.radius} miles`}
+                              {zone.ruleType === "zip_prefix" && `ZIP ${(zone.zipPrefixes ?? []).join(", ")}`}
+                            </TableCell>
+                            <TableCell>{zone.priority}</TableCell>
+                            <TableCell>
+                              <Badge variant={zone.isActive ? "default" : "secondary"}>
+                                {zone.isActive ? "Active" : "Inactive"}
+                              </Badge>
+                            </TableCell>
+                          </TableRow>
+                        ))
+                      )}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <div className="flex justify-between items-center">
+                    <div>
+                      <CardTitle>Unzoned Orders</CardTitle>
+                      <CardDescription>Open orders no zone rule could place; they are left out of route optimization</CardDescription>
+                    </div>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => rezoneMutation.mutate(true)}
+                      disabled={rezoneMutation.isPending || unzonedOrders.length === 0}
+                    >
+                      Retry Unzoned
+                    </Button>
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Order</TableHead>
+                        <TableHead>Customer</TableHead>
+                        <TableHead>Delivery</TableHead>
+                        <TableHead>Reason</TableHead>
+                        <TableHead>Assign Zone</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {unzonedLoading ? (
+                        <TableRow>
+                          <TableCell colSpan={5} className="text-center">Loading...</TableCell>
+                        </TableRow>
+                      ) : unzonedOrders.length === 0 ? (
+                        <TableRow>
+                          <TableCell colSpan={5} className="text-center">Every open order has a zone</TableCell>
+                        </TableRow>
+                      ) : (
+                        unzonedOrders.map((order) => (
+                          <TableRow key={order.id}>
+                            <TableCell className="font-medium">{order.orderNumber}</TableCell>
+                            <TableCell>{order.customerName}</TableCell>
+                            <TableCell>{order.deliveryCity}, {order.deliveryState} {order.deliveryZip}</TableCell>
+                            <TableCell>
+                              <Badge variant="secondary">
+                                {ZONE_EXCEPTION_LABELS[order.zoneException ?? "unmatched"]}
                               </Badge>
                             </TableCell>
+                            <TableCell>
+                              <Select
+                                onValueChange={(value) => setOrderZoneMutation.mutate({ orderId: order.id, zoneId: parseInt(value) })}
+                                disabled={setOrderZoneMutation.isPending}
+                              >
+                                <SelectTrigger className="w-40">
+                                  <SelectValue placeholder="Select zone" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {zonesData.map((zone: Zone) => (
+                                    <SelectItem key={zone.id} value={zone.id.toString()}>
+                                      {zone.name}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            </TableCell>
                           </TableRow>
                         ))
                       )}
@@ -745,7 +959,7 @@ export default function SuperAdmin() {
                       <form onSubmit={routeBatchForm.handleSubmit(onCreateBatch)} className="space-y-4">
                         <FormField
                           control={routeBatchForm.control}
-                          name="batch_date"
+                          name="date"
                           render={({ field }) => (
                             <FormItem>
                               <FormLabel>Batch Date</FormLabel>
@@ -758,7 +972,7 @@ export default function SuperAdmin() {
                         />
                         <FormField
                           control={routeBatchForm.control}
-                          name="cutoff_time"
+                          name="cutoffTime"
                           render={({ field }) => (
                             <FormItem>
                               <FormLabel>Cutoff Time</FormLabel>
@@ -800,33 +1014,46 @@ export default function SuperAdmin() {
                         <TableHead>Cutoff Time</TableHead>
                         <TableHead>Status</TableHead>
                         <TableHead>Order Count</TableHead>
+                        <TableHead>Routes</TableHead>
                         <TableHead>Actions</TableHead>
                       </TableRow>
                     </TableHeader>
                     <TableBody>
                       {batchesLoading ? (
                         <TableRow>
-                          <TableCell colSpan={5} className="text-center">Loading...</TableCell>
+                          <TableCell colSpan={6} className="text-center">Loading...</TableCell>
                         </TableRow>
                       ) : batchesData.length === 0 ? (
                         <TableRow>
-                          <TableCell colSpan={5} className="text-center">No batches found</TableCell>
+                          <TableCell colSpan={6} className="text-center">No batches found</TableCell>
                         </TableRow>
                       ) : (
                         batchesData.map((batch: RouteBatch) => (
                           <TableRow key={batch.id}>
                             <TableCell className="font-medium">
-                              {new Date(batch.batch_date).toLocaleDateString()}
+                              {new Date(`${batch.date}T12:00:00`).toLocaleDateString()}
                             </TableCell>
-                            <TableCell>{batch.cutoff_time}</TableCell>
+                            <TableCell>{batch.cutoffTime}</TableCell>
                             <TableCell>
                               <Badge variant="default">{batch.status}</Badge>
                             </TableCell>
-                            <TableCell>{batch.order_count || 0}</TableCell>
+                            <TableCell>{batch.orderCount || 0}</TableCell>
+                            <TableCell>{batch.routeCount || 0}</TableCell>
                             <TableCell>
-                              <Button size="sm" variant="outline">
-                                <Eye className="h-4 w-4" />
-                              </Button>
+                              <div className="flex space-x-2">
+                                <Button size="sm" variant="outline">
+                                  <Eye className="h-4 w-4" />
+                                </Button>
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => optimizeBatchMutation.mutate(batch.id)}
+                                  disabled={optimizeBatchMutation.isPending}
+                                >
+                                  <Route className="h-4 w-4 mr-1" />
+                                  Optimize
+                                </Button>
+                              </div>
                             </TableCell>
                           </TableRow>
                         ))
@@ -836,6 +1063,21 @@ export default function SuperAdmin() {
                 </CardContent>
               </Card>
             </TabsContent>
+
+            {/* Rates Tab */}
+            <TabsContent value="rates">
+              <RateCardsPanel clients={clientsData} />
+            </TabsContent>
+
+            {/* Invoices Tab */}
+            <TabsContent value="invoices">
+              <InvoicesPanel clients={clientsData} />
+            </TabsContent>
+
+            {/* Accounts Tab */}
+            <TabsContent value="accounts">
+              <AccountsPanel />
+            </TabsContent>
           </Tabs>
         </div>
       </div>
@@ -5,8 +5,9 @@ import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
-import { Search, Package, Truck, MapPin, CheckCircle, Clock, AlertCircle } from "lucide-react";
+import { Search, Package, Truck, MapPin, CheckCircle, Clock, AlertCircle, Camera } from "lucide-react";
 import logoPath from "@assets/logo_ship_1751420016110.jpg";
+import { DELIVERY_FAILURE_REASON_LABELS } from "@shared/schema";
 
 interface OrderStatusStep {
   status: string;
@@ -20,7 +21,7 @@ export default function TrackOrder() {
   const [trackingNumber, setTrackingNumber] = useState("");
   const [searchInitiated, setSearchInitiated] = useState(false);
 
-  const { data: orderData, isLoading, error } = useQuery({
+  const { data: orderData, isLoading, error } = useQuery<any>({
     queryKey: ['/api/orders/track', trackingNumber],
     enabled: searchInitiated && trackingNumber.length > 0,
     retry: false,
@@ -83,6 +84,8 @@ export default function TrackOrder() {
       case 'picked_up': return 'bg-yellow-500';
       case 'confirmed': return 'bg-purple-500';
       case 'pending': return 'bg-gray-500';
+      case 'return_to_sender': return 'bg-red-500';
+      case 'returned': return 'bg-red-500';
       default: return 'bg-gray-400';
     }
   };
@@ -206,6 +209,61 @@ export default function TrackOrder() {
                   </CardContent>
                 </Card>
 
+                {/* Proof of Delivery */}
+                {orderData.proofOfDelivery && (
+                  <Card className="mb-6">
+                    <CardHeader>
+                      <CardTitle className="flex items-center gap-2">
+                        <Camera className="h-5 w-5 text-green-600" />
+                        Proof of Delivery
+                      </CardTitle>
+                      <CardDescription>
+                        Received by {orderData.proofOfDelivery.recipientName} on {new Date(orderData.proofOfDelivery.capturedAt).toLocaleString()}
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      <a href={orderData.proofOfDelivery.photoUrl} target="_blank" rel="noreferrer">
+                        <img
+                          src={orderData.proofOfDelivery.photoUrl}
+                          alt="Delivered package"
+                          className="h-32 w-32 rounded-md border object-cover"
+                        />
+                      </a>
+                    </CardContent>
+                  </Card>
+                )}
+
+                {/* Delivery Attempts */}
+                {orderData.attempts?.length > 0 && (
+                  <Card className="mb-6">
+                    <CardHeader>
+                      <CardTitle className="flex items-center gap-2">
+                        <AlertCircle className="h-5 w-5 text-orange-500" />
+                        Delivery Attempts
+                      </CardTitle>
+                      <CardDescription>
+                        {orderData.status === 'return_to_sender' || orderData.status === 'returned'
+                          ? 'All delivery attempts were used - this package is being returned to the sender'
+                          : `${orderData.attempts.length} of ${orderData.maxAttempts} attempts used - we'll try again on the next delivery run`}
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      <div className="space-y-3">
+                        {orderData.attempts.map((attempt: any) => (
+                          <div key={attempt.attemptNumber} className="flex items-center justify-between text-sm">
+                            <span className="font-medium text-gray-900">
+                              Attempt {attempt.attemptNumber}: {DELIVERY_FAILURE_REASON_LABELS[attempt.reasonCode as keyof typeof DELIVERY_FAILURE_REASON_LABELS] || attempt.reasonCode}
+                            </span>
+                            <span className="text-gray-500">
+                              {new Date(attempt.attemptedAt).toLocaleString()}
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    </CardContent>
+                  </Card>
+                )}
+
                 {/* Tracking Timeline */}
                 <Card>
                   <CardHeader>
@@ -0,0 +1,200 @@
+import { test, before, after, beforeEach, mock } from "node:test";
+import assert from "node:assert/strict";
+import express from "express";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import { stubStorage } from "./testSupport";
+import { storage } from "./storage";
+import { registerApiRoutes } from "./routes";
+import type { User, Client, AddressBookEntry, OrderTemplate } from "@shared/schema";
+
+// The client address book and order templates. Saved addresses are geocoded on the way
+// in and again whenever the address itself changes, so the book only holds street-level
+// matches; templates belong to the signed-in user's client. The geocoder is answered by
+// a stand-in for the Google API and storage is replaced with fixtures.
+
+process.env.GOOGLE_MAPS_API_KEY = "test-key";
+
+const USERS = [
+  { id: "client-a-shipper", role: "client", clientId: 1, clientRole: "shipper", isActive: true },
+] as User[];
+
+const ENTRY = {
+  id: 7,
+  clientId: 1,
+  label: "Warehouse",
+  customerName: "Dock 4",
+  deliveryLine1: "100 Main St",
+  deliveryLine2: null,
+  deliveryCity: "Springfield",
+  deliveryState: "IL",
+  deliveryZip: "62701",
+  deliveryCountry: "USA",
+} as AddressBookEntry;
+
+const STREET_MATCH = {
+  status: "OK",
+  results: [{
+    types: ["street_address"],
+    formatted_address: "100 Main St, Springfield, IL 62701, USA",
+    geometry: { location: { lat: 39.8017, lng: -89.6436 } },
+  }],
+};
+
+const ROUTE_MATCH = {
+  status: "OK",
+  results: [{ types: ["route"], formatted_address: "Main St, Springfield, IL 62701, USA" }],
+};
+
+const { calls, called } = stubStorage(storage, {
+  getUser: async (id: string) => USERS.find((u) => u.id === id),
+  getClient: async (id: number) => ({ id, isActive: true }) as Client,
+  getAddressBookEntry: async (clientId: number, id: number) =>
+    clientId === ENTRY.clientId && id === ENTRY.id ? ENTRY : undefined,
+  createAddressBookEntry: async (clientId: number, entry: Partial<AddressBookEntry>) => ({ id: 8, clientId, ...entry }),
+  updateAddressBookEntry: async (clientId: number, id: number, updates: Partial<AddressBookEntry>) =>
+    ({ ...ENTRY, ...updates, clientId, id }),
+  createOrderTemplate: async (clientId: number, template: Partial<OrderTemplate>, createdBy: string) =>
+    ({ id: 3, clientId, createdBy, ...template }),
+});
+
+let server: Server;
+let baseUrl: string;
+let geocoderAnswer: unknown;
+const geocoded: string[] = [];
+
+before(async () => {
+  const app = express();
+  app.use(express.json());
+  // Stands in for the passport session: x-test-user picks the signed-in user
+  app.use((req: any, _res, next) => {
+    const userId = req.get("x-test-user");
+    req.isAuthenticated = () => !!userId;
+    if (userId) {
+      const sessionUser = USERS.find((u) => u.id === userId);
+      req.user = { claims: { sub: userId }, client: { id: sessionUser?.clientId } };
+    }
+    next();
+  });
+  registerApiRoutes(app);
+
+  server = app.listen(0);
+  await new Promise((resolve) => server.once("listening", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  const realFetch = globalThis.fetch;
+  mock.method(globalThis, "fetch", async (input: string | URL | Request, init?: RequestInit) => {
+    const url = String(input);
+    if (!url.startsWith("https://maps.googleapis.com/")) return realFetch(input, init);
+    geocoded.push(new URL(url).searchParams.get("address")!);
+    return Response.json(geocoderAnswer);
+  });
+});
+
+after(() => {
+  mock.restoreAll();
+  server.close();
+});
+
+beforeEach(() => {
+  calls.length = 0;
+  geocoded.length = 0;
+  geocoderAnswer = STREET_MATCH;
+});
+
+async function request(method: string, path: string, body?: unknown) {
+  const response = await fetch(`${baseUrl}${path}`, {
+    method,
+    headers: { "x-test-user": "client-a-shipper", "content-type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  return { status: response.status, body: await response.json().catch(() => null) };
+}
+
+const NEW_ADDRESS = {
+  label: "Warehouse",
+  customerName: "Dock 4",
+  deliveryLine1: "100 Main St",
+  deliveryCity: "Springfield",
+  deliveryState: "IL",
+  deliveryZip: "62701",
+};
+
+test("a saved address is stored with the location it geocoded to", async () => {
+  const response = await request("POST", "/api/address-book", NEW_ADDRESS);
+
+  assert.equal(response.status, 200);
+  assert.deepEqual(geocoded, ["100 Main St, Springfield, IL 62701, US"]);
+  const [save] = called("createAddressBookEntry");
+  assert.equal(save.args[0], 1);
+  assert.deepEqual(save.args[2], {
+    isValid: true,
+    formattedAddress: "100 Main St, Springfield, IL 62701, USA",
+    latitude: 39.8017,
+    longitude: -89.6436,
+  });
+});
+
+test("an address that only matches a street is refused with a suggestion", async () => {
+  geocoderAnswer = ROUTE_MATCH;
+
+  const response = await request("POST", "/api/address-book", { ...NEW_ADDRESS, deliveryLine1: "Main St" });
+
+  assert.equal(response.status, 422);
+  assert.equal(response.body.suggestion, "Try: [Number] Main St, Springfield, IL 62701, USA");
+  assert.equal(called("createAddressBookEntry").length, 0);
+});
+
+test("renaming a saved address keeps its location without geocoding again", async () => {
+  const response = await request("PATCH", "/api/address-book/7", { label: "Main warehouse", deliveryZip: "62701" });
+
+  assert.equal(response.status, 200);
+  assert.deepEqual(geocoded, []);
+  const [update] = called("updateAddressBookEntry");
+  assert.deepEqual(update.args.slice(0, 3), [1, 7, { label: "Main warehouse", deliveryZip: "62701" }]);
+  assert.equal(update.args[3], undefined);
+});
+
+test("changing a saved address geocodes the merged address before it is stored", async () => {
+  geocoderAnswer = ROUTE_MATCH;
+  const refused = await request("PATCH", "/api/address-book/7", { deliveryLine1: "Main St" });
+  assert.equal(refused.status, 422);
+  assert.equal(called("updateAddressBookEntry").length, 0);
+
+  geocoderAnswer = STREET_MATCH;
+  const response = await request("PATCH", "/api/address-book/7", { deliveryZip: "62702" });
+
+  assert.equal(response.status, 200);
+  assert.deepEqual(geocoded, ["Main St, Springfield, IL 62701, USA", "100 Main St, Springfield, IL 62702, USA"]);
+  const [update] = called("updateAddressBookEntry");
+  assert.equal(update.args[3].isValid, true);
+});
+
+test("another client's saved address is not found", async () => {
+  const response = await request("PATCH", "/api/address-book/8", { label: "Theirs" });
+
+  assert.equal(response.status, 404);
+  assert.equal(called("updateAddressBookEntry").length, 0);
+});
+
+test("templates are saved for the signed-in user's client and need a package", async () => {
+  const template = {
+    name: "Weekly restock",
+    customerName: "Dock 4",
+    deliveryLine1: "100 Main St",
+    deliveryCity: "Springfield",
+    deliveryState: "IL",
+    deliveryZip: "62701",
+    packages: [{ description: "Pallet", quantity: 2 }],
+  };
+
+  const empty = await request("POST", "/api/order-templates", { ...template, packages: [] });
+  assert.equal(empty.status, 400);
+
+  const response = await request("POST", "/api/order-templates", { ...template, clientId: 2 });
+  assert.equal(response.status, 200);
+  const [save] = called("createOrderTemplate");
+  assert.equal(save.args[0], 1);
+  assert.equal(save.args[2], "client-a-shipper");
+  assert.equal("clientId" in save.args[1], false);
+});
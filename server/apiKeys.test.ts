@@ -0,0 +1,103 @@
+import { test, before, after, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import express from "express";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import { stubStorage } from "./testSupport";
+import { storage } from "./storage";
+import { registerApiRoutes } from "./routes";
+import { generateApiKey, hashApiKey, readApiKey } from "./apiKeys";
+import type { ClientApiKey, Order } from "@shared/schema";
+
+// Client API keys and the /api/v1 surface they open. Only a key's hash is stored, it is
+// read from either header, it must carry the scope of the endpoint, and it only reaches
+// its own client's orders. Storage is replaced with fixtures.
+
+const READ_KEY = "sx_live_read-only-test-key";
+const TRACKING_KEY = "sx_live_tracking-test-key";
+
+const API_KEYS = [
+  { id: 1, clientId: 1, keyHash: hashApiKey(READ_KEY), scopes: ["orders:read"] },
+  { id: 2, clientId: 1, keyHash: hashApiKey(TRACKING_KEY), scopes: ["tracking:read"] },
+] as ClientApiKey[];
+
+const ORDERS = [
+  { id: 10, orderNumber: "SX-A-10", clientId: 1, status: "assigned" },
+  { id: 20, orderNumber: "SX-B-20", clientId: 2, status: "assigned" },
+] as Order[];
+
+const { calls, called } = stubStorage(storage, {
+  getActiveApiKeyByHash: async (keyHash: string) => API_KEYS.find((key) => key.keyHash === keyHash),
+  touchApiKey: async () => undefined,
+  getOrdersForClient: async (clientId: number) => ORDERS.filter((order) => order.clientId === clientId),
+  getOrderByNumber: async (orderNumber: string) => ORDERS.find((order) => order.orderNumber === orderNumber),
+});
+
+let server: Server;
+let baseUrl: string;
+
+before(async () => {
+  const app = express();
+  app.use(express.json());
+  registerApiRoutes(app);
+
+  server = app.listen(0);
+  await new Promise((resolve) => server.once("listening", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+  server.close();
+});
+
+beforeEach(() => {
+  calls.length = 0;
+});
+
+async function get(path: string, headers: Record<string, string> = {}) {
+  const response = await fetch(`${baseUrl}${path}`, { headers });
+  return { status: response.status, body: await response.json().catch(() => null) };
+}
+
+test("a new key is shown once and kept only as its hash and a short prefix", () => {
+  const { key, keyPrefix, keyHash } = generateApiKey();
+
+  assert.match(key, /^sx_live_[\w-]{43}$/);
+  assert.equal(keyPrefix, key.slice(0, 14));
+  assert.equal(keyHash, hashApiKey(key));
+  assert.match(keyHash, /^[0-9a-f]{64}$/);
+  assert.notEqual(generateApiKey().key, key);
+});
+
+test("the key is read from a bearer token or the X-API-Key header", () => {
+  assert.equal(readApiKey({ authorization: `Bearer ${READ_KEY}` }), READ_KEY);
+  assert.equal(readApiKey({ "x-api-key": ` ${READ_KEY} ` }), READ_KEY);
+  assert.equal(readApiKey({ "x-api-key": [READ_KEY, TRACKING_KEY] }), READ_KEY);
+  assert.equal(readApiKey({ authorization: "Basic dXNlcjpwYXNz" }), null);
+  assert.equal(readApiKey({ authorization: "Bearer " }), null);
+});
+
+test("requests without a known key are unauthorized", async () => {
+  assert.equal((await get("/api/v1/orders")).status, 401);
+  assert.equal((await get("/api/v1/orders", { authorization: "Bearer sx_live_unknown" })).status, 401);
+  assert.equal(called("getOrdersForClient").length, 0);
+});
+
+test("a key only opens the endpoints its scopes name", async () => {
+  const response = await get("/api/v1/orders", { "x-api-key": TRACKING_KEY });
+
+  assert.equal(response.status, 403);
+  assert.equal(response.body.message, "API key is missing the orders:read scope");
+  assert.equal(called("getOrdersForClient").length, 0);
+});
+
+test("a key lists and reads its own client's orders only", async () => {
+  const list = await get("/api/v1/orders", { authorization: `Bearer ${READ_KEY}` });
+  assert.equal(list.status, 200);
+  assert.deepEqual(list.body.map((order: Order) => order.orderNumber), ["SX-A-10"]);
+  assert.equal(called("getOrdersForClient")[0].args[0], 1);
+
+  assert.equal((await get("/api/v1/orders/SX-A-10", { "x-api-key": READ_KEY })).status, 200);
+  assert.equal((await get("/api/v1/orders/SX-B-20", { "x-api-key": READ_KEY })).status, 404);
+  assert.deepEqual(called("touchApiKey").map((call) => call.args[0]), [1, 1, 1]);
+});
@@ -0,0 +1,30 @@
+import { createHash, randomBytes } from "crypto";
+
+// Client API keys look like `sx_live_<32 random bytes, base64url>`. The full key is
+// shown once at creation; afterwards only its hash and prefix are kept.
+
+const KEY_PREFIX = "sx_live_";
+const DISPLAY_PREFIX_LENGTH = KEY_PREFIX.length + 6;
+
+export function hashApiKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+export function generateApiKey(): { key: string; keyPrefix: string; keyHash: string } {
+  const key = `${KEY_PREFIX}${randomBytes(32).toString("base64url")}`;
+  return {
+    key,
+    keyPrefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+    keyHash: hashApiKey(key),
+  };
+}
+
+// Accepts `Authorization: Bearer <key>` or `X-API-Key: <key>`
+export function readApiKey(headers: { authorization?: string; "x-api-key"?: string | string[] }): string | null {
+  const header = headers.authorization;
+  if (header?.startsWith("Bearer ")) {
+    return header.slice("Bearer ".length).trim() || null;
+  }
+  const apiKey = headers["x-api-key"];
+  return (Array.isArray(apiKey) ? apiKey[0] : apiKey)?.trim() || null;
+}
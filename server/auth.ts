@@ -0,0 +1,147 @@
+import passport from "passport";
+import session from "express-session";
+import type { Express, Request, RequestHandler } from "express";
+import { storage } from "./storage";
+import { hashApiKey, readApiKey } from "./apiKeys";
+import { getAuthProvider, SESSION_TTL_MS, type AuthProvider } from "./authProviders";
+import { DatabaseSessionStore } from "./sessionStore";
+import { getImpersonation, isImpersonationExpired, runWithImpersonation, type Impersonation } from "./impersonation";
+import type { ApiKeyScope } from "@shared/schema";
+
+// Set by setupAuth; renews expired sign-ins when the provider supports it
+let authProvider: AuthProvider | undefined;
+
+let sessionMiddleware: RequestHandler | undefined;
+
+// One instance per process so WebSocket upgrades read the same store as HTTP requests
+export function getSession() {
+  if (sessionMiddleware) return sessionMiddleware;
+
+  const sessionTtl = SESSION_TTL_MS;
+  sessionMiddleware = session({
+    secret: process.env.SESSION_SECRET!,
+    store: new DatabaseSessionStore(sessionTtl),
+    resave: false,
+    saveUninitialized: false,
+    cookie: {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      maxAge: sessionTtl,
+    },
+  });
+  return sessionMiddleware;
+}
+
+// Sessions and passport, then whichever sign-in AUTH_PROVIDER selects (see authProviders.ts)
+export async function setupAuth(app: Express) {
+  app.set("trust proxy", 1);
+  app.use(getSession());
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.serializeUser((user: Express.User, cb) => cb(null, user));
+  passport.deserializeUser((user: Express.User, cb) => cb(null, user));
+
+  authProvider = getAuthProvider();
+  await authProvider.setup(app);
+}
+
+export const isAuthenticated: RequestHandler = async (req, res, next) => {
+  const user = req.user as any;
+
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: "Unauthorized" });
+  }
+
+  // Impersonated sessions run with the admin recorded until they expire; the request
+  // that finds one expired is refused and the admin's own session comes back
+  const impersonation = getImpersonation(user);
+  if (impersonation) {
+    if (isImpersonationExpired(impersonation)) {
+      try {
+        await endImpersonation(req, "expired");
+      } catch (error) {
+        console.error("Error ending expired impersonation:", error);
+      }
+      return res.status(401).json({ message: "Impersonation expired" });
+    }
+    return runWithImpersonation(impersonation, next);
+  }
+
+  // Handle client sessions (they don't have OAuth tokens)
+  if (user.client) {
+    return next();
+  }
+
+  // Handle provider sign-ins
+  if (!user.expires_at) {
+    return res.status(401).json({ message: "Unauthorized" });
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  if (now <= user.expires_at) {
+    return next();
+  }
+
+  try {
+    if (authProvider?.refresh && await authProvider.refresh(user)) {
+      return next();
+    }
+    res.status(401).json({ message: "Unauthorized" });
+    return;
+  } catch (error) {
+    res.status(401).json({ message: "Unauthorized" });
+    return;
+  }
+};
+
+// Puts the admin's own session user back after impersonating a client
+export async function endImpersonation(req: Request, reason: "exit" | "expired"): Promise<Impersonation | undefined> {
+  const impersonation = getImpersonation(req.user);
+  if (!impersonation) return undefined;
+
+  const clientUserId = (req.user as any).claims.sub;
+  req.user = impersonation.original;
+  (req.session as any).passport = { user: impersonation.original };
+  await new Promise<void>((resolve, reject) => {
+    req.session.save((error) => (error ? reject(error) : resolve()));
+  });
+
+  await storage.logActivity(
+    impersonation.impersonatorId,
+    reason === "exit" ? "IMPERSONATION_ENDED" : "IMPERSONATION_EXPIRED",
+    `${reason === "exit" ? "Stopped" : "Timed out"} impersonating client #${impersonation.clientId}`,
+    { clientId: impersonation.clientId, clientUserId, startedAt: impersonation.startedAt }
+  );
+  return impersonation;
+}
+
+// API key auth for the /api/v1 integration surface. Resolves the key to its client and
+// exposes it as req.apiKey = { id, clientId, scopes }; the key must carry `scope`.
+export function isApiKeyAuthenticated(scope: ApiKeyScope): RequestHandler {
+  return async (req, res, next) => {
+    const key = readApiKey(req.headers);
+    if (!key) {
+      return res.status(401).json({ message: "API key required" });
+    }
+
+    try {
+      const apiKey = await storage.getActiveApiKeyByHash(hashApiKey(key));
+      if (!apiKey) {
+        return res.status(401).json({ message: "Invalid API key" });
+      }
+
+      const scopes = apiKey.scopes as ApiKeyScope[];
+      if (!scopes.includes(scope)) {
+        return res.status(403).json({ message: `API key is missing the ${scope} scope` });
+      }
+
+      (req as any).apiKey = { id: apiKey.id, clientId: apiKey.clientId, scopes };
+      storage.touchApiKey(apiKey.id).catch((error) => console.error("Error updating API key usage:", error));
+      return next();
+    } catch (error) {
+      console.error("Error authenticating API key:", error);
+      res.status(500).json({ message: "Failed to authenticate API key" });
+    }
+  };
+}
@@ -0,0 +1,246 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import express from "express";
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import { stubStorage } from "./testSupport";
+import { storage } from "./storage";
+import { hashPassword } from "./passwords";
+import * as auth from "./auth";
+import * as authProviders from "./authProviders";
+import type { User } from "@shared/schema";
+
+// Staff sign-in through each AUTH_PROVIDER, end to end through setupAuth: the session a
+// login leaves behind must pass isAuthenticated. Storage is replaced with fixtures and
+// the OIDC issuer is a fake one on localhost.
+
+const PASSWORD = "correct horse battery staple";
+
+const USERS: User[] = [];
+const sessionRows = new Map<string, unknown>();
+
+const { called } = stubStorage(storage, {
+  getSessionData: async (sid: string) => sessionRows.get(sid),
+  saveSession: async (sid: string, sess: unknown) => void sessionRows.set(sid, JSON.parse(JSON.stringify(sess))),
+  deleteSession: async (sid: string) => void sessionRows.delete(sid),
+  getUser: async (id: string) => USERS.find((user) => user.id === id),
+  getUserByEmail: async (email: string) => USERS.find((user) => user.email === email),
+  upsertUser: async (user: Partial<User>) => user,
+  logActivity: async () => ({}),
+  recordUserLogin: async (id: string) => USERS.find((user) => user.id === id),
+  recordFailedUserLogin: async (id: string) => ({ ...USERS.find((user) => user.id === id), failedLoginAttempts: 1, lockedUntil: null }),
+  clearUserLoginFailures: async () => undefined,
+});
+
+const servers: Server[] = [];
+
+before(async () => {
+  const passwordHash = await hashPassword(PASSWORD);
+  USERS.push(
+    { id: "staff-1", email: "staff@example.com", role: "staff", isActive: true, passwordHash } as User,
+    { id: "former-1", email: "former@example.com", role: "staff", isActive: false, passwordHash } as User,
+    { id: "client-1", email: "client@example.com", role: "client", isActive: true, passwordHash } as User,
+  );
+});
+
+after(() => {
+  for (const server of servers) server.close();
+});
+
+// Sets `vars` for the duration of `fn`; undefined unsets
+async function withEnv<T>(vars: Record<string, string | undefined>, fn: () => Promise<T> | T): Promise<T> {
+  const saved = Object.fromEntries(Object.keys(vars).map((key) => [key, process.env[key]]));
+  const apply = (values: Record<string, string | undefined>) => {
+    for (const [key, value] of Object.entries(values)) {
+      if (value === undefined) delete process.env[key];
+      else process.env[key] = value;
+    }
+  };
+  apply(vars);
+  try {
+    return await fn();
+  } finally {
+    apply(saved);
+  }
+}
+
+async function listen(server: Server): Promise<string> {
+  servers.push(server);
+  server.listen(0, "127.0.0.1");
+  await new Promise((resolve) => server.once("listening", resolve));
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+}
+
+// The app as server/index.ts builds it, plus a route that echoes the signed-in user
+async function startApp(env: Record<string, string | undefined>): Promise<string> {
+  const app = express();
+  app.use(express.json());
+  await withEnv(env, () => auth.setupAuth(app));
+  app.get("/whoami", auth.isAuthenticated, (req: any, res) => res.json(req.user.claims));
+  return listen(createServer(app));
+}
+
+// A browser, as far as cookies and redirects go
+function browser(baseUrl: string) {
+  let cookie = "";
+  return async (path: string, init: RequestInit = {}) => {
+    const response = await fetch(new URL(path, baseUrl), {
+      ...init,
+      redirect: "manual",
+      headers: { "content-type": "application/json", ...(cookie && { cookie }), ...init.headers },
+    });
+    const setCookie = response.headers.get("set-cookie");
+    if (setCookie) cookie = setCookie.split(";")[0];
+    return response;
+  };
+}
+
+test("AUTH_PROVIDER picks the provider", () => {
+  for (const name of authProviders.AUTH_PROVIDERS) {
+    assert.equal(authProviders.getAuthProvider(name).name, name);
+  }
+  assert.throws(() => authProviders.getAuthProvider("saml"), /Unknown AUTH_PROVIDER "saml"/);
+});
+
+test("without AUTH_PROVIDER, OIDC is used where callback domains are set and local elsewhere", async () => {
+  await withEnv({ AUTH_PROVIDER: undefined, AUTH_DOMAINS: undefined, REPLIT_DOMAINS: undefined }, () => {
+    assert.equal(authProviders.getAuthProvider().name, "local");
+  });
+  await withEnv({ AUTH_PROVIDER: undefined, AUTH_DOMAINS: "app.example.com", REPLIT_DOMAINS: undefined }, () => {
+    assert.equal(authProviders.getAuthProvider().name, "oidc");
+  });
+  await withEnv({ AUTH_PROVIDER: undefined, AUTH_DOMAINS: undefined, REPLIT_DOMAINS: "app.replit.dev" }, () => {
+    assert.equal(authProviders.getAuthProvider().name, "oidc");
+  });
+});
+
+test("the dev provider only starts in development with AUTH_DEV_LOGIN=1", async () => {
+  for (const env of [
+    { NODE_ENV: "production", AUTH_DEV_LOGIN: "1" },
+    { NODE_ENV: "test", AUTH_DEV_LOGIN: "1" },
+    { NODE_ENV: undefined, AUTH_DEV_LOGIN: "1" },
+    { NODE_ENV: "development", AUTH_DEV_LOGIN: undefined },
+    { NODE_ENV: "development", AUTH_DEV_LOGIN: "true" },
+  ]) {
+    await withEnv(env, () =>
+      assert.rejects(authProviders.getAuthProvider("dev").setup(express()), /AUTH_DEV_LOGIN=1/, JSON.stringify(env)));
+  }
+
+  await withEnv({ NODE_ENV: "development", AUTH_DEV_LOGIN: "1" }, () => authProviders.getAuthProvider("dev").setup(express()));
+});
+
+test("local sign-in with the right password starts a session", async () => {
+  const request = browser(await startApp({ AUTH_PROVIDER: "local" }));
+
+  const login = await request("/api/auth/login", {
+    method: "POST",
+    body: JSON.stringify({ email: "staff@example.com", password: PASSWORD }),
+  });
+  assert.equal(login.status, 200);
+  const body = await login.json();
+  assert.equal(body.id, "staff-1");
+  assert.equal(body.passwordHash, undefined);
+
+  const whoami = await request("/whoami");
+  assert.equal(whoami.status, 200);
+  assert.equal((await whoami.json()).sub, "staff-1");
+});
+
+test("local sign-in refuses wrong passwords, inactive staff and client users", async () => {
+  const request = browser(await startApp({ AUTH_PROVIDER: "local" }));
+  const failuresBefore = called("recordFailedUserLogin").length;
+
+  for (const [email, password] of [
+    ["staff@example.com", "wrong"],
+    ["former@example.com", PASSWORD],
+    ["client@example.com", PASSWORD],
+    ["nobody@example.com", PASSWORD],
+  ]) {
+    const login = await request("/api/auth/login", { method: "POST", body: JSON.stringify({ email, password }) });
+    assert.equal(login.status, 401, email);
+  }
+
+  // Only the known staff member's failure counts towards a lockout
+  assert.equal(called("recordFailedUserLogin").length - failuresBefore, 1);
+  assert.equal((await request("/whoami")).status, 401);
+});
+
+test("OIDC sign-in exchanges the code with the issuer and starts a session", async () => {
+  const clientId = "test-client";
+  let issuer = "";
+  const tokenRequests: URLSearchParams[] = [];
+
+  const base64url = (value: object) => Buffer.from(JSON.stringify(value)).toString("base64url");
+  issuer = await listen(createServer(async (req, res) => {
+    res.setHeader("content-type", "application/json");
+    if (req.url === "/.well-known/openid-configuration") {
+      return res.end(JSON.stringify({
+        issuer,
+        authorization_endpoint: `${issuer}/authorize`,
+        token_endpoint: `${issuer}/token`,
+        code_challenge_methods_supported: ["S256"],
+      }));
+    }
+    if (req.url === "/token" && req.method === "POST") {
+      let body = "";
+      for await (const chunk of req) body += chunk;
+      tokenRequests.push(new URLSearchParams(body));
+      const now = Math.floor(Date.now() / 1000);
+      const claims = { iss: issuer, aud: clientId, sub: "oidc-user-1", email: "oidc@example.com", iat: now, exp: now + 3600 };
+      return res.end(JSON.stringify({
+        access_token: "access-token",
+        token_type: "Bearer",
+        expires_in: 3600,
+        id_token: `${base64url({ alg: "RS256", typ: "JWT" })}.${base64url(claims)}.signature`,
+      }));
+    }
+    res.statusCode = 404;
+    res.end("{}");
+  }));
+
+  const request = browser(await startApp({
+    AUTH_PROVIDER: "oidc",
+    ISSUER_URL: issuer,
+    OIDC_CLIENT_ID: clientId,
+    AUTH_DOMAINS: "127.0.0.1",
+  }));
+
+  const login = await request("/api/login");
+  assert.equal(login.status, 302);
+  const authorize = new URL(login.headers.get("location")!);
+  assert.equal(authorize.origin + authorize.pathname, `${issuer}/authorize`);
+  assert.equal(authorize.searchParams.get("client_id"), clientId);
+  assert.equal(authorize.searchParams.get("redirect_uri"), "https://127.0.0.1/api/callback");
+
+  // The issuer sends the browser back with a code
+  const callback = await request("/api/callback?code=the-code");
+  assert.equal(callback.status, 302);
+  assert.equal(callback.headers.get("location"), "/");
+
+  assert.equal(tokenRequests.length, 1);
+  assert.equal(tokenRequests[0].get("code"), "the-code");
+  assert.ok(tokenRequests[0].get("code_verifier"), "the PKCE verifier is sent with the code");
+  assert.ok(called("upsertUser").some(({ args }) => args[0].id === "oidc-user-1" && args[0].email === "oidc@example.com"));
+
+  const whoami = await request("/whoami");
+  assert.equal(whoami.status, 200);
+  assert.equal((await whoami.json()).sub, "oidc-user-1");
+});
+
+test("OIDC callbacks without a sign-in in progress don't start a session", async () => {
+  const request = browser(await startApp({
+    AUTH_PROVIDER: "oidc",
+    OIDC_CLIENT_ID: "test-client",
+    AUTH_DOMAINS: "127.0.0.1",
+    // Discovery is memoized per provider, so this one needs an issuer of its own
+    ISSUER_URL: await listen(createServer((req, res) => {
+      const issuer = `http://127.0.0.1:${(req.socket.address() as AddressInfo).port}`;
+      res.setHeader("content-type", "application/json");
+      res.end(JSON.stringify({ issuer, authorization_endpoint: `${issuer}/authorize`, token_endpoint: `${issuer}/token`, code_challenge_methods_supported: ["S256"] }));
+    })),
+  }));
+
+  const callback = await request("/api/callback?code=forged");
+  assert.notEqual(callback.headers.get("location"), "/");
+  assert.equal((await request("/whoami")).status, 401);
+});
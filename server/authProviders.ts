@@ -0,0 +1,354 @@
+import * as client from "openid-client";
+import { Strategy, type VerifyFunction } from "openid-client/passport";
+import passport from "passport";
+import memoize from "memoizee";
+import { randomUUID } from "crypto";
+import { z } from "zod";
+import type { Express, Request, Response } from "express";
+import { storage } from "./storage";
+import { hashPassword, verifyPassword, needsRehash } from "./passwords";
+import {
+  MAX_LOGIN_ATTEMPTS,
+  LOGIN_LOCKOUT_MINUTES,
+  DUMMY_PASSWORD_HASH,
+  ClientAuthError,
+  invalidCredentials,
+  accountLocked,
+  type RequestContext,
+} from "./clientAuth";
+import { staffLoginSchema, type User } from "@shared/schema";
+
+// How admins, staff and drivers sign in. AUTH_PROVIDER picks one of:
+//   oidc  - any OpenID Connect issuer, set by ISSUER_URL (Replit's by default)
+//   local - email and password stored on the user, with the client portal's lockout rules
+//   dev   - sign in as any seeded user without a password; only with NODE_ENV=development
+//           and AUTH_DEV_LOGIN=1
+// Without AUTH_PROVIDER, deployments with REPLIT_DOMAINS keep using OIDC and everything
+// else uses local. Every provider upserts the user from OIDC-style claims and signs in
+// the same session user, so isAuthenticated and the routes don't know which one ran.
+// Client portal logins are separate (see clientAuth.ts).
+
+export const AUTH_PROVIDERS = ["oidc", "local", "dev"] as const;
+export type AuthProviderName = (typeof AUTH_PROVIDERS)[number];
+
+// How long a session lasts, and so a local or dev sign-in
+export const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+export interface AuthProvider {
+  name: AuthProviderName;
+  // Mounts /api/login and /api/logout, plus whatever else the provider needs
+  setup(app: Express): Promise<void>;
+  // Renews an expired session user in place; false when it can't be renewed
+  refresh?(user: any): Promise<boolean>;
+}
+
+export interface UserClaims {
+  sub: string;
+  email?: string | null;
+  first_name?: string | null;
+  last_name?: string | null;
+  profile_image_url?: string | null;
+}
+
+// Roles that sign in through the provider rather than the client portal
+const STAFF_ROLES = ["super_admin", "staff", "driver"];
+
+export async function upsertUser(
+  claims: any,
+) {
+  await storage.upsertUser({
+    id: claims["sub"],
+    email: claims["email"],
+    firstName: claims["first_name"],
+    lastName: claims["last_name"],
+    profileImageUrl: claims["profile_image_url"],
+  });
+}
+
+function toClaims(user: User): UserClaims {
+  return {
+    sub: user.id,
+    email: user.email,
+    first_name: user.firstName,
+    last_name: user.lastName,
+    profile_image_url: user.profileImageUrl,
+  };
+}
+
+// Signs in a user the provider has vouched for, with the session user an OIDC sign-in
+// would have produced minus the tokens; it expires with the session
+async function logIn(req: Request, claims: UserClaims): Promise<void> {
+  await upsertUser(claims);
+  const sessionUser = { claims, expires_at: Math.floor((Date.now() + SESSION_TTL_MS) / 1000) };
+  await new Promise<void>((resolve, reject) => {
+    req.login(sessionUser, (error) => (error ? reject(error) : resolve()));
+  });
+}
+
+function logOut(req: Request, res: Response) {
+  req.logout(() => {
+    res.redirect("/");
+  });
+}
+
+function updateUserSession(
+  user: any,
+  tokens: client.TokenEndpointResponse & client.TokenEndpointResponseHelpers
+) {
+  user.claims = tokens.claims();
+  user.access_token = tokens.access_token;
+  user.refresh_token = tokens.refresh_token;
+  user.expires_at = user.claims?.exp;
+}
+
+// ISSUER_URL, OIDC_CLIENT_ID and optionally OIDC_CLIENT_SECRET; on Replit the client id
+// is REPL_ID. Callbacks are registered for each host in AUTH_DOMAINS (or REPLIT_DOMAINS).
+// Only an issuer on localhost may use plain http.
+function oidcProvider(): AuthProvider {
+  const issuerUrl = new URL(process.env.ISSUER_URL ?? "https://replit.com/oidc");
+  const clientId = process.env.OIDC_CLIENT_ID ?? process.env.REPL_ID;
+  const isLocalIssuer = ["localhost", "127.0.0.1", "[::1]"].includes(issuerUrl.hostname);
+
+  const getOidcConfig = memoize(
+    async () => {
+      return await client.discovery(
+        issuerUrl,
+        clientId!,
+        process.env.OIDC_CLIENT_SECRET,
+        undefined,
+        isLocalIssuer ? { execute: [client.allowInsecureRequests] } : undefined
+      );
+    },
+    { maxAge: 3600 * 1000 }
+  );
+
+  return {
+    name: "oidc",
+
+    async setup(app) {
+      if (!clientId) {
+        throw new Error("Environment variable OIDC_CLIENT_ID (or REPL_ID) not provided");
+      }
+      const domainList = process.env.AUTH_DOMAINS ?? process.env.REPLIT_DOMAINS;
+      if (!domainList) {
+        throw new Error("Environment variable AUTH_DOMAINS (or REPLIT_DOMAINS) not provided");
+      }
+
+      const config = await getOidcConfig();
+
+      const verify: VerifyFunction = async (
+        tokens: client.TokenEndpointResponse & client.TokenEndpointResponseHelpers,
+        verified: passport.AuthenticateCallback
+      ) => {
+        const user = {};
+        updateUserSession(user, tokens);
+        await upsertUser(tokens.claims());
+        verified(null, user);
+      };
+
+      const domains = domainList.split(",");
+
+      // In development, also register localhost
+      if (process.env.NODE_ENV === 'development') {
+        domains.push('localhost');
+      }
+
+      for (const domain of domains) {
+        const strategy = new Strategy(
+          {
+            name: `oidc:${domain}`,
+            config,
+            scope: "openid email profile offline_access",
+            callbackURL: `https://${domain}/api/callback`,
+          },
+          verify,
+        );
+        passport.use(strategy);
+      }
+
+      app.get("/api/login", (req, res, next) => {
+        passport.authenticate(`oidc:${req.hostname}`, {
+          prompt: "login consent",
+          scope: ["openid", "email", "profile", "offline_access"],
+        })(req, res, next);
+      });
+
+      app.get("/api/callback", (req, res, next) => {
+        passport.authenticate(`oidc:${req.hostname}`, {
+          successReturnToOrRedirect: "/",
+          failureRedirect: "/api/login",
+        })(req, res, next);
+      });
+
+      app.get("/api/logout", (req, res) => {
+        req.logout(() => {
+          // Not every issuer has an end-session endpoint
+          let redirectTo = "/";
+          try {
+            redirectTo = client.buildEndSessionUrl(config, {
+              client_id: clientId,
+              post_logout_redirect_uri: `${req.protocol}://${req.hostname}`,
+            }).href;
+          } catch {}
+          res.redirect(redirectTo);
+        });
+      });
+    },
+
+    async refresh(user) {
+      if (!user.refresh_token) return false;
+      const tokenResponse = await client.refreshTokenGrant(await getOidcConfig(), user.refresh_token);
+      updateUserSession(user, tokenResponse);
+      return true;
+    },
+  };
+}
+
+// Staff and driver passwords follow the client portal's rules: the same hash format,
+// lockout after repeated failures and a constant-time answer for unknown emails
+async function authenticateStaff(email: string, password: string, context: RequestContext): Promise<User> {
+  const user = await storage.getUserByEmail(email);
+  if (!user || !STAFF_ROLES.includes(user.role) || !user.isActive || !user.passwordHash) {
+    await verifyPassword(password, await DUMMY_PASSWORD_HASH);
+    await storage.logActivity("anonymous", "STAFF_LOGIN_FAILED", `Failed staff login for unknown user ${email}`, { email, ...context });
+    throw invalidCredentials();
+  }
+
+  const now = new Date();
+  if (user.lockedUntil && user.lockedUntil > now) {
+    await storage.logActivity(user.id, "STAFF_LOGIN_BLOCKED", `Login refused for locked ${user.email}`, { lockedUntil: user.lockedUntil, ...context });
+    throw accountLocked(user.lockedUntil);
+  }
+  if (user.lockedUntil) {
+    // The lockout has run out: start counting again
+    await storage.clearUserLoginFailures(user.id);
+  }
+
+  if (!(await verifyPassword(password, user.passwordHash))) {
+    const updated = await storage.recordFailedUserLogin(user.id, MAX_LOGIN_ATTEMPTS, LOGIN_LOCKOUT_MINUTES * 60 * 1000);
+    const attempts = updated.failedLoginAttempts;
+    await storage.logActivity(user.id, "STAFF_LOGIN_FAILED", `Failed login for ${user.email}`, { attempts, ...context });
+
+    if (updated.lockedUntil && updated.lockedUntil > now) {
+      await storage.logActivity(user.id, "STAFF_ACCOUNT_LOCKED", `${user.email} locked after ${attempts} failed logins`, { lockedUntil: updated.lockedUntil, ...context });
+      throw accountLocked(updated.lockedUntil);
+    }
+    throw invalidCredentials();
+  }
+
+  if (needsRehash(user.passwordHash)) {
+    await storage.rehashUserPassword(user.id, await hashPassword(password));
+    await storage.logActivity(user.id, "STAFF_PASSWORD_REHASHED", `Upgraded stored password hash for ${user.email}`, context);
+  }
+
+  const signedIn = await storage.recordUserLogin(user.id);
+  await storage.logActivity(user.id, "STAFF_LOGIN", `${user.email} signed in`, context);
+  return signedIn;
+}
+
+// LOCAL_ADMIN_EMAIL and LOCAL_ADMIN_PASSWORD give a fresh install its first super admin.
+// A super admin with that email who already has a password keeps it.
+async function ensureLocalAdmin() {
+  const email = process.env.LOCAL_ADMIN_EMAIL;
+  const password = process.env.LOCAL_ADMIN_PASSWORD;
+  if (!email || !password) return;
+
+  const existing = await storage.getUserByEmail(email);
+  if (!existing) {
+    await storage.upsertUser({ id: randomUUID(), email, role: "super_admin", passwordHash: await hashPassword(password) });
+    console.log(`Created local super admin ${email}`);
+  } else if (existing.role === "super_admin" && !existing.passwordHash) {
+    await storage.changeUserPassword(existing.id, await hashPassword(password));
+    console.log(`Set the password of local super admin ${email}`);
+  } else if (existing.role !== "super_admin") {
+    console.warn(`LOCAL_ADMIN_EMAIL ${email} belongs to a ${existing.role} user; not promoting it`);
+  }
+}
+
+// /api/login shows the sign-in page, which posts to /api/auth/login
+function localProvider(): AuthProvider {
+  return {
+    name: "local",
+
+    async setup(app) {
+      await ensureLocalAdmin();
+
+      app.get("/api/login", (_req, res) => {
+        res.redirect("/login");
+      });
+
+      app.post("/api/auth/login", async (req, res) => {
+        try {
+          const { email, password } = staffLoginSchema.parse(req.body);
+          const user = await authenticateStaff(email, password, { ip: req.ip, userAgent: req.get("user-agent") });
+          await logIn(req, toClaims(user));
+          const { passwordHash, ...rest } = user;
+          res.json(rest);
+        } catch (error) {
+          if (error instanceof z.ZodError) {
+            return res.status(400).json({ message: 'Email and password required', errors: error.errors });
+          }
+          if (error instanceof ClientAuthError) {
+            return res.status(error.status).json(error);
+          }
+          console.error("Error logging in:", error);
+          res.status(500).json({ message: "Failed to login" });
+        }
+      });
+
+      app.get("/api/logout", logOut);
+    },
+  };
+}
+
+// /api/login?as=<user id or email>, or DEV_LOGIN_USER when `as` is left out. Only users
+// that already exist (seeded or signed in before) can be used.
+function devProvider(): AuthProvider {
+  return {
+    name: "dev",
+
+    async setup(app) {
+      if (process.env.NODE_ENV !== "development" || process.env.AUTH_DEV_LOGIN !== "1") {
+        throw new Error("The dev auth provider needs NODE_ENV=development and AUTH_DEV_LOGIN=1");
+      }
+
+      app.get("/api/login", async (req, res) => {
+        try {
+          const as = typeof req.query.as === "string" ? req.query.as : process.env.DEV_LOGIN_USER;
+          if (!as) {
+            return res.status(400).json({ message: "Pass ?as=<user id or email> or set DEV_LOGIN_USER" });
+          }
+          const user = (await storage.getUser(as)) ?? (await storage.getUserByEmail(as));
+          if (!user) {
+            return res.status(404).json({ message: `No user ${as}` });
+          }
+          if (!STAFF_ROLES.includes(user.role)) {
+            return res.status(400).json({ message: "Client users sign in through the client portal" });
+          }
+
+          await logIn(req, toClaims(user));
+          res.redirect("/");
+        } catch (error) {
+          console.error("Error logging in:", error);
+          res.status(500).json({ message: "Failed to login" });
+        }
+      });
+
+      app.get("/api/logout", logOut);
+    },
+  };
+}
+
+export function getAuthProvider(name = process.env.AUTH_PROVIDER): AuthProvider {
+  const selected = name || (process.env.AUTH_DOMAINS || process.env.REPLIT_DOMAINS ? "oidc" : "local");
+  switch (selected) {
+    case "oidc":
+      return oidcProvider();
+    case "local":
+      return localProvider();
+    case "dev":
+      return devProvider();
+    default:
+      throw new Error(`Unknown AUTH_PROVIDER "${selected}"; expected one of ${AUTH_PROVIDERS.join(", ")}`);
+  }
+}
@@ -0,0 +1,252 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import express from "express";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import { stubStorage } from "./testSupport";
+import { storage } from "./storage";
+import { registerApiRoutes } from "./routes";
+import type { User, Client, Order, Driver, Invoice } from "@shared/schema";
+
+// Cross-tenant access through the session API. Two clients (1 and 2) each have an order
+// carried by their own driver; every request below is made by someone who must not
+// reach the other tenant's order, driver or client. Storage is replaced with fixtures
+// and any other storage call fails the request, so a 403 also proves no handler ran.
+
+function user(id: string, fields: Partial<User>): User {
+  return { id, role: "client", clientId: null, clientRole: null, isActive: true, ...fields } as User;
+}
+
+const USERS: User[] = [
+  user("admin", { role: "super_admin" }),
+  user("staff", { role: "staff" }),
+  user("driver-a", { role: "driver" }),
+  user("driver-b", { role: "driver" }),
+  user("client-a-admin", { clientId: 1, clientRole: "client_admin" }),
+  user("client-a-viewer", { clientId: 1, clientRole: "viewer" }),
+  user("client-b-admin", { clientId: 2, clientRole: "client_admin" }),
+  user("client-b-shipper", { clientId: 2, clientRole: "shipper" }),
+  user("client-b-former", { clientId: 2, clientRole: "client_admin", isActive: false }),
+  user("client_2", { clientId: 2, clientRole: "client_admin" }),
+  user("client-c-admin", { clientId: 3, clientRole: "client_admin" }),
+  user("client_3", { clientId: 3, clientRole: "client_admin" }),
+];
+
+const CLIENTS = [
+  { id: 1, isActive: true },
+  { id: 2, isActive: true },
+  { id: 3, isActive: false },
+] as Client[];
+
+const DRIVERS = [
+  { id: 1, userId: "driver-a" },
+  { id: 2, userId: "driver-b" },
+] as Driver[];
+
+const ORDERS = [
+  { id: 10, orderNumber: "SX-A-10", clientId: 1, driverId: 1, status: "assigned" },
+  { id: 20, orderNumber: "SX-B-20", clientId: 2, driverId: 2, status: "assigned" },
+] as Order[];
+
+const INVOICES = [
+  { id: 100, clientId: 1 },
+  { id: 200, clientId: 2 },
+] as Invoice[];
+
+stubStorage(storage, {
+  getUser: async (id: string) => USERS.find((u) => u.id === id),
+  getClient: async (id: number) => CLIENTS.find((client) => client.id === id),
+  getDriver: async (id: number) => DRIVERS.find((driver) => driver.id === id),
+  getDriverByUserId: async (userId: string) => DRIVERS.find((driver) => driver.userId === userId),
+  getOrder: async (id: number) => ORDERS.find((order) => order.id === id),
+  getOrderByNumber: async (orderNumber: string) => ORDERS.find((order) => order.orderNumber === orderNumber),
+  getInvoice: async (id: number) => INVOICES.find((invoice) => invoice.id === id),
+  getPackageByTrackingId: async (code: string) =>
+    code === "PKG-A-1" ? { package: { id: 1, trackingId: code }, order: ORDERS[0] } : undefined,
+});
+
+let server: Server;
+let baseUrl: string;
+
+before(async () => {
+  const app = express();
+  app.use(express.json());
+  app.use(express.text());
+  // Stands in for the passport session: x-test-user picks the signed-in user
+  app.use((req: any, _res, next) => {
+    const userId = req.get("x-test-user");
+    req.isAuthenticated = () => !!userId;
+    if (userId) {
+      const sessionUser = USERS.find((u) => u.id === userId);
+      req.user = sessionUser?.role === "client"
+        ? { claims: { sub: userId }, client: { id: sessionUser.clientId } }
+        : { claims: { sub: userId }, expires_at: Math.floor(Date.now() / 1000) + 3600 };
+    }
+    next();
+  });
+  registerApiRoutes(app);
+
+  server = app.listen(0);
+  await new Promise((resolve) => server.once("listening", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+  server.close();
+});
+
+async function request(userId: string, method: string, path: string, body?: unknown) {
+  const response = await fetch(`${baseUrl}${path}`, {
+    method,
+    headers: { "x-test-user": userId, "content-type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  return { status: response.status, body: await response.json().catch(() => null) };
+}
+
+type Endpoint = [method: string, path: string, body?: unknown];
+
+async function assertDenied(userId: string, endpoints: Endpoint[]) {
+  for (const [method, path, body] of endpoints) {
+    const response = await request(userId, method, path, method === "GET" ? undefined : body ?? {});
+    assert.equal(response.status, 403, `${userId} ${method} ${path} returned ${response.status}: ${JSON.stringify(response.body)}`);
+  }
+}
+
+// Client 1's order, carried by driver 1
+const ORDER_A_ENDPOINTS: Endpoint[] = [
+  ["GET", "/api/orders/10"],
+  ["GET", "/api/orders/10/transitions"],
+  ["PATCH", "/api/orders/10/status", { status: "picked_up" }],
+  ["PATCH", "/api/orders/SX-A-10/status", { status: "picked_up" }],
+  ["PATCH", "/api/orders/10/assign", { driverId: 2 }],
+  ["PATCH", "/api/orders/10/pin", { pinned: true }],
+  ["POST", "/api/orders/10/attempts", { reasonCode: "no_one_home" }],
+  ["GET", "/api/orders/10/attempts"],
+  ["POST", "/api/orders/10/proof-of-delivery", { recipientName: "A" }],
+  ["GET", "/api/orders/10/proof-of-delivery"],
+  ["GET", "/api/orders/10/proof-of-delivery/photo"],
+  ["GET", "/api/orders/10/packages"],
+  ["POST", "/api/packages/scan", { code: "PKG-A-1", action: "delivery" }],
+  ["POST", "/api/orders/10/void", { reason: "test" }],
+  ["POST", "/api/orders/10/invoice"],
+  ["POST", "/api/orders/10/zone", { zoneId: 1 }],
+];
+
+const DRIVER_ENDPOINTS: Endpoint[] = [
+  ["GET", "/api/drivers"],
+  ["GET", "/api/drivers/available"],
+  ["POST", "/api/drivers", { userId: "driver-c" }],
+  ["PATCH", "/api/drivers/1/status", { status: "offline" }],
+  ["GET", "/api/drivers/1/location-history"],
+  ["POST", "/api/drivers/1/assign-zone", { zoneId: 1 }],
+  ["GET", "/api/users/driver-a/sessions"],
+  ["DELETE", "/api/users/driver-a/sessions"],
+];
+
+// Client 1 by id, and its invoice
+const CLIENT_A_ENDPOINTS: Endpoint[] = [
+  ["GET", "/api/clients/1/api-keys"],
+  ["POST", "/api/clients/1/api-keys", { name: "key" }],
+  ["POST", "/api/clients/1/api-keys/1/rotate"],
+  ["DELETE", "/api/clients/1/api-keys/1"],
+  ["GET", "/api/clients/1/users"],
+  ["POST", "/api/clients/1/users", { email: "x@example.com", clientRole: "viewer" }],
+  ["POST", "/api/clients/1/users/client-a-admin/resend-invite"],
+  ["PATCH", "/api/clients/1/users/client-a-admin", { isActive: false }],
+  ["PATCH", "/api/clients/1/settings", { requireProofOfDelivery: true }],
+  ["GET", "/api/clients/1/sessions"],
+  ["DELETE", "/api/clients/1/sessions"],
+  ["GET", "/api/clients/1/ledger"],
+  ["POST", "/api/clients/1/ledger", { type: "payment", amount: "1.00" }],
+  ["GET", "/api/clients/1/statement"],
+  ["GET", "/api/invoices/100"],
+  ["GET", "/api/invoices/100/pdf"],
+  ["PATCH", "/api/invoices/100/status", { status: "paid" }],
+  ["POST", "/api/impersonate-client/1"],
+];
+
+test("another client's users can't reach client 1's order", async () => {
+  await assertDenied("client-b-admin", ORDER_A_ENDPOINTS);
+  await assertDenied("client-b-shipper", ORDER_A_ENDPOINTS);
+  await assertDenied("client_2", ORDER_A_ENDPOINTS);
+});
+
+test("a driver can't reach an order assigned to another driver", async () => {
+  await assertDenied("driver-b", ORDER_A_ENDPOINTS);
+});
+
+test("client users can't reach driver endpoints", async () => {
+  await assertDenied("client-b-admin", DRIVER_ENDPOINTS);
+  await assertDenied("client_2", DRIVER_ENDPOINTS);
+});
+
+test("a driver can't change another driver or reach dispatch endpoints", async () => {
+  await assertDenied("driver-b", DRIVER_ENDPOINTS);
+});
+
+test("another client's users can't reach client 1", async () => {
+  await assertDenied("client-b-admin", CLIENT_A_ENDPOINTS);
+  await assertDenied("client_2", CLIENT_A_ENDPOINTS);
+});
+
+test("a driver can't reach client endpoints", async () => {
+  await assertDenied("driver-a", CLIENT_A_ENDPOINTS);
+});
+
+test("a deactivated client user belongs to no tenant", async () => {
+  await assertDenied("client-b-former", [
+    ["GET", "/api/orders"],
+    ["GET", "/api/orders/20"],
+    ["GET", "/api/address-book"],
+    ["GET", "/api/webhooks"],
+    ["GET", "/api/clients/2/api-keys"],
+    ["GET", "/api/invoices"],
+  ]);
+});
+
+test("a deactivated client's users, shared login included, belong to no tenant", async () => {
+  for (const userId of ["client-c-admin", "client_3"]) {
+    await assertDenied(userId, [
+      ["GET", "/api/orders"],
+      ["GET", "/api/address-book"],
+      ["GET", "/api/clients/3/api-keys"],
+    ]);
+  }
+});
+
+test("a client_ id is no tenant without a stored user behind it", async () => {
+  await assertDenied("client_1", [
+    ["GET", "/api/orders"],
+    ["GET", "/api/orders/10"],
+    ["GET", "/api/clients/1/api-keys"],
+  ]);
+});
+
+test("a viewer can't change or void their own client's order", async () => {
+  await assertDenied("client-a-viewer", [
+    ["PATCH", "/api/orders/10/status", { status: "voided" }],
+    ["PATCH", "/api/orders/SX-A-10/status", { status: "voided" }],
+    ["POST", "/api/orders/10/void", { reason: "test" }],
+  ]);
+});
+
+test("orders are only voided through the void endpoint", async () => {
+  for (const path of ["/api/orders/10/status", "/api/orders/SX-A-10/status"]) {
+    const response = await request("client-a-admin", "PATCH", path, { status: "voided" });
+    assert.equal(response.status, 400, `${path} returned ${response.status}`);
+  }
+});
+
+test("an order is readable by its client, its driver and dispatch", async () => {
+  for (const userId of ["client-a-admin", "driver-a", "admin", "staff"]) {
+    const response = await request(userId, "GET", "/api/orders/10");
+    assert.equal(response.status, 200, `${userId} got ${response.status}`);
+    assert.equal(response.body.id, 10);
+  }
+});
+
+test("a missing order is a 404, not a 403", async () => {
+  const response = await request("admin", "GET", "/api/orders/999");
+  assert.equal(response.status, 404);
+});
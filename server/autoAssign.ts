@@ -0,0 +1,177 @@
+import { storage, type DriverLoad } from "./storage";
+import { haversineMiles, type LatLng } from "./routeOptimizer";
+import type { AutoAssignOptions, Driver, Order } from "@shared/schema";
+
+// Assigns pending orders to available drivers in the order's zone. Each candidate gets
+// a cost (lower is better) built from:
+//   load     orders the driver already holds, including ones given out in this run
+//   distance miles from the driver's last known location to the delivery
+//   vehicle  capacity left unused, so light parcels go to bikes and cars before trucks
+// Drivers whose vehicle can't take the extra weight are not candidates. Pinned
+// (manually assigned) orders are never touched.
+
+// Used when a driver has no vehicleCapacity of their own
+export const VEHICLE_TYPE_CAPACITY: Record<string, number> = {
+  bike: 30,
+  car: 200,
+  van: 1000,
+  truck: 5000,
+};
+
+const LOAD_COST_PER_ORDER = 10;
+const DISTANCE_COST_PER_MILE = 1;
+const UNUSED_CAPACITY_COST = 20; // at a completely empty vehicle
+const UNKNOWN_DISTANCE_MILES = 25; // stand-in when either location is missing
+const DEFAULT_CAPACITY = parseFloat(process.env.DEFAULT_VEHICLE_CAPACITY || "1000");
+
+export interface AssignmentScore {
+  driverId: number;
+  cost: number;
+  activeOrders: number;
+  distanceMiles: number | null;
+  loadAfter: number;
+  capacity: number;
+}
+
+export interface ProposedAssignment {
+  orderId: number;
+  orderNumber: string;
+  driverId: number;
+  reason: string;
+  score: AssignmentScore;
+  alternatives: AssignmentScore[];
+}
+
+export interface AutoAssignResult {
+  dryRun: boolean;
+  assignments: ProposedAssignment[];
+  skipped: { orderId: number; orderNumber: string; reason: string }[];
+}
+
+function getCapacity(driver: Driver): number {
+  if (driver.vehicleCapacity) return parseFloat(driver.vehicleCapacity);
+  return VEHICLE_TYPE_CAPACITY[driver.vehicleType?.toLowerCase() ?? ""] ?? DEFAULT_CAPACITY;
+}
+
+function toLatLng(value: unknown): LatLng | null {
+  const point = value as { lat?: unknown; lng?: unknown } | null;
+  return typeof point?.lat === "number" && typeof point?.lng === "number" ? { lat: point.lat, lng: point.lng } : null;
+}
+
+function describe(driver: Driver, score: AssignmentScore): string {
+  const distance = score.distanceMiles === null ? "location unknown" : `${score.distanceMiles.toFixed(1)} mi away`;
+  const vehicle = driver.vehicleType ? `${driver.vehicleType} ` : "";
+  return `Driver #${driver.id} in zone ${driver.assignedZoneId}: ${score.activeOrders} active orders, ${distance}, ` +
+    `${vehicle}${Math.round(score.loadAfter)}/${Math.round(score.capacity)} lbs after this order`;
+}
+
+export function planAutoAssignment(pending: Order[], drivers: Driver[], loads: DriverLoad[]): Omit<AutoAssignResult, "dryRun"> {
+  const state = new Map(drivers.map((driver) => {
+    const load = loads.find((entry) => entry.driverId === driver.id);
+    return [driver.id, { orderCount: load?.orderCount ?? 0, weight: load?.totalWeight ?? 0 }];
+  }));
+
+  const assignments: ProposedAssignment[] = [];
+  const skipped: AutoAssignResult["skipped"] = [];
+
+  // Heaviest first, so big orders get first pick of the vehicles that can carry them
+  const queue = [...pending].sort((a, b) => (parseFloat(b.weight ?? "0") || 0) - (parseFloat(a.weight ?? "0") || 0));
+
+  for (const order of queue) {
+    if (!order.zoneId) {
+      skipped.push({ orderId: order.id, orderNumber: order.orderNumber, reason: "Order has no zone" });
+      continue;
+    }
+
+    const inZone = drivers.filter((driver) => driver.assignedZoneId === order.zoneId);
+    if (inZone.length === 0) {
+      skipped.push({ orderId: order.id, orderNumber: order.orderNumber, reason: `No available driver in zone ${order.zoneId}` });
+      continue;
+    }
+
+    const weight = parseFloat(order.weight ?? "0") || 0;
+    const destination = toLatLng(order.deliveryCoordinates);
+    const scores: AssignmentScore[] = [];
+
+    for (const driver of inZone) {
+      const current = state.get(driver.id)!;
+      const capacity = getCapacity(driver);
+      const loadAfter = current.weight + weight;
+      if (loadAfter > capacity) continue;
+
+      const origin = toLatLng(driver.location);
+      const distanceMiles = origin && destination ? haversineMiles(origin, destination) : null;
+      const cost =
+        current.orderCount * LOAD_COST_PER_ORDER +
+        (distanceMiles ?? UNKNOWN_DISTANCE_MILES) * DISTANCE_COST_PER_MILE +
+        ((capacity - loadAfter) / capacity) * UNUSED_CAPACITY_COST;
+
+      scores.push({ driverId: driver.id, cost, activeOrders: current.orderCount, distanceMiles, loadAfter, capacity });
+    }
+
+    if (scores.length === 0) {
+      skipped.push({
+        orderId: order.id,
+        orderNumber: order.orderNumber,
+        reason: `No driver in zone ${order.zoneId} has room for ${weight} lbs`,
+      });
+      continue;
+    }
+
+    scores.sort((a, b) => a.cost - b.cost);
+    const [best, ...alternatives] = scores;
+    const driver = inZone.find((candidate) => candidate.id === best.driverId)!;
+
+    const current = state.get(best.driverId)!;
+    current.orderCount += 1;
+    current.weight += weight;
+
+    assignments.push({
+      orderId: order.id,
+      orderNumber: order.orderNumber,
+      driverId: best.driverId,
+      reason: describe(driver, best),
+      score: best,
+      alternatives: alternatives.slice(0, 3),
+    });
+  }
+
+  return { assignments, skipped };
+}
+
+// Dry run returns the plan only; otherwise each assignment is applied and logged with
+// its reason. Orders that were assigned or pinned since the plan was made are skipped.
+export async function runAutoAssignment({ dryRun, ...filter }: AutoAssignOptions, userId: string): Promise<AutoAssignResult> {
+  const [pending, drivers, loads] = await Promise.all([
+    storage.getAutoAssignableOrders(filter),
+    storage.getAvailableDrivers(),
+    storage.getDriverLoads(),
+  ]);
+  const plan = planAutoAssignment(pending, drivers, loads);
+
+  if (dryRun) {
+    return { dryRun, ...plan };
+  }
+
+  const assignments: ProposedAssignment[] = [];
+  const skipped = [...plan.skipped];
+
+  for (const assignment of plan.assignments) {
+    const current = await storage.getOrder(assignment.orderId);
+    if (!current || current.status !== "pending" || current.driverId || current.assignmentPinned) {
+      skipped.push({ orderId: assignment.orderId, orderNumber: assignment.orderNumber, reason: "Changed since the plan was made" });
+      continue;
+    }
+
+    await storage.assignOrderToDriver(assignment.orderId, assignment.driverId, userId, { pinned: false });
+    await storage.logActivity(
+      userId,
+      "ORDER_AUTO_ASSIGNED",
+      `Auto-assigned order ${assignment.orderNumber}. ${assignment.reason}`,
+      { orderId: assignment.orderId, driverId: assignment.driverId, score: assignment.score, alternatives: assignment.alternatives }
+    );
+    assignments.push(assignment);
+  }
+
+  return { dryRun, assignments, skipped };
+}
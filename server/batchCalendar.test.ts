@@ -0,0 +1,42 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import "./testSupport";
+import { getZonedInstant, getIntakeBatchDate, isServiceDay, getBatchCutoff } from "./batchCalendar";
+
+// Batch dates and times are wall-clock in the operating zone, whatever zone the server
+// runs in; Chicago here, with DST starting on 2026-03-08 and ending on 2026-11-01
+
+test("a wall-clock time maps to the instant in the operating zone", () => {
+  assert.equal(getZonedInstant("2026-01-15", "08:30").toISOString(), "2026-01-15T14:30:00.000Z");
+  assert.equal(getZonedInstant("2026-07-15", "08:30").toISOString(), "2026-07-15T13:30:00.000Z");
+  assert.equal(getZonedInstant("2026-03-08", "10:00").toISOString(), "2026-03-08T15:00:00.000Z");
+});
+
+test("minutes after midnight carry into the next day, across DST changes too", () => {
+  assert.equal(getZonedInstant("2026-01-15", 8 * 60 + 30).toISOString(), "2026-01-15T14:30:00.000Z");
+  assert.equal(getZonedInstant("2026-01-15", 24 * 60 + 90).toISOString(), "2026-01-16T07:30:00.000Z");
+  assert.equal(getZonedInstant("2026-03-07", 24 * 60 + 10 * 60).toISOString(), "2026-03-08T15:00:00.000Z");
+  assert.equal(getZonedInstant("2026-10-31", 24 * 60 + 10 * 60).toISOString(), "2026-11-01T16:00:00.000Z");
+});
+
+test("orders before the cutoff on a service day join that day's batch", () => {
+  // Thursday 2026-01-15, 14:29 and 14:30 in Chicago
+  assert.equal(getIntakeBatchDate(new Date("2026-01-15T20:29:00Z")), "2026-01-15");
+  assert.equal(getIntakeBatchDate(new Date("2026-01-15T20:30:00Z")), "2026-01-16");
+  // The same times in July, under daylight saving
+  assert.equal(getIntakeBatchDate(new Date("2026-07-15T19:29:00Z")), "2026-07-15");
+  assert.equal(getIntakeBatchDate(new Date("2026-07-15T19:30:00Z")), "2026-07-16");
+});
+
+test("orders after the cutoff, at weekends or on holidays wait for the next service day", () => {
+  assert.equal(getIntakeBatchDate(new Date("2026-01-16T21:00:00Z")), "2026-01-19"); // Friday evening
+  assert.equal(getIntakeBatchDate(new Date("2026-01-17T15:00:00Z")), "2026-01-19"); // Saturday morning
+  assert.equal(getIntakeBatchDate(new Date("2026-12-24T21:00:00Z")), "2026-12-28"); // Christmas Eve evening
+  assert.equal(isServiceDay("2026-12-25"), false);
+  assert.equal(getIntakeBatchDate(new Date("2026-01-15T15:00:00Z"), "08:00"), "2026-01-16");
+});
+
+test("a batch's cutoff is its cutoff time on its date in the operating zone", () => {
+  assert.equal(getBatchCutoff({ date: "2026-01-15", cutoffTime: "14:30:00" }).toISOString(), "2026-01-15T20:30:00.000Z");
+  assert.equal(getBatchCutoff({ date: "2026-07-15", cutoffTime: "14:30:00" }).toISOString(), "2026-07-15T19:30:00.000Z");
+});
@@ -0,0 +1,96 @@
+// Service-day calendar for daily route batches. All dates are YYYY-MM-DD in the
+// operating time zone; cutoffs are wall-clock times in that zone.
+//
+//   BATCH_TIMEZONE      IANA zone, default America/Chicago
+//   BATCH_CUTOFF_TIME   HH:MM, default 14:30
+//   BATCH_SERVICE_DAYS  weekdays that run batches, 0 = Sunday; default 1,2,3,4,5
+//   BATCH_HOLIDAYS      comma-separated YYYY-MM-DD dates with no batch
+
+export const BATCH_TIMEZONE = process.env.BATCH_TIMEZONE || "America/Chicago";
+export const BATCH_CUTOFF_TIME = process.env.BATCH_CUTOFF_TIME || "14:30";
+export const BATCH_SERVICE_DAYS = (process.env.BATCH_SERVICE_DAYS || "1,2,3,4,5")
+  .split(",")
+  .map((day) => parseInt(day.trim()))
+  .filter((day) => day >= 0 && day <= 6);
+export const BATCH_HOLIDAYS = (process.env.BATCH_HOLIDAYS || "")
+  .split(",")
+  .map((date) => date.trim())
+  .filter(Boolean);
+
+// Longest run of non-service days we will skip over before giving up
+const MAX_CALENDAR_SEARCH_DAYS = 366;
+
+function addDays(date: string, days: number): string {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + days);
+  return next.toISOString().split("T")[0];
+}
+
+// Date and wall-clock minutes of `instant` in the operating time zone
+export function getZonedDateTime(instant: Date = new Date()): { date: string; minutes: number } {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-CA", {
+      timeZone: BATCH_TIMEZONE,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+    }).formatToParts(instant).map((part) => [part.type, part.value])
+  );
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    minutes: parseInt(parts.hour) * 60 + parseInt(parts.minute),
+  };
+}
+
+// The instant at which the wall clock in the operating zone reads `time` on `date`.
+// `time` is HH:MM or minutes after midnight; minutes past the end of the day carry
+// into the following days.
+export function getZonedInstant(date: string, time: string | number): Date {
+  const total = Math.round(typeof time === "number" ? time : parseMinutes(time));
+  const days = Math.floor(total / (24 * 60));
+  const guess = new Date(new Date(`${addDays(date, days)}T00:00:00Z`).getTime() + (total - days * 24 * 60) * 60 * 1000);
+  // Shift by the zone's offset at that moment; a second pass settles DST edges
+  let instant = guess;
+  for (let i = 0; i < 2; i++) {
+    const zoned = getZonedDateTime(instant);
+    const zonedAsUtc = new Date(`${zoned.date}T00:00:00Z`).getTime() + zoned.minutes * 60 * 1000;
+    instant = new Date(instant.getTime() + (guess.getTime() - zonedAsUtc));
+  }
+  return instant;
+}
+
+export function isServiceDay(date: string): boolean {
+  const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+  return BATCH_SERVICE_DAYS.includes(weekday) && !BATCH_HOLIDAYS.includes(date);
+}
+
+// First service day strictly after `date`
+export function getNextServiceDay(date: string): string {
+  let next = addDays(date, 1);
+  for (let i = 0; i < MAX_CALENDAR_SEARCH_DAYS && !isServiceDay(next); i++) {
+    next = addDays(next, 1);
+  }
+  return next;
+}
+
+function parseMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map((value) => parseInt(value));
+  return hours * 60 + minutes;
+}
+
+// Batch date an order placed at `instant` belongs to: today until the cutoff on a
+// service day, otherwise the next service day.
+export function getIntakeBatchDate(instant: Date = new Date(), cutoffTime: string = BATCH_CUTOFF_TIME): string {
+  const { date, minutes } = getZonedDateTime(instant);
+  if (isServiceDay(date) && minutes < parseMinutes(cutoffTime)) {
+    return date;
+  }
+  return getNextServiceDay(date);
+}
+
+export function getBatchCutoff(batch: { date: string; cutoffTime: string }): Date {
+  return getZonedInstant(batch.date, batch.cutoffTime);
+}
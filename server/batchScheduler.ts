@@ -0,0 +1,140 @@
+import { storage } from "./storage";
+import {
+  BATCH_CUTOFF_TIME,
+  BATCH_HOLIDAYS,
+  BATCH_SERVICE_DAYS,
+  BATCH_TIMEZONE,
+  getBatchCutoff,
+  getIntakeBatchDate,
+  getNextServiceDay,
+  getZonedDateTime,
+  isServiceDay,
+} from "./batchCalendar";
+import type { Order, RouteBatch } from "@shared/schema";
+
+// Daily batch lifecycle: open a batch for each service day, attach new orders to it
+// until the cutoff, then close it (open → processing), optimize routes and mark it
+// completed. Runs every minute in-process.
+
+const TICK_INTERVAL_MS = 60 * 1000;
+const SYSTEM_USER = "system";
+
+// Puts the order in the batch for the moment it was placed, or for its pickup date if
+// that is later. If that batch has already closed (e.g. the order landed during the
+// cutoff tick) it goes to the next open one.
+export async function attachOrderToBatch(order: Order): Promise<RouteBatch> {
+  const batch = await getOpenBatch(getBatchDateFor(order, new Date()));
+  await storage.addOrderToBatch(order.id, batch.id);
+  return batch;
+}
+
+// attachOrderToBatch for many orders, e.g. an import: one lookup and one update per batch
+export async function attachOrdersToBatches(orderList: Order[]): Promise<void> {
+  const now = new Date();
+  const byDate = new Map<string, number[]>();
+  for (const order of orderList) {
+    const date = getBatchDateFor(order, now);
+    byDate.set(date, [...(byDate.get(date) ?? []), order.id]);
+  }
+  for (const [date, orderIds] of Array.from(byDate.entries())) {
+    const batch = await getOpenBatch(date);
+    await storage.addOrdersToBatch(orderIds, batch.id);
+  }
+}
+
+function getBatchDateFor(order: Order, now: Date): string {
+  let date = getIntakeBatchDate(order.createdAt ?? now);
+  if (getBatchCutoff({ date, cutoffTime: BATCH_CUTOFF_TIME }) <= now) {
+    date = getIntakeBatchDate(now); // placed long ago and never batched
+  }
+  if (order.pickupDate > date) {
+    date = isServiceDay(order.pickupDate) ? order.pickupDate : getNextServiceDay(order.pickupDate);
+  }
+  return date;
+}
+
+async function getOpenBatch(date: string): Promise<RouteBatch> {
+  const batch = await storage.getOrCreateBatch(date);
+  return batch.status === "open" ? batch : storage.getNextOpenBatch(date);
+}
+
+// What the countdown shows: the batch new orders go into now and when it closes
+export async function getBatchSchedule(now: Date = new Date()) {
+  const today = getZonedDateTime(now).date;
+  const batch = await storage.getOrCreateBatch(getIntakeBatchDate(now));
+  const cutoffAt = getBatchCutoff(batch);
+
+  return {
+    timezone: BATCH_TIMEZONE,
+    serviceDays: BATCH_SERVICE_DAYS,
+    holidays: BATCH_HOLIDAYS,
+    defaultCutoffTime: BATCH_CUTOFF_TIME,
+    today,
+    currentBatch: {
+      id: batch.id,
+      date: batch.date,
+      cutoffTime: batch.cutoffTime,
+      cutoffAt: cutoffAt.toISOString(),
+      isToday: batch.date === today,
+    },
+    nextBatchDate: getNextServiceDay(batch.date),
+  };
+}
+
+async function closeBatch(batch: RouteBatch) {
+  const claimed = await storage.updateRouteBatchStatus(batch.id, "open", "processing");
+  if (!claimed) return; // another worker got there first
+
+  try {
+    const result = await storage.optimizeBatch(batch.id);
+    await storage.updateRouteBatchStatus(batch.id, "processing", "completed");
+    await storage.logActivity(
+      SYSTEM_USER,
+      "BATCH_COMPLETED",
+      `Batch ${batch.date} closed at cutoff with ${claimed.totalOrders} orders in ${result.routes.length} routes`,
+      { batchId: batch.id, routeIds: result.routes.map((route) => route.id), unassigned: result.unassigned }
+    );
+  } catch (error) {
+    // Left in processing so an admin can re-run optimization from the dashboard
+    console.error(`Error optimizing batch ${batch.date}:`, error);
+    await storage.logActivity(
+      SYSTEM_USER,
+      "BATCH_OPTIMIZATION_FAILED",
+      `Batch ${batch.date} closed but route optimization failed`,
+      { batchId: batch.id, error: error instanceof Error ? error.message : String(error) }
+    );
+  }
+}
+
+let running = false;
+
+export async function runBatchScheduler(now: Date = new Date()): Promise<void> {
+  if (running) return;
+  running = true;
+
+  try {
+    // Make sure the batch currently taking orders exists
+    await storage.getOrCreateBatch(getIntakeBatchDate(now));
+
+    // Pick up orders created without a batch before their cutoff passes
+    for (const order of await storage.getUnbatchedOrders()) {
+      await attachOrderToBatch(order);
+    }
+
+    for (const batch of await storage.getRouteBatchesByStatus("open")) {
+      if (getBatchCutoff(batch) <= now) {
+        await closeBatch(batch);
+      }
+    }
+  } catch (error) {
+    console.error("Error running batch scheduler:", error);
+  } finally {
+    running = false;
+  }
+}
+
+export function startBatchScheduler() {
+  runBatchScheduler();
+  const timer = setInterval(() => runBatchScheduler(), TICK_INTERVAL_MS);
+  timer.unref();
+}
@@ -0,0 +1,93 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+// Storage for binary artifacts (proof-of-delivery photos and signatures). Callers only
+// see keys like "pod/42/photo-<uuid>.jpg"; the backend is chosen with BLOB_STORE and
+// defaults to local disk under BLOB_STORAGE_DIR. Other backends (S3, GCS, ...) register
+// a factory with registerBlobStore and are selected the same way.
+
+export interface StoredBlob {
+  data: Buffer;
+  contentType: string;
+}
+
+export interface BlobStore {
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<StoredBlob | null>;
+  delete(key: string): Promise<void>;
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".png": "image/png",
+  ".webp": "image/webp",
+};
+
+export class LocalDiskBlobStore implements BlobStore {
+  constructor(private root: string) {}
+
+  // Keys are generated server-side, but never let one climb out of the root
+  private resolve(key: string): string {
+    const target = path.resolve(this.root, key);
+    if (!target.startsWith(path.resolve(this.root) + path.sep)) {
+      throw new Error(`Invalid blob key: ${key}`);
+    }
+    return target;
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const target = this.resolve(key);
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    await fs.writeFile(target, data);
+  }
+
+  async get(key: string): Promise<StoredBlob | null> {
+    try {
+      const data = await fs.readFile(this.resolve(key));
+      return { data, contentType: CONTENT_TYPES[path.extname(key).toLowerCase()] ?? "application/octet-stream" };
+    } catch (error: any) {
+      if (error.code === "ENOENT") return null;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { force: true });
+  }
+}
+
+const factories: Record<string, () => BlobStore> = {
+  local: () => new LocalDiskBlobStore(process.env.BLOB_STORAGE_DIR || path.resolve(process.cwd(), "uploads")),
+};
+
+export function registerBlobStore(name: string, factory: () => BlobStore) {
+  factories[name] = factory;
+}
+
+let instance: BlobStore | undefined;
+
+export function getBlobStore(): BlobStore {
+  if (!instance) {
+    const name = process.env.BLOB_STORE || "local";
+    const factory = factories[name];
+    if (!factory) {
+      throw new Error(`Unknown BLOB_STORE "${name}"`);
+    }
+    instance = factory();
+  }
+  return instance;
+}
+
+// Splits a data URL into its bytes and an extension for the blob key
+export function decodeImageDataUrl(dataUrl: string): { data: Buffer; extension: string; contentType: string } {
+  const match = /^data:(image\/(jpeg|png|webp));base64,(.+)$/.exec(dataUrl);
+  if (!match) {
+    throw new Error("Unsupported image data URL");
+  }
+  return {
+    data: Buffer.from(match[3], "base64"),
+    extension: match[2] === "jpeg" ? "jpg" : match[2],
+    contentType: match[1],
+  };
+}
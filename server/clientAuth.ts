@@ -0,0 +1,253 @@
+import { storage } from "./storage";
+import { sendPasswordResetEmail } from "./email";
+import { hashPassword, verifyPassword, needsRehash, generateResetToken, hashResetToken } from "./passwords";
+import type { Client, User } from "@shared/schema";
+
+// Client portal password login. Client users sign in with their own email and password;
+// the client's shared username still works and signs in as the client's admin. Failed
+// attempts are counted per login and lock it for a while once they reach the limit;
+// every security event is written to the activity log under the login's user id (or
+// "anonymous" for unknown usernames).
+
+// Consecutive failed logins before the account is locked, and for how long
+export const MAX_LOGIN_ATTEMPTS = parseInt(process.env.MAX_LOGIN_ATTEMPTS || "5");
+export const LOGIN_LOCKOUT_MINUTES = parseInt(process.env.LOGIN_LOCKOUT_MINUTES || "15");
+
+// How long an emailed reset link stays valid
+export const PASSWORD_RESET_TTL_MINUTES = parseInt(process.env.PASSWORD_RESET_TTL_MINUTES || "60");
+
+export const APP_BASE_URL = process.env.APP_BASE_URL
+  || (process.env.REPLIT_DOMAINS ? `https://${process.env.REPLIT_DOMAINS.split(",")[0]}` : "http://localhost:5000");
+
+// Verified against when the username is unknown, so those requests take as long as real ones
+export const DUMMY_PASSWORD_HASH = hashPassword("not-a-real-password");
+
+export interface RequestContext {
+  ip?: string;
+  userAgent?: string;
+}
+
+// Raised for rejected logins, reset tokens and password changes. Serializes to the
+// response body; a locked account is 423 with the time it unlocks.
+export class ClientAuthError extends Error {
+  constructor(
+    public status: number,
+    public code: "INVALID_CREDENTIALS" | "ACCOUNT_LOCKED" | "INVALID_RESET_TOKEN" | "INVALID_CURRENT_PASSWORD",
+    message: string,
+    public lockedUntil?: Date,
+  ) {
+    super(message);
+    this.name = "ClientAuthError";
+  }
+
+  toJSON() {
+    return {
+      message: this.message,
+      code: this.code,
+      ...(this.lockedUntil ? { lockedUntil: this.lockedUntil } : {}),
+    };
+  }
+}
+
+export function invalidCredentials() {
+  return new ClientAuthError(401, "INVALID_CREDENTIALS", "Invalid credentials");
+}
+
+export function accountLocked(lockedUntil: Date) {
+  return new ClientAuthError(423, "ACCOUNT_LOCKED", "Too many failed attempts. Try again later or reset your password.", lockedUntil);
+}
+
+// Synthetic user the shared client login signs in as
+export function sharedLoginUserId(clientId: number) {
+  return `client_${clientId}`;
+}
+
+// A password-protected login: a client user's own, or the client's shared one. The
+// storage calls differ between the two; the lockout and rehash rules don't.
+interface LoginAccount {
+  userId: string;
+  label: string;
+  email: string | null;
+  client: Client;
+  user?: User;
+  passwordHash: string;
+  failedLoginAttempts: number;
+  lockedUntil: Date | null;
+  recordFailure(): Promise<{ failedLoginAttempts: number; lockedUntil: Date | null }>;
+  clearFailures(): Promise<void>;
+  rehash(passwordHash: string): Promise<void>;
+  changePassword(passwordHash: string): Promise<void>;
+}
+
+function userAccount(user: User & { passwordHash: string }, client: Client): LoginAccount {
+  const lockoutMs = LOGIN_LOCKOUT_MINUTES * 60 * 1000;
+  return {
+    userId: user.id,
+    label: `${user.email} (${client.name})`,
+    email: user.email,
+    client,
+    user,
+    passwordHash: user.passwordHash,
+    failedLoginAttempts: user.failedLoginAttempts,
+    lockedUntil: user.lockedUntil,
+    recordFailure: () => storage.recordFailedUserLogin(user.id, MAX_LOGIN_ATTEMPTS, lockoutMs),
+    clearFailures: () => storage.clearUserLoginFailures(user.id),
+    rehash: (hash) => storage.rehashUserPassword(user.id, hash),
+    changePassword: async (hash) => { await storage.changeUserPassword(user.id, hash); },
+  };
+}
+
+function sharedClientAccount(client: Client): LoginAccount {
+  const lockoutMs = LOGIN_LOCKOUT_MINUTES * 60 * 1000;
+  return {
+    userId: sharedLoginUserId(client.id),
+    label: `client ${client.name}`,
+    email: client.contactEmail,
+    client,
+    passwordHash: client.loginPassword,
+    failedLoginAttempts: client.failedLoginAttempts,
+    lockedUntil: client.lockedUntil,
+    recordFailure: () => storage.recordFailedClientLogin(client.id, MAX_LOGIN_ATTEMPTS, lockoutMs),
+    clearFailures: () => storage.clearClientLoginFailures(client.id),
+    rehash: (hash) => storage.rehashClientPassword(client.id, hash),
+    changePassword: async (hash) => { await storage.changeClientPassword(client.id, hash); },
+  };
+}
+
+// A user's own login takes precedence over a shared login with the same email.
+// Deactivated users, invites that haven't been accepted and deactivated clients can't
+// sign in.
+async function findLoginAccount(username: string): Promise<LoginAccount | undefined> {
+  const user = await storage.getUserByEmail(username);
+  if (user?.clientId && user.role === "client" && user.isActive && user.passwordHash) {
+    const client = await storage.getClient(user.clientId);
+    if (client?.isActive) return userAccount({ ...user, passwordHash: user.passwordHash }, client);
+  }
+
+  const client = await storage.getClientByLogin(username);
+  return client?.isActive ? sharedClientAccount(client) : undefined;
+}
+
+// The login account behind a signed-in portal user
+async function getSessionAccount(user: User): Promise<LoginAccount | undefined> {
+  const client = user.clientId ? await storage.getClient(user.clientId) : undefined;
+  if (!client) return undefined;
+  if (user.id === sharedLoginUserId(client.id)) return sharedClientAccount(client);
+  return user.passwordHash ? userAccount({ ...user, passwordHash: user.passwordHash }, client) : undefined;
+}
+
+export async function authenticateClient(username: string, password: string, context: RequestContext): Promise<{ user: User; client: Client }> {
+  const account = await findLoginAccount(username);
+  if (!account) {
+    await verifyPassword(password, await DUMMY_PASSWORD_HASH);
+    await storage.logActivity("anonymous", "CLIENT_LOGIN_FAILED", `Failed client login for unknown user ${username}`, { username, ...context });
+    throw invalidCredentials();
+  }
+
+  const { userId, client } = account;
+  const now = new Date();
+  if (account.lockedUntil && account.lockedUntil > now) {
+    await storage.logActivity(userId, "CLIENT_LOGIN_BLOCKED", `Login refused for locked ${account.label}`, { lockedUntil: account.lockedUntil, ...context });
+    throw accountLocked(account.lockedUntil);
+  }
+  if (account.lockedUntil) {
+    // The lockout has run out: start counting again
+    await account.clearFailures();
+  }
+
+  if (!(await verifyPassword(password, account.passwordHash))) {
+    const updated = await account.recordFailure();
+    const attempts = updated.failedLoginAttempts;
+    await storage.logActivity(userId, "CLIENT_LOGIN_FAILED", `Failed login for ${account.label}`, { attempts, ...context });
+
+    if (updated.lockedUntil && updated.lockedUntil > now) {
+      await storage.logActivity(userId, "CLIENT_ACCOUNT_LOCKED", `${account.label} locked after ${attempts} failed logins`, { lockedUntil: updated.lockedUntil, ...context });
+      throw accountLocked(updated.lockedUntil);
+    }
+    throw invalidCredentials();
+  }
+
+  if (needsRehash(account.passwordHash)) {
+    await account.rehash(await hashPassword(password));
+    await storage.logActivity(userId, "CLIENT_PASSWORD_REHASHED", `Upgraded stored password hash for ${account.label}`, context);
+  }
+
+  let user: User;
+  if (account.user) {
+    user = await storage.recordUserLogin(account.user.id);
+  } else {
+    if (account.failedLoginAttempts > 0) {
+      await account.clearFailures();
+    }
+    user = await storage.upsertUser({
+      id: userId,
+      email: client.contactEmail,
+      firstName: client.name.split(' ')[0],
+      lastName: client.name.split(' ').slice(1).join(' '),
+      profileImageUrl: null,
+      role: 'client',
+      clientId: client.id,
+      clientRole: 'client_admin',
+    });
+  }
+  await storage.logActivity(userId, "CLIENT_LOGIN", `${account.label} signed in`, { clientId: client.id, ...context });
+  return { user, client };
+}
+
+// Always completes quietly so the response doesn't reveal which usernames exist
+export async function requestPasswordReset(username: string, context: RequestContext): Promise<void> {
+  const account = await findLoginAccount(username);
+  if (!account?.email) {
+    await storage.logActivity("anonymous", "CLIENT_PASSWORD_RESET_REQUESTED", `Password reset requested for unknown user ${username}`, { username, ...context });
+    return;
+  }
+
+  const { token, tokenHash } = generateResetToken();
+  await storage.createClientPasswordReset({
+    clientId: account.client.id,
+    userId: account.user?.id ?? null,
+    purpose: "reset",
+    tokenHash,
+    expiresAt: new Date(Date.now() + PASSWORD_RESET_TTL_MINUTES * 60 * 1000),
+    requestedIp: context.ip,
+  });
+
+  const resetUrl = `${APP_BASE_URL}/client-reset-password?token=${encodeURIComponent(token)}`;
+  const emailSent = await sendPasswordResetEmail(account.email, account.client.name, resetUrl, PASSWORD_RESET_TTL_MINUTES);
+  await storage.logActivity(account.userId, "CLIENT_PASSWORD_RESET_REQUESTED", `Password reset requested for ${account.label}`, { emailSent, ...context });
+}
+
+export async function resetPassword(token: string, password: string, context: RequestContext): Promise<void> {
+  const reset = await storage.consumeClientPasswordReset(hashResetToken(token), "reset");
+  if (!reset) {
+    throw new ClientAuthError(400, "INVALID_RESET_TOKEN", "This reset link is invalid or has expired");
+  }
+
+  const passwordHash = await hashPassword(password);
+  if (reset.userId) {
+    const user = await storage.changeUserPassword(reset.userId, passwordHash);
+    await storage.logActivity(user.id, "CLIENT_PASSWORD_RESET", `Password reset for ${user.email}`, { clientId: reset.clientId, resetId: reset.id, ...context });
+  } else {
+    const client = await storage.changeClientPassword(reset.clientId, passwordHash);
+    await storage.logActivity(sharedLoginUserId(client.id), "CLIENT_PASSWORD_RESET", `Password reset for client ${client.name}`, { clientId: client.id, resetId: reset.id, ...context });
+  }
+}
+
+// Changes the password of the signed-in portal user's own login. changedBy is whoever
+// is signed in, which may be an admin impersonating the client.
+export async function changePassword(
+  user: User,
+  currentPassword: string,
+  newPassword: string,
+  changedBy: string,
+  context: RequestContext,
+): Promise<void> {
+  const account = await getSessionAccount(user);
+  if (!account || !(await verifyPassword(currentPassword, account.passwordHash))) {
+    await storage.logActivity(changedBy, "CLIENT_PASSWORD_CHANGE_FAILED", `Password change refused for ${account?.label ?? user.id}: wrong current password`, { clientId: user.clientId, ...context });
+    throw new ClientAuthError(400, "INVALID_CURRENT_PASSWORD", "Current password is incorrect");
+  }
+
+  await account.changePassword(await hashPassword(newPassword));
+  await storage.logActivity(changedBy, "CLIENT_PASSWORD_CHANGED", `Password changed for ${account.label}`, { clientId: account.client.id, ...context });
+}
@@ -0,0 +1,122 @@
+import { test, mock, beforeEach, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { MailService } from "@sendgrid/mail";
+import { stubStorage } from "./testSupport";
+import { storage } from "./storage";
+import { can, type Actor } from "./policy";
+import { inviteClientUser, updateClientUser, ClientUserError } from "./clientUsers";
+import type { Client, User } from "@shared/schema";
+
+// A client's own users and what their roles allow. Viewers only read, shippers also ship,
+// and only client admins manage the client's users; an admin can't change themselves and
+// the client always keeps an active admin. Storage is replaced with fixtures and the
+// invite email is caught at the mail service.
+
+const CLIENT = { id: 1, name: "Acme & Sons", isActive: true } as Client;
+
+function clientUser(id: string, clientRole: string, fields: Partial<User> = {}): User {
+  return { id, email: `${id}@acme.example`, role: "client", clientId: CLIENT.id, clientRole, isActive: true, passwordHash: "scrypt$hash", ...fields } as User;
+}
+
+let USERS: User[];
+
+const { calls, called } = stubStorage(storage, {
+  getUser: async (id: string) => USERS.find((user) => user.id === id),
+  getUserByEmail: async (email: string) => USERS.find((user) => user.email === email),
+  getClientUsers: async () => USERS,
+  updateClientUser: async (id: string, updates: Partial<User>) => ({ ...USERS.find((user) => user.id === id)!, ...updates }),
+  revokeSessions: async () => 2,
+  createClientUserInvite: async (user: User) => user,
+  logActivity: async () => ({}),
+});
+
+beforeEach(() => {
+  calls.length = 0;
+  USERS = [
+    clientUser("ann", "client_admin", { firstName: "Ann <b>", lastName: "Lee" }),
+    clientUser("sam", "shipper"),
+    clientUser("vic", "viewer"),
+  ];
+});
+
+afterEach(() => {
+  mock.restoreAll();
+  delete process.env.SENDGRID_API_KEY;
+});
+
+function actor(clientRole: "client_admin" | "shipper" | "viewer", clientId = CLIENT.id): Actor {
+  return { kind: "client", userId: clientRole, clientId, clientRole };
+}
+
+const CONTEXT = { ip: "203.0.113.7" };
+
+function rejectsWithStatus(status: number) {
+  return (error: unknown) => error instanceof ClientUserError && error.status === status;
+}
+
+test("viewers read, shippers also ship, and only admins manage the client", () => {
+  const ownClient = { type: "client", clientId: CLIENT.id } as const;
+
+  for (const role of ["client_admin", "shipper", "viewer"] as const) {
+    assert.equal(can(actor(role), "own_client:read"), true, role);
+    assert.equal(can(actor(role), "own_client:ship"), role !== "viewer", role);
+    assert.equal(can(actor(role), "orders:create"), role !== "viewer", role);
+    assert.equal(can(actor(role), "own_client:administer"), role === "client_admin", role);
+    assert.equal(can(actor(role), "client:administer", ownClient), role === "client_admin", role);
+  }
+  // Another client's admin manages nothing here
+  assert.equal(can(actor("client_admin", 2), "client:administer", ownClient), false);
+});
+
+test("admins can't change their own role or deactivate themselves", async () => {
+  await assert.rejects(updateClientUser(CLIENT, "ann", { clientRole: "viewer" }, USERS[0], CONTEXT), rejectsWithStatus(400));
+  assert.equal(called("updateClientUser").length, 0);
+});
+
+const PLATFORM_ADMIN = { id: "admin", role: "super_admin" } as User;
+
+test("the last active admin can't be demoted or deactivated", async () => {
+  // A second admin who hasn't accepted their invite yet doesn't count
+  USERS.push(clientUser("ivy", "client_admin", { passwordHash: null }));
+
+  await assert.rejects(updateClientUser(CLIENT, "ann", { clientRole: "shipper" }, PLATFORM_ADMIN, CONTEXT), rejectsWithStatus(409));
+  await assert.rejects(updateClientUser(CLIENT, "ann", { isActive: false }, PLATFORM_ADMIN, CONTEXT), rejectsWithStatus(409));
+  assert.equal(called("updateClientUser").length, 0);
+
+  USERS[3].passwordHash = "scrypt$hash";
+  const demoted = await updateClientUser(CLIENT, "ann", { clientRole: "shipper" }, PLATFORM_ADMIN, CONTEXT);
+  assert.equal(demoted.clientRole, "shipper");
+});
+
+test("a deactivated user is signed out everywhere", async () => {
+  await updateClientUser(CLIENT, "sam", { isActive: false }, USERS[0], CONTEXT);
+
+  assert.deepEqual(called("updateClientUser")[0].args, ["sam", { isActive: false }]);
+  assert.deepEqual(called("revokeSessions")[0].args, [{ userId: "sam" }]);
+  assert.equal(called("logActivity")[0].args[3].revokedSessions, 2);
+});
+
+test("invites email a one-time link, with the names escaped in the HTML", async () => {
+  process.env.SENDGRID_API_KEY = "SG.test";
+  const send = mock.method(MailService.prototype, "send", async () => [{}, {}]);
+
+  await inviteClientUser(CLIENT, { email: "new@acme.example", clientRole: "shipper" }, USERS[0], CONTEXT);
+
+  const [user, invite] = called("createClientUserInvite")[0].args;
+  assert.equal(user.clientRole, "shipper");
+  assert.equal(invite.purpose, "invite");
+  const { html } = send.mock.calls[0].arguments[0] as { html: string };
+  assert.match(html, /Ann &lt;b&gt; Lee has invited you to the Acme &amp; Sons client portal/);
+  const token = /client-accept-invite\?token=([^"]+)"/.exec(html)![1];
+  assert.notEqual(invite.tokenHash, decodeURIComponent(token));
+});
+
+test("someone already invited gets the invite resent rather than a second user", async () => {
+  USERS.push(clientUser("ivy", "viewer", { passwordHash: null }));
+
+  await assert.rejects(
+    inviteClientUser(CLIENT, { email: "ivy@acme.example", clientRole: "viewer" }, USERS[0], CONTEXT),
+    (error: unknown) => error instanceof ClientUserError && error.status === 409 && /resend the invite/.test(error.message),
+  );
+  assert.equal(called("createClientUserInvite").length, 0);
+});
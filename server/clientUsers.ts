@@ -0,0 +1,177 @@
+import { randomUUID } from "crypto";
+import { storage } from "./storage";
+import { sendClientInviteEmail } from "./email";
+import { hashPassword, generateResetToken, hashResetToken } from "./passwords";
+import { APP_BASE_URL, sharedLoginUserId, type RequestContext } from "./clientAuth";
+import type { Client, User, InviteClientUser, UpdateClientUser, AcceptInvite } from "@shared/schema";
+
+// A client's portal users, managed by its client_admins. Inviting someone creates their
+// user straight away without a password; accepting the emailed invite sets their name
+// and password. Users are deactivated rather than deleted so the orders and voids they
+// recorded keep pointing at them.
+
+// How long an invite link stays valid
+export const INVITE_TTL_DAYS = parseInt(process.env.INVITE_TTL_DAYS || "7");
+
+export type ClientUserStatus = "active" | "invited" | "inactive" | "shared";
+
+export class ClientUserError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = "ClientUserError";
+  }
+}
+
+function getClientUserStatus(user: User): ClientUserStatus {
+  if (user.clientId && user.id === sharedLoginUserId(user.clientId)) return "shared";
+  if (!user.isActive) return "inactive";
+  return user.passwordHash ? "active" : "invited";
+}
+
+// User as returned by the API: never includes the password hash
+export function toClientUserResponse(user: User) {
+  const { passwordHash, ...rest } = user;
+  return { ...rest, status: getClientUserStatus(user) };
+}
+
+function displayName(user: User) {
+  const name = [user.firstName, user.lastName].filter(Boolean).join(" ");
+  return name || user.email || "A colleague";
+}
+
+function createInviteToken(clientId: number, userId: string, context: RequestContext) {
+  const { token, tokenHash } = generateResetToken();
+  const invite = {
+    clientId,
+    userId,
+    purpose: "invite" as const,
+    tokenHash,
+    expiresAt: new Date(Date.now() + INVITE_TTL_DAYS * 24 * 60 * 60 * 1000),
+    requestedIp: context.ip,
+  };
+  return { token, invite };
+}
+
+async function emailInvite(client: Client, email: string, invitedBy: User, token: string): Promise<boolean> {
+  const acceptUrl = `${APP_BASE_URL}/client-accept-invite?token=${encodeURIComponent(token)}`;
+  return await sendClientInviteEmail(email, client.name, displayName(invitedBy), acceptUrl, INVITE_TTL_DAYS);
+}
+
+async function getClientUser(client: Client, userId: string): Promise<User> {
+  const user = await storage.getUser(userId);
+  if (!user || user.clientId !== client.id || user.role !== "client") {
+    throw new ClientUserError(404, "User not found");
+  }
+  return user;
+}
+
+export async function inviteClientUser(client: Client, input: InviteClientUser, invitedBy: User, context: RequestContext): Promise<User> {
+  const existing = await storage.getUserByEmail(input.email);
+  if (existing) {
+    const pending = existing.clientId === client.id && existing.isActive && !existing.passwordHash;
+    throw new ClientUserError(409, pending
+      ? "This person has already been invited; resend the invite instead"
+      : "A user with this email already exists");
+  }
+
+  const id = randomUUID();
+  const { token, invite } = createInviteToken(client.id, id, context);
+  const user = await storage.createClientUserInvite({
+    id,
+    email: input.email,
+    firstName: input.firstName || null,
+    lastName: input.lastName || null,
+    role: "client",
+    clientId: client.id,
+    clientRole: input.clientRole,
+    invitedBy: invitedBy.id,
+  }, invite);
+
+  const emailSent = await emailInvite(client, input.email, invitedBy, token);
+  await storage.logActivity(
+    invitedBy.id,
+    "CLIENT_USER_INVITED",
+    `Invited ${input.email} to ${client.name} as ${input.clientRole}`,
+    { clientId: client.id, invitedUserId: id, clientRole: input.clientRole, emailSent, ...context }
+  );
+  return user;
+}
+
+// A fresh link replaces the earlier one, which stops working
+export async function resendClientInvite(client: Client, userId: string, invitedBy: User, context: RequestContext): Promise<User> {
+  const user = await getClientUser(client, userId);
+  if (getClientUserStatus(user) !== "invited") {
+    throw new ClientUserError(409, "Only pending invites can be resent");
+  }
+
+  const { token, invite } = createInviteToken(client.id, user.id, context);
+  await storage.createClientPasswordReset(invite);
+  const emailSent = await emailInvite(client, user.email!, invitedBy, token);
+  await storage.logActivity(
+    invitedBy.id,
+    "CLIENT_USER_INVITE_RESENT",
+    `Resent the invite for ${user.email} to ${client.name}`,
+    { clientId: client.id, invitedUserId: user.id, emailSent, ...context }
+  );
+  return user;
+}
+
+export async function acceptClientInvite(input: AcceptInvite, context: RequestContext): Promise<User> {
+  const invite = await storage.consumeClientPasswordReset(hashResetToken(input.token), "invite");
+  const invited = invite?.userId ? await storage.getUser(invite.userId) : undefined;
+  if (!invite || !invited?.isActive) {
+    throw new ClientUserError(400, "This invite link is invalid or has expired");
+  }
+
+  const user = await storage.changeUserPassword(invited.id, await hashPassword(input.password), {
+    firstName: input.firstName,
+    lastName: input.lastName,
+  });
+  await storage.logActivity(
+    user.id,
+    "CLIENT_USER_INVITE_ACCEPTED",
+    `${user.email} accepted their invite`,
+    { clientId: invite.clientId, inviteId: invite.id, ...context }
+  );
+  return user;
+}
+
+// Admins can't demote or deactivate themselves, and a client always keeps an active admin
+export async function updateClientUser(
+  client: Client,
+  userId: string,
+  updates: UpdateClientUser,
+  changedBy: User,
+  context: RequestContext,
+): Promise<User> {
+  const user = await getClientUser(client, userId);
+  if (getClientUserStatus(user) === "shared") {
+    throw new ClientUserError(400, "The shared client login can't be changed here");
+  }
+  if (user.id === changedBy.id) {
+    throw new ClientUserError(400, "You can't change your own role or deactivate yourself");
+  }
+
+  const losesAdmin = user.clientRole === "client_admin" && user.isActive
+    && (updates.isActive === false || (updates.clientRole !== undefined && updates.clientRole !== "client_admin"));
+  if (losesAdmin) {
+    const users = await storage.getClientUsers(client.id);
+    const otherAdmins = users.filter((other) =>
+      other.id !== user.id && other.clientRole === "client_admin" && ["active", "shared"].includes(getClientUserStatus(other))
+    );
+    if (otherAdmins.length === 0) {
+      throw new ClientUserError(409, `${client.name} needs at least one active admin`);
+    }
+  }
+
+  const updated = await storage.updateClientUser(user.id, updates);
+  // A deactivated user is signed out everywhere, not just refused new logins
+  const revokedSessions = updates.isActive === false ? await storage.revokeSessions({ userId: user.id }) : 0;
+  await storage.logActivity(
+    changedBy.id,
+    "CLIENT_USER_UPDATED",
+    `Updated ${user.email} at ${client.name}`,
+    { clientId: client.id, targetUserId: user.id, ...updates, ...(revokedSessions ? { revokedSessions } : {}), ...context }
+  );
+  return updated;
+}
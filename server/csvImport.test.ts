@@ -0,0 +1,99 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { parseCsv, parseOrderImport, MAX_IMPORT_ROWS } from "./csvImport";
+
+// Bulk import: the CSV reader, grouping package rows into orders by order_ref, and the
+// error file handed back for the rows that didn't make it
+
+const HEADER = "order_ref,customer_name,address,city,state,zip,phone,quantity,weight,description";
+const FUTURE = "2099-01-01";
+
+function importCsv(lines: string[]) {
+  return parseOrderImport([HEADER + ",pickup_date", ...lines.map((line) => `${line},${FUTURE}`)].join("\n"), { clientId: 3, createdBy: "user-1" });
+}
+
+test("quoted fields keep their commas, quotes and line breaks", () => {
+  const rows = parseCsv('name,notes\r\n"Smith, Jane","Ring twice\nthen ""knock"""\r\n\r\nBob,\n');
+
+  assert.deepEqual(rows, [
+    ["name", "notes"],
+    ["Smith, Jane", 'Ring twice\nthen "knock"'],
+    ["Bob", ""],
+  ]);
+});
+
+test("rows sharing an order_ref become one order with a package per row", () => {
+  const result = importCsv([
+    "A1,Jane Smith,1 Main St,Chicago,IL,60601,555-0100,2,3,Box",
+    "B7,Tom Jones,9 Oak Ave,Evanston,IL,60201,555-0101,1,1,Envelope",
+    "A1,Jane Smith,1 Main St,Chicago,IL,60601,555-0100,1,5,Crate",
+    ",Ann Lee,4 Elm St,Chicago,IL,60602,555-0102,1,2,Box",
+  ]);
+
+  assert.deepEqual(result.errors, []);
+  assert.equal(result.totalRows, 4);
+  assert.deepEqual(result.orders.map((order) => order.rows), [[1, 3], [2], [4]]);
+
+  const [first] = result.orders;
+  assert.equal(first.data.customerName, "Jane Smith");
+  assert.equal(first.data.clientId, 3);
+  assert.deepEqual(first.data.packages, [
+    { description: "Box", quantity: 2, weight: 3, dimensions: undefined },
+    { description: "Crate", quantity: 1, weight: 5, dimensions: undefined },
+  ]);
+  assert.equal(Number(first.data.weight), 11);
+});
+
+test("a group's conflicting order fields are reported against the first row", () => {
+  const result = importCsv([
+    "A1,Jane Smith,1 Main St,Chicago,IL,60601,555-0100,1,3,Box",
+    "A1,Janet Smith,1 Main St,Chicago,IL,60601,555-0100,1,3,Box",
+  ]);
+
+  assert.equal(result.orders.length, 1);
+  assert.deepEqual(result.warnings, [
+    { row: 2, field: "customerName", message: "Differs from row 1 of the same order_ref; using row 1" },
+  ]);
+});
+
+test("files without the required columns are refused whole", () => {
+  const result = parseOrderImport("ref,name,city\nA1,Jane Smith,Chicago", { createdBy: "user-1" });
+
+  assert.deepEqual(result.orders, []);
+  assert.deepEqual(result.errors, [
+    { row: 0, message: "Missing required columns: deliveryLine1, deliveryState, deliveryZip" },
+  ]);
+  assert.equal(result.errorCsv, "");
+});
+
+test("files over the row limit are refused whole", () => {
+  const rows = Array.from({ length: MAX_IMPORT_ROWS + 1 }, () => "A1,Jane Smith,1 Main St,Chicago,IL,60601");
+  const result = parseOrderImport([HEADER, ...rows].join("\n"), { createdBy: "user-1" });
+
+  assert.deepEqual(result.orders, []);
+  assert.equal(result.errors[0].message, `File has ${MAX_IMPORT_ROWS + 1} rows; the limit is ${MAX_IMPORT_ROWS}`);
+});
+
+test("the error CSV carries every row of a failed order, with its messages", () => {
+  const result = importCsv([
+    "A1,Jane Smith,1 Main St,Chicago,IL,60601,555-0100,1,3,Box",
+    "A1,Jane Smith,1 Main St,Chicago,IL,60601,555-0100,0,3,Box",
+    'B7,"Jones, Tom",9 Oak Ave,Evanston,IL,60201,555-0101,1,heavy,Box',
+    "C3,Ann Lee,4 Elm St,Chicago,IL,60602,555-0102,1,2,Box",
+  ]);
+
+  assert.deepEqual(result.orders.map((order) => order.rows), [[4]]);
+  assert.deepEqual(result.errors, [
+    { row: 2, field: "packageQuantity", message: "Quantity must be a whole number of at least 1" },
+    { row: 3, field: "packageWeight", message: "Weight must be a positive number" },
+  ]);
+
+  // The error file reads back as the rows to fix, the error column last
+  const [header, ...rows] = parseCsv(result.errorCsv);
+  assert.deepEqual(header, [...HEADER.split(","), "pickup_date", "error"]);
+  assert.deepEqual(rows.map((row) => [row[0], row[1], row.at(-1)]), [
+    ["A1", "Jane Smith", "Another row of the same order_ref has errors"],
+    ["A1", "Jane Smith", "packageQuantity: Quantity must be a whole number of at least 1"],
+    ["B7", "Jones, Tom", "packageWeight: Weight must be a positive number"],
+  ]);
+});
@@ -0,0 +1,272 @@
+import { insertOrderSchema, type InsertOrder } from "@shared/schema";
+
+// Bulk order import from CSV. Each row is one package; rows that share an
+// order_ref are combined into a single order with several packages.
+
+export const MAX_IMPORT_ROWS = 10000;
+// Orders priced, zoned and batched together when an import is committed
+export const IMPORT_CHUNK_SIZE = 500;
+
+export interface ImportIssue {
+  row: number; // 1-based data row, header excluded
+  field?: string;
+  message: string;
+}
+
+export interface ParsedImport {
+  totalRows: number;
+  orders: { rows: number[]; data: InsertOrder }[];
+  errors: ImportIssue[];
+  warnings: ImportIssue[];
+  errorCsv: string;
+}
+
+// Accepted header spellings for each order field, compared case-insensitively with
+// spaces, dashes and underscores removed.
+const COLUMN_ALIASES: Record<string, string[]> = {
+  orderRef: ["orderref", "reference", "ref"],
+  customerName: ["customername", "name", "recipient"],
+  customerPhone: ["customerphone", "phone"],
+  customerEmail: ["customeremail", "email"],
+  deliveryLine1: ["deliveryline1", "address1", "addressline1", "address"],
+  deliveryLine2: ["deliveryline2", "address2", "addressline2"],
+  deliveryCity: ["deliverycity", "city"],
+  deliveryState: ["deliverystate", "state"],
+  deliveryZip: ["deliveryzip", "zip", "zipcode", "postalcode"],
+  deliveryCountry: ["deliverycountry", "country"],
+  pickupDate: ["pickupdate"],
+  specialInstructions: ["specialinstructions", "instructions", "notes"],
+  deliveryWindowStart: ["deliverywindowstart", "windowstart"],
+  deliveryWindowEnd: ["deliverywindowend", "windowend"],
+  packageDescription: ["packagedescription", "description"],
+  packageQuantity: ["packagequantity", "quantity", "qty"],
+  packageWeight: ["packageweight", "weight"],
+  packageDimensions: ["packagedimensions", "dimensions"],
+};
+
+const REQUIRED_COLUMNS = ["customerName", "deliveryLine1", "deliveryCity", "deliveryState", "deliveryZip"];
+
+// Minimal RFC 4180 parser: quoted fields, escaped quotes, CRLF or LF line endings.
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter((r) => r.some((value) => value.trim() !== ""));
+}
+
+function escapeCsvValue(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function toCsv(rows: string[][]): string {
+  return rows.map((row) => row.map(escapeCsvValue).join(",")).join("\r\n");
+}
+
+function normalizeHeader(header: string): string {
+  return header.trim().toLowerCase().replace(/[\s_-]/g, "");
+}
+
+function mapHeaders(headers: string[]): { columns: Map<string, number>; unknown: string[] } {
+  const columns = new Map<string, number>();
+  const unknown: string[] = [];
+
+  headers.forEach((header, index) => {
+    const normalized = normalizeHeader(header);
+    const field = Object.keys(COLUMN_ALIASES).find((key) => COLUMN_ALIASES[key].includes(normalized));
+    if (field && !columns.has(field)) {
+      columns.set(field, index);
+    } else if (normalized && normalized !== "error") {
+      unknown.push(header);
+    }
+  });
+
+  return { columns, unknown };
+}
+
+function parseNumber(value: string): number | undefined {
+  if (!value.trim()) return undefined;
+  const parsed = Number(value.trim());
+  return isNaN(parsed) ? NaN : parsed;
+}
+
+export function parseOrderImport(text: string, options: { clientId?: number | null; createdBy: string }): ParsedImport {
+  const [headers = [], ...dataRows] = parseCsv(text.replace(/^\uFEFF/, ""));
+  const errors: ImportIssue[] = [];
+  const warnings: ImportIssue[] = [];
+  const failedRows = new Set<number>();
+
+  const fail = (row: number, message: string, field?: string) => {
+    errors.push({ row, field, message });
+    failedRows.add(row);
+  };
+
+  if (dataRows.length > MAX_IMPORT_ROWS) {
+    errors.push({ row: 0, message: `File has ${dataRows.length} rows; the limit is ${MAX_IMPORT_ROWS}` });
+    return { totalRows: dataRows.length, orders: [], errors, warnings, errorCsv: "" };
+  }
+
+  const { columns, unknown } = mapHeaders(headers);
+  const missing = REQUIRED_COLUMNS.filter((column) => !columns.has(column));
+  if (missing.length > 0) {
+    errors.push({ row: 0, message: `Missing required columns: ${missing.join(", ")}` });
+    return { totalRows: dataRows.length, orders: [], errors, warnings, errorCsv: "" };
+  }
+  if (unknown.length > 0) {
+    warnings.push({ row: 0, message: `Ignored unknown columns: ${unknown.join(", ")}` });
+  }
+
+  const cell = (row: string[], field: string) => {
+    const index = columns.get(field);
+    return index === undefined ? "" : (row[index] ?? "").trim();
+  };
+
+  // Group package rows into orders, keeping first-seen order
+  const groups = new Map<string, number[]>();
+  dataRows.forEach((row, index) => {
+    const ref = cell(row, "orderRef");
+    const key = ref ? `ref:${ref}` : `row:${index}`;
+    const group = groups.get(key);
+    if (group) {
+      group.push(index);
+    } else {
+      groups.set(key, [index]);
+    }
+  });
+
+  const today = new Date().toISOString().split("T")[0];
+  const orders: ParsedImport["orders"] = [];
+
+  for (const indexes of Array.from(groups.values())) {
+    const rowNumbers = indexes.map((index) => index + 1);
+    const first = dataRows[indexes[0]];
+
+    const packages = indexes.map((index) => {
+      const row = dataRows[index];
+      const rowNumber = index + 1;
+      const quantity = parseNumber(cell(row, "packageQuantity"));
+      const weight = parseNumber(cell(row, "packageWeight"));
+
+      if (quantity !== undefined && (!Number.isInteger(quantity) || quantity < 1)) {
+        fail(rowNumber, "Quantity must be a whole number of at least 1", "packageQuantity");
+      } else if (quantity === undefined) {
+        warnings.push({ row: rowNumber, field: "packageQuantity", message: "No quantity given; defaulting to 1" });
+      }
+      if (Number.isNaN(weight) || (weight !== undefined && weight < 0)) {
+        fail(rowNumber, "Weight must be a positive number", "packageWeight");
+      } else if (weight === undefined) {
+        warnings.push({ row: rowNumber, field: "packageWeight", message: "No weight given; the order weight will be incomplete" });
+      }
+
+      return {
+        description: cell(row, "packageDescription") || "Package",
+        quantity: quantity && !Number.isNaN(quantity) ? quantity : 1,
+        weight: weight !== undefined && !Number.isNaN(weight) ? weight : undefined,
+        dimensions: cell(row, "packageDimensions") || undefined,
+      };
+    });
+
+    // Order-level fields come from the first row of the group; flag conflicting copies
+    for (const index of indexes.slice(1)) {
+      for (const field of ["customerName", "deliveryLine1", "deliveryZip"]) {
+        const value = cell(dataRows[index], field);
+        if (value && value !== cell(first, field)) {
+          warnings.push({ row: index + 1, field, message: `Differs from row ${rowNumbers[0]} of the same order_ref; using row ${rowNumbers[0]}` });
+        }
+      }
+    }
+
+    const pickupDate = cell(first, "pickupDate") || today;
+    if (pickupDate < today) {
+      warnings.push({ row: rowNumbers[0], field: "pickupDate", message: `Pickup date ${pickupDate} is in the past` });
+    }
+    if (!cell(first, "customerPhone")) {
+      warnings.push({ row: rowNumbers[0], field: "customerPhone", message: "No customer phone number" });
+    }
+
+    const totalWeight = packages.reduce((sum, pkg) => sum + (pkg.weight ?? 0) * pkg.quantity, 0);
+
+    const result = insertOrderSchema.safeParse({
+      customerName: cell(first, "customerName"),
+      customerPhone: cell(first, "customerPhone") || undefined,
+      customerEmail: cell(first, "customerEmail") || undefined,
+      deliveryLine1: cell(first, "deliveryLine1"),
+      deliveryLine2: cell(first, "deliveryLine2") || undefined,
+      deliveryCity: cell(first, "deliveryCity"),
+      deliveryState: cell(first, "deliveryState"),
+      deliveryZip: cell(first, "deliveryZip"),
+      deliveryCountry: cell(first, "deliveryCountry") || undefined,
+      pickupDate,
+      packages,
+      weight: totalWeight,
+      specialInstructions: cell(first, "specialInstructions") || undefined,
+      deliveryWindowStart: cell(first, "deliveryWindowStart") || undefined,
+      deliveryWindowEnd: cell(first, "deliveryWindowEnd") || undefined,
+      createdBy: options.createdBy,
+      clientId: options.clientId ?? undefined,
+    });
+
+    if (!result.success) {
+      for (const issue of result.error.errors) {
+        fail(rowNumbers[0], issue.message, issue.path.join("."));
+      }
+    }
+
+    // An order is only imported when every one of its package rows is clean
+    if (result.success && rowNumbers.every((row) => !failedRows.has(row))) {
+      orders.push({ rows: rowNumbers, data: result.data });
+    } else {
+      rowNumbers.forEach((row) => failedRows.add(row));
+    }
+  }
+
+  // Failed rows with their messages appended, ready to fix and re-upload
+  const messagesByRow = new Map<number, string[]>();
+  for (const issue of errors) {
+    const messages = messagesByRow.get(issue.row) ?? [];
+    messages.push(issue.field ? `${issue.field}: ${issue.message}` : issue.message);
+    messagesByRow.set(issue.row, messages);
+  }
+  const errorRows = Array.from(failedRows).sort((a, b) => a - b).map((row) => [
+    ...dataRows[row - 1],
+    messagesByRow.get(row)?.join("; ") || "Another row of the same order_ref has errors",
+  ]);
+  const errorCsv = errorRows.length > 0 ? toCsv([[...headers, "error"], ...errorRows]) : "";
+
+  return { totalRows: dataRows.length, orders, errors, warnings, errorCsv };
+}
@@ -0,0 +1,126 @@
+import { test, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import { stubStorage, type StorageFixtures } from "./testSupport";
+import { storage, InvalidStatusTransitionError } from "./storage";
+import { applyDriverSync, DRIVER_SYNC_CLAIM_TIMEOUT_MINUTES } from "./driverSync";
+import { canTransition } from "@shared/orderStatus";
+import type { Driver, DriverSyncMutation, DriverSyncMutationRecord, Order } from "@shared/schema";
+
+// Replaying the driver app's offline queue: a mutation id is claimed before it is
+// applied, so two uploads of the same queue never apply it twice. Storage is replaced
+// with fixtures.
+
+const DRIVER = { id: 7 } as Driver;
+
+let ORDERS: Order[];
+let CLAIMS: Map<string, Partial<DriverSyncMutationRecord>>;
+
+const fixtures: StorageFixtures = {
+  getOrder: async (id: number) => ORDERS.find((order) => order.id === id),
+  getOrderByNumber: async (orderNumber: string) => ORDERS.find((order) => order.orderNumber === orderNumber),
+  updateOrderStatus: async (id: number, { status }: { status: string }, _userId: string, role: string) => {
+    const order = ORDERS.find((candidate) => candidate.id === id)!;
+    if (!canTransition(order.status, status, role)) {
+      throw new InvalidStatusTransitionError(order.status, status, []);
+    }
+    order.status = status;
+    return { ...order };
+  },
+  claimDriverSyncMutation: async (claim: Partial<DriverSyncMutationRecord>, staleAfterMs: number) => {
+    const existing = CLAIMS.get(claim.clientMutationId!);
+    const stale = existing && existing.outcome === null && existing.driverId === claim.driverId
+      && existing.claimedAt!.getTime() < Date.now() - staleAfterMs;
+    if (existing && !stale) return false;
+    CLAIMS.set(claim.clientMutationId!, { ...claim, outcome: null, result: null, claimedAt: new Date() });
+    return true;
+  },
+  getDriverSyncMutation: async (id: string) => CLAIMS.get(id),
+  recordDriverSyncMutation: async (id: string, outcome: Partial<DriverSyncMutationRecord>) =>
+    void CLAIMS.set(id, { ...CLAIMS.get(id), ...outcome }),
+  releaseDriverSyncMutation: async (id: string) => void CLAIMS.delete(id),
+};
+
+const { calls, called } = stubStorage(storage, fixtures);
+
+beforeEach(() => {
+  ORDERS = [
+    { id: 1, orderNumber: "ORD-1001-a1", status: "assigned", driverId: DRIVER.id } as Order,
+    { id: 2, orderNumber: "ORD-1002-b2", status: "picked", driverId: DRIVER.id } as Order,
+  ];
+  CLAIMS = new Map();
+  calls.length = 0;
+});
+
+function scan(id: string, orderNumber: string, action: "pickup" | "delivery"): DriverSyncMutation {
+  return { id, type: "scan", orderNumber, action, clientTimestamp: new Date().toISOString() } as DriverSyncMutation;
+}
+
+test("a retried upload returns the stored result without applying again", async () => {
+  const mutations = [scan("00000000-0000-4000-8000-000000000001", "ORD-1001-a1", "pickup")];
+
+  const [first] = await applyDriverSync(DRIVER, "driver-user", mutations);
+  const [retry] = await applyDriverSync(DRIVER, "driver-user", mutations);
+
+  assert.equal(first.outcome, "applied");
+  assert.deepEqual(retry, first);
+  assert.equal(called("updateOrderStatus").length, 1);
+});
+
+test("a mutation another upload is still applying stops the replay there", async () => {
+  const inFlight = scan("00000000-0000-4000-8000-000000000002", "ORD-1001-a1", "pickup");
+  CLAIMS.set(inFlight.id, { clientMutationId: inFlight.id, driverId: DRIVER.id, outcome: null, result: null, claimedAt: new Date() });
+
+  const results = await applyDriverSync(DRIVER, "driver-user", [
+    inFlight,
+    scan("00000000-0000-4000-8000-000000000003", "ORD-1002-b2", "delivery"),
+  ]);
+
+  assert.deepEqual(results, []);
+  assert.equal(called("updateOrderStatus").length, 0);
+});
+
+test("a claim left without an outcome by an upload that died is taken over once stale", async () => {
+  const abandoned = scan("00000000-0000-4000-8000-000000000007", "ORD-1001-a1", "pickup");
+  const claimedAt = new Date(Date.now() - (DRIVER_SYNC_CLAIM_TIMEOUT_MINUTES + 1) * 60 * 1000);
+  CLAIMS.set(abandoned.id, { clientMutationId: abandoned.id, driverId: DRIVER.id, outcome: null, result: null, claimedAt });
+
+  const [result] = await applyDriverSync(DRIVER, "driver-user", [abandoned]);
+
+  assert.equal(result.outcome, "applied");
+  assert.equal(CLAIMS.get(abandoned.id)?.outcome, "applied");
+  assert.equal(called("updateOrderStatus").length, 1);
+});
+
+test("mutation ids claimed by another driver are refused", async () => {
+  const mutation = scan("00000000-0000-4000-8000-000000000004", "ORD-1001-a1", "pickup");
+  CLAIMS.set(mutation.id, { clientMutationId: mutation.id, driverId: 99, outcome: "applied", result: {} });
+
+  const [result] = await applyDriverSync(DRIVER, "driver-user", [mutation]);
+
+  assert.deepEqual(result, { id: mutation.id, outcome: "rejected", message: "Mutation id already used" });
+});
+
+test("a claim whose mutation failed is released for the device to retry", async () => {
+  const mutation = scan("00000000-0000-4000-8000-000000000005", "ORD-1001-a1", "pickup");
+  const getOrderByNumber = fixtures.getOrderByNumber;
+  fixtures.getOrderByNumber = async () => { throw new Error("connection reset"); };
+  try {
+    assert.deepEqual(await applyDriverSync(DRIVER, "driver-user", [mutation]), []);
+  } finally {
+    fixtures.getOrderByNumber = getOrderByNumber;
+  }
+  assert.equal(CLAIMS.has(mutation.id), false);
+
+  const [retry] = await applyDriverSync(DRIVER, "driver-user", [mutation]);
+  assert.equal(retry.outcome, "applied");
+});
+
+test("a delivery scan of a picked order steps it through in transit", async () => {
+  const [result] = await applyDriverSync(DRIVER, "driver-user", [
+    scan("00000000-0000-4000-8000-000000000006", "ORD-1002-b2", "delivery"),
+  ]);
+
+  assert.equal(result.outcome, "applied");
+  assert.equal(result.order?.status, "delivered");
+  assert.deepEqual(called("updateOrderStatus").map(({ args }) => args[1].status), ["in_transit", "delivered"]);
+});
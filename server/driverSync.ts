@@ -0,0 +1,201 @@
+import { storage, InvalidStatusTransitionError, ProofOfDeliveryRequiredError } from "./storage";
+import { captureDeliveryProof, DeliveryProofError } from "./proofOfDelivery";
+import { ORDER_STATUS_LABELS, getScanStatusPath, type OrderStatus } from "@shared/orderStatus";
+import { normalizeOrderNumber, parsePieceTrackingId, type Driver, type DriverSyncMutation, type DriverSyncOutcome, type Order } from "@shared/schema";
+
+// Replays mutations the driver app queued while offline, in the order they were made.
+// Each mutation carries a device-generated id; results are stored under that id so a
+// retried upload (e.g. the response was lost) returns the original outcome instead of
+// applying twice. Server state wins conflicts: if dispatch voided or reassigned an order
+// while the driver was offline, the queued change is dropped and the current order is
+// returned so the app can catch up.
+
+// How long a claim may sit without an outcome before the upload holding it is taken
+// to have died, and the device's next upload applies the mutation instead
+export const DRIVER_SYNC_CLAIM_TIMEOUT_MINUTES = parseInt(process.env.DRIVER_SYNC_CLAIM_TIMEOUT_MINUTES || "5");
+
+export interface DriverSyncResult {
+  id: string;
+  outcome: DriverSyncOutcome;
+  message?: string;
+  order?: Order;
+}
+
+// What each step of a barcode scan is recorded as in the order history
+const SCAN_NOTES: Partial<Record<OrderStatus, string>> = {
+  picked: "Picked up",
+  in_transit: "In transit",
+  delivered: "Delivered",
+};
+
+// Device clocks drift; never record a change as happening in the future
+function toOccurredAt(clientTimestamp: string): Date {
+  const occurredAt = new Date(clientTimestamp);
+  return occurredAt.getTime() > Date.now() ? new Date() : occurredAt;
+}
+
+async function resolveOrder(mutation: DriverSyncMutation): Promise<Order | undefined> {
+  if (mutation.type !== "scan") return storage.getOrder(mutation.orderId);
+  const orderNumber = normalizeOrderNumber(mutation.orderNumber);
+  return orderNumber ? storage.getOrderByNumber(orderNumber) : undefined;
+}
+
+async function applyStatusChange(
+  order: Order,
+  status: OrderStatus,
+  notes: string,
+  userId: string,
+  occurredAt: Date,
+): Promise<Omit<DriverSyncResult, "id">> {
+  if (order.status === status) {
+    return { outcome: "applied", order };
+  }
+  if (status === "failed") {
+    return { outcome: "rejected", message: "Failed deliveries need a reason code and can't be synced as a status change", order };
+  }
+
+  try {
+    const updated = await storage.updateOrderStatus(order.id, { status, notes }, userId, "driver", occurredAt);
+    return { outcome: "applied", order: updated };
+  } catch (error) {
+    if (error instanceof InvalidStatusTransitionError) {
+      const current = await storage.getOrder(order.id);
+      return {
+        outcome: "conflict",
+        message: `${order.orderNumber} is now ${ORDER_STATUS_LABELS[error.from as OrderStatus] ?? error.from}; your change to ${ORDER_STATUS_LABELS[status]} was discarded`,
+        order: current,
+      };
+    }
+    if (error instanceof ProofOfDeliveryRequiredError) {
+      return { outcome: "rejected", message: `${order.orderNumber} needs proof of delivery before it can be marked delivered`, order };
+    }
+    throw error;
+  }
+}
+
+// Order labels move the order outright, through each status on the way to the scan's target
+async function applyLabelScan(
+  order: Order,
+  action: "pickup" | "delivery",
+  syncNote: string,
+  userId: string,
+  occurredAt: Date,
+): Promise<Omit<DriverSyncResult, "id">> {
+  let result: Omit<DriverSyncResult, "id"> = { outcome: "applied", order };
+  for (const status of getScanStatusPath(order.status, action)) {
+    result = await applyStatusChange(result.order!, status, `${SCAN_NOTES[status]} - Barcode scanned - ${syncNote}`, userId, occurredAt);
+    if (result.outcome !== "applied") break;
+  }
+  return result;
+}
+
+// Piece labels roll the order up piece by piece instead of moving it outright
+async function applyPieceScan(
+  order: Order,
+  trackingId: string,
+  action: "pickup" | "delivery",
+  userId: string,
+  driverId: number,
+  occurredAt: Date,
+): Promise<Omit<DriverSyncResult, "id">> {
+  try {
+    const result = await storage.scanPackage(trackingId, action, userId, { role: "driver", driverId, occurredAt });
+    if (!result) {
+      return { outcome: "rejected", message: `Package ${trackingId} not found`, order };
+    }
+    return {
+      outcome: "applied",
+      message: result.proofRequired ? `${order.orderNumber} needs proof of delivery before it can be marked delivered` : undefined,
+      order: result.order,
+    };
+  } catch (error) {
+    if (error instanceof InvalidStatusTransitionError) {
+      const current = await storage.getOrder(order.id);
+      return {
+        outcome: "conflict",
+        message: `${order.orderNumber} is now ${ORDER_STATUS_LABELS[error.from as OrderStatus] ?? error.from}; your scan of ${trackingId} was discarded`,
+        order: current,
+      };
+    }
+    throw error;
+  }
+}
+
+async function applyMutation(driver: Driver, userId: string, mutation: DriverSyncMutation): Promise<Omit<DriverSyncResult, "id">> {
+  const order = await resolveOrder(mutation);
+  if (!order) {
+    return { outcome: "rejected", message: "Order not found" };
+  }
+  if (order.driverId !== driver.id) {
+    return { outcome: "conflict", message: `${order.orderNumber} was reassigned while you were offline`, order };
+  }
+
+  const occurredAt = toOccurredAt(mutation.clientTimestamp);
+  const syncNote = `Synced from driver app (recorded ${occurredAt.toISOString()})`;
+
+  switch (mutation.type) {
+    case "status":
+      return applyStatusChange(order, mutation.status, mutation.notes ? `${mutation.notes} - ${syncNote}` : syncNote, userId, occurredAt);
+    case "scan":
+      if (parsePieceTrackingId(mutation.orderNumber)) {
+        return applyPieceScan(order, mutation.orderNumber, mutation.action, userId, driver.id, occurredAt);
+      }
+      return applyLabelScan(order, mutation.action, syncNote, userId, occurredAt);
+    case "proof":
+      try {
+        await captureDeliveryProof(order, mutation.proof, userId, driver.id);
+        return { outcome: "applied", order: await storage.getOrder(order.id) };
+      } catch (error) {
+        if (error instanceof DeliveryProofError) {
+          return { outcome: error.status === 409 ? "conflict" : "rejected", message: error.message, order };
+        }
+        throw error;
+      }
+  }
+}
+
+// Stops at the first unexpected error, or at a mutation another upload is still
+// applying: the rest stay queued on the device and the caller only gets results for
+// mutations that were processed
+export async function applyDriverSync(driver: Driver, userId: string, mutations: DriverSyncMutation[]): Promise<DriverSyncResult[]> {
+  const results: DriverSyncResult[] = [];
+
+  for (const mutation of mutations) {
+    // Claim the id before applying, so of two uploads racing with the same mutation
+    // only the one that claimed it applies it
+    const claimed = await storage.claimDriverSyncMutation({
+      clientMutationId: mutation.id,
+      driverId: driver.id,
+      type: mutation.type,
+      clientTimestamp: new Date(mutation.clientTimestamp),
+    }, DRIVER_SYNC_CLAIM_TIMEOUT_MINUTES * 60 * 1000);
+    if (!claimed) {
+      const previous = await storage.getDriverSyncMutation(mutation.id);
+      if (previous && previous.driverId !== driver.id) {
+        results.push({ id: mutation.id, outcome: "rejected", message: "Mutation id already used" });
+        continue;
+      }
+      if (!previous?.result) break;
+      results.push(previous.result as DriverSyncResult);
+      continue;
+    }
+
+    try {
+      const result: DriverSyncResult = { id: mutation.id, ...(await applyMutation(driver, userId, mutation)) };
+      await storage.recordDriverSyncMutation(mutation.id, {
+        orderId: result.order?.id ?? null,
+        outcome: result.outcome,
+        result,
+      });
+      results.push(result);
+    } catch (error) {
+      console.error(`Error applying driver sync mutation ${mutation.id}:`, error);
+      // Left claimed, the device's retry would wait for the claim to go stale
+      await storage.releaseDriverSyncMutation(mutation.id).catch((releaseError) =>
+        console.error(`Error releasing driver sync mutation ${mutation.id}:`, releaseError));
+      break;
+    }
+  }
+
+  return results;
+}
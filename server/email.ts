@@ -1,4 +1,5 @@
 import { MailService } from '@sendgrid/mail';
+import { DELIVERY_FAILURE_REASON_LABELS, type DeliveryAttempt } from '@shared/schema';
 
 if (!process.env.SENDGRID_API_KEY) {
   console.warn("SENDGRID_API_KEY environment variable not set - email notifications disabled");
@@ -17,6 +18,12 @@ interface EmailParams {
   html?: string;
 }
 
+// For names and other user input placed in an HTML body
+function escapeHtml(value: string): string {
+  const entities: Record<string, string> = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' };
+  return value.replace(/[&<>"']/g, (char) => entities[char]);
+}
+
 export async function sendEmail(params: EmailParams): Promise<boolean> {
   if (!process.env.SENDGRID_API_KEY) {
     console.log("Email not sent - SENDGRID_API_KEY not configured");
@@ -42,7 +49,8 @@ export async function sendEmail(params: EmailParams): Promise<boolean> {
 export async function sendOrderStatusNotification(
   order: any,
   newStatus: string,
-  customerEmail?: string
+  customerEmail?: string,
+  attempts: DeliveryAttempt[] = []
 ): Promise<boolean> {
   if (!customerEmail) {
     console.log("No customer email provided - notification not sent");
@@ -52,16 +60,24 @@ export async function sendOrderStatusNotification(
   const statusMessages = {
     pending: "Your order has been received and is being processed",
     assigned: "Your order has been assigned to a driver",
+    partially_picked: "Part of your order has been picked up",
     picked: "Your order has been picked up and is on its way",
     in_transit: "Your order is currently in transit",
+    partially_delivered: "Part of your order has been delivered",
     delivered: "Your order has been successfully delivered",
     failed: "There was an issue with your delivery - we'll contact you soon",
+    return_to_sender: "We were unable to deliver your order and it is being returned to the sender",
+    returned: "Your order has been returned to the sender",
     voided: "Your order has been cancelled"
   };
 
   const subject = `ShippXpress Order Update - ${order.orderNumber}`;
   const message = statusMessages[newStatus as keyof typeof statusMessages] || "Your order status has been updated";
 
+  const attemptLines = attempts.map((attempt) =>
+    `Attempt ${attempt.attemptNumber} (${attempt.attemptedAt ? new Date(attempt.attemptedAt).toLocaleString() : 'unknown time'}): ${DELIVERY_FAILURE_REASON_LABELS[attempt.reasonCode as keyof typeof DELIVERY_FAILURE_REASON_LABELS] || attempt.reasonCode}`
+  );
+
   const html = `
     <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
       <div style="background: linear-gradient(135deg, #1e3a8a 0%, #f97316 100%); padding: 20px; text-align: center;">
@@ -79,6 +95,13 @@ export async function sendOrderStatusNotification(
           <p><strong>Update:</strong> ${message}</p>
         </div>
         
+        ${attemptLines.length > 0 ? `
+        <div style="background: white; padding: 20px; border-radius: 8px; margin: 20px 0;">
+          <h3 style="color: #1e3a8a; margin-top: 0;">Delivery Attempts</h3>
+          ${attemptLines.map((line) => `<p>${line}</p>`).join('')}
+        </div>
+        ` : ''}
+        
         <div style="background: white; padding: 20px; border-radius: 8px; margin: 20px 0;">
           <h3 style="color: #1e3a8a; margin-top: 0;">Delivery Details</h3>
           <p><strong>Address:</strong><br>
@@ -104,7 +127,7 @@ Order Number: ${order.orderNumber}
 Customer: ${order.customerName}
 Status: ${newStatus.replace('_', ' ').toUpperCase()}
 Update: ${message}
-
+${attemptLines.length > 0 ? `\nDelivery Attempts:\n${attemptLines.join('\n')}\n` : ''}
 Delivery Address:
 ${order.deliveryLine1}
 ${order.deliveryCity}, ${order.deliveryState} ${order.deliveryZip}
@@ -161,4 +184,85 @@ export async function sendBatchNotification(
     text: `ShippXpress Batch Processing Complete\n\nBatch Date: ${batchInfo.date}\nOrders Processed: ${batchInfo.orderCount}\nRoutes Created: ${batchInfo.routeCount}\n\nAll orders have been optimized and assigned to drivers.`,
     html
   });
-}
\ No newline at end of file
+}
+
+export async function sendPasswordResetEmail(
+  clientEmail: string,
+  clientName: string,
+  resetUrl: string,
+  expiresInMinutes: number
+): Promise<boolean> {
+  const subject = 'Reset your ShippXpress password';
+  
+  const html = `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+      <div style="background: linear-gradient(135deg, #1e3a8a 0%, #f97316 100%); padding: 20px; text-align: center;">
+        <h1 style="color: white; margin: 0;">ShippXpress</h1>
+        <p style="color: white; margin: 10px 0 0 0;">Client Portal</p>
+      </div>
+      
+      <div style="padding: 20px; background: #f9fafb;">
+        <h2 style="color: #1e3a8a; margin-top: 0;">Password Reset</h2>
+        
+        <div style="background: white; padding: 20px; border-radius: 8px; margin: 20px 0;">
+          <p>We received a request to reset the password for ${escapeHtml(clientName)}.</p>
+          <p style="text-align: center; margin: 24px 0;">
+            <a href="${resetUrl}" style="background: #1e3a8a; color: white; padding: 12px 24px; border-radius: 6px; text-decoration: none;">Choose a new password</a>
+          </p>
+          <p>This link works once and expires in ${expiresInMinutes} minutes.</p>
+        </div>
+        
+        <div style="text-align: center; margin: 20px 0;">
+          <p style="color: #6b7280; font-size: 14px;">If you didn't ask for this, you can ignore this email; your password won't change.</p>
+        </div>
+      </div>
+    </div>
+  `;
+
+  return await sendEmail({
+    to: clientEmail,
+    from: 'notifications@shippxpress.com',
+    subject,
+    text: `ShippXpress Password Reset\n\nWe received a request to reset the password for ${clientName}.\n\nChoose a new password: ${resetUrl}\n\nThis link works once and expires in ${expiresInMinutes} minutes. If you didn't ask for this, you can ignore this email.`,
+    html
+  });
+}
+
+export async function sendClientInviteEmail(
+  email: string,
+  clientName: string,
+  invitedByName: string,
+  acceptUrl: string,
+  expiresInDays: number
+): Promise<boolean> {
+  const subject = `You're invited to ${clientName} on ShippXpress`;
+  
+  const html = `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+      <div style="background: linear-gradient(135deg, #1e3a8a 0%, #f97316 100%); padding: 20px; text-align: center;">
+        <h1 style="color: white; margin: 0;">ShippXpress</h1>
+        <p style="color: white; margin: 10px 0 0 0;">Client Portal</p>
+      </div>
+      
+      <div style="padding: 20px; background: #f9fafb;">
+        <h2 style="color: #1e3a8a; margin-top: 0;">You're Invited</h2>
+        
+        <div style="background: white; padding: 20px; border-radius: 8px; margin: 20px 0;">
+          <p>${escapeHtml(invitedByName)} has invited you to the ${escapeHtml(clientName)} client portal.</p>
+          <p style="text-align: center; margin: 24px 0;">
+            <a href="${acceptUrl}" style="background: #1e3a8a; color: white; padding: 12px 24px; border-radius: 6px; text-decoration: none;">Accept invitation</a>
+          </p>
+          <p>This link works once and expires in ${expiresInDays} days. You'll sign in with this email address.</p>
+        </div>
+      </div>
+    </div>
+  `;
+
+  return await sendEmail({
+    to: email,
+    from: 'notifications@shippxpress.com',
+    subject,
+    text: `ShippXpress Invitation\n\n${invitedByName} has invited you to the ${clientName} client portal.\n\nAccept the invitation: ${acceptUrl}\n\nThis link works once and expires in ${expiresInDays} days. You'll sign in with this email address.`,
+    html
+  });
+}
@@ -0,0 +1,28 @@
+import { EventEmitter } from "events";
+import type { Driver, Order } from "@shared/schema";
+
+// In-process bus for domain events raised by storage mutations. Subscribers (the live
+// socket in liveTracking.ts) fan them out to connected portals; storage never waits
+// on them and a failing subscriber can't break the mutation that raised the event.
+
+export type DomainEvent =
+  | { type: "order.created"; order: Order }
+  | { type: "order.updated"; order: Order; previousDriverId: number | null }
+  | { type: "driver.updated"; driver: Driver };
+
+const bus = new EventEmitter();
+bus.setMaxListeners(0);
+
+export function publishDomainEvent(event: DomainEvent) {
+  bus.emit("event", event);
+}
+
+export function onDomainEvent(handler: (event: DomainEvent) => void | Promise<void>): () => void {
+  const listener = (event: DomainEvent) => {
+    Promise.resolve()
+      .then(() => handler(event))
+      .catch((error) => console.error(`Error handling ${event.type} event:`, error));
+  };
+  bus.on("event", listener);
+  return () => bus.off("event", listener);
+}
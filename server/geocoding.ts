@@ -0,0 +1,110 @@
+// Server-side address validation against the Google Geocoding API. Uses the same
+// acceptance rules as the create-order modal: only street-level matches are valid.
+
+export interface AddressInput {
+  line1: string;
+  line2?: string | null;
+  city: string;
+  state: string;
+  zip: string;
+  country?: string | null;
+}
+
+export interface AddressValidationResult {
+  isValid: boolean;
+  error?: string;
+  suggestion?: string;
+  formattedAddress?: string;
+  latitude?: number;
+  longitude?: number;
+}
+
+export class AddressValidationUnavailableError extends Error {
+  status = 503;
+
+  constructor(message = "Address validation is not configured") {
+    super(message);
+    this.name = "AddressValidationUnavailableError";
+  }
+}
+
+export async function validateAddress(address: AddressInput): Promise<AddressValidationResult> {
+  const apiKey = process.env.GOOGLE_MAPS_API_KEY;
+  if (!apiKey) {
+    throw new AddressValidationUnavailableError();
+  }
+
+  const fullAddress = [
+    address.line1,
+    address.line2,
+    address.city,
+    `${address.state} ${address.zip}`,
+    address.country || "US",
+  ].filter(Boolean).join(", ");
+
+  const response = await fetch(
+    `https://maps.googleapis.com/maps/api/geocode/json?address=${encodeURIComponent(fullAddress)}&key=${apiKey}`
+  );
+  if (!response.ok) {
+    throw new AddressValidationUnavailableError("Validation service unavailable");
+  }
+
+  const data = await response.json();
+
+  if (data.status === "ZERO_RESULTS") {
+    return { isValid: false, error: "Address not found. Please check the spelling and try again." };
+  }
+  if (data.status !== "OK" || !data.results?.length) {
+    throw new AddressValidationUnavailableError(`Validation service returned ${data.status}`);
+  }
+
+  const result = data.results[0];
+  const types: string[] = result.types ?? [];
+  const location = result.geometry?.location;
+
+  if (types.includes("street_address") || types.includes("premise") || types.includes("subpremise")) {
+    return {
+      isValid: true,
+      formattedAddress: result.formatted_address,
+      latitude: location?.lat,
+      longitude: location?.lng,
+    };
+  }
+  if (types.includes("route")) {
+    return {
+      isValid: false,
+      error: "Please include a house or building number",
+      suggestion: `Try: [Number] ${result.formatted_address}`,
+    };
+  }
+  if (types.includes("neighborhood")) {
+    return {
+      isValid: false,
+      error: "Address is too general - needs a specific street address",
+      suggestion: "Include the complete street address for accurate delivery.",
+    };
+  }
+  return {
+    isValid: false,
+    error: result.partial_match ? "Address partially found - please verify" : "Address could be more specific",
+    suggestion: `Suggested: ${result.formatted_address}`,
+  };
+}
+
+// Lookups in flight at once when many addresses are geocoded together, e.g. an import
+export const GEOCODE_CONCURRENCY = parseInt(process.env.GEOCODE_CONCURRENCY || "5");
+
+// Maps `items` through `fn` with at most `limit` calls in flight; results keep the
+// order of `items`
+export async function mapConcurrently<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
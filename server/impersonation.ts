@@ -0,0 +1,56 @@
+import { AsyncLocalStorage } from "async_hooks";
+
+// A super admin viewing the portal as one of their clients. The admin's own session user
+// is kept inside the impersonated one so exiting (or expiry) restores it without a new
+// login. While a request runs on an impersonated session, activity logged by storage
+// records the admin alongside the client user it acts as.
+
+// How long an impersonated session lasts before the admin's own session comes back
+export const IMPERSONATION_TTL_MINUTES = parseInt(process.env.IMPERSONATION_TTL_MINUTES || "30");
+
+export interface Impersonation {
+  impersonatorId: string;
+  impersonatorName: string;
+  clientId: number;
+  startedAt: string;
+  expiresAt: string;
+  // The admin's session user, restored on exit
+  original: any;
+}
+
+const current = new AsyncLocalStorage<Impersonation>();
+
+export function getImpersonation(sessionUser: any): Impersonation | undefined {
+  return sessionUser?.impersonation;
+}
+
+export function isImpersonationExpired(impersonation: Impersonation, now = new Date()): boolean {
+  return new Date(impersonation.expiresAt) <= now;
+}
+
+export function createImpersonation(original: any, impersonatorName: string, clientId: number): Impersonation {
+  const startedAt = new Date();
+  return {
+    impersonatorId: original.claims.sub,
+    impersonatorName,
+    clientId,
+    startedAt: startedAt.toISOString(),
+    expiresAt: new Date(startedAt.getTime() + IMPERSONATION_TTL_MINUTES * 60 * 1000).toISOString(),
+    original,
+  };
+}
+
+// What the portal is told about the impersonation; never the admin's tokens
+export function toImpersonationResponse(impersonation: Impersonation) {
+  const { original, ...rest } = impersonation;
+  return rest;
+}
+
+// Runs the rest of the request with the impersonation visible to getCurrentImpersonation()
+export function runWithImpersonation<T>(impersonation: Impersonation, fn: () => T): T {
+  return current.run(impersonation, fn);
+}
+
+export function getCurrentImpersonation(): Impersonation | undefined {
+  return current.getStore();
+}
@@ -1,8 +1,15 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { startWebhookWorker } from "./webhooks";
+import { startBatchScheduler } from "./batchScheduler";
+import { startLocationHistoryPruner } from "./liveTracking";
+import { startSessionPruner } from "./sessionStore";
 
 const app = express();
+// Proof-of-delivery uploads (direct or replayed from the driver's offline queue) carry
+// base64 photos; everything else keeps the default limit
+app.use([/^\/api\/orders\/\d+\/proof-of-delivery$/, "/api/driver/sync"], express.json({ limit: "12mb" }));
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
 
@@ -66,5 +73,9 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+    startWebhookWorker();
+    startBatchScheduler();
+    startLocationHistoryPruner();
+    startSessionPruner();
   });
 })();
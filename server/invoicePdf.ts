@@ -0,0 +1,214 @@
+import { jsPDF } from "jspdf";
+import { AGING_BUCKETS, type Client, type Invoice, type InvoiceLine } from "@shared/schema";
+import type { Statement } from "./ledger";
+
+// Server-rendered invoice and account statement PDFs (US Letter, points). Long documents
+// continue on further pages with the column header repeated.
+
+const COMPANY_NAME = process.env.INVOICE_COMPANY_NAME || "ShippXpress";
+const COMPANY_ADDRESS = process.env.INVOICE_COMPANY_ADDRESS || "1049 Industrial Dr, Bensenville, IL 60106";
+
+const PAGE_MARGIN = 40;
+const ROW_HEIGHT = 16;
+
+const INVOICE_COLUMNS = [
+  { label: "Date", x: 40, align: "left" },
+  { label: "Description", x: 100, align: "left" },
+  { label: "Weight", x: 372, align: "right" },
+  { label: "Distance", x: 422, align: "right" },
+  { label: "Priority", x: 472, align: "right" },
+  { label: "Other", x: 517, align: "right" },
+  { label: "Amount", x: 572, align: "right" },
+] as const;
+
+const STATEMENT_COLUMNS = [
+  { label: "Date", x: 40, align: "left" },
+  { label: "Type", x: 100, align: "left" },
+  { label: "Reference", x: 165, align: "left" },
+  { label: "Description", x: 245, align: "left" },
+  { label: "Debit", x: 452, align: "right" },
+  { label: "Credit", x: 512, align: "right" },
+  { label: "Balance", x: 572, align: "right" },
+] as const;
+
+const ENTRY_TYPE_LABELS: Record<string, string> = {
+  invoice: "Invoice",
+  payment: "Payment",
+  adjustment: "Adjustment",
+  credit_note: "Credit note",
+};
+
+type Column = { label: string; x: number; align: "left" | "right" };
+
+function formatMoney(amount: string | number, currency: string): string {
+  return new Intl.NumberFormat("en-US", { style: "currency", currency }).format(typeof amount === "string" ? parseFloat(amount) : amount);
+}
+
+function formatDate(value: Date | string | null): string {
+  if (!value) return "-";
+  const date = typeof value === "string" ? new Date(`${value}T00:00:00Z`) : value;
+  return date.toLocaleDateString("en-US", { timeZone: "UTC", year: "numeric", month: "short", day: "numeric" });
+}
+
+function drawColumnHeader(pdf: jsPDF, columns: readonly Column[], y: number) {
+  pdf.setFont("helvetica", "bold");
+  columns.forEach((column) => pdf.text(column.label, column.x, y, { align: column.align }));
+  pdf.line(PAGE_MARGIN, y + 4, 572, y + 4);
+  pdf.setFont("helvetica", "normal");
+}
+
+// Company block on the left, document title and its details on the right, Bill To below
+function drawDocumentHeader(pdf: jsPDF, title: string, details: string[][], client: Client) {
+  pdf.setFont("helvetica", "bold");
+  pdf.setFontSize(18);
+  pdf.text(COMPANY_NAME, PAGE_MARGIN, 50);
+  pdf.setFontSize(14);
+  pdf.text(title, 572, 50, { align: "right" });
+  pdf.setFont("helvetica", "normal");
+  pdf.setFontSize(9);
+  pdf.text(COMPANY_ADDRESS, PAGE_MARGIN, 64);
+
+  details.forEach(([label, value], i) => {
+    pdf.text(label, 420, 80 + i * 13);
+    pdf.text(value, 572, 80 + i * 13, { align: "right" });
+  });
+
+  pdf.setFont("helvetica", "bold");
+  pdf.text("Bill To", PAGE_MARGIN, 94);
+  pdf.setFont("helvetica", "normal");
+  [client.name, client.address, client.contactEmail].filter(Boolean).forEach((line, i) => {
+    pdf.text(line as string, PAGE_MARGIN, 107 + i * 13);
+  });
+}
+
+export function renderInvoicePdf(invoice: Invoice, lines: InvoiceLine[], client: Client): Buffer {
+  const pdf = new jsPDF({ unit: "pt", format: "letter" });
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const money = (amount: string | number) => formatMoney(amount, invoice.currency);
+
+  drawDocumentHeader(pdf, invoice.status === "void" ? "INVOICE (VOID)" : "INVOICE", [
+    ["Invoice #", invoice.invoiceNumber],
+    ["Status", invoice.status.charAt(0).toUpperCase() + invoice.status.slice(1)],
+    ["Period", invoice.periodStart === invoice.periodEnd ? formatDate(invoice.periodStart) : `${formatDate(invoice.periodStart)} - ${formatDate(invoice.periodEnd)}`],
+    ["Issued", formatDate(invoice.issuedAt)],
+    ["Due", formatDate(invoice.dueAt)],
+  ], client);
+
+  // Lines
+  let y = 170;
+  drawColumnHeader(pdf, INVOICE_COLUMNS, y);
+  y += ROW_HEIGHT + 2;
+
+  for (const line of lines) {
+    const description = pdf.splitTextToSize(line.description, 230) as string[];
+    const height = description.length * 11 + 5;
+    if (y + height > pageHeight - 120) {
+      pdf.addPage();
+      y = 60;
+      drawColumnHeader(pdf, INVOICE_COLUMNS, y);
+      y += ROW_HEIGHT + 2;
+    }
+
+    pdf.text(formatDate(line.serviceDate), INVOICE_COLUMNS[0].x, y);
+    pdf.text(description, INVOICE_COLUMNS[1].x, y);
+    pdf.text(money(line.weightCharge), INVOICE_COLUMNS[2].x, y, { align: "right" });
+    pdf.text(money(line.distanceCharge), INVOICE_COLUMNS[3].x, y, { align: "right" });
+    pdf.text(money(line.priorityCharge), INVOICE_COLUMNS[4].x, y, { align: "right" });
+    pdf.text(money(line.otherCharges), INVOICE_COLUMNS[5].x, y, { align: "right" });
+    pdf.text(money(line.amount), INVOICE_COLUMNS[6].x, y, { align: "right" });
+    y += height;
+  }
+
+  // Totals
+  pdf.line(380, y, 572, y);
+  y += ROW_HEIGHT;
+  const totals = [
+    ["Subtotal", invoice.subtotal],
+    ...(parseFloat(invoice.credits) !== 0 ? [["Credits", invoice.credits]] : []),
+    ["Total", invoice.total],
+  ];
+  totals.forEach(([label, amount]) => {
+    pdf.setFont("helvetica", label === "Total" ? "bold" : "normal");
+    pdf.text(label, 440, y);
+    pdf.text(money(amount), 572, y, { align: "right" });
+    y += ROW_HEIGHT;
+  });
+
+  if (invoice.status === "void" && invoice.voidReason) {
+    pdf.setFont("helvetica", "normal");
+    pdf.text(`Voided: ${invoice.voidReason}`, PAGE_MARGIN, y + ROW_HEIGHT);
+  }
+
+  return Buffer.from(pdf.output("arraybuffer"));
+}
+
+export function renderStatementPdf(statement: Statement): Buffer {
+  const pdf = new jsPDF({ unit: "pt", format: "letter" });
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const money = (amount: number) => formatMoney(amount, "USD");
+
+  drawDocumentHeader(pdf, "STATEMENT", [
+    ["Period", `${formatDate(statement.from)} - ${formatDate(statement.to)}`],
+    ["Opening balance", money(statement.openingBalance)],
+    ["Closing balance", money(statement.closingBalance)],
+    ...(statement.client.creditLimit !== null ? [["Credit limit", money(parseFloat(statement.client.creditLimit))]] : []),
+  ], statement.client);
+
+  // Entries
+  let y = 170;
+  drawColumnHeader(pdf, STATEMENT_COLUMNS, y);
+  y += ROW_HEIGHT + 2;
+
+  const row = (values: string[], height = ROW_HEIGHT) => {
+    if (y + height > pageHeight - 120) {
+      pdf.addPage();
+      y = 60;
+      drawColumnHeader(pdf, STATEMENT_COLUMNS, y);
+      y += ROW_HEIGHT + 2;
+    }
+    values.forEach((value, i) => {
+      const column = STATEMENT_COLUMNS[i];
+      pdf.text(column.label === "Description" ? pdf.splitTextToSize(value, 190) : value, column.x, y, { align: column.align });
+    });
+    y += height;
+  };
+
+  row([formatDate(statement.from), "", "", "Opening balance", "", "", money(statement.openingBalance)]);
+  for (const entry of statement.entries) {
+    const amount = parseFloat(entry.amount);
+    const height = (pdf.splitTextToSize(entry.description, 190) as string[]).length * 11 + 5;
+    row([
+      formatDate(entry.entryDate),
+      ENTRY_TYPE_LABELS[entry.type] ?? entry.type,
+      entry.reference ?? "",
+      entry.description,
+      amount > 0 ? money(amount) : "",
+      amount < 0 ? money(-amount) : "",
+      money(entry.balance),
+    ], Math.max(height, ROW_HEIGHT));
+  }
+  pdf.setFont("helvetica", "bold");
+  row([formatDate(statement.to), "", "", "Closing balance", "", "", money(statement.closingBalance)]);
+
+  // Aging
+  if (y + 60 > pageHeight - 40) {
+    pdf.addPage();
+    y = 60;
+  }
+  y += ROW_HEIGHT;
+  pdf.text(`Aging as of ${formatDate(statement.to)} (days past due)`, PAGE_MARGIN, y);
+  y += ROW_HEIGHT;
+  const width = (572 - PAGE_MARGIN) / AGING_BUCKETS.length;
+  AGING_BUCKETS.forEach((bucket, i) => {
+    const x = PAGE_MARGIN + width * (i + 1) - 10;
+    pdf.setFont("helvetica", "bold");
+    pdf.text(bucket.label, x, y, { align: "right" });
+    pdf.setFont("helvetica", "normal");
+    pdf.text(money(statement.aging.buckets[bucket.key]), x, y + 13, { align: "right" });
+  });
+  if (statement.aging.unappliedCredit > 0) {
+    pdf.text(`Unapplied credit: ${money(statement.aging.unappliedCredit)}`, PAGE_MARGIN, y + 34);
+  }
+
+  return Buffer.from(pdf.output("arraybuffer"));
+}
@@ -0,0 +1,142 @@
+import { test, mock, beforeEach, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { stubStorage } from "./testSupport";
+import { db } from "./db";
+import { storage, DatabaseStorage, type BillableOrder, type NewInvoiceLine, type UncreditedCharge } from "./storage";
+import { runMonthlyInvoicing, createOrderInvoice, InvoicingError } from "./invoicing";
+import type { Client, Invoice, InvoiceLine, Order, PriceQuote } from "@shared/schema";
+
+// Invoice lines and totals. Each order is billed at its frozen price, split into the
+// charge columns its quote itemized; orders voided after billing come back as credits,
+// and an invoice's totals are summed from its lines. Storage is replaced with fixtures.
+
+const CLIENT = { id: 1, name: "Acme Freight", isActive: true } as Client;
+
+function quote(lines: [code: string, amount: number][]): PriceQuote {
+  return { lines: lines.map(([code, amount]) => ({ code, description: code, amount })) } as PriceQuote;
+}
+
+function order(id: number, price: string | null, breakdown: PriceQuote | null = null): Order {
+  return {
+    id,
+    orderNumber: `SX-${id}`,
+    clientId: CLIENT.id,
+    status: "delivered",
+    customerName: "Dock 4",
+    deliveryCity: "Springfield",
+    deliveryState: "IL",
+    price,
+    priceBreakdown: breakdown,
+  } as Order;
+}
+
+let billable: BillableOrder[];
+let uncredited: UncreditedCharge[];
+
+const { calls, called } = stubStorage(storage, {
+  getClient: async () => CLIENT,
+  getBillableOrders: async () => billable,
+  getUncreditedCharges: async () => uncredited,
+  getDraftMonthlyInvoice: async () => undefined,
+  getActiveInvoiceLineForOrder: async () => undefined,
+  createInvoice: async () => ({ id: 9 }) as Invoice,
+});
+
+beforeEach(() => {
+  calls.length = 0;
+  billable = [];
+  uncredited = [];
+});
+
+afterEach(() => mock.restoreAll());
+
+async function invoicedLines(): Promise<NewInvoiceLine[]> {
+  await runMonthlyInvoicing({ month: "2026-09", clientId: CLIENT.id, includeFailedAttempts: true, issue: false }, "staff");
+  const [create] = called("createInvoice");
+  return create.args[1];
+}
+
+test("each order is billed at its frozen price, split as its quote itemized it", async () => {
+  billable = [{
+    order: order(1, "42.50", quote([["base", 20], ["weight", 12.5], ["distance", 6], ["priority", 3], ["fragile", 1]])),
+    type: "charge",
+    // Evening of the last day of the month in Chicago
+    serviceDate: new Date("2026-10-01T03:00:00Z"),
+  }];
+
+  const [line] = await invoicedLines();
+
+  assert.deepEqual(line, {
+    orderId: 1,
+    type: "charge",
+    description: "SX-1 - Dock 4, Springfield, IL",
+    serviceDate: "2026-09-30",
+    weightCharge: "12.50",
+    distanceCharge: "6.00",
+    priorityCharge: "3.00",
+    otherCharges: "21.00",
+    amount: "42.50",
+  });
+  const [create] = called("createInvoice");
+  assert.deepEqual(create.args[0], { clientId: 1, kind: "monthly", periodStart: "2026-09-01", periodEnd: "2026-09-30", createdBy: "staff" });
+});
+
+test("orders voided after billing are credited in full, column by column", async () => {
+  uncredited = [{
+    line: { orderId: 3, weightCharge: "12.50", distanceCharge: "6.00", priorityCharge: "0.00", otherCharges: "21.00", amount: "39.50" } as InvoiceLine,
+    invoiceNumber: "INV-2026-000012",
+    orderNumber: "SX-3",
+  }];
+
+  const [credit] = await invoicedLines();
+
+  assert.deepEqual(credit, {
+    orderId: 3,
+    type: "credit",
+    description: "Credit: SX-3 voided after billing on INV-2026-000012",
+    serviceDate: "2026-09-30",
+    weightCharge: "-12.50",
+    distanceCharge: "-6.00",
+    priorityCharge: "0.00",
+    otherCharges: "-21.00",
+    amount: "-39.50",
+  });
+});
+
+test("orders without a frozen price are left off and reported for manual billing", async () => {
+  billable = [
+    { order: order(1, "10.00"), type: "charge", serviceDate: new Date("2026-09-15T15:00:00Z") },
+    { order: order(2, null), type: "failed_attempt", serviceDate: new Date("2026-09-16T15:00:00Z") },
+  ];
+
+  const [result] = await runMonthlyInvoicing({ month: "2026-09", includeFailedAttempts: true, issue: false, clientId: 1 }, "staff");
+
+  assert.equal(result.linesAdded, 1);
+  assert.deepEqual(result.unpriced, ["SX-2"]);
+  // Without an itemized quote the whole price is in other charges
+  assert.equal(called("createInvoice")[0].args[1][0].otherCharges, "10.00");
+});
+
+test("an order can only be invoiced on its own once it has a price and isn't billed yet", async () => {
+  await assert.rejects(createOrderInvoice(order(1, null), "staff"), InvoicingError);
+  await assert.rejects(createOrderInvoice({ ...order(1, "10.00"), status: "voided" }, "staff"), InvoicingError);
+
+  await createOrderInvoice(order(1, "10.00"), "staff");
+  assert.equal(called("createInvoice")[0].args[1][0].amount, "10.00");
+});
+
+test("totals are summed from the lines in the batch that writes them, credits apart", async () => {
+  const statements: string[] = [];
+  mock.method(db, "batch", async (queries: { toSQL(): { sql: string } }[]) => {
+    statements.push(...queries.map((query) => query.toSQL().sql));
+    return queries.map(() => [{ id: 9 }]);
+  });
+
+  await new DatabaseStorage().createInvoice({ clientId: 1, kind: "order", periodStart: "2026-09-15", periodEnd: "2026-09-15", createdBy: "staff" }, [{ orderId: 1, type: "charge", description: "SX-1", amount: "10.00" }]);
+
+  assert.equal(statements.length, 3);
+  const totals = statements[2];
+  assert.match(totals, /"subtotal" = coalesce\(\(select sum\(amount\) from "invoice_lines" where invoice_id = "invoices"."id" and type <> 'credit'\), 0\)/);
+  assert.match(totals, /"credits" = coalesce\(\(select sum\(amount\) from "invoice_lines" where invoice_id = "invoices"."id" and type = 'credit'\), 0\)/);
+  assert.match(totals, /"total" = coalesce\(\(select sum\(amount\) from "invoice_lines" where invoice_id = "invoices"."id" and true\), 0\)/);
+});
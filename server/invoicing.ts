@@ -0,0 +1,199 @@
+import { storage, type BillableOrder, type NewInvoiceLine, type NewLedgerEntry } from "./storage";
+import { getZonedDateTime, getZonedInstant } from "./batchCalendar";
+import { invoiceIssuedEntry, invoiceSettledEntry, invoiceVoidedEntry } from "./ledger";
+import {
+  INVOICE_STATUS_TRANSITIONS,
+  type Invoice,
+  type InvoiceRun,
+  type InvoiceStatus,
+  type Order,
+  type PriceQuote,
+} from "@shared/schema";
+
+// Billing runs over the prices frozen onto orders when they were created (see rating.ts).
+// An order is billed at most once across invoices that aren't void; a voided order is
+// dropped from drafts and credited on the next monthly invoice if it was already issued.
+
+// Days between issuing an invoice and its due date
+export const INVOICE_DUE_DAYS = parseInt(process.env.INVOICE_DUE_DAYS || "30");
+
+// Raised for billing requests that conflict with the invoice or order state (409)
+export class InvoicingError extends Error {
+  status = 409;
+
+  constructor(message: string) {
+    super(message);
+    this.name = "InvoicingError";
+  }
+}
+
+export interface InvoiceRunResult {
+  clientId: number;
+  clientName: string;
+  invoice: Invoice | null;
+  linesAdded: number;
+  credits: number;
+  unpriced: string[]; // order numbers with no frozen price, left for manual billing
+}
+
+function toMoney(amount: number): string {
+  return amount.toFixed(2);
+}
+
+// Month boundaries in the operating time zone, as instants and as inclusive dates
+function getBillingPeriod(month: string) {
+  const [year, monthNumber] = month.split("-").map((part) => parseInt(part));
+  const next = monthNumber === 12 ? `${year + 1}-01` : `${year}-${String(monthNumber + 1).padStart(2, "0")}`;
+  const lastDay = new Date(Date.UTC(year, monthNumber, 0)).getUTCDate();
+  return {
+    from: getZonedInstant(`${month}-01`, "00:00"),
+    to: getZonedInstant(`${next}-01`, "00:00"),
+    periodStart: `${month}-01`,
+    periodEnd: `${month}-${String(lastDay).padStart(2, "0")}`,
+  };
+}
+
+// Splits the frozen quote into the charge columns invoices show
+function splitCharges(quote: PriceQuote | null, price: number) {
+  const sumOf = (code: string) => quote?.lines.filter((line) => line.code === code).reduce((sum, line) => sum + line.amount, 0) ?? 0;
+  const weightCharge = sumOf("weight");
+  const distanceCharge = sumOf("distance");
+  const priorityCharge = sumOf("priority");
+  return {
+    weightCharge: toMoney(weightCharge),
+    distanceCharge: toMoney(distanceCharge),
+    priorityCharge: toMoney(priorityCharge),
+    otherCharges: toMoney(price - weightCharge - distanceCharge - priorityCharge),
+  };
+}
+
+function toChargeLine({ order, type, serviceDate }: BillableOrder): NewInvoiceLine {
+  const price = parseFloat(order.price!);
+  return {
+    orderId: order.id,
+    type,
+    description: `${order.orderNumber} - ${order.customerName}, ${order.deliveryCity}, ${order.deliveryState}${type === "failed_attempt" ? " (returned after failed delivery attempts)" : ""}`,
+    serviceDate: getZonedDateTime(serviceDate).date,
+    ...splitCharges(order.priceBreakdown, price),
+    amount: toMoney(price),
+  };
+}
+
+async function invoiceClient(
+  client: { id: number; name: string },
+  run: InvoiceRun,
+  createdBy: string,
+): Promise<InvoiceRunResult> {
+  const { from, to, periodStart, periodEnd } = getBillingPeriod(run.month);
+  const billable = await storage.getBillableOrders(client.id, from, to, run.includeFailedAttempts);
+  const priced = billable.filter(({ order }) => order.price !== null);
+
+  const lines = priced.map(toChargeLine);
+  const credits = await storage.getUncreditedCharges(client.id);
+  for (const { line, invoiceNumber, orderNumber } of credits) {
+    lines.push({
+      orderId: line.orderId,
+      type: "credit",
+      description: `Credit: ${orderNumber} voided after billing on ${invoiceNumber}`,
+      serviceDate: periodEnd,
+      weightCharge: toMoney(-parseFloat(line.weightCharge)),
+      distanceCharge: toMoney(-parseFloat(line.distanceCharge)),
+      priorityCharge: toMoney(-parseFloat(line.priorityCharge)),
+      otherCharges: toMoney(-parseFloat(line.otherCharges)),
+      amount: toMoney(-parseFloat(line.amount)),
+    });
+  }
+
+  const result: InvoiceRunResult = {
+    clientId: client.id,
+    clientName: client.name,
+    invoice: null,
+    linesAdded: lines.length,
+    credits: credits.length,
+    unpriced: billable.filter(({ order }) => order.price === null).map(({ order }) => order.orderNumber),
+  };
+  if (lines.length === 0) return result;
+
+  // Re-running a month tops up its draft rather than opening a second invoice
+  const draft = await storage.getDraftMonthlyInvoice(client.id, periodStart);
+  let invoice = draft
+    ? await storage.addInvoiceLines(draft.id, lines)
+    : await storage.createInvoice({ clientId: client.id, kind: "monthly", periodStart, periodEnd, createdBy }, lines);
+  if (run.issue) {
+    invoice = await changeInvoiceStatus(invoice, "issued", undefined, createdBy);
+  }
+
+  result.invoice = invoice;
+  return result;
+}
+
+export async function runMonthlyInvoicing(run: InvoiceRun, createdBy: string): Promise<InvoiceRunResult[]> {
+  const clients = run.clientId
+    ? [await storage.getClient(run.clientId)].filter((client) => !!client)
+    : (await storage.getAllClients()).filter((client) => client.isActive);
+
+  const results: InvoiceRunResult[] = [];
+  for (const client of clients) {
+    results.push(await invoiceClient(client, run, createdBy));
+  }
+  return results;
+}
+
+// Bills one order on its own invoice, e.g. for clients who pay per shipment
+export async function createOrderInvoice(order: Order, createdBy: string): Promise<Invoice> {
+  if (!order.clientId) {
+    throw new InvoicingError("Only client orders can be invoiced");
+  }
+  if (order.status === "voided") {
+    throw new InvoicingError("Voided orders can't be invoiced");
+  }
+  if (order.price === null) {
+    throw new InvoicingError("This order has no frozen price to invoice");
+  }
+  const billed = await storage.getActiveInvoiceLineForOrder(order.id);
+  if (billed) {
+    throw new InvoicingError(`This order is already billed on ${billed.invoice.invoiceNumber}`);
+  }
+
+  const serviceDate = order.actualDeliveryTime ?? new Date();
+  const line = toChargeLine({ order, type: "charge", serviceDate });
+  return storage.createInvoice({
+    clientId: order.clientId,
+    kind: "order",
+    periodStart: line.serviceDate!,
+    periodEnd: line.serviceDate!,
+    createdBy,
+  }, [line]);
+}
+
+// Issuing and voiding an issued invoice post to the client's ledger (see ledger.ts)
+export async function changeInvoiceStatus(invoice: Invoice, status: InvoiceStatus, reason?: string, changedBy?: string): Promise<Invoice> {
+  if (!INVOICE_STATUS_TRANSITIONS[invoice.status as InvoiceStatus]?.includes(status)) {
+    throw new InvoicingError(`Cannot change invoice ${invoice.invoiceNumber} from ${invoice.status} to ${status}`);
+  }
+
+  const now = new Date();
+  const updates = {
+    status,
+    ...(status === "issued" ? { issuedAt: now, dueAt: new Date(now.getTime() + INVOICE_DUE_DAYS * 24 * 60 * 60 * 1000) } : {}),
+    ...(status === "paid" ? { paidAt: now } : {}),
+    ...(status === "void" ? { voidedAt: now, voidReason: reason ?? null } : {}),
+  };
+  const changed = { ...invoice, ...updates };
+
+  let entry: NewLedgerEntry | null = null;
+  if (status === "issued") {
+    entry = invoiceIssuedEntry(changed, changedBy);
+  } else if (status === "paid") {
+    entry = await invoiceSettledEntry(changed, changedBy);
+  } else if (status === "void" && invoice.status === "issued") {
+    entry = invoiceVoidedEntry(changed, changedBy);
+  }
+
+  const updated = await storage.transitionInvoice(invoice.id, invoice.status, updates, entry);
+  if (!updated) {
+    const latest = await storage.getInvoice(invoice.id);
+    throw new InvoicingError(`Invoice ${invoice.invoiceNumber} was changed to ${latest?.status ?? "deleted"} in the meantime`);
+  }
+  return updated;
+}
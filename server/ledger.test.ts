@@ -0,0 +1,56 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import "./testSupport";
+import { ageLedger } from "./ledger";
+import type { Invoice, LedgerEntry } from "@shared/schema";
+
+// Client balances and aging: debits less credits, with what each open invoice still
+// owes aged by its due date and unapplied credits settling the oldest invoices first
+
+const AS_OF = new Date("2026-10-18T12:00:00Z");
+
+function invoice(id: number, dueAt: string, voidedAt?: string): Invoice {
+  return { id, dueAt: new Date(`${dueAt}T00:00:00Z`), voidedAt: voidedAt ? new Date(`${voidedAt}T00:00:00Z`) : null } as Invoice;
+}
+
+function entry(amount: string, invoiceId: number | null = null): LedgerEntry {
+  return { clientId: 1, amount, invoiceId } as LedgerEntry;
+}
+
+// Due 78 and 23 days before AS_OF
+const INVOICES = [invoice(1, "2026-08-01"), invoice(2, "2026-09-25")];
+
+test("the balance is debits less credits", () => {
+  const report = ageLedger([entry("100.00", 1), entry("50.00", 2), entry("-30.10")], INVOICES, AS_OF);
+  assert.equal(report.balance, 119.9);
+});
+
+test("open invoices age by their due date, unapplied credit settling the oldest first", () => {
+  const report = ageLedger([entry("100.00", 1), entry("50.00", 2), entry("-30.00")], INVOICES, AS_OF);
+
+  assert.deepEqual(report.buckets, { current: 0, days30: 50, days60: 0, days90: 70, over90: 0 });
+  assert.equal(report.unappliedCredit, 0);
+});
+
+test("payments against an invoice reduce what that invoice owes", () => {
+  const report = ageLedger([entry("100.00", 1), entry("50.00", 2), entry("-20.00", 2)], INVOICES, AS_OF);
+
+  assert.deepEqual(report.buckets, { current: 0, days30: 30, days60: 0, days90: 100, over90: 0 });
+  assert.equal(report.balance, 130);
+});
+
+test("credit beyond what is owed is left unapplied", () => {
+  const report = ageLedger([entry("100.00", 1), entry("-150.00")], INVOICES, AS_OF);
+
+  assert.deepEqual(report.buckets, { current: 0, days30: 0, days60: 0, days90: 0, over90: 0 });
+  assert.equal(report.unappliedCredit, 50);
+  assert.equal(report.balance, -50);
+});
+
+test("voided invoices don't age, and unapplied debits count as current", () => {
+  const invoices = [...INVOICES, invoice(3, "2026-06-01", "2026-07-01")];
+  const report = ageLedger([entry("40.00", 3), entry("-40.00", 3), entry("12.50")], invoices, AS_OF);
+
+  assert.deepEqual(report.buckets, { current: 12.5, days30: 0, days60: 0, days90: 0, over90: 0 });
+  assert.equal(report.balance, 12.5);
+});
@@ -0,0 +1,286 @@
+import { storage, type NewLedgerEntry } from "./storage";
+import { getZonedDateTime } from "./batchCalendar";
+import { toCsv } from "./csvImport";
+import {
+  AGING_BUCKETS,
+  type AgingBucket,
+  type Client,
+  type CreditPolicy,
+  type InsertLedgerEntry,
+  type Invoice,
+  type LedgerEntry,
+} from "@shared/schema";
+
+// Client accounts receivable. Issuing an invoice debits the client's ledger and voiding
+// an issued invoice posts a matching credit note; payments, adjustments and credit notes
+// are entered by finance. Aging is worked out from the ledger on demand.
+
+// Raised for ledger entries that don't fit the client's invoices (409)
+export class LedgerError extends Error {
+  status = 409;
+
+  constructor(message: string) {
+    super(message);
+    this.name = "LedgerError";
+  }
+}
+
+// Raised when an order, or a whole import, would take a client with a blocking credit
+// policy over its limit. Serializes to the 409 body.
+export class CreditLimitExceededError extends Error {
+  status = 409;
+  code = "CREDIT_LIMIT_EXCEEDED";
+
+  constructor(public check: CreditCheck, message = "This order would exceed the client's credit limit") {
+    super(message);
+    this.name = "CreditLimitExceededError";
+  }
+
+  toJSON() {
+    return { message: this.message, code: this.code, ...this.check };
+  }
+}
+
+export interface AgingReport {
+  balance: number;
+  buckets: Record<AgingBucket, number>;
+  unappliedCredit: number; // payments and credits not yet absorbed by an open invoice
+}
+
+// exposure: ledger balance plus priced orders not yet on an issued invoice
+export interface CreditCheck {
+  limit: number;
+  policy: CreditPolicy;
+  exposure: number;
+  orderAmount: number;
+}
+
+export interface Statement {
+  client: Client;
+  from: string;
+  to: string;
+  openingBalance: number;
+  closingBalance: number;
+  entries: (LedgerEntry & { balance: number })[]; // running balance after each entry
+  aging: AgingReport;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function toMoney(amount: number): string {
+  return amount.toFixed(2);
+}
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function today(): string {
+  return getZonedDateTime(new Date()).date;
+}
+
+function getAgingBucket(dueAt: Date | null, asOf: Date): AgingBucket {
+  const daysPastDue = dueAt ? Math.floor((asOf.getTime() - dueAt.getTime()) / DAY_MS) : 0;
+  let bucket: AgingBucket = "current";
+  for (const candidate of AGING_BUCKETS) {
+    if (daysPastDue >= candidate.fromDays) bucket = candidate.key;
+  }
+  return bucket;
+}
+
+// Ages what each open invoice still owes by its due date. Payments and credits that
+// aren't tied to an open invoice settle the oldest invoices first; unapplied debits
+// (e.g. an adjustment) count as current.
+export function ageLedger(entries: LedgerEntry[], invoices: Invoice[], asOf: Date = new Date()): AgingReport {
+  const invoicesById = new Map(invoices.map((invoice) => [invoice.id, invoice]));
+  const isOpen = (invoice: Invoice | undefined): invoice is Invoice =>
+    !!invoice && !(invoice.voidedAt && invoice.voidedAt <= asOf);
+
+  const owedByInvoice = new Map<number, number>();
+  let unapplied = 0;
+  for (const entry of entries) {
+    const amount = parseFloat(entry.amount);
+    const invoice = entry.invoiceId ? invoicesById.get(entry.invoiceId) : undefined;
+    if (isOpen(invoice)) {
+      owedByInvoice.set(invoice.id, (owedByInvoice.get(invoice.id) ?? 0) + amount);
+    } else {
+      unapplied += amount;
+    }
+  }
+
+  const open: { invoice: Invoice; owed: number }[] = [];
+  owedByInvoice.forEach((owed, invoiceId) => {
+    if (owed > 0) open.push({ invoice: invoicesById.get(invoiceId)!, owed });
+    else unapplied += owed;
+  });
+  open.sort((a, b) => (a.invoice.dueAt?.getTime() ?? 0) - (b.invoice.dueAt?.getTime() ?? 0));
+
+  let credit = unapplied < 0 ? -unapplied : 0;
+  const buckets = Object.fromEntries(AGING_BUCKETS.map(({ key }) => [key, 0])) as Record<AgingBucket, number>;
+  for (const item of open) {
+    const applied = Math.min(credit, item.owed);
+    credit -= applied;
+    buckets[getAgingBucket(item.invoice.dueAt, asOf)] += item.owed - applied;
+  }
+  if (unapplied > 0) buckets.current += unapplied;
+
+  (Object.keys(buckets) as AgingBucket[]).forEach((key) => {
+    buckets[key] = roundCents(buckets[key]);
+  });
+  return {
+    balance: roundCents(entries.reduce((sum, entry) => sum + parseFloat(entry.amount), 0)),
+    buckets,
+    unappliedCredit: roundCents(credit),
+  };
+}
+
+export async function getClientAging(clientId: number, asOf: Date = new Date()): Promise<AgingReport> {
+  const [entries, invoices] = await Promise.all([
+    storage.getLedgerEntries(clientId),
+    storage.getInvoices({ clientId }),
+  ]);
+  return ageLedger(entries, invoices, asOf);
+}
+
+// Null when the client has no limit or the order fits within it
+export async function checkCreditLimit(client: Client, orderAmount: number): Promise<CreditCheck | null> {
+  if (client.creditLimit === null) return null;
+
+  const [balance, unbilled] = await Promise.all([
+    storage.getLedgerBalance(client.id),
+    storage.getUnbilledOrderTotal(client.id),
+  ]);
+  const limit = parseFloat(client.creditLimit);
+  const exposure = roundCents(balance + unbilled);
+  if (exposure + orderAmount <= limit) return null;
+
+  return { limit, policy: client.creditPolicy as CreditPolicy, exposure, orderAmount };
+}
+
+// Invoice lifecycle postings, made in the same transaction as the status change they
+// record (see changeInvoiceStatus in invoicing.ts)
+export function invoiceIssuedEntry(invoice: Invoice, createdBy?: string): NewLedgerEntry {
+  return {
+    clientId: invoice.clientId,
+    type: "invoice",
+    invoiceId: invoice.id,
+    amount: invoice.total,
+    entryDate: getZonedDateTime(invoice.issuedAt ?? new Date()).date,
+    description: `Invoice ${invoice.invoiceNumber}`,
+    reference: invoice.invoiceNumber,
+    createdBy,
+  };
+}
+
+export function invoiceVoidedEntry(invoice: Invoice, createdBy?: string): NewLedgerEntry {
+  return {
+    clientId: invoice.clientId,
+    type: "credit_note",
+    invoiceId: invoice.id,
+    amount: toMoney(-parseFloat(invoice.total)),
+    entryDate: getZonedDateTime(invoice.voidedAt ?? new Date()).date,
+    description: `Invoice ${invoice.invoiceNumber} voided${invoice.voidReason ? `: ${invoice.voidReason}` : ""}`,
+    reference: invoice.invoiceNumber,
+    createdBy,
+  };
+}
+
+// Marking an invoice paid without a recorded payment settles whatever it still owes
+export async function invoiceSettledEntry(invoice: Invoice, createdBy?: string): Promise<NewLedgerEntry | null> {
+  const owed = await storage.getInvoiceLedgerBalance(invoice.id);
+  if (owed <= 0) return null;
+
+  return {
+    clientId: invoice.clientId,
+    type: "payment",
+    invoiceId: invoice.id,
+    amount: toMoney(-owed),
+    entryDate: today(),
+    description: `Invoice ${invoice.invoiceNumber} marked paid`,
+    paymentMethod: "other",
+    reference: invoice.invoiceNumber,
+    createdBy,
+  };
+}
+
+// Manual payments, adjustments and credit notes. A payment or credit note against an
+// issued invoice that clears it marks the invoice paid.
+export async function recordLedgerEntry(client: Client, entry: InsertLedgerEntry, createdBy: string): Promise<LedgerEntry> {
+  let invoice: Invoice | undefined;
+  if (entry.invoiceId !== undefined) {
+    invoice = await storage.getInvoice(entry.invoiceId);
+    if (!invoice || invoice.clientId !== client.id) {
+      throw new LedgerError("The invoice doesn't belong to this client");
+    }
+    if (invoice.status !== "issued" && invoice.status !== "paid") {
+      throw new LedgerError(`Entries can only be recorded against issued invoices, not ${invoice.status} ones`);
+    }
+  }
+
+  const amount = parseFloat(entry.amount);
+  const descriptions = { payment: "Payment received", credit_note: "Credit note", adjustment: "Adjustment" };
+  const created = await storage.createLedgerEntry({
+    clientId: client.id,
+    type: entry.type,
+    invoiceId: invoice?.id,
+    amount: toMoney(entry.type === "adjustment" ? amount : -amount),
+    entryDate: entry.entryDate ?? today(),
+    description: entry.description?.trim() || (invoice ? `${descriptions[entry.type]} for ${invoice.invoiceNumber}` : descriptions[entry.type]),
+    paymentMethod: entry.type === "payment" ? entry.paymentMethod ?? "other" : null,
+    reference: entry.reference || null,
+    createdBy,
+  });
+
+  if (invoice?.status === "issued" && (await storage.getInvoiceLedgerBalance(invoice.id)) <= 0) {
+    await storage.transitionInvoice(invoice.id, "issued", { status: "paid", paidAt: new Date() });
+  }
+  return created;
+}
+
+export async function buildStatement(client: Client, from: string, to: string): Promise<Statement> {
+  const [openingBalance, entries, allEntries, invoices] = await Promise.all([
+    storage.getLedgerBalance(client.id, from),
+    storage.getLedgerEntries(client.id, { from, to }),
+    storage.getLedgerEntries(client.id, { to }),
+    storage.getInvoices({ clientId: client.id }),
+  ]);
+
+  let balance = openingBalance;
+  const withBalances = entries.map((entry) => {
+    balance = roundCents(balance + parseFloat(entry.amount));
+    return { ...entry, balance };
+  });
+
+  // Aged as of the end of the statement's last day
+  const asOf = new Date(new Date(`${to}T00:00:00Z`).getTime() + DAY_MS);
+  return {
+    client,
+    from,
+    to,
+    openingBalance: roundCents(openingBalance),
+    closingBalance: balance,
+    entries: withBalances,
+    aging: ageLedger(allEntries, invoices, asOf),
+  };
+}
+
+export function renderStatementCsv(statement: Statement): string {
+  const rows = [
+    ["Date", "Type", "Reference", "Description", "Debit", "Credit", "Balance"],
+    [statement.from, "opening_balance", "", "Opening balance", "", "", toMoney(statement.openingBalance)],
+    ...statement.entries.map((entry) => {
+      const amount = parseFloat(entry.amount);
+      return [
+        entry.entryDate,
+        entry.type,
+        entry.reference ?? "",
+        entry.description,
+        amount > 0 ? toMoney(amount) : "",
+        amount < 0 ? toMoney(-amount) : "",
+        toMoney(entry.balance),
+      ];
+    }),
+    [statement.to, "closing_balance", "", "Closing balance", "", "", toMoney(statement.closingBalance)],
+  ];
+  return toCsv(rows) + "\r\n";
+}
@@ -0,0 +1,111 @@
+import { test, before, after, mock } from "node:test";
+import assert from "node:assert/strict";
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import { createHmac } from "crypto";
+import { WebSocket } from "ws";
+import { stubStorage } from "./testSupport";
+import { storage } from "./storage";
+import { setupLiveTracking, LIVE_TRACKING_PATH, SESSION_ENDED_CLOSE_CODE } from "./liveTracking";
+
+// Tracking sockets are let in on the session cookie, and the session is checked again on
+// every heartbeat so a sign-out or revocation closes sockets that are already open.
+// Storage is replaced with fixtures; the heartbeat runs on mocked timers.
+
+const HEARTBEAT_MS = 30 * 1000;
+
+const sessionRows = new Map<string, unknown>();
+const activeUsers = new Set<string>();
+
+stubStorage(storage, {
+  getSessionData: async (sid: string) => sessionRows.get(sid),
+  getAllDrivers: async () => [],
+});
+
+let server: Server;
+let baseUrl: string;
+
+before(async () => {
+  mock.timers.enable({ apis: ["setInterval"] });
+  server = createServer();
+  setupLiveTracking(server, async (userId) => (activeUsers.has(userId) ? { kind: "admin", userId } : null));
+  server.listen(0, "127.0.0.1");
+  await new Promise((resolve) => server.once("listening", resolve));
+  baseUrl = `ws://127.0.0.1:${(server.address() as AddressInfo).port}${LIVE_TRACKING_PATH}`;
+});
+
+after(() => {
+  mock.timers.reset();
+  server.closeAllConnections();
+  server.close();
+});
+
+// The session cookie express-session would set for `sid`
+function sessionCookie(sid: string): string {
+  const signature = createHmac("sha256", process.env.SESSION_SECRET!).update(sid).digest("base64").replace(/=+$/, "");
+  return `connect.sid=${encodeURIComponent(`s:${sid}.${signature}`)}`;
+}
+
+// A signed-in staff session and the cookie a browser would send with it
+function signIn(sid: string, userId: string): string {
+  activeUsers.add(userId);
+  sessionRows.set(sid, {
+    cookie: { originalMaxAge: 3600 * 1000, expires: new Date(Date.now() + 3600 * 1000).toISOString(), httpOnly: true, path: "/" },
+    passport: { user: { claims: { sub: userId }, expires_at: Math.floor(Date.now() / 1000) + 3600 } },
+  });
+  return sessionCookie(sid);
+}
+
+async function connect(cookie?: string): Promise<WebSocket> {
+  const ws = new WebSocket(baseUrl, { headers: cookie ? { cookie } : {} });
+  await new Promise((resolve, reject) => {
+    ws.once("open", resolve);
+    ws.once("error", reject);
+  });
+  return ws;
+}
+
+// Runs a heartbeat and gives the session recheck time to finish
+async function heartbeat() {
+  mock.timers.tick(HEARTBEAT_MS);
+  await new Promise((resolve) => setTimeout(resolve, 50));
+}
+
+function closed(ws: WebSocket): Promise<number> {
+  return new Promise((resolve) => ws.once("close", (code) => resolve(code)));
+}
+
+test("upgrades without a signed-in session are refused", async () => {
+  await assert.rejects(connect(), /401/);
+  await assert.rejects(connect(sessionCookie("no-such-session")), /401/);
+});
+
+test("a socket stays open while its session does", async () => {
+  const ws = await connect(signIn("sid-open", "staff-open"));
+
+  await heartbeat();
+  await heartbeat();
+
+  assert.equal(ws.readyState, WebSocket.OPEN);
+  ws.close();
+});
+
+test("signing out closes the open socket on the next heartbeat", async () => {
+  const ws = await connect(signIn("sid-revoked", "staff-revoked"));
+  const code = closed(ws);
+
+  sessionRows.delete("sid-revoked");
+  await heartbeat();
+
+  assert.equal(await code, SESSION_ENDED_CLOSE_CODE);
+});
+
+test("a user who may no longer connect is dropped though the session lives on", async () => {
+  const ws = await connect(signIn("sid-deactivated", "staff-deactivated"));
+  const code = closed(ws);
+
+  activeUsers.delete("staff-deactivated");
+  await heartbeat();
+
+  assert.equal(await code, SESSION_ENDED_CLOSE_CODE);
+});
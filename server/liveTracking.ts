@@ -0,0 +1,290 @@
+import type { IncomingMessage, Server } from "http";
+import type { Socket } from "net";
+import { WebSocketServer, WebSocket } from "ws";
+import { storage } from "./storage";
+import { getSession } from "./auth";
+import { getImpersonation, isImpersonationExpired } from "./impersonation";
+import { onDomainEvent, type DomainEvent } from "./events";
+import { driverLocationPingSchema } from "@shared/schema";
+
+// Live driver locations over a WebSocket at LIVE_TRACKING_PATH, authenticated with the
+// normal session cookie. Drivers send pings:
+//   { "type": "location", "lat": 41.9, "lng": -87.9, "accuracy"?, "heading"?, "speed"?, "recordedAt"? }
+// Each accepted ping is stored as a breadcrumb and broadcast as
+//   { "type": "location", "driverId", "lat", "lng", "heading", "speed", "recordedAt" }
+// to admins and to clients whose orders that driver is currently carrying. Viewers get
+// a { "type": "snapshot", "drivers": [...] } of what they may see when they connect.
+//
+// Sign-ins are checked again on every heartbeat: a socket whose session was signed out,
+// revoked or expired, or whose user may no longer see what it was let in to, is closed
+// with SESSION_ENDED_CLOSE_CODE.
+//
+// The same socket carries domain events from events.ts so portals can patch their
+// caches: { "type": "order.created" | "order.updated", "order" } to admins, the owning
+// client and the assigned driver; { "type": "order.removed", "orderId" } to a driver the
+// order was taken from; { "type": "driver.updated", "driver" } and debounced
+// { "type": "stats", "stats" } (dashboard totals) to admins.
+
+export const LIVE_TRACKING_PATH = "/ws/tracking";
+export const LOCATION_HISTORY_RETENTION_DAYS = parseInt(process.env.LOCATION_HISTORY_RETENTION_DAYS || "30");
+
+const MIN_PING_INTERVAL_MS = 5 * 1000; // faster pings from one driver are dropped
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+const STATS_DEBOUNCE_MS = 2 * 1000;
+export const SESSION_ENDED_CLOSE_CODE = 4401;
+
+export type TrackingViewer =
+  | { kind: "admin"; userId: string }
+  | { kind: "client"; userId: string; clientId: number }
+  | { kind: "driver"; userId: string; driverId: number };
+
+// Maps a session user to what they may do on the channel; null rejects the connection
+export type ResolveTrackingViewer = (userId: string) => Promise<TrackingViewer | null>;
+
+interface TrackingSocket extends WebSocket {
+  viewer: TrackingViewer;
+  sessionId: string;
+  isAlive: boolean;
+}
+
+function rejectUpgrade(socket: Socket, status: number, message: string) {
+  socket.write(`HTTP/1.1 ${status} ${message}\r\nConnection: close\r\n\r\n`);
+  socket.destroy();
+}
+
+// User id a session is signed in as, or null when it isn't / has expired
+function getSessionUserId(sess: any): string | null {
+  const user = sess?.passport?.user;
+  if (!user?.claims?.sub) return null;
+  const impersonation = getImpersonation(user);
+  if (impersonation && isImpersonationExpired(impersonation)) return null;
+  if (!user.client && !(user.expires_at && Math.floor(Date.now() / 1000) <= user.expires_at)) {
+    return null;
+  }
+  return user.claims.sub;
+}
+
+// Session id and user for the upgrade request
+function readSession(req: IncomingMessage): Promise<{ sessionId: string; userId: string | null }> {
+  return new Promise((resolve) => {
+    getSession()(req as any, {} as any, () => {
+      resolve({ sessionId: (req as any).sessionID, userId: getSessionUserId((req as any).session) });
+    });
+  });
+}
+
+function toLocationMessage(driverId: number, location: any) {
+  return {
+    type: "location",
+    driverId,
+    lat: location.lat,
+    lng: location.lng,
+    heading: location.heading ?? null,
+    speed: location.speed ?? null,
+    recordedAt: location.updatedAt ?? location.recordedAt ?? null,
+  };
+}
+
+export function setupLiveTracking(httpServer: Server, resolveViewer: ResolveTrackingViewer) {
+  const wss = new WebSocketServer({ noServer: true });
+  const lastPingAt = new Map<number, number>();
+
+  httpServer.on("upgrade", async (req: IncomingMessage, socket: Socket, head: Buffer) => {
+    // Other upgrades (e.g. the Vite HMR socket in development) are not ours
+    if (new URL(req.url ?? "", "http://localhost").pathname !== LIVE_TRACKING_PATH) return;
+
+    try {
+      const { sessionId, userId } = await readSession(req);
+      if (!userId) return rejectUpgrade(socket, 401, "Unauthorized");
+
+      const viewer = await resolveViewer(userId);
+      if (!viewer) return rejectUpgrade(socket, 403, "Forbidden");
+
+      wss.handleUpgrade(req, socket, head, (ws) => {
+        const client = ws as TrackingSocket;
+        client.viewer = viewer;
+        client.sessionId = sessionId;
+        client.isAlive = true;
+        wss.emit("connection", client, req);
+      });
+    } catch (error) {
+      console.error("Error authenticating tracking socket:", error);
+      rejectUpgrade(socket, 500, "Internal Server Error");
+    }
+  });
+
+  wss.on("connection", async (ws: TrackingSocket) => {
+    ws.on("pong", () => {
+      ws.isAlive = true;
+    });
+    ws.on("message", (data) => handleMessage(ws, data.toString()));
+
+    try {
+      await sendSnapshot(ws);
+    } catch (error) {
+      console.error("Error sending tracking snapshot:", error);
+    }
+  });
+
+  async function sendSnapshot(ws: TrackingSocket) {
+    const { viewer } = ws;
+    if (viewer.kind === "driver") return;
+
+    const visible = viewer.kind === "admin"
+      ? await storage.getAllDrivers()
+      : (await Promise.all((await storage.getActiveDriverIdsForClient(viewer.clientId)).map((id) => storage.getDriver(id))))
+          .filter((driver) => driver !== undefined);
+
+    const drivers = visible
+      .filter((driver) => typeof (driver.location as any)?.lat === "number")
+      .map((driver) => toLocationMessage(driver.id, driver.location));
+    ws.send(JSON.stringify({ type: "snapshot", drivers }));
+  }
+
+  async function handleMessage(ws: TrackingSocket, raw: string) {
+    const { viewer } = ws;
+    let message: any;
+    try {
+      message = JSON.parse(raw);
+    } catch {
+      return ws.send(JSON.stringify({ type: "error", message: "Invalid JSON" }));
+    }
+
+    if (message?.type !== "location") return;
+    if (viewer.kind !== "driver") {
+      return ws.send(JSON.stringify({ type: "error", message: "Only drivers can send locations" }));
+    }
+
+    const parsed = driverLocationPingSchema.safeParse(message);
+    if (!parsed.success) {
+      return ws.send(JSON.stringify({ type: "error", message: "Invalid location", errors: parsed.error.errors }));
+    }
+
+    const now = Date.now();
+    if (now - (lastPingAt.get(viewer.driverId) ?? 0) < MIN_PING_INTERVAL_MS) return;
+    lastPingAt.set(viewer.driverId, now);
+
+    try {
+      const entry = await storage.recordDriverLocation(viewer.driverId, parsed.data);
+      await broadcastLocation(viewer.driverId, {
+        lat: parsed.data.lat,
+        lng: parsed.data.lng,
+        heading: parsed.data.heading,
+        speed: parsed.data.speed,
+        recordedAt: entry.recordedAt.toISOString(),
+      });
+      ws.send(JSON.stringify({ type: "ack", recordedAt: entry.recordedAt }));
+    } catch (error) {
+      console.error("Error recording driver location:", error);
+      ws.send(JSON.stringify({ type: "error", message: "Failed to record location" }));
+    }
+  }
+
+  // Tenant scoping: clients only hear about drivers carrying their active orders
+  async function broadcastLocation(driverId: number, location: Record<string, unknown>) {
+    const clientIds = new Set(await storage.getActiveClientIdsForDriver(driverId));
+    sendTo(
+      (viewer) => viewer.kind === "admin" || (viewer.kind === "client" && clientIds.has(viewer.clientId)),
+      toLocationMessage(driverId, location)
+    );
+  }
+
+  function sendTo(predicate: (viewer: TrackingViewer) => boolean, message: object) {
+    const payload = JSON.stringify(message);
+    wss.clients.forEach((socket) => {
+      if (socket.readyState === WebSocket.OPEN && predicate((socket as TrackingSocket).viewer)) {
+        socket.send(payload);
+      }
+    });
+  }
+
+  // Dashboard totals are global, so only admins get them; coalesced across bursts of events
+  let statsTimer: ReturnType<typeof setTimeout> | undefined;
+  function scheduleStatsPush() {
+    if (statsTimer) return;
+    statsTimer = setTimeout(async () => {
+      statsTimer = undefined;
+      try {
+        const stats = await storage.getDashboardStats();
+        sendTo((viewer) => viewer.kind === "admin", { type: "stats", stats });
+      } catch (error) {
+        console.error("Error pushing dashboard stats:", error);
+      }
+    }, STATS_DEBOUNCE_MS);
+    statsTimer.unref();
+  }
+
+  const unsubscribe = onDomainEvent((event: DomainEvent) => {
+    if (wss.clients.size === 0) return;
+
+    if (event.type === "driver.updated") {
+      const { driver } = event;
+      sendTo((viewer) => viewer.kind === "admin" || (viewer.kind === "driver" && viewer.driverId === driver.id), event);
+    } else {
+      const { order } = event;
+      sendTo((viewer) =>
+        viewer.kind === "admin" ||
+        (viewer.kind === "client" && viewer.clientId === order.clientId) ||
+        (viewer.kind === "driver" && viewer.driverId === order.driverId),
+        { type: event.type, order }
+      );
+
+      const previousDriverId = event.type === "order.updated" ? event.previousDriverId : null;
+      if (previousDriverId && previousDriverId !== order.driverId) {
+        sendTo((viewer) => viewer.kind === "driver" && viewer.driverId === previousDriverId, { type: "order.removed", orderId: order.id });
+      }
+    }
+    scheduleStatsPush();
+  });
+
+  // Whether the socket's session still signs in the same user, seeing the same things
+  async function isSessionCurrent(ws: TrackingSocket): Promise<boolean> {
+    const userId = getSessionUserId(await storage.getSessionData(ws.sessionId));
+    if (userId !== ws.viewer.userId) return false;
+    const viewer = await resolveViewer(userId);
+    return JSON.stringify(viewer) === JSON.stringify(ws.viewer);
+  }
+
+  // Drop connections that stopped answering pings (e.g. a driver's phone lost signal)
+  // and those whose session has ended
+  const heartbeat = setInterval(() => {
+    wss.clients.forEach((socket) => {
+      const client = socket as TrackingSocket;
+      if (!client.isAlive) return client.terminate();
+      client.isAlive = false;
+      client.ping();
+
+      isSessionCurrent(client)
+        .then((current) => {
+          if (!current) client.close(SESSION_ENDED_CLOSE_CODE, "Session ended");
+        })
+        .catch((error) => console.error("Error rechecking tracking socket session:", error));
+    });
+  }, HEARTBEAT_INTERVAL_MS);
+  heartbeat.unref();
+
+  wss.on("close", () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+  return wss;
+}
+
+export async function pruneLocationHistory(): Promise<void> {
+  try {
+    const cutoff = new Date(Date.now() - LOCATION_HISTORY_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+    const removed = await storage.pruneDriverLocationHistory(cutoff);
+    if (removed > 0) {
+      console.log(`Pruned ${removed} driver location breadcrumbs older than ${LOCATION_HISTORY_RETENTION_DAYS} days`);
+    }
+  } catch (error) {
+    console.error("Error pruning driver location history:", error);
+  }
+}
+
+export function startLocationHistoryPruner() {
+  pruneLocationHistory();
+  const timer = setInterval(pruneLocationHistory, PRUNE_INTERVAL_MS);
+  timer.unref();
+}
@@ -0,0 +1,31 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { SYSTEM_ROLE, canTransition, getAllowedTransitions, getScanStatusPath } from "@shared/orderStatus";
+
+// The lifecycle table decides who may move an order where; a caller without a role
+// gets nothing rather than the whole table
+
+test("a missing or unknown role may not move an order", () => {
+  for (const role of [undefined, null, "", "viewer"]) {
+    assert.deepEqual(getAllowedTransitions("assigned", role), [], `role ${JSON.stringify(role)}`);
+    assert.equal(canTransition("pending", "voided", role), false);
+  }
+});
+
+test("each role only gets its own moves", () => {
+  assert.deepEqual(getAllowedTransitions("assigned", "driver"), ["partially_picked", "picked"]);
+  assert.deepEqual(getAllowedTransitions("assigned", "client"), ["voided"]);
+  assert.equal(canTransition("picked", "delivered", "driver"), false);
+  assert.equal(canTransition("failed", "return_to_sender", "driver"), false);
+});
+
+test("the system role may take any move in the table", () => {
+  assert.deepEqual(getAllowedTransitions("failed", SYSTEM_ROLE), ["pending", "assigned", "return_to_sender"]);
+  assert.deepEqual(getAllowedTransitions("delivered", SYSTEM_ROLE), []);
+});
+
+test("a delivery scan takes a picked order through in transit", () => {
+  assert.deepEqual(getScanStatusPath("picked", "delivery"), ["in_transit", "delivered"]);
+  assert.deepEqual(getScanStatusPath("in_transit", "delivery"), ["delivered"]);
+  assert.deepEqual(getScanStatusPath("assigned", "pickup"), ["picked"]);
+});
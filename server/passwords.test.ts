@@ -0,0 +1,100 @@
+import { test, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import { stubStorage } from "./testSupport";
+import { storage } from "./storage";
+import { hashPassword, verifyPassword, needsRehash, isPasswordHash } from "./passwords";
+import { authenticateClient, ClientAuthError, MAX_LOGIN_ATTEMPTS } from "./clientAuth";
+import type { Client, User } from "@shared/schema";
+
+// Client portal passwords: scrypt hashes that carry their own cost, legacy plaintext
+// values upgraded on the next login, and the lockout after repeated failures. Storage
+// is replaced with fixtures, the failure count kept as the SQL in storage keeps it.
+
+const PASSWORD = "correct horse battery staple";
+
+let CLIENT: Client;
+
+const { called } = stubStorage(storage, {
+  getUserByEmail: async () => undefined,
+  getClientByLogin: async (username: string) => (username === CLIENT.loginUsername ? CLIENT : undefined),
+  logActivity: async () => ({}),
+  upsertUser: async (user: Partial<User>) => user,
+  recordFailedClientLogin: async (_clientId: number, maxAttempts: number, lockoutMs: number) => {
+    CLIENT.failedLoginAttempts += 1;
+    if (CLIENT.failedLoginAttempts >= maxAttempts) CLIENT.lockedUntil = new Date(Date.now() + lockoutMs);
+    return { ...CLIENT };
+  },
+  clearClientLoginFailures: async () => {
+    CLIENT.failedLoginAttempts = 0;
+    CLIENT.lockedUntil = null;
+  },
+  rehashClientPassword: async (_clientId: number, passwordHash: string) => {
+    CLIENT.loginPassword = passwordHash;
+  },
+});
+
+beforeEach(async () => {
+  CLIENT = {
+    id: 4,
+    name: "Acme Freight",
+    contactEmail: "ops@acme.example",
+    loginUsername: "acme",
+    loginPassword: await hashPassword(PASSWORD),
+    isActive: true,
+    failedLoginAttempts: 0,
+    lockedUntil: null,
+  } as Client;
+});
+
+function login(password: string) {
+  return authenticateClient("acme", password, { ip: "203.0.113.7" });
+}
+
+function rejectsWith(code: ClientAuthError["code"]) {
+  return (error: unknown) => error instanceof ClientAuthError && error.code === code;
+}
+
+test("hashes are salted scrypt and verify only the password they were made from", async () => {
+  const hash = await hashPassword(PASSWORD);
+  const again = await hashPassword(PASSWORD);
+
+  assert.match(hash, /^scrypt\$16384\$8\$1\$[\w-]+\$[\w-]+$/);
+  assert.notEqual(hash, again);
+  assert.equal(await verifyPassword(PASSWORD, hash), true);
+  assert.equal(await verifyPassword(PASSWORD, again), true);
+  assert.equal(await verifyPassword("correct horse battery", hash), false);
+});
+
+test("hashes made at another cost need rehashing, as does plaintext", async () => {
+  const hash = await hashPassword(PASSWORD);
+  assert.equal(needsRehash(hash), false);
+  assert.equal(needsRehash(hash.replace("scrypt$16384$", "scrypt$1024$")), true);
+  assert.equal(needsRehash(PASSWORD), true);
+});
+
+test("a legacy plaintext password is accepted once and stored hashed", async () => {
+  CLIENT.loginPassword = PASSWORD;
+  assert.equal(await verifyPassword(PASSWORD, PASSWORD), true);
+  assert.equal(await verifyPassword("wrong", PASSWORD), false);
+
+  await login(PASSWORD);
+
+  assert.equal(called("rehashClientPassword").length, 1);
+  assert.equal(isPasswordHash(CLIENT.loginPassword), true);
+  assert.equal(await verifyPassword(PASSWORD, CLIENT.loginPassword), true);
+});
+
+test("repeated failures lock the login, even against the right password, until the lockout ends", async () => {
+  for (let attempt = 1; attempt < MAX_LOGIN_ATTEMPTS; attempt++) {
+    await assert.rejects(login("wrong"), rejectsWith("INVALID_CREDENTIALS"));
+  }
+  await assert.rejects(login("wrong"), rejectsWith("ACCOUNT_LOCKED"));
+  assert.ok(CLIENT.lockedUntil! > new Date());
+
+  await assert.rejects(login(PASSWORD), rejectsWith("ACCOUNT_LOCKED"));
+
+  CLIENT.lockedUntil = new Date(Date.now() - 1000);
+  const { client } = await login(PASSWORD);
+  assert.equal(client.id, CLIENT.id);
+  assert.equal(CLIENT.failedLoginAttempts, 0);
+});
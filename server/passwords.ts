@@ -0,0 +1,57 @@
+import { createHash, randomBytes, scrypt, timingSafeEqual, type ScryptOptions } from "crypto";
+
+// Client portal passwords are stored as `scrypt$N$r$p$<salt>$<hash>` (base64url parts),
+// so the cost can be raised later without breaking existing hashes.
+
+const SCRYPT_COST = { N: 16384, r: 8, p: 1 };
+const KEY_LENGTH = 64;
+const HASH_PREFIX = "scrypt$";
+
+function derive(password: string, salt: Buffer, options: ScryptOptions): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, KEY_LENGTH, { ...options, maxmem: 64 * 1024 * 1024 }, (err, key) => (err ? reject(err) : resolve(key)));
+  });
+}
+
+export function isPasswordHash(stored: string): boolean {
+  return stored.startsWith(HASH_PREFIX);
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const key = await derive(password, salt, SCRYPT_COST);
+  const { N, r, p } = SCRYPT_COST;
+  return `${HASH_PREFIX}${N}$${r}$${p}$${salt.toString("base64url")}$${key.toString("base64url")}`;
+}
+
+// Checks a password against a stored hash, or against a legacy plaintext value that the
+// caller should then re-hash. Comparisons are constant-time either way.
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  if (!isPasswordHash(stored)) {
+    const a = createHash("sha256").update(password).digest();
+    const b = createHash("sha256").update(stored).digest();
+    return timingSafeEqual(a, b);
+  }
+
+  const [, N, r, p, salt, hash] = stored.split("$");
+  const expected = Buffer.from(hash, "base64url");
+  const key = await derive(password, Buffer.from(salt, "base64url"), { N: parseInt(N), r: parseInt(r), p: parseInt(p) });
+  return key.length === expected.length && timingSafeEqual(key, expected);
+}
+
+// Whether a stored hash should be upgraded on the next successful login
+export function needsRehash(stored: string): boolean {
+  if (!isPasswordHash(stored)) return true;
+  const [, N, r, p] = stored.split("$");
+  return parseInt(N) !== SCRYPT_COST.N || parseInt(r) !== SCRYPT_COST.r || parseInt(p) !== SCRYPT_COST.p;
+}
+
+// Forgot-password tokens: the token goes in the emailed link, only its hash is stored
+export function hashResetToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+export function generateResetToken(): { token: string; tokenHash: string } {
+  const token = randomBytes(32).toString("base64url");
+  return { token, tokenHash: hashResetToken(token) };
+}
@@ -0,0 +1,243 @@
+import type { RequestHandler, Request } from "express";
+import { storage } from "./storage";
+import { CLIENT_SHIPPING_ROLES, type User, type Order, type Driver, type Invoice, type ClientRole } from "@shared/schema";
+
+// Who may do what. Every session route names the action it performs and, where it acts
+// on one order, driver, client or invoice, how to load it; the rules below decide using
+// the caller's role, their tenant (clientId) and that resource. Routes never check roles
+// themselves.
+
+export type Actor =
+  | { kind: "super_admin" | "staff"; userId: string; user: User }
+  | { kind: "driver"; userId: string; user: User; driverId: number | null }
+  | { kind: "client"; userId: string; user?: User; clientId: number; clientRole: ClientRole }
+  | { kind: "none"; userId: string; user?: User };
+
+export type PolicyTarget =
+  | { type: "order"; order: Order }
+  | { type: "driver"; driver: Driver }
+  | { type: "client"; clientId: number }
+  | { type: "invoice"; invoice: Invoice };
+
+export type Action =
+  // Platform administration: super admins only
+  | "platform:stats"
+  | "clients:manage"
+  | "billing:manage"
+  | "zones:manage"
+  | "rate_cards:manage"
+  | "route_batches:manage"
+  | "drivers:manage"
+  | "users:manage"
+  | "orders:dispatch"
+  // Dispatch desk: super admins and staff
+  | "dispatch:read"
+  // Order lists and creation, scoped to the caller's tenant by the route
+  | "orders:list"
+  | "orders:create"
+  | "orders:quote"
+  | "invoices:list"
+  | "driver:sync"
+  // The caller's own client, for routes without a client in the path
+  | "own_client:read"
+  | "own_client:ship"
+  | "own_client:administer"
+  // One resource
+  | "order:read"
+  | "order:update_status"
+  | "order:assign"
+  | "order:record_attempt"
+  | "order:capture_proof"
+  | "order:scan_package"
+  | "order:void"
+  | "driver:update_status"
+  | "client:read"
+  | "client:administer";
+
+type Rule = (actor: Actor, target?: PolicyTarget) => boolean;
+
+const isSuperAdmin = (actor: Actor) => actor.kind === "super_admin";
+const isDispatcher = (actor: Actor) => actor.kind === "super_admin" || actor.kind === "staff";
+const isClientUser = (actor: Actor, roles?: readonly ClientRole[]) =>
+  actor.kind === "client" && (!roles || roles.includes(actor.clientRole));
+const ownsClient = (actor: Actor, clientId: number | null) =>
+  actor.kind === "client" && clientId !== null && actor.clientId === clientId;
+const drivesOrder = (actor: Actor, order: Order) =>
+  actor.kind === "driver" && actor.driverId !== null && order.driverId === actor.driverId;
+
+const onOrder = (check: (actor: Actor, order: Order) => boolean): Rule =>
+  (actor, target) => target?.type === "order" && check(actor, target.order);
+const onDriver = (check: (actor: Actor, driver: Driver) => boolean): Rule =>
+  (actor, target) => target?.type === "driver" && check(actor, target.driver);
+// Client-scoped resources: the client itself or one of its invoices
+const onClient = (check: (actor: Actor, clientId: number) => boolean): Rule => (actor, target) => {
+  if (target?.type === "client") return check(actor, target.clientId);
+  if (target?.type === "invoice") return check(actor, target.invoice.clientId);
+  return false;
+};
+
+const RULES: Record<Action, Rule> = {
+  "platform:stats": isSuperAdmin,
+  "clients:manage": isSuperAdmin,
+  "billing:manage": isSuperAdmin,
+  "zones:manage": isSuperAdmin,
+  "rate_cards:manage": isSuperAdmin,
+  "route_batches:manage": isSuperAdmin,
+  "drivers:manage": isSuperAdmin,
+  "users:manage": isSuperAdmin,
+  "orders:dispatch": isSuperAdmin,
+
+  "dispatch:read": isDispatcher,
+
+  "orders:list": (actor) => actor.kind !== "none",
+  "orders:create": (actor) => isDispatcher(actor) || isClientUser(actor, CLIENT_SHIPPING_ROLES),
+  "orders:quote": (actor) => isDispatcher(actor) || isClientUser(actor),
+  "invoices:list": (actor) => isDispatcher(actor) || isClientUser(actor),
+  "driver:sync": (actor) => actor.kind === "driver",
+
+  "own_client:read": (actor) => isClientUser(actor),
+  "own_client:ship": (actor) => isClientUser(actor, CLIENT_SHIPPING_ROLES),
+  "own_client:administer": (actor) => isClientUser(actor, ["client_admin"]),
+
+  // Dispatchers see every order, clients their own, drivers the ones assigned to them
+  "order:read": onOrder((actor, order) =>
+    isDispatcher(actor) || ownsClient(actor, order.clientId) || drivesOrder(actor, order)),
+  // Which transitions each role may make is decided by the status rules; client viewers
+  // make none
+  "order:update_status": onOrder((actor, order) =>
+    isDispatcher(actor) || drivesOrder(actor, order)
+    || (ownsClient(actor, order.clientId) && isClientUser(actor, CLIENT_SHIPPING_ROLES))),
+  "order:assign": onOrder(isDispatcher),
+  "order:record_attempt": onOrder((actor, order) => isDispatcher(actor) || drivesOrder(actor, order)),
+  "order:capture_proof": onOrder((actor, order) => isDispatcher(actor) || drivesOrder(actor, order)),
+  "order:scan_package": onOrder((actor, order) => isDispatcher(actor) || drivesOrder(actor, order)),
+  "order:void": onOrder((actor, order) =>
+    isSuperAdmin(actor) || (ownsClient(actor, order.clientId) && isClientUser(actor, CLIENT_SHIPPING_ROLES))),
+
+  "driver:update_status": onDriver((actor, driver) =>
+    isDispatcher(actor) || (actor.kind === "driver" && actor.driverId === driver.id)),
+
+  "client:read": onClient((actor, clientId) => isSuperAdmin(actor) || ownsClient(actor, clientId)),
+  "client:administer": onClient((actor, clientId) =>
+    isSuperAdmin(actor) || (ownsClient(actor, clientId) && isClientUser(actor, ["client_admin"]))),
+};
+
+export function can(actor: Actor, action: Action, target?: PolicyTarget): boolean {
+  return RULES[action](actor, target);
+}
+
+// The shared client login's synthetic user id is `client_<id>`; other client users carry
+// a clientId and lose it when deactivated
+export async function resolveActor(userId: string): Promise<Actor> {
+  const user = await storage.getUser(userId);
+  if (user?.role === "super_admin" || user?.role === "staff") {
+    return { kind: user.role, userId, user };
+  }
+  if (user?.role === "driver") {
+    const driver = await storage.getDriverByUserId(userId);
+    return { kind: "driver", userId, user, driverId: driver?.id ?? null };
+  }
+
+  // The tenant comes from the stored user, shared logins included, never from the id.
+  // Deactivated users and users of a deactivated client get nothing.
+  const clientId = user?.isActive ? user.clientId : null;
+  const client = clientId ? await storage.getClient(clientId) : undefined;
+  if (!clientId || !client?.isActive) {
+    return { kind: "none", userId, user };
+  }
+  const clientRole = (user?.clientRole as ClientRole | null) ?? "client_admin";
+  return { kind: "client", userId, user, clientId, clientRole };
+}
+
+// Loads the resource a route acts on; nothing found is a 404 with `notFound`
+export interface ResourceLoader {
+  notFound: string;
+  load(req: Request): Promise<PolicyTarget | undefined>;
+}
+
+function idParam(req: Request, param: string): number | null {
+  const id = parseInt(req.params[param]);
+  return isNaN(id) ? null : id;
+}
+
+export function orderParam(param = "id"): ResourceLoader {
+  return {
+    notFound: "Order not found",
+    async load(req) {
+      const id = idParam(req, param);
+      const order = id === null ? undefined : await storage.getOrder(id);
+      return order && { type: "order", order };
+    },
+  };
+}
+
+export function orderNumberParam(param = "orderNumber"): ResourceLoader {
+  return {
+    notFound: "Order not found",
+    async load(req) {
+      const order = await storage.getOrderByNumber(req.params[param]);
+      return order && { type: "order", order };
+    },
+  };
+}
+
+export function driverParam(param = "id"): ResourceLoader {
+  return {
+    notFound: "Driver not found",
+    async load(req) {
+      const id = idParam(req, param);
+      const driver = id === null ? undefined : await storage.getDriver(id);
+      return driver && { type: "driver", driver };
+    },
+  };
+}
+
+// The client itself is not loaded; routes that need it fetch it after the check
+export function clientParam(param = "id"): ResourceLoader {
+  return {
+    notFound: "Client not found",
+    async load(req) {
+      const clientId = idParam(req, param);
+      return clientId === null ? undefined : { type: "client", clientId };
+    },
+  };
+}
+
+export function invoiceParam(param = "id"): ResourceLoader {
+  return {
+    notFound: "Invoice not found",
+    async load(req) {
+      const id = idParam(req, param);
+      const invoice = id === null ? undefined : await storage.getInvoice(id);
+      return invoice && { type: "invoice", invoice };
+    },
+  };
+}
+
+// Route middleware, placed after isAuthenticated. Sets req.actor and, with a loader,
+// req.target for the handler.
+export function authorize(action: Action, loader?: ResourceLoader): RequestHandler {
+  return async (req: any, res, next) => {
+    try {
+      const actor: Actor = req.actor ?? await resolveActor(req.user.claims.sub);
+      req.actor = actor;
+
+      let target: PolicyTarget | undefined;
+      if (loader) {
+        target = await loader.load(req);
+        if (!target) {
+          return res.status(404).json({ message: loader.notFound });
+        }
+        req.target = target;
+      }
+
+      if (!can(actor, action, target)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      return next();
+    } catch (error) {
+      console.error("Error authorizing request:", error);
+      res.status(500).json({ message: "Failed to authorize request" });
+    }
+  };
+}
@@ -0,0 +1,98 @@
+import { test, after, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { stubStorage } from "./testSupport";
+import { storage } from "./storage";
+import { LocalDiskBlobStore } from "./blobStore";
+import { captureDeliveryProof, readProofArtifact, toDeliveryProofResponse, DeliveryProofError } from "./proofOfDelivery";
+import type { DeliveryProof, Order } from "@shared/schema";
+
+// Proof of delivery storage: the photo and signature go to the blob store (local disk,
+// in a temporary directory here), the record with their keys to storage, which is
+// replaced with fixtures.
+
+const BLOB_DIR = mkdtempSync(path.join(tmpdir(), "pod-"));
+process.env.BLOB_STORAGE_DIR = BLOB_DIR;
+
+after(() => rmSync(BLOB_DIR, { recursive: true, force: true }));
+
+const PHOTO = Buffer.from("photo bytes");
+const SIGNATURE = Buffer.from("signature bytes");
+
+const INPUT = {
+  photo: `data:image/jpeg;base64,${PHOTO.toString("base64")}`,
+  signature: `data:image/png;base64,${SIGNATURE.toString("base64")}`,
+  recipientName: "J. Rivera",
+  lat: 41.8781,
+  lng: -87.6298,
+  accuracy: 12,
+  capturedAt: "2026-10-16T15:04:00.000Z",
+};
+
+const { calls, called } = stubStorage(storage, {
+  createDeliveryProof: async (proof: Omit<DeliveryProof, "id">) => ({ id: 1, ...proof }),
+});
+
+beforeEach(() => {
+  calls.length = 0;
+});
+
+function order(status: string): Order {
+  return { id: 42, status, driverId: 5 } as Order;
+}
+
+test("the photo and signature are stored under the order and the record keeps their keys", async () => {
+  const proof = await captureDeliveryProof(order("in_transit"), INPUT, "driver-user", null);
+
+  const [create] = called("createDeliveryProof");
+  assert.equal(create.args[1], "/api/orders/42/proof-of-delivery/photo");
+  assert.match(proof.photoKey, /^pod\/42\/photo-[\w-]+\.jpg$/);
+  assert.match(proof.signatureKey, /^pod\/42\/signature-[\w-]+\.png$/);
+  assert.equal(proof.driverId, 5);
+  assert.deepEqual([proof.lat, proof.lng, proof.accuracy], ["41.8781", "-87.6298", "12"]);
+  assert.deepEqual(proof.capturedAt, new Date(INPUT.capturedAt));
+
+  assert.deepEqual(await readProofArtifact(proof, "photo"), { data: PHOTO, contentType: "image/jpeg" });
+  assert.deepEqual(await readProofArtifact(proof, "signature"), { data: SIGNATURE, contentType: "image/png" });
+});
+
+test("a proof without a geotag is stored without one", async () => {
+  const proof = await captureDeliveryProof(order("delivered"), { ...INPUT, lat: null, lng: null, accuracy: undefined }, "staff-user", 9);
+
+  assert.deepEqual([proof.lat, proof.lng, proof.accuracy], [null, null, null]);
+  assert.equal(proof.driverId, 9);
+});
+
+test("proof can't be captured before the order is out for delivery", async () => {
+  await assert.rejects(
+    captureDeliveryProof(order("assigned"), INPUT, "driver-user", null),
+    (error: unknown) => error instanceof DeliveryProofError && error.status === 409,
+  );
+  assert.equal(called("createDeliveryProof").length, 0);
+});
+
+test("images over the size limit are refused before anything is recorded", async () => {
+  const large = `data:image/jpeg;base64,${Buffer.alloc(5 * 1024 * 1024 + 1).toString("base64")}`;
+
+  await assert.rejects(
+    captureDeliveryProof(order("in_transit"), { ...INPUT, photo: large }, "driver-user", null),
+    (error: unknown) => error instanceof DeliveryProofError && error.status === 413,
+  );
+  assert.equal(called("createDeliveryProof").length, 0);
+});
+
+test("blob keys stay inside the storage directory and out of responses", async () => {
+  const store = new LocalDiskBlobStore(BLOB_DIR);
+  await assert.rejects(store.put("../escaped.jpg", PHOTO), /Invalid blob key/);
+  assert.equal(await store.get("pod/42/never-stored.jpg"), null);
+
+  const response = toDeliveryProofResponse({ id: 1, orderId: 42, photoKey: "pod/42/photo.jpg", signatureKey: "pod/42/signature.png" } as DeliveryProof);
+  assert.deepEqual(response, {
+    id: 1,
+    orderId: 42,
+    photoUrl: "/api/orders/42/proof-of-delivery/photo",
+    signatureUrl: "/api/orders/42/proof-of-delivery/signature",
+  });
+});
@@ -0,0 +1,78 @@
+import { randomUUID } from "crypto";
+import { storage } from "./storage";
+import { getBlobStore, decodeImageDataUrl, type StoredBlob } from "./blobStore";
+import type { CaptureDeliveryProof, DeliveryProof, Order } from "@shared/schema";
+
+// Proof of delivery: the photo and drawn signature go to the blob store under
+// pod/<orderId>/, the recipient name, geotag and capture time to delivery_proofs.
+// orders.deliveryProofUrl points at the (authenticated) photo endpoint.
+
+export const POD_ARTIFACTS = ["photo", "signature"] as const;
+export type PodArtifact = (typeof POD_ARTIFACTS)[number];
+
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
+// Orders can only get POD at the door (or after the fact, once delivered)
+const CAPTURABLE_STATUSES = ["in_transit", "partially_delivered", "delivered"];
+
+export class DeliveryProofError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = "DeliveryProofError";
+  }
+}
+
+export function getProofArtifactUrl(orderId: number, artifact: PodArtifact) {
+  return `/api/orders/${orderId}/proof-of-delivery/${artifact}`;
+}
+
+async function storeImage(orderId: number, artifact: PodArtifact, dataUrl: string): Promise<string> {
+  const image = decodeImageDataUrl(dataUrl);
+  if (image.data.length > MAX_IMAGE_BYTES) {
+    throw new DeliveryProofError(`The ${artifact} is larger than ${MAX_IMAGE_BYTES / 1024 / 1024} MB`, 413);
+  }
+  const key = `pod/${orderId}/${artifact}-${randomUUID()}.${image.extension}`;
+  await getBlobStore().put(key, image.data, image.contentType);
+  return key;
+}
+
+export async function captureDeliveryProof(
+  order: Order,
+  input: CaptureDeliveryProof,
+  capturedBy: string,
+  driverId: number | null,
+): Promise<DeliveryProof> {
+  if (!CAPTURABLE_STATUSES.includes(order.status)) {
+    throw new DeliveryProofError(`Proof of delivery can't be captured while the order is ${order.status}`, 409);
+  }
+
+  const photoKey = await storeImage(order.id, "photo", input.photo);
+  const signatureKey = await storeImage(order.id, "signature", input.signature);
+
+  return storage.createDeliveryProof({
+    orderId: order.id,
+    driverId: driverId ?? order.driverId,
+    photoKey,
+    signatureKey,
+    recipientName: input.recipientName,
+    lat: input.lat != null ? input.lat.toString() : null,
+    lng: input.lng != null ? input.lng.toString() : null,
+    accuracy: input.accuracy != null ? input.accuracy.toString() : null,
+    capturedAt: new Date(input.capturedAt),
+    capturedBy,
+  }, getProofArtifactUrl(order.id, "photo"));
+}
+
+export async function readProofArtifact(proof: DeliveryProof, artifact: PodArtifact): Promise<StoredBlob | null> {
+  return getBlobStore().get(artifact === "photo" ? proof.photoKey : proof.signatureKey);
+}
+
+// Response shape for the portals: blob keys stay server-side
+export function toDeliveryProofResponse(proof: DeliveryProof) {
+  const { photoKey, signatureKey, ...rest } = proof;
+  return {
+    ...rest,
+    photoUrl: getProofArtifactUrl(proof.orderId, "photo"),
+    signatureUrl: getProofArtifactUrl(proof.orderId, "signature"),
+  };
+}
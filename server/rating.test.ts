@@ -0,0 +1,89 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import "./testSupport";
+import { tieredAmount, parseDimensions, priceShipment, type Shipment } from "./rating";
+import type { RateCard } from "@shared/schema";
+
+// Pricing a shipment against a rate card: billable weight, graduated tiers, surcharges
+// and the minimum charge
+
+const CARD = {
+  id: 9,
+  name: "Chicago metro",
+  currency: "USD",
+  baseFee: "5.00",
+  weightTiers: [{ upTo: 10, rate: 1 }, { upTo: null, rate: 0.5 }],
+  distanceTiers: [{ upTo: null, rate: 0.75 }],
+  dimDivisor: 139,
+  prioritySurcharges: { express: { type: "percent", amount: 10 } },
+  fragileSurcharge: { type: "flat", amount: 3 },
+  zoneSurcharges: [{ zoneId: 4, amount: 2.5 }],
+  minimumCharge: null,
+} as RateCard;
+
+const SHIPMENT: Shipment = {
+  packages: [{ description: "Box", quantity: 1, weight: 1 }],
+  distanceMiles: 1,
+  distanceSource: "provided",
+  priority: "normal",
+  fragile: false,
+  zoneId: null,
+};
+
+test("graduated tiers charge each slice of the quantity at its own rate", () => {
+  const tiers = CARD.weightTiers;
+  assert.equal(tieredAmount(tiers, 0), 0);
+  assert.equal(tieredAmount(tiers, 10), 10);
+  assert.equal(tieredAmount(tiers, 25), 17.5);
+});
+
+test("dimensions read as cubic inches, or not at all", () => {
+  assert.equal(parseDimensions("12x10x8"), 960);
+  assert.equal(parseDimensions("12 X 10 * 8"), 960);
+  assert.equal(parseDimensions("12x10"), null);
+  assert.equal(parseDimensions("12x0x8"), null);
+  assert.equal(parseDimensions(undefined), null);
+});
+
+test("a shipment is billed on the greater of actual and dimensional weight, plus surcharges", () => {
+  const quote = priceShipment(CARD, {
+    ...SHIPMENT,
+    packages: [{ description: "Box", quantity: 2, weight: 6, dimensions: "12x10x8" }],
+    distanceMiles: 20,
+    priority: "express",
+    fragile: true,
+    zoneId: 4,
+  });
+
+  // 1920 cubic inches / 139 rounds up to 14 lbs, over the 12 lbs actual
+  assert.equal(quote.actualWeight, 12);
+  assert.equal(quote.dimensionalWeight, 14);
+  assert.equal(quote.billableWeight, 14);
+  assert.deepEqual(quote.lines, [
+    { code: "base", description: "Base fee", amount: 5 },
+    { code: "weight", description: "Weight (14 lbs dimensional)", amount: 12 },
+    { code: "distance", description: "Distance (20 mi)", amount: 15 },
+    { code: "priority", description: "Express surcharge (10%)", amount: 3.2 },
+    { code: "fragile", description: "Fragile surcharge", amount: 3 },
+    { code: "zone", description: "Zone surcharge", amount: 2.5 },
+  ]);
+  assert.equal(quote.total, 40.7);
+  assert.equal(quote.rateCardId, 9);
+});
+
+test("the shipment weight is used when no package carries one", () => {
+  const quote = priceShipment({ ...CARD, dimDivisor: null }, {
+    ...SHIPMENT,
+    packages: [{ description: "Envelope", quantity: 1 }],
+    weight: 4,
+  });
+  assert.equal(quote.billableWeight, 4);
+  assert.equal(quote.dimensionalWeight, null);
+  assert.equal(quote.total, 5 + 4 + 0.75);
+});
+
+test("small shipments are topped up to the minimum charge", () => {
+  const quote = priceShipment({ ...CARD, minimumCharge: "25.00" }, SHIPMENT);
+  assert.deepEqual(quote.lines.at(-1), { code: "minimum", description: "Minimum charge adjustment", amount: 18.25 });
+  assert.equal(quote.total, 25);
+});
@@ -0,0 +1,247 @@
+import { storage } from "./storage";
+import { validateAddress, mapConcurrently, AddressValidationUnavailableError, GEOCODE_CONCURRENCY } from "./geocoding";
+import { DEFAULT_ROUTING_OPTIONS, haversineMiles, type LatLng } from "./routeOptimizer";
+import { matchZone } from "./zoning";
+import type {
+  OrderPackage,
+  OrderPriority,
+  PriceQuote,
+  PriceQuoteLine,
+  QuoteRequest,
+  RateCard,
+  RateTier,
+  Surcharge,
+  Zone,
+  ZoneSurcharge,
+} from "@shared/schema";
+
+// Server-side pricing. The effective rate card for the client (or the default card) is
+// applied to the shipment:
+//   billable weight  the greater of actual and dimensional weight (L x W x H / dimDivisor)
+//   weight/distance  graduated tiers, each rate covering its slice of the quantity
+//   surcharges       priority and fragile (flat or percent of the subtotal so far), zone
+//   minimum          the total is topped up to minimumCharge
+// Quotes are frozen onto orders at creation, so later card edits never reprice history.
+
+type RatingCard = Pick<
+  RateCard,
+  "name" | "currency" | "baseFee" | "weightTiers" | "distanceTiers" | "dimDivisor" | "prioritySurcharges" | "fragileSurcharge" | "zoneSurcharges" | "minimumCharge"
+> & { id: number | null };
+
+export interface Shipment {
+  packages: OrderPackage[];
+  weight?: number; // used when no package carries a weight
+  distanceMiles: number;
+  distanceSource: PriceQuote["distanceSource"];
+  priority: OrderPriority;
+  fragile: boolean;
+  zoneId: number | null;
+}
+
+export interface QuoteResult {
+  quote: PriceQuote;
+  coordinates: LatLng | null;
+}
+
+// The rates the create-order form used to hard-code; applies until a default card exists
+const BUILT_IN_RATE_CARD: RatingCard = {
+  id: null,
+  name: "Standard rates",
+  currency: "USD",
+  baseFee: "5.00",
+  weightTiers: [{ upTo: null, rate: 0.5 }],
+  distanceTiers: [{ upTo: null, rate: 0.75 }],
+  dimDivisor: null,
+  prioritySurcharges: null,
+  fragileSurcharge: null,
+  zoneSurcharges: null,
+  minimumCharge: null,
+};
+
+function roundMoney(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+// "12x10x8" (inches) -> cubic inches; null when it can't be read
+export function parseDimensions(dimensions?: string | null): number | null {
+  const parts = dimensions?.toLowerCase().split(/\s*[x×*]\s*/).map((part) => parseFloat(part));
+  if (!parts || parts.length !== 3 || parts.some((part) => !Number.isFinite(part) || part <= 0)) {
+    return null;
+  }
+  return parts[0] * parts[1] * parts[2];
+}
+
+export function tieredAmount(tiers: RateTier[], quantity: number): number {
+  let amount = 0;
+  let lower = 0;
+  for (const tier of tiers) {
+    if (quantity <= lower) break;
+    const upper = tier.upTo ?? Infinity;
+    amount += (Math.min(quantity, upper) - lower) * tier.rate;
+    lower = upper;
+  }
+  return amount;
+}
+
+function surchargeAmount(surcharge: Surcharge, subtotal: number): number {
+  return surcharge.type === "percent" ? (subtotal * surcharge.amount) / 100 : surcharge.amount;
+}
+
+function describeSurcharge(label: string, surcharge: Surcharge): string {
+  return surcharge.type === "percent" ? `${label} surcharge (${surcharge.amount}%)` : `${label} surcharge`;
+}
+
+export function priceShipment(card: RatingCard, shipment: Shipment): PriceQuote {
+  const packageWeight = shipment.packages.reduce((sum, pkg) => sum + (pkg.weight ?? 0) * (pkg.quantity || 1), 0);
+  const actualWeight = packageWeight > 0 ? packageWeight : shipment.weight ?? 0;
+
+  let dimensionalWeight: number | null = null;
+  if (card.dimDivisor) {
+    const volume = shipment.packages.reduce((sum, pkg) => sum + (parseDimensions(pkg.dimensions) ?? 0) * (pkg.quantity || 1), 0);
+    dimensionalWeight = volume > 0 ? Math.ceil(volume / card.dimDivisor) : null;
+  }
+  const billableWeight = Math.max(actualWeight, dimensionalWeight ?? 0);
+
+  const lines: PriceQuoteLine[] = [
+    { code: "base", description: "Base fee", amount: parseFloat(card.baseFee) },
+    {
+      code: "weight",
+      description: dimensionalWeight !== null && dimensionalWeight > actualWeight
+        ? `Weight (${billableWeight} lbs dimensional)`
+        : `Weight (${roundMoney(billableWeight)} lbs)`,
+      amount: tieredAmount(card.weightTiers, billableWeight),
+    },
+    {
+      code: "distance",
+      description: `Distance (${roundMoney(shipment.distanceMiles)} mi)`,
+      amount: tieredAmount(card.distanceTiers, shipment.distanceMiles),
+    },
+  ];
+
+  const subtotal = () => lines.reduce((sum, line) => sum + line.amount, 0);
+
+  const prioritySurcharge = card.prioritySurcharges?.[shipment.priority];
+  if (prioritySurcharge) {
+    const label = shipment.priority.charAt(0).toUpperCase() + shipment.priority.slice(1);
+    lines.push({ code: "priority", description: describeSurcharge(label, prioritySurcharge), amount: surchargeAmount(prioritySurcharge, subtotal()) });
+  }
+  if (shipment.fragile && card.fragileSurcharge) {
+    lines.push({ code: "fragile", description: describeSurcharge("Fragile", card.fragileSurcharge), amount: surchargeAmount(card.fragileSurcharge, subtotal()) });
+  }
+  const zoneSurcharge = (card.zoneSurcharges as ZoneSurcharge[] | null)?.find((zone) => zone.zoneId === shipment.zoneId);
+  if (zoneSurcharge) {
+    lines.push({ code: "zone", description: "Zone surcharge", amount: zoneSurcharge.amount });
+  }
+
+  const minimumCharge = card.minimumCharge ? parseFloat(card.minimumCharge) : 0;
+  if (subtotal() < minimumCharge) {
+    lines.push({ code: "minimum", description: "Minimum charge adjustment", amount: minimumCharge - subtotal() });
+  }
+
+  const roundedLines = lines.map((line) => ({ ...line, amount: roundMoney(line.amount) }));
+  return {
+    rateCardId: card.id,
+    rateCardName: card.name,
+    currency: card.currency,
+    actualWeight: roundMoney(actualWeight),
+    dimensionalWeight,
+    billableWeight: roundMoney(billableWeight),
+    distanceMiles: roundMoney(shipment.distanceMiles),
+    distanceSource: shipment.distanceSource,
+    zoneId: shipment.zoneId,
+    lines: roundedLines,
+    total: roundMoney(roundedLines.reduce((sum, line) => sum + line.amount, 0)),
+    quotedAt: new Date().toISOString(),
+  };
+}
+
+// Geocoding is best effort: without coordinates the quote falls back to the distance the
+// caller supplied, and the zone to ZIP-prefix rules
+async function locateDelivery(input: QuoteRequest): Promise<LatLng | null> {
+  try {
+    const result = await validateAddress({
+      line1: input.deliveryLine1,
+      line2: input.deliveryLine2,
+      city: input.deliveryCity,
+      state: input.deliveryState,
+      zip: input.deliveryZip,
+      country: input.deliveryCountry,
+    });
+    if (!result.isValid || result.latitude === undefined || result.longitude === undefined) {
+      return null;
+    }
+    return { lat: result.latitude, lng: result.longitude };
+  } catch (error) {
+    if (!(error instanceof AddressValidationUnavailableError)) {
+      console.error("Error geocoding address for quote:", error);
+    }
+    return null;
+  }
+}
+
+export async function quoteShipment(clientId: number | null, input: QuoteRequest, at: Date = new Date()): Promise<QuoteResult> {
+  const [card, coordinates, zones] = await Promise.all([
+    storage.getEffectiveRateCard(clientId, at),
+    locateDelivery(input),
+    storage.getAllZones(),
+  ]);
+  return buildQuote(card, zones, input, coordinates);
+}
+
+// Quotes many shipments for one client, e.g. an import: the rate card and zones are
+// loaded once and GEOCODE_CONCURRENCY addresses are looked up at a time
+export async function quoteShipments(clientId: number | null, inputs: QuoteRequest[], at: Date = new Date()): Promise<QuoteResult[]> {
+  const [card, zones] = await Promise.all([
+    storage.getEffectiveRateCard(clientId, at),
+    storage.getAllZones(),
+  ]);
+  return mapConcurrently(inputs, GEOCODE_CONCURRENCY, async (input) => buildQuote(card, zones, input, await locateDelivery(input)));
+}
+
+function buildQuote(card: RateCard | undefined, zones: Zone[], input: QuoteRequest, coordinates: LatLng | null): QuoteResult {
+  const { depot, roadFactor } = DEFAULT_ROUTING_OPTIONS;
+  let distanceMiles = 0;
+  let distanceSource: PriceQuote["distanceSource"] = "none";
+  if (coordinates) {
+    distanceMiles = haversineMiles(depot, coordinates) * roadFactor;
+    distanceSource = "geocoded";
+  } else if (input.distance) {
+    distanceMiles = input.distance;
+    distanceSource = "provided";
+  }
+
+  const quote = priceShipment(card ?? BUILT_IN_RATE_CARD, {
+    packages: input.packages,
+    weight: input.weight,
+    distanceMiles,
+    distanceSource,
+    priority: input.priority ?? "normal",
+    fragile: input.fragile ?? false,
+    zoneId: matchZone(zones, input.deliveryZip, coordinates).zoneId,
+  });
+
+  return { quote, coordinates };
+}
+
+// Cards that have started pricing orders are history: only their end date may move, and
+// not into the past. New rates go on a new card with a later effectiveFrom.
+export function getRateCardUpdateError(
+  existing: RateCard,
+  updates: Partial<Pick<RateCard, "effectiveFrom" | "effectiveTo">> & Record<string, unknown>,
+  now: Date = new Date(),
+): string | null {
+  const effectiveFrom = updates.effectiveFrom ?? existing.effectiveFrom;
+  const effectiveTo = updates.effectiveTo === undefined ? existing.effectiveTo : updates.effectiveTo;
+  if (effectiveTo && effectiveTo <= effectiveFrom) {
+    return "effectiveTo must be after effectiveFrom";
+  }
+
+  if (existing.effectiveFrom > now) return null;
+  if (Object.keys(updates).some((field) => field !== "effectiveTo")) {
+    return "This rate card is already in effect; only its end date can change. Create a new card for new rates.";
+  }
+  if (effectiveTo && effectiveTo < now) {
+    return "A rate card in effect can't be ended in the past";
+  }
+  return null;
+}
@@ -0,0 +1,126 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  solveVehicleRouting,
+  haversineMiles,
+  formatTimeOfDay,
+  type LatLng,
+  type RouteStop,
+  type RouteVehicle,
+  type RoutingOptions,
+  type PlannedRoute,
+} from "./routeOptimizer";
+
+// The batch solver: cheapest insertion builds each route, 2-opt tightens it, and no
+// route breaks capacity, delivery windows or shift length. Points sit near the equator,
+// where 0.01 degrees is about 0.69 miles.
+
+const DEPOT: LatLng = { lat: 0, lng: 0 };
+
+const OPTIONS: RoutingOptions = {
+  depot: DEPOT,
+  startMinutes: 8 * 60,
+  speedMph: 60,
+  serviceMinutes: 0,
+  roadFactor: 1,
+};
+
+const VAN: RouteVehicle = { driverId: 1, capacity: 1000, shiftMinutes: 600 };
+
+function stop(id: number, lat: number, lng: number, fields: Partial<RouteStop> = {}): RouteStop {
+  return { id, lat, lng, weight: 10, ...fields };
+}
+
+// Depot, the stops in route order, and back
+function tourMiles(points: LatLng[]): number {
+  const path = [DEPOT, ...points, DEPOT];
+  let miles = 0;
+  for (let i = 1; i < path.length; i++) miles += haversineMiles(path[i - 1], path[i]);
+  return miles;
+}
+
+function routeIds(route: PlannedRoute): number[] {
+  return route.stops.map((planned) => planned.stopId);
+}
+
+test("stops along a line are visited in order, one way or the other", () => {
+  const stops = [stop(4, 0, 0.04), stop(1, 0, 0.01), stop(3, 0, 0.03), stop(2, 0, 0.02)];
+
+  const { routes, unassigned } = solveVehicleRouting(stops, [VAN], OPTIONS);
+
+  assert.equal(unassigned.length, 0);
+  assert.equal(routes.length, 1);
+  const ids = routeIds(routes[0]);
+  assert.deepEqual(ids[0] === 1 ? ids : [...ids].reverse(), [1, 2, 3, 4]);
+  assert.ok(Math.abs(routes[0].distanceMiles - 2 * haversineMiles(DEPOT, stops[0])) < 1e-9);
+  assert.deepEqual(routes[0].stops.map((planned) => planned.sequence), [1, 2, 3, 4]);
+});
+
+test("routes come back from 2-opt without a reversal that would shorten them", () => {
+  // Twelve points round a ring, fed in scrambled order
+  const order = [7, 2, 11, 4, 0, 9, 5, 1, 10, 3, 8, 6];
+  const stops = order.map((index) => {
+    const angle = (index / 12) * 2 * Math.PI;
+    return stop(index + 1, 0.05 * Math.sin(angle), 0.05 * Math.cos(angle));
+  });
+  const byId = new Map(stops.map((s) => [s.id, s]));
+
+  const { routes } = solveVehicleRouting(stops, [VAN], OPTIONS);
+  assert.equal(routes.length, 1);
+  const visited = routeIds(routes[0]).map((id) => byId.get(id)!);
+  assert.ok(Math.abs(routes[0].distanceMiles - tourMiles(visited)) < 1e-9);
+
+  for (let i = 0; i < visited.length - 1; i++) {
+    for (let j = i + 1; j < visited.length; j++) {
+      const reversed = [...visited.slice(0, i), ...visited.slice(i, j + 1).reverse(), ...visited.slice(j + 1)];
+      assert.ok(tourMiles(reversed) >= routes[0].distanceMiles - 1e-9, `reversing ${i}..${j} is shorter`);
+    }
+  }
+
+  // Which, round a ring, means walking it one way without doubling back
+  const steps = routeIds(routes[0]).slice(1).map((id, index) => (id - routeIds(routes[0])[index] + 12) % 12);
+  assert.ok(steps.every((step) => step === 1) || steps.every((step) => step === 11), `visited ${routeIds(routes[0])}`);
+});
+
+test("loads are split across vehicles by capacity", () => {
+  const stops = [1, 2, 3].map((id) => stop(id, 0, id / 100, { weight: 400 }));
+  const vans = [VAN, { ...VAN, driverId: 2 }];
+
+  const { routes, unassigned } = solveVehicleRouting(stops, vans, OPTIONS);
+
+  assert.equal(unassigned.length, 0);
+  assert.equal(routes.length, 2);
+  assert.ok(routes.every((route) => route.load <= VAN.capacity));
+  assert.deepEqual(routes.flatMap(routeIds).sort(), [1, 2, 3]);
+});
+
+test("stops no vehicle can carry or reach in time are left unassigned with the reason", () => {
+  const stops = [
+    stop(1, 0, 0.01),
+    stop(2, 0, 0.02, { weight: 1500 }),
+    stop(3, 0, 1, { windowEnd: 8 * 60 + 1 }), // about 69 miles out, due a minute after departure
+  ];
+
+  const { routes, unassigned } = solveVehicleRouting(stops, [VAN], OPTIONS);
+
+  assert.deepEqual(routes.flatMap(routeIds), [1]);
+  assert.deepEqual(unassigned, [
+    { stopId: 2, reason: "Weight 1500 lbs exceeds vehicle capacity of 1000 lbs" },
+    { stopId: 3, reason: "Delivery window ending 08:01 cannot be reached from the depot" },
+  ]);
+});
+
+test("a vehicle arriving early waits for the window, and the shift bounds the route", () => {
+  const early = solveVehicleRouting([stop(1, 0, 0.01, { windowStart: 10 * 60 })], [VAN], OPTIONS);
+  assert.equal(early.routes[0].stops[0].arrivalMinutes, 10 * 60);
+
+  // About 138 miles there and back at 60 mph won't fit in an hour
+  const far = solveVehicleRouting([stop(1, 0, 1)], [{ ...VAN, shiftMinutes: 60 }], OPTIONS);
+  assert.equal(far.routes.length, 0);
+  assert.deepEqual(far.unassigned, [{ stopId: 1, reason: "Round trip does not fit in a 60 minute shift" }]);
+});
+
+test("times past midnight are shown on the following day, not wrapped", () => {
+  assert.equal(formatTimeOfDay(8 * 60 + 30), "08:30");
+  assert.equal(formatTimeOfDay(24 * 60 + 90), "01:30 +1d");
+});
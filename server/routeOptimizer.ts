@@ -0,0 +1,279 @@
+// Offline vehicle routing for daily batches. Builds routes from a depot with a
+// cheapest-insertion heuristic, then tightens each route with 2-opt. Every route
+// respects vehicle weight capacity, per-stop delivery windows and shift length.
+// Travel cost is haversine distance scaled by a road factor, precomputed into a matrix.
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+export interface RouteStop extends LatLng {
+  id: number;
+  weight: number; // lbs
+  windowStart?: number | null; // minutes after midnight
+  windowEnd?: number | null;
+}
+
+export interface RouteVehicle {
+  driverId: number | null;
+  capacity: number; // lbs
+  shiftMinutes: number;
+}
+
+export interface RoutingOptions {
+  depot: LatLng;
+  startMinutes: number; // when vehicles leave the depot, minutes after midnight
+  speedMph: number;
+  serviceMinutes: number; // time spent at each stop
+  roadFactor: number; // straight-line to road distance multiplier
+  // Used once the listed vehicles run out, so overflow becomes routes without a driver
+  fallbackVehicle?: RouteVehicle;
+}
+
+export interface PlannedStop {
+  stopId: number;
+  sequence: number;
+  arrivalMinutes: number;
+  departureMinutes: number;
+  legMiles: number;
+}
+
+export interface PlannedRoute {
+  vehicle: RouteVehicle;
+  stops: PlannedStop[];
+  distanceMiles: number;
+  durationMinutes: number; // depot departure to depot return
+  load: number;
+}
+
+export interface RoutingResult {
+  routes: PlannedRoute[];
+  unassigned: { stopId: number; reason: string }[];
+}
+
+const EARTH_RADIUS_MILES = 3958.8;
+const MAX_TWO_OPT_PASSES = 50;
+
+export const DEFAULT_ROUTING_OPTIONS: RoutingOptions = {
+  depot: {
+    lat: parseFloat(process.env.DEPOT_LAT || "41.9553"),
+    lng: parseFloat(process.env.DEPOT_LNG || "-87.9406"),
+  },
+  startMinutes: parseTimeOfDay(process.env.ROUTE_START_TIME || "08:00") ?? 8 * 60,
+  speedMph: parseFloat(process.env.AVERAGE_SPEED_MPH || "25"),
+  serviceMinutes: parseInt(process.env.STOP_SERVICE_MINUTES || "10"),
+  roadFactor: parseFloat(process.env.ROAD_DISTANCE_FACTOR || "1.3"),
+  fallbackVehicle: {
+    driverId: null,
+    capacity: parseFloat(process.env.DEFAULT_VEHICLE_CAPACITY || "1000"),
+    shiftMinutes: parseInt(process.env.DEFAULT_SHIFT_MINUTES || "480"),
+  },
+};
+
+export function haversineMiles(a: LatLng, b: LatLng): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_MILES * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+// "14:30" or "14:30:00" -> 870
+export function parseTimeOfDay(value?: string | null): number | null {
+  const match = value?.match(/^(\d{1,2}):(\d{2})/);
+  return match ? parseInt(match[1]) * 60 + parseInt(match[2]) : null;
+}
+
+// HH:MM for minutes after midnight; times on a later day get a +Nd suffix rather than
+// wrapping back to the morning
+export function formatTimeOfDay(minutes: number): string {
+  const rounded = Math.round(minutes);
+  const days = Math.floor(rounded / (24 * 60));
+  const time = `${String(Math.floor(rounded / 60) % 24).padStart(2, "0")}:${String(rounded % 60).padStart(2, "0")}`;
+  return days > 0 ? `${time} +${days}d` : time;
+}
+
+// Distance matrix with the depot at index 0 and stop i at index i + 1
+function buildDistanceMatrix(depot: LatLng, stops: RouteStop[], roadFactor: number): number[][] {
+  const points: LatLng[] = [depot, ...stops];
+  const matrix = points.map(() => new Array<number>(points.length).fill(0));
+  for (let i = 0; i < points.length; i++) {
+    for (let j = i + 1; j < points.length; j++) {
+      const miles = haversineMiles(points[i], points[j]) * roadFactor;
+      matrix[i][j] = miles;
+      matrix[j][i] = miles;
+    }
+  }
+  return matrix;
+}
+
+export function solveVehicleRouting(
+  stops: RouteStop[],
+  vehicles: RouteVehicle[],
+  options: RoutingOptions = DEFAULT_ROUTING_OPTIONS,
+): RoutingResult {
+  const matrix = buildDistanceMatrix(options.depot, stops, options.roadFactor);
+  const travelMinutes = (from: number, to: number) => (matrix[from][to] / options.speedMph) * 60;
+
+  // Simulates a route (matrix indices, depot excluded). Returns null when infeasible.
+  const evaluate = (route: number[], vehicle: RouteVehicle) => {
+    let load = 0;
+    for (const node of route) load += stops[node - 1].weight;
+    if (load > vehicle.capacity) return null;
+
+    let time = options.startMinutes;
+    let distance = 0;
+    let previous = 0;
+    const schedule: PlannedStop[] = [];
+
+    for (const node of route) {
+      const stop = stops[node - 1];
+      const legMiles = matrix[previous][node];
+      distance += legMiles;
+      time += travelMinutes(previous, node);
+      if (stop.windowStart != null && time < stop.windowStart) {
+        time = stop.windowStart; // early: wait for the window to open
+      }
+      if (stop.windowEnd != null && time > stop.windowEnd) return null;
+
+      schedule.push({
+        stopId: stop.id,
+        sequence: schedule.length + 1,
+        arrivalMinutes: time,
+        departureMinutes: time + options.serviceMinutes,
+        legMiles,
+      });
+      time += options.serviceMinutes;
+      previous = node;
+    }
+
+    distance += matrix[previous][0];
+    time += travelMinutes(previous, 0);
+    const duration = time - options.startMinutes;
+    if (duration > vehicle.shiftMinutes) return null;
+
+    return { schedule, distance, duration, load };
+  };
+
+  const whyInfeasible = (node: number, vehicle: RouteVehicle): string => {
+    const stop = stops[node - 1];
+    if (stop.weight > vehicle.capacity) {
+      return `Weight ${stop.weight} lbs exceeds vehicle capacity of ${vehicle.capacity} lbs`;
+    }
+    const arrival = options.startMinutes + travelMinutes(0, node);
+    if (stop.windowEnd != null && arrival > stop.windowEnd) {
+      return `Delivery window ending ${formatTimeOfDay(stop.windowEnd)} cannot be reached from the depot`;
+    }
+    return `Round trip does not fit in a ${vehicle.shiftMinutes} minute shift`;
+  };
+
+  const routes: PlannedRoute[] = [];
+  const unassigned: RoutingResult["unassigned"] = [];
+  const unrouted = new Set(stops.map((_, index) => index + 1));
+  const vehicleQueue = [...vehicles];
+  const allVehicles = [...vehicles, ...(options.fallbackVehicle ? [options.fallbackVehicle] : [])];
+
+  // Stops no vehicle could serve even on their own
+  for (const node of Array.from(unrouted)) {
+    if (allVehicles.length === 0 || !allVehicles.some((vehicle) => evaluate([node], vehicle))) {
+      unassigned.push({
+        stopId: stops[node - 1].id,
+        reason: allVehicles.length === 0 ? "No vehicles available" : whyInfeasible(node, allVehicles[allVehicles.length - 1]),
+      });
+      unrouted.delete(node);
+    }
+  }
+
+  while (unrouted.size > 0) {
+    const vehicle = vehicleQueue.shift() ?? options.fallbackVehicle;
+    if (!vehicle) {
+      unrouted.forEach((node) => unassigned.push({ stopId: stops[node - 1].id, reason: "No vehicle capacity left" }));
+      break;
+    }
+
+    // Seed with the tightest deadline, otherwise the stop farthest from the depot
+    const seed = Array.from(unrouted)
+      .sort((a, b) => {
+        const endA = stops[a - 1].windowEnd ?? Infinity;
+        const endB = stops[b - 1].windowEnd ?? Infinity;
+        return endA !== endB ? endA - endB : matrix[0][b] - matrix[0][a];
+      })
+      .find((node) => evaluate([node], vehicle));
+
+    if (seed === undefined) {
+      if (vehicleQueue.length > 0) continue; // too small for what's left; try the next vehicle
+      unrouted.forEach((node) => unassigned.push({ stopId: stops[node - 1].id, reason: whyInfeasible(node, vehicle) }));
+      break;
+    }
+
+    let route = [seed];
+    unrouted.delete(seed);
+
+    // Cheapest feasible insertion until nothing else fits
+    while (unrouted.size > 0) {
+      const candidates: { node: number; position: number; cost: number }[] = [];
+      for (const node of Array.from(unrouted)) {
+        for (let position = 0; position <= route.length; position++) {
+          const previous = position === 0 ? 0 : route[position - 1];
+          const next = position === route.length ? 0 : route[position];
+          candidates.push({
+            node,
+            position,
+            cost: matrix[previous][node] + matrix[node][next] - matrix[previous][next],
+          });
+        }
+      }
+      candidates.sort((a, b) => a.cost - b.cost);
+
+      const current: number[] = route;
+      const inserted = candidates.find(({ node, position }) =>
+        evaluate([...current.slice(0, position), node, ...current.slice(position)], vehicle)
+      );
+      if (!inserted) break;
+
+      route = [...current.slice(0, inserted.position), inserted.node, ...current.slice(inserted.position)];
+      unrouted.delete(inserted.node);
+    }
+
+    route = twoOpt(route, vehicle, evaluate);
+    const result = evaluate(route, vehicle)!;
+    routes.push({
+      vehicle,
+      stops: result.schedule,
+      distanceMiles: result.distance,
+      durationMinutes: result.duration,
+      load: result.load,
+    });
+  }
+
+  return { routes, unassigned };
+}
+
+// Reverses segments while that shortens the route and keeps it feasible
+function twoOpt(
+  route: number[],
+  vehicle: RouteVehicle,
+  evaluate: (route: number[], vehicle: RouteVehicle) => { distance: number } | null,
+): number[] {
+  let best = route;
+  let bestDistance = evaluate(route, vehicle)!.distance;
+
+  for (let pass = 0; pass < MAX_TWO_OPT_PASSES; pass++) {
+    let improved = false;
+    for (let i = 0; i < best.length - 1; i++) {
+      for (let j = i + 1; j < best.length; j++) {
+        const candidate = [...best.slice(0, i), ...best.slice(i, j + 1).reverse(), ...best.slice(j + 1)];
+        const result = evaluate(candidate, vehicle);
+        if (result && result.distance < bestDistance - 1e-9) {
+          best = candidate;
+          bestDistance = result.distance;
+          improved = true;
+        }
+      }
+    }
+    if (!improved) break;
+  }
+
+  return best;
+}
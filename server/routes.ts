@@ -1,25 +1,142 @@
-import type { Express } from "express";
+import express, { type Express } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
-import { setupAuth, isAuthenticated } from "./replitAuth";
-import { insertOrderSchema, insertCustomerSchema, insertDriverSchema, updateOrderStatusSchema } from "@shared/schema";
+import { storage, InvalidStatusTransitionError, ProofOfDeliveryRequiredError, RouteBatchLockedError, MAX_DELIVERY_ATTEMPTS } from "./storage";
+import { setupAuth, isAuthenticated, isApiKeyAuthenticated, endImpersonation } from "./auth";
+import { authorize, can, resolveActor, orderParam, orderNumberParam, driverParam, clientParam, invoiceParam, type Actor } from "./policy";
+import { insertOrderSchema, insertCustomerSchema, insertDriverSchema, updateOrderStatusSchema, recordDeliveryAttemptSchema, insertAddressBookSchema, insertOrderTemplateSchema, createApiKeySchema, insertWebhookEndpointSchema, insertRouteBatchSchema, insertZoneSchema, getZoneRuleError, rezoneOrdersSchema, setOrderZoneSchema, autoAssignSchema, assignOrderSchema, captureDeliveryProofSchema, updateClientSettingsSchema, driverSyncSchema, scanPackageSchema, quoteRequestSchema, insertRateCardSchema, updateRateCardSchema, invoiceRunSchema, updateInvoiceStatusSchema, insertLedgerEntrySchema, statementQuerySchema, clientLoginSchema, forgotPasswordSchema, resetPasswordSchema, changePasswordSchema, inviteClientUserSchema, updateClientUserSchema, acceptInviteSchema, setUserPasswordSchema, INVOICE_STATUSES, WEBHOOK_EVENTS } from "@shared/schema";
+import { getAllowedTransitions } from "@shared/orderStatus";
 import { z } from "zod";
 import { sendOrderStatusNotification } from "./email";
+import { parseOrderImport, IMPORT_CHUNK_SIZE } from "./csvImport";
+import { validateAddress, AddressValidationUnavailableError } from "./geocoding";
+import { generateApiKey } from "./apiKeys";
+import { generateWebhookSecret, deliverWebhook, assertPublicWebhookUrl, WebhookUrlError, STALE_SENDING_MS } from "./webhooks";
+import { attachOrderToBatch, attachOrdersToBatches, getBatchSchedule } from "./batchScheduler";
+import { runAutoAssignment } from "./autoAssign";
+import { setupLiveTracking, type TrackingViewer } from "./liveTracking";
+import { captureDeliveryProof, readProofArtifact, toDeliveryProofResponse, DeliveryProofError, POD_ARTIFACTS, type PodArtifact } from "./proofOfDelivery";
+import { applyDriverSync } from "./driverSync";
+import { quoteShipment, quoteShipments, getRateCardUpdateError } from "./rating";
+import { runMonthlyInvoicing, createOrderInvoice, changeInvoiceStatus, InvoicingError } from "./invoicing";
+import { renderInvoicePdf, renderStatementPdf } from "./invoicePdf";
+import { authenticateClient, requestPasswordReset, resetPassword, changePassword, ClientAuthError, type RequestContext } from "./clientAuth";
+import { hashPassword } from "./passwords";
+import { createImpersonation, getImpersonation, toImpersonationResponse, IMPERSONATION_TTL_MINUTES } from "./impersonation";
+import { inviteClientUser, resendClientInvite, acceptClientInvite, updateClientUser, toClientUserResponse, ClientUserError } from "./clientUsers";
+import { checkCreditLimit, getClientAging, recordLedgerEntry, buildStatement, renderStatementCsv, CreditLimitExceededError, LedgerError } from "./ledger";
+import type { User, InsertOrder, Client, ClientApiKey, ApiKeyScope } from "@shared/schema";
+
+// Who a live-tracking socket belongs to: dispatchers see every driver, clients only
+// drivers carrying their orders, drivers may only publish their own position
+async function resolveTrackingViewer(userId: string): Promise<TrackingViewer | null> {
+  const actor = await resolveActor(userId);
+  if (actor.kind === "super_admin" || actor.kind === "staff") {
+    return { kind: "admin", userId };
+  }
+  if (actor.kind === "driver") {
+    return actor.driverId !== null ? { kind: "driver", userId, driverId: actor.driverId } : null;
+  }
+  return actor.kind === "client" ? { kind: "client", userId, clientId: actor.clientId } : null;
+}
+
+// Tenant that orders created by this actor belong to; dispatchers create unowned orders
+function getActorClientId(actor: Actor): number | null {
+  return actor.kind === "client" ? actor.clientId : null;
+}
+
+// Shared by the session and API key order endpoints. Over a client's credit limit the
+// order is refused or, under a warn policy, created with the breach returned alongside.
+async function createOrderForClient(orderData: InsertOrder, clientId: number | null, createdBy: string) {
+  // Create or find customer
+  let customer = await storage.getCustomerByPhone(orderData.customerPhone as string);
+  if (!customer) {
+    customer = await storage.createCustomer({
+      name: orderData.customerName,
+      phone: orderData.customerPhone as string,
+      email: orderData.customerEmail,
+    });
+  }
+
+  // Priced with the rate card in effect now; the quote is frozen onto the order
+  const pricing = await quoteShipment(clientId, orderData);
+  
+  const client = clientId ? await storage.getClient(clientId) : undefined;
+  const creditWarning = client ? await checkCreditLimit(client, pricing.quote.total) : null;
+  if (creditWarning?.policy === "block") {
+    throw new CreditLimitExceededError(creditWarning);
+  }
+
+  const created = await storage.createOrder({
+    ...orderData,
+    clientId: clientId,
+    weight: pricing.quote.actualWeight.toString(),
+    distance: pricing.quote.distanceMiles.toString(),
+    createdBy,
+  }, pricing);
+  
+  const order = await storage.assignOrderZone(created);
+  await attachOrderToBatch(order);
+  
+  // Log activity
+  await storage.logActivity(
+    createdBy,
+    "ORDER_CREATED",
+    `Created order ${order.orderNumber}`,
+    { orderId: order.id, ...(creditWarning ? { creditWarning } : {}) }
+  );
+  
+  return { order, creditWarning };
+}
+
+// API key as returned to clients: never includes the hash
+function toApiKeyResponse(apiKey: ClientApiKey) {
+  const { keyHash, ...rest } = apiKey;
+  return rest;
+}
+
+// Client as returned by the API and kept in the session: never includes the password hash
+function toClientResponse(client: Client) {
+  const { loginPassword, ...rest } = client;
+  return rest;
+}
+
+function toUserResponse(user?: User) {
+  if (!user) return user;
+  const { passwordHash, ...rest } = user;
+  return rest;
+}
+
+function getRequestContext(req: express.Request): RequestContext {
+  return { ip: req.ip, userAgent: req.get("user-agent") };
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Auth middleware
   await setupAuth(app);
+  registerApiRoutes(app);
+
+  const httpServer = createServer(app);
+  setupLiveTracking(httpServer, resolveTrackingViewer);
+  return httpServer;
+}
 
+// Every API route; expects the session (req.user) to be set up already
+export function registerApiRoutes(app: Express) {
   // Auth routes
   app.get('/api/auth/user', isAuthenticated, async (req: any, res) => {
     try {
       const sessionUser = req.user;
       
-      // Handle client sessions
+      // Handle client sessions, including a super admin impersonating the client
       if (sessionUser.client) {
         const userId = sessionUser.claims.sub;
         const user = await storage.getUser(userId);
-        return res.json({ ...user, client: sessionUser.client });
+        const impersonation = getImpersonation(sessionUser);
+        return res.json({
+          ...toUserResponse(user),
+          client: sessionUser.client,
+          impersonation: impersonation ? toImpersonationResponse(impersonation) : null,
+        });
       }
       
       // Handle OAuth sessions
@@ -32,7 +149,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         driver = await storage.getDriverByUserId(userId);
       }
       
-      res.json({ ...user, driver });
+      res.json({ ...toUserResponse(user), driver });
     } catch (error) {
       console.error("Error fetching user:", error);
       res.status(500).json({ message: "Failed to fetch user" });
@@ -83,7 +200,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Dashboard stats
-  app.get("/api/dashboard/stats", isAuthenticated, async (req, res) => {
+  app.get("/api/dashboard/stats", isAuthenticated, authorize("dispatch:read"), async (req, res) => {
     try {
       const stats = await storage.getDashboardStats();
       res.json(stats);
@@ -94,27 +211,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Orders routes
-  app.get("/api/orders", isAuthenticated, async (req: any, res) => {
+  app.get("/api/orders", isAuthenticated, authorize("orders:list"), async (req: any, res) => {
     try {
       const { status, search } = req.query;
-      const user = req.user.claims;
+      const actor: Actor = req.actor;
       
-      console.log(`[DEBUG] Orders API called - User: ${user.sub}, Status filter: ${status}, Search: ${search}`);
+      console.log(`[DEBUG] Orders API called - User: ${actor.userId}, Status filter: ${status}, Search: ${search}`);
       
       let orders;
-      if (user.role === "driver") {
-        const driver = await storage.getDriverByUserId(user.sub);
-        if (!driver) {
+      if (actor.kind === "driver") {
+        if (actor.driverId === null) {
           return res.status(404).json({ message: "Driver profile not found" });
         }
-        orders = await storage.getOrdersForDriver(driver.id, status);
-      } else if (user.sub.startsWith('client_')) {
-        // Client impersonation - get orders for specific client
-        const clientId = parseInt(user.sub.replace('client_', ''));
-        console.log(`[DEBUG] Getting orders for client ${clientId} with filters:`, { status, search });
-        orders = await storage.getOrdersForClient(clientId, { status, search });
+        orders = await storage.getOrdersForDriver(actor.driverId, status);
+      } else if (actor.kind === "client") {
+        console.log(`[DEBUG] Getting orders for client ${actor.clientId} with filters:`, { status, search });
+        orders = await storage.getOrdersForClient(actor.clientId, { status, search });
       } else {
-        // Super admin - get all orders
+        // Super admin and staff - get all orders
         orders = await storage.getAllOrders({ status, search });
       }
       
@@ -126,85 +240,163 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/orders", isAuthenticated, async (req: any, res) => {
+  app.post("/api/orders", isAuthenticated, authorize("orders:create"), async (req: any, res) => {
     try {
       const orderData = insertOrderSchema.parse(req.body);
       const userId = req.user.claims.sub;
-      const user = await storage.getUser(userId);
       
-      // Create or find customer
-      let customer = await storage.getCustomerByPhone(req.body.customerPhone);
-      if (!customer) {
-        customer = await storage.createCustomer({
-          name: req.body.customerName,
-          phone: req.body.customerPhone,
-          email: req.body.customerEmail,
-        });
+      const { order, creditWarning } = await createOrderForClient(orderData, getActorClientId(req.actor), userId);
+      res.json(creditWarning ? { ...order, creditWarning } : order);
+    } catch (error) {
+      console.error("Error creating order:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid order data", errors: error.errors });
       }
+      if (error instanceof CreditLimitExceededError) {
+        return res.status(error.status).json(error);
+      }
+      res.status(500).json({ message: "Failed to create order" });
+    }
+  });
 
-      // Calculate total weight from packages
-      const totalWeight = orderData.packages.reduce((sum, pkg) => sum + pkg.weight, 0);
+  // Itemized price for a prospective order. Client users are always quoted their own
+  // rates; admins may quote for any client.
+  app.post("/api/quote", isAuthenticated, authorize("orders:quote"), async (req: any, res) => {
+    try {
+      const quoteData = quoteRequestSchema.parse(req.body);
+      const actor: Actor = req.actor;
+      
+      const clientId = actor.kind === "client" ? actor.clientId : quoteData.clientId ?? null;
       
-      // For now, set distance to 0 - will be calculated during route optimization
-      const distance = 0;
+      const { quote } = await quoteShipment(clientId, quoteData);
+      res.json(quote);
+    } catch (error) {
+      console.error("Error quoting order:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid quote data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to quote order" });
+    }
+  });
 
-      // Get client ID for client users
-      let clientId = null;
-      if (userId.startsWith('client_')) {
-        clientId = parseInt(userId.replace('client_', ''));
-      } else if (user?.clientId) {
-        clientId = user.clientId;
+  // Bulk CSV import. mode=dry-run validates only; mode=commit creates every valid order.
+  app.post("/api/orders/import", isAuthenticated, authorize("orders:create"), express.text({ type: ["text/csv", "text/plain"], limit: "10mb" }), async (req: any, res) => {
+    try {
+      const mode = req.query.mode === "commit" ? "commit" : "dry-run";
+      const userId = req.user.claims.sub;
+      const clientId = getActorClientId(req.actor);
+      
+      if (typeof req.body !== "string" || !req.body.trim()) {
+        return res.status(400).json({ message: "CSV file is empty" });
       }
       
-      const order = await storage.createOrder({
-        ...orderData,
-        clientId: clientId,
-        weight: totalWeight.toString(),
-        distance: distance.toString(),
+      const result = parseOrderImport(req.body, {
+        clientId,
         createdBy: userId,
       });
       
-      // Log activity
+      const summary = {
+        mode,
+        totalRows: result.totalRows,
+        validOrders: result.orders.length,
+        errors: result.errors,
+        warnings: result.warnings,
+        errorCsv: result.errorCsv,
+      };
+      
+      if (mode === "dry-run") {
+        return res.json(summary);
+      }
+      
+      // Priced a chunk at a time against the rate card in force when the import started
+      const quotedAt = new Date();
+      const pricing = [];
+      for (let i = 0; i < result.orders.length; i += IMPORT_CHUNK_SIZE) {
+        const chunk = result.orders.slice(i, i + IMPORT_CHUNK_SIZE);
+        pricing.push(...await quoteShipments(clientId, chunk.map((order) => order.data), quotedAt));
+      }
+
+      // The import counts against the credit limit as a whole, before anything is created
+      const client = clientId ? await storage.getClient(clientId) : undefined;
+      const importTotal = Math.round(pricing.reduce((sum, { quote }) => sum + quote.total, 0) * 100) / 100;
+      const creditWarning = client ? await checkCreditLimit(client, importTotal) : null;
+      if (creditWarning?.policy === "block") {
+        throw new CreditLimitExceededError(creditWarning, "This import would exceed the client's credit limit");
+      }
+
+      const created = await storage.createOrders(result.orders.map((order) => order.data), pricing);
+      for (let i = 0; i < created.length; i += IMPORT_CHUNK_SIZE) {
+        await attachOrdersToBatches(await storage.assignOrderZones(created.slice(i, i + IMPORT_CHUNK_SIZE)));
+      }
+      
       await storage.logActivity(
         userId,
-        "ORDER_CREATED",
-        `Created order ${order.orderNumber}`,
-        { orderId: order.id }
+        "ORDERS_IMPORTED",
+        `Imported ${created.length} orders from CSV`,
+        { orderIds: created.map((order) => order.id), totalRows: result.totalRows, errorCount: result.errors.length }
       );
       
-      res.json(order);
+      res.json({
+        ...summary,
+        created: created.map((order, index) => ({
+          rows: result.orders[index].rows,
+          orderId: order.id,
+          orderNumber: order.orderNumber,
+        })),
+        ...(creditWarning && { creditWarning }),
+      });
     } catch (error) {
-      console.error("Error creating order:", error);
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid order data", errors: error.errors });
+      console.error("Error importing orders:", error);
+      if (error instanceof CreditLimitExceededError) {
+        return res.status(error.status).json(error);
       }
-      res.status(500).json({ message: "Failed to create order" });
+      res.status(500).json({ message: "Failed to import orders" });
     }
   });
 
-  app.get("/api/orders/:id", isAuthenticated, async (req, res) => {
+  app.get("/api/orders/:id", isAuthenticated, authorize("order:read", orderParam()), async (req: any, res) => {
     try {
-      const orderId = parseInt(req.params.id);
-      const order = await storage.getOrder(orderId);
-      
-      if (!order) {
-        return res.status(404).json({ message: "Order not found" });
-      }
-      
-      res.json(order);
+      res.json(req.target.order);
     } catch (error) {
       console.error("Error fetching order:", error);
       res.status(500).json({ message: "Failed to fetch order" });
     }
   });
 
-  app.patch("/api/orders/:id/status", isAuthenticated, async (req: any, res) => {
+  // Next statuses the current user may move this order to
+  app.get("/api/orders/:id/transitions", isAuthenticated, authorize("order:read", orderParam()), async (req: any, res) => {
     try {
-      const orderId = parseInt(req.params.id);
+      const { order } = req.target;
+      
+      res.json({
+        status: order.status,
+        allowed: getAllowedTransitions(order.status, req.actor.user?.role),
+      });
+    } catch (error) {
+      console.error("Error fetching order transitions:", error);
+      res.status(500).json({ message: "Failed to fetch order transitions" });
+    }
+  });
+
+  // Order numbers don't match :id and fall through to the barcode scanning route below
+  app.patch("/api/orders/:id(\\d+)/status", isAuthenticated, authorize("order:update_status", orderParam()), async (req: any, res) => {
+    try {
+      const orderId = req.target.order.id;
       const statusUpdate = updateOrderStatusSchema.parse(req.body);
       const userId = req.user.claims.sub;
+      const role = req.actor.user?.role;
+      if (!role) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      
+      if (statusUpdate.status === "failed") {
+        return res.status(400).json({ message: "Record failed deliveries through the delivery attempts endpoint with a reason code" });
+      }
+      if (statusUpdate.status === "voided") {
+        return res.status(400).json({ message: "Void orders through the void endpoint so the reason is recorded" });
+      }
       
-      const order = await storage.updateOrderStatus(orderId, statusUpdate, userId);
+      const order = await storage.updateOrderStatus(orderId, statusUpdate, userId, role);
       
       // Send email notification if customer email is available
       if (order.customerEmail) {
@@ -227,6 +419,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       res.json(order);
     } catch (error) {
       console.error("Error updating order status:", error);
+      if (error instanceof InvalidStatusTransitionError || error instanceof ProofOfDeliveryRequiredError) {
+        return res.status(error.status).json(error);
+      }
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid status update data", errors: error.errors });
       }
@@ -235,19 +430,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Update order status by order number (for barcode scanning)
-  app.patch("/api/orders/:orderNumber/status", isAuthenticated, async (req: any, res) => {
+  app.patch("/api/orders/:orderNumber/status", isAuthenticated, authorize("order:update_status", orderNumberParam()), async (req: any, res) => {
     try {
       const orderNumber = req.params.orderNumber;
       const statusUpdate = updateOrderStatusSchema.parse(req.body);
       const userId = req.user.claims.sub;
+      const role = req.actor.user?.role;
+      if (!role) {
+        return res.status(403).json({ message: "Access denied" });
+      }
       
-      // Find order by order number
-      const order = await storage.getOrderByNumber(orderNumber);
-      if (!order) {
-        return res.status(404).json({ message: "Order not found" });
+      if (statusUpdate.status === "failed") {
+        return res.status(400).json({ message: "Record failed deliveries through the delivery attempts endpoint with a reason code" });
+      }
+      if (statusUpdate.status === "voided") {
+        return res.status(400).json({ message: "Void orders through the void endpoint so the reason is recorded" });
       }
       
-      const updatedOrder = await storage.updateOrderStatus(order.id, statusUpdate, userId);
+      const { order } = req.target;
+      const updatedOrder = await storage.updateOrderStatus(order.id, statusUpdate, userId, role);
       
       // Send email notification if customer email is available
       if (updatedOrder.customerEmail) {
@@ -270,6 +471,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       res.json(updatedOrder);
     } catch (error) {
       console.error("Error updating order status via scan:", error);
+      if (error instanceof InvalidStatusTransitionError || error instanceof ProofOfDeliveryRequiredError) {
+        return res.status(error.status).json(error);
+      }
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid status update data", errors: error.errors });
       }
@@ -277,280 +481,1560 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/orders/:id/assign", isAuthenticated, async (req: any, res) => {
+  // Manual assignment; pinned by default so auto-assignment won't move it
+  app.patch("/api/orders/:id/assign", isAuthenticated, authorize("order:assign", orderParam()), async (req: any, res) => {
     try {
-      const orderId = parseInt(req.params.id);
-      const { driverId } = req.body;
+      const orderId = req.target.order.id;
       const userId = req.user.claims.sub;
       
-      if (!driverId) {
+      if (!req.body?.driverId) {
         return res.status(400).json({ message: "Driver ID is required" });
       }
+      const { driverId, pinned } = assignOrderSchema.parse(req.body);
       
-      const order = await storage.assignOrderToDriver(orderId, driverId, userId);
+      const order = await storage.assignOrderToDriver(orderId, driverId, userId, { pinned });
       
       // Log activity
       await storage.logActivity(
         userId,
         "ORDER_ASSIGNED",
         `Assigned order ${order.orderNumber} to driver #${driverId}`,
-        { orderId: order.id, driverId }
+        { orderId: order.id, driverId, pinned }
       );
       
       res.json(order);
     } catch (error) {
       console.error("Error assigning order:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid assignment data", errors: error.errors });
+      }
+      if (error instanceof InvalidStatusTransitionError) {
+        return res.status(error.status).json(error);
+      }
       res.status(500).json({ message: "Failed to assign order" });
     }
   });
 
-  // Drivers routes
-  app.get("/api/drivers", isAuthenticated, async (req, res) => {
+  app.patch("/api/orders/:id/pin", isAuthenticated, authorize("order:assign", orderParam()), async (req: any, res) => {
     try {
-      const drivers = await storage.getAllDrivers();
-      res.json(drivers);
+      const orderId = req.target.order.id;
+      const userId = req.user.claims.sub;
+      const { pinned } = z.object({ pinned: z.boolean() }).parse(req.body);
+      
+      const order = await storage.setAssignmentPinned(orderId, pinned);
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+      
+      await storage.logActivity(
+        userId,
+        pinned ? "ORDER_ASSIGNMENT_PINNED" : "ORDER_ASSIGNMENT_UNPINNED",
+        `${pinned ? "Pinned" : "Unpinned"} assignment of order ${order.orderNumber}`,
+        { orderId }
+      );
+      res.json(order);
     } catch (error) {
-      console.error("Error fetching drivers:", error);
-      res.status(500).json({ message: "Failed to fetch drivers" });
+      console.error("Error pinning order assignment:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid pin data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update assignment pin" });
     }
   });
 
-  app.get("/api/drivers/available", isAuthenticated, async (req, res) => {
+  // Zone/availability/load based assignment. Defaults to a dry run that only returns the plan.
+  app.post("/api/orders/auto-assign", isAuthenticated, authorize("orders:dispatch"), async (req: any, res) => {
     try {
-      const drivers = await storage.getAvailableDrivers();
-      res.json(drivers);
+      const userId = req.user.claims.sub;
+      
+      const options = autoAssignSchema.parse(req.body ?? {});
+      const result = await runAutoAssignment(options, userId);
+      res.json(result);
     } catch (error) {
-      console.error("Error fetching available drivers:", error);
-      res.status(500).json({ message: "Failed to fetch available drivers" });
+      console.error("Error auto-assigning orders:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid auto-assign request", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to auto-assign orders" });
     }
   });
 
-  app.post("/api/drivers", isAuthenticated, async (req: any, res) => {
+  // Record a failed delivery attempt; the order is rescheduled or returned to sender
+  app.post("/api/orders/:id/attempts", isAuthenticated, authorize("order:record_attempt", orderParam()), async (req: any, res) => {
     try {
-      const driverData = insertDriverSchema.parse(req.body);
+      const orderId = req.target.order.id;
+      const attemptData = recordDeliveryAttemptSchema.parse(req.body);
       const userId = req.user.claims.sub;
+      const role = req.actor.user?.role;
+      if (!role) {
+        return res.status(403).json({ message: "Access denied" });
+      }
       
-      const driver = await storage.createDriver(driverData);
+      const { order, attempt } = await storage.recordFailedAttempt(orderId, attemptData, userId, role);
+      
+      if (order.customerEmail) {
+        try {
+          const attempts = await storage.getDeliveryAttempts(order.id);
+          await sendOrderStatusNotification(order, order.status === "return_to_sender" ? "return_to_sender" : "failed", order.customerEmail, attempts);
+        } catch (emailError) {
+          console.error("Failed to send email notification:", emailError);
+          // Don't fail the request if email fails
+        }
+      }
       
-      // Log activity
       await storage.logActivity(
         userId,
-        "DRIVER_CREATED",
-        `Created driver profile for ${driverData.userId}`,
-        { driverId: driver.id }
+        "DELIVERY_ATTEMPT_FAILED",
+        `Delivery attempt ${attempt.attemptNumber} failed for order ${order.orderNumber} (${attempt.reasonCode})`,
+        { orderId: order.id, attemptId: attempt.id, reasonCode: attempt.reasonCode, newStatus: order.status }
       );
       
-      res.json(driver);
+      res.json({ order, attempt });
     } catch (error) {
-      console.error("Error creating driver:", error);
+      console.error("Error recording delivery attempt:", error);
+      if (error instanceof InvalidStatusTransitionError) {
+        return res.status(error.status).json(error);
+      }
       if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid driver data", errors: error.errors });
+        return res.status(400).json({ message: "Invalid delivery attempt data", errors: error.errors });
       }
-      res.status(500).json({ message: "Failed to create driver" });
+      res.status(500).json({ message: "Failed to record delivery attempt" });
     }
   });
 
-  app.patch("/api/drivers/:id/status", isAuthenticated, async (req: any, res) => {
+  app.get("/api/orders/:id/attempts", isAuthenticated, authorize("order:read", orderParam()), async (req: any, res) => {
     try {
-      const driverId = parseInt(req.params.id);
-      const { status, location } = req.body;
+      const attempts = await storage.getDeliveryAttempts(req.target.order.id);
+      res.json({ attempts, maxAttempts: MAX_DELIVERY_ATTEMPTS });
+    } catch (error) {
+      console.error("Error fetching delivery attempts:", error);
+      res.status(500).json({ message: "Failed to fetch delivery attempts" });
+    }
+  });
+
+  // Proof of delivery: captured by the assigned driver (or dispatch) at the door
+  app.post("/api/orders/:id/proof-of-delivery", isAuthenticated, authorize("order:capture_proof", orderParam()), async (req: any, res) => {
+    try {
+      const proofData = captureDeliveryProofSchema.parse(req.body);
       const userId = req.user.claims.sub;
+      const actor: Actor = req.actor;
+      const { order } = req.target;
       
-      const driver = await storage.updateDriverStatus(driverId, status, location);
+      const proof = await captureDeliveryProof(order, proofData, userId, actor.kind === "driver" ? actor.driverId : null);
       
-      // Log activity
       await storage.logActivity(
         userId,
-        "DRIVER_STATUS_UPDATED",
-        `Updated driver #${driverId} status to ${status}`,
-        { driverId, newStatus: status }
+        "DELIVERY_PROOF_CAPTURED",
+        `Captured proof of delivery for order ${order.orderNumber} (received by ${proof.recipientName})`,
+        { orderId: order.id, proofId: proof.id, lat: proof.lat, lng: proof.lng }
       );
       
-      res.json(driver);
+      res.status(201).json(toDeliveryProofResponse(proof));
     } catch (error) {
-      console.error("Error updating driver status:", error);
-      res.status(500).json({ message: "Failed to update driver status" });
+      console.error("Error capturing proof of delivery:", error);
+      if (error instanceof DeliveryProofError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid proof of delivery data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to capture proof of delivery" });
     }
   });
 
-  // Activity logs
-  app.get("/api/activity", isAuthenticated, async (req, res) => {
+  app.get("/api/orders/:id/proof-of-delivery", isAuthenticated, authorize("order:read", orderParam()), async (req: any, res) => {
     try {
-      const { limit } = req.query;
-      const activities = await storage.getRecentActivity(limit ? parseInt(limit as string) : undefined);
-      res.json(activities);
+      const { order } = req.target;
+      
+      const proof = await storage.getDeliveryProof(order.id);
+      if (!proof) {
+        return res.status(404).json({ message: "No proof of delivery for this order" });
+      }
+      
+      res.json(toDeliveryProofResponse(proof));
     } catch (error) {
-      console.error("Error fetching activity logs:", error);
-      res.status(500).json({ message: "Failed to fetch activity logs" });
+      console.error("Error fetching proof of delivery:", error);
+      res.status(500).json({ message: "Failed to fetch proof of delivery" });
     }
   });
 
-  // Customer routes
-  app.post("/api/customers", isAuthenticated, async (req: any, res) => {
+  app.get("/api/orders/:id/proof-of-delivery/:artifact", isAuthenticated, authorize("order:read", orderParam()), async (req: any, res) => {
     try {
-      const customerData = insertCustomerSchema.parse(req.body);
-      const customer = await storage.createCustomer(customerData);
-      res.json(customer);
-    } catch (error) {
-      console.error("Error creating customer:", error);
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid customer data", errors: error.errors });
+      const artifact = req.params.artifact as PodArtifact;
+      if (!POD_ARTIFACTS.includes(artifact)) {
+        return res.status(404).json({ message: "Not found" });
       }
-      res.status(500).json({ message: "Failed to create customer" });
-    }
-  });
-
-  // Super Admin Routes
-  app.get('/api/super-admin/stats', isAuthenticated, async (req: any, res) => {
-    try {
-      const userId = req.user.claims.sub;
-      const user = await storage.getUser(userId);
       
-      if (user?.role !== 'super_admin') {
-        return res.status(403).json({ message: 'Access denied' });
+      const { order } = req.target;
+      
+      const proof = await storage.getDeliveryProof(order.id);
+      const blob = proof && await readProofArtifact(proof, artifact);
+      if (!blob) {
+        return res.status(404).json({ message: "No proof of delivery for this order" });
       }
       
-      const stats = await storage.getSuperAdminStats();
-      res.json(stats);
+      res.set("Cache-Control", "private, max-age=3600");
+      res.type(blob.contentType).send(blob.data);
     } catch (error) {
-      console.error("Error fetching super admin stats:", error);
-      res.status(500).json({ message: "Failed to fetch stats" });
+      console.error("Error fetching proof of delivery artifact:", error);
+      res.status(500).json({ message: "Failed to fetch proof of delivery" });
     }
   });
 
-  // Client Management Routes
-  app.get('/api/clients', isAuthenticated, async (req: any, res) => {
+  // Pieces of an order with their scan history
+  app.get("/api/orders/:id/packages", isAuthenticated, authorize("order:read", orderParam()), async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
-      const user = await storage.getUser(userId);
+      const { order } = req.target;
       
-      if (user?.role !== 'super_admin') {
-        return res.status(403).json({ message: 'Access denied' });
-      }
-      
-      const clients = await storage.getAllClients();
-      res.json(clients);
+      const [pieces, scans] = await Promise.all([storage.getOrderPackages(order), storage.getPackageScans(order.id)]);
+      res.json(pieces.map((piece) => ({ ...piece, scans: scans.filter((scan) => scan.packageId === piece.id) })));
     } catch (error) {
-      console.error("Error fetching clients:", error);
-      res.status(500).json({ message: "Failed to fetch clients" });
+      console.error("Error fetching order packages:", error);
+      res.status(500).json({ message: "Failed to fetch order packages" });
     }
   });
 
-  app.post('/api/clients', isAuthenticated, async (req: any, res) => {
+  // Piece label scan (the barcode carries the piece tracking id); the order status
+  // rolls up from its pieces. The order comes from the scanned code, so the policy is
+  // checked here rather than by the route middleware.
+  app.post("/api/packages/scan", isAuthenticated, async (req: any, res) => {
     try {
+      const { code, action } = scanPackageSchema.parse(req.body);
       const userId = req.user.claims.sub;
-      const user = await storage.getUser(userId);
       
-      if (user?.role !== 'super_admin') {
-        return res.status(403).json({ message: 'Access denied' });
+      const found = await storage.getPackageByTrackingId(code);
+      if (!found) {
+        return res.status(404).json({ message: "Package not found" });
+      }
+      
+      const actor = await resolveActor(userId);
+      const role = actor.user?.role;
+      if (!role || !can(actor, "order:scan_package", { type: "order", order: found.order })) {
+        return res.status(403).json({ message: "Only the assigned driver can scan this package" });
+      }
+      
+      const result = await storage.scanPackage(code, action, userId, {
+        role,
+        driverId: actor.kind === "driver" ? actor.driverId : null,
+      });
+      if (!result) {
+        return res.status(404).json({ message: "Package not found" });
+      }
+      
+      if (!result.duplicate) {
+        const { order } = result;
+        if (order.status !== found.order.status && order.customerEmail) {
+          try {
+            await sendOrderStatusNotification(order, order.status, order.customerEmail);
+          } catch (emailError) {
+            console.error("Failed to send email notification:", emailError);
+          }
+        }
+        
+        await storage.logActivity(
+          userId,
+          "PACKAGE_SCANNED",
+          `Scanned ${action} of package ${result.package.trackingId} (order ${order.orderNumber} now ${order.status})`,
+          { orderId: order.id, packageId: result.package.id, action, newStatus: order.status, scanMethod: "barcode" }
+        );
       }
       
-      const client = await storage.createClient(req.body);
-      res.json(client);
+      res.json(result);
     } catch (error) {
-      console.error("Error creating client:", error);
-      res.status(500).json({ message: "Failed to create client" });
+      console.error("Error scanning package:", error);
+      if (error instanceof InvalidStatusTransitionError) {
+        return res.status(error.status).json(error);
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid package scan data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to scan package" });
     }
   });
 
-  // Zone Management Routes
-  app.get('/api/zones', isAuthenticated, async (req: any, res) => {
+  // Orders with missing pieces, for dispatch to chase
+  app.get("/api/packages/exceptions", isAuthenticated, authorize("dispatch:read"), async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
-      const user = await storage.getUser(userId);
-      
-      if (user?.role !== 'super_admin') {
-        return res.status(403).json({ message: 'Access denied' });
-      }
-      
-      const zones = await storage.getAllZones();
-      res.json(zones);
+      const exceptionOrders = await storage.getPieceExceptionOrders();
+      res.json(exceptionOrders);
     } catch (error) {
-      console.error("Error fetching zones:", error);
-      res.status(500).json({ message: "Failed to fetch zones" });
+      console.error("Error fetching missing piece exceptions:", error);
+      res.status(500).json({ message: "Failed to fetch missing piece exceptions" });
     }
   });
 
-  // Driver Zone Assignment
-  app.post('/api/drivers/:id/assign-zone', isAuthenticated, async (req: any, res) => {
+  // Replays the driver app's offline queue; safe to retry with the same mutation ids
+  app.post("/api/driver/sync", isAuthenticated, authorize("driver:sync"), async (req: any, res) => {
     try {
+      const { mutations } = driverSyncSchema.parse(req.body);
       const userId = req.user.claims.sub;
-      const user = await storage.getUser(userId);
       
-      if (user?.role !== 'super_admin') {
-        return res.status(403).json({ message: 'Access denied' });
+      const driver = await storage.getDriverByUserId(userId);
+      if (!driver) {
+        return res.status(403).json({ message: "Driver profile not found" });
       }
       
-      const driverId = parseInt(req.params.id);
-      const { zoneId } = req.body;
+      const results = await applyDriverSync(driver, userId, mutations);
       
-      const driver = await storage.assignDriverToZone(driverId, zoneId);
-      res.json(driver);
+      const conflicts = results.filter((result) => result.outcome !== "applied").length;
+      if (results.length > 0) {
+        await storage.logActivity(
+          userId,
+          "DRIVER_SYNC",
+          `Synced ${results.length} offline changes from driver #${driver.id}${conflicts ? ` (${conflicts} not applied)` : ""}`,
+          { driverId: driver.id, processed: results.length, conflicts, received: mutations.length }
+        );
+      }
+      
+      res.json({ results });
     } catch (error) {
-      console.error("Error assigning zone:", error);
-      res.status(500).json({ message: "Failed to assign zone" });
+      console.error("Error syncing driver changes:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid sync data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to sync driver changes" });
     }
   });
 
-  // Route Batch Management
-  app.get('/api/route-batches', isAuthenticated, async (req: any, res) => {
+  // Drivers routes
+  app.get("/api/drivers", isAuthenticated, authorize("dispatch:read"), async (req, res) => {
     try {
-      const userId = req.user.claims.sub;
-      const user = await storage.getUser(userId);
-      
-      if (user?.role !== 'super_admin') {
-        return res.status(403).json({ message: 'Access denied' });
-      }
-      
-      // Return empty array for now - would implement proper batch fetching
-      res.json([]);
+      const drivers = await storage.getAllDrivers();
+      res.json(drivers);
     } catch (error) {
-      console.error("Error fetching batches:", error);
-      res.status(500).json({ message: "Failed to fetch batches" });
+      console.error("Error fetching drivers:", error);
+      res.status(500).json({ message: "Failed to fetch drivers" });
     }
   });
 
-  app.post('/api/route-batches', isAuthenticated, async (req: any, res) => {
+  app.get("/api/drivers/available", isAuthenticated, authorize("dispatch:read"), async (req, res) => {
     try {
-      const userId = req.user.claims.sub;
-      const user = await storage.getUser(userId);
-      
-      if (user?.role !== 'super_admin') {
-        return res.status(403).json({ message: 'Access denied' });
-      }
-      
-      const batch = await storage.createRouteBatch(req.body);
-      res.json(batch);
+      const drivers = await storage.getAvailableDrivers();
+      res.json(drivers);
     } catch (error) {
-      console.error("Error creating batch:", error);
-      res.status(500).json({ message: "Failed to create batch" });
+      console.error("Error fetching available drivers:", error);
+      res.status(500).json({ message: "Failed to fetch available drivers" });
     }
   });
 
-  // Client Login Route
-  app.post('/api/client/login', async (req, res) => {
+  app.post("/api/drivers", isAuthenticated, authorize("drivers:manage"), async (req: any, res) => {
+    try {
+      const driverData = insertDriverSchema.parse(req.body);
+      const userId = req.user.claims.sub;
+      
+      const driver = await storage.createDriver(driverData);
+      
+      // Log activity
+      await storage.logActivity(
+        userId,
+        "DRIVER_CREATED",
+        `Created driver profile for ${driverData.userId}`,
+        { driverId: driver.id }
+      );
+      
+      res.json(driver);
+    } catch (error) {
+      console.error("Error creating driver:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid driver data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create driver" });
+    }
+  });
+
+  app.patch("/api/drivers/:id/status", isAuthenticated, authorize("driver:update_status", driverParam()), async (req: any, res) => {
+    try {
+      const driverId = req.target.driver.id;
+      const { status, location } = req.body;
+      const userId = req.user.claims.sub;
+      
+      const driver = await storage.updateDriverStatus(driverId, status, location);
+      
+      // Log activity
+      await storage.logActivity(
+        userId,
+        "DRIVER_STATUS_UPDATED",
+        `Updated driver #${driverId} status to ${status}`,
+        { driverId, newStatus: status }
+      );
+      
+      res.json(driver);
+    } catch (error) {
+      console.error("Error updating driver status:", error);
+      res.status(500).json({ message: "Failed to update driver status" });
+    }
+  });
+
+  // Breadcrumb trail for a driver, default last 24 hours
+  app.get("/api/drivers/:id/location-history", isAuthenticated, authorize("dispatch:read", driverParam()), async (req: any, res) => {
+    try {
+      const driverId = req.target.driver.id;
+      const since = req.query.since ? new Date(req.query.since as string) : new Date(Date.now() - 24 * 60 * 60 * 1000);
+      if (isNaN(since.getTime())) {
+        return res.status(400).json({ message: "Invalid since timestamp" });
+      }
+      
+      const history = await storage.getDriverLocationHistory(driverId, since);
+      res.json(history);
+    } catch (error) {
+      console.error("Error fetching driver location history:", error);
+      res.status(500).json({ message: "Failed to fetch driver location history" });
+    }
+  });
+
+  // Sets the password a staff member or driver signs in with under the local auth provider
+  app.put("/api/users/:id/password", isAuthenticated, authorize("users:manage"), async (req: any, res) => {
+    try {
+      const { password } = setUserPasswordSchema.parse(req.body);
+      const user = await storage.getUser(req.params.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (user.role === "client") {
+        return res.status(400).json({ message: "Client users set their password through the client portal" });
+      }
+
+      const updated = await storage.changeUserPassword(user.id, await hashPassword(password));
+      await storage.logActivity(
+        req.user.claims.sub,
+        "USER_PASSWORD_SET",
+        `Set the sign-in password for ${user.email ?? user.id}`,
+        { userId: user.id }
+      );
+
+      res.json(toUserResponse(updated));
+    } catch (error) {
+      console.error("Error setting user password:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid password", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to set user password" });
+    }
+  });
+
+  // Where a user is signed in, e.g. to sign out a driver whose phone was lost
+  app.get("/api/users/:id/sessions", isAuthenticated, authorize("users:manage"), async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.params.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      res.json(await storage.getActiveSessions({ userId: user.id }));
+    } catch (error) {
+      console.error("Error fetching user sessions:", error);
+      res.status(500).json({ message: "Failed to fetch user sessions" });
+    }
+  });
+
+  // Without a session id, revokes all of them
+  app.delete("/api/users/:id/sessions/:sessionId?", isAuthenticated, authorize("users:manage"), async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.params.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const revoked = await storage.revokeSessions({ userId: user.id }, req.params.sessionId);
+      if (req.params.sessionId && revoked === 0) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+
+      await storage.logActivity(
+        req.user.claims.sub,
+        "USER_SESSIONS_REVOKED",
+        `Revoked ${revoked} session${revoked === 1 ? "" : "s"} of ${user.email ?? user.id}`,
+        { userId: user.id, sessionId: req.params.sessionId, revoked }
+      );
+
+      res.json({ revoked });
+    } catch (error) {
+      console.error("Error revoking user sessions:", error);
+      res.status(500).json({ message: "Failed to revoke user sessions" });
+    }
+  });
+
+  // Activity logs
+  app.get("/api/activity", isAuthenticated, authorize("dispatch:read"), async (req, res) => {
+    try {
+      const { limit } = req.query;
+      const activities = await storage.getRecentActivity(limit ? parseInt(limit as string) : undefined);
+      res.json(activities);
+    } catch (error) {
+      console.error("Error fetching activity logs:", error);
+      res.status(500).json({ message: "Failed to fetch activity logs" });
+    }
+  });
+
+  // Customer routes
+  app.post("/api/customers", isAuthenticated, authorize("orders:create"), async (req: any, res) => {
+    try {
+      const customerData = insertCustomerSchema.parse(req.body);
+      const customer = await storage.createCustomer(customerData);
+      res.json(customer);
+    } catch (error) {
+      console.error("Error creating customer:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid customer data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create customer" });
+    }
+  });
+
+  // Address validation (same rules used before saving to the address book)
+  app.post("/api/validate-address", isAuthenticated, async (req, res) => {
+    try {
+      const { line1, line2, city, state, zip, country } = req.body;
+      if (!line1 || !city || !state || !zip) {
+        return res.status(400).json({ message: "Street, city, state and ZIP are required" });
+      }
+      
+      const result = await validateAddress({ line1, line2, city, state, zip, country });
+      res.json(result);
+    } catch (error) {
+      console.error("Error validating address:", error);
+      if (error instanceof AddressValidationUnavailableError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to validate address" });
+    }
+  });
+
+  // Address book routes (per client)
+  app.get("/api/address-book", isAuthenticated, authorize("own_client:read"), async (req: any, res) => {
+    try {
+      const { clientId } = req.actor;
+      
+      const entries = await storage.getAddressBook(clientId);
+      res.json(entries);
+    } catch (error) {
+      console.error("Error fetching address book:", error);
+      res.status(500).json({ message: "Failed to fetch address book" });
+    }
+  });
+
+  app.post("/api/address-book", isAuthenticated, authorize("own_client:ship"), async (req: any, res) => {
+    try {
+      const { clientId } = req.actor;
+      
+      const entryData = insertAddressBookSchema.parse(req.body);
+      const validation = await validateAddress({
+        line1: entryData.deliveryLine1,
+        line2: entryData.deliveryLine2,
+        city: entryData.deliveryCity,
+        state: entryData.deliveryState,
+        zip: entryData.deliveryZip,
+        country: entryData.deliveryCountry,
+      });
+      if (!validation.isValid) {
+        return res.status(422).json({ message: validation.error, suggestion: validation.suggestion });
+      }
+      
+      const entry = await storage.createAddressBookEntry(clientId, entryData, validation);
+      res.json(entry);
+    } catch (error) {
+      console.error("Error saving address:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid address data", errors: error.errors });
+      }
+      if (error instanceof AddressValidationUnavailableError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to save address" });
+    }
+  });
+
+  app.patch("/api/address-book/:id", isAuthenticated, authorize("own_client:ship"), async (req: any, res) => {
+    try {
+      const { clientId } = req.actor;
+      
+      const entryId = parseInt(req.params.id);
+      const existing = await storage.getAddressBookEntry(clientId, entryId);
+      if (!existing) {
+        return res.status(404).json({ message: "Address not found" });
+      }
+      
+      const updates = insertAddressBookSchema.partial().parse(req.body);
+      const merged = { ...existing, ...updates };
+      const addressChanged = ["deliveryLine1", "deliveryLine2", "deliveryCity", "deliveryState", "deliveryZip", "deliveryCountry"]
+        .some((field) => field in updates && (updates as any)[field] !== (existing as any)[field]);
+      
+      // Re-validate whenever the address itself changes so the book never holds an unchecked address
+      let validation;
+      if (addressChanged) {
+        validation = await validateAddress({
+          line1: merged.deliveryLine1,
+          line2: merged.deliveryLine2,
+          city: merged.deliveryCity,
+          state: merged.deliveryState,
+          zip: merged.deliveryZip,
+          country: merged.deliveryCountry,
+        });
+        if (!validation.isValid) {
+          return res.status(422).json({ message: validation.error, suggestion: validation.suggestion });
+        }
+      }
+      
+      const entry = await storage.updateAddressBookEntry(clientId, entryId, updates, validation);
+      res.json(entry);
+    } catch (error) {
+      console.error("Error updating address:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid address data", errors: error.errors });
+      }
+      if (error instanceof AddressValidationUnavailableError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to update address" });
+    }
+  });
+
+  app.delete("/api/address-book/:id", isAuthenticated, authorize("own_client:ship"), async (req: any, res) => {
+    try {
+      const { clientId } = req.actor;
+      
+      const deleted = await storage.deleteAddressBookEntry(clientId, parseInt(req.params.id));
+      if (!deleted) {
+        return res.status(404).json({ message: "Address not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting address:", error);
+      res.status(500).json({ message: "Failed to delete address" });
+    }
+  });
+
+  // Order template routes (per client)
+  app.get("/api/order-templates", isAuthenticated, authorize("own_client:read"), async (req: any, res) => {
+    try {
+      const { clientId } = req.actor;
+      
+      const templates = await storage.getOrderTemplates(clientId);
+      res.json(templates);
+    } catch (error) {
+      console.error("Error fetching order templates:", error);
+      res.status(500).json({ message: "Failed to fetch order templates" });
+    }
+  });
+
+  app.post("/api/order-templates", isAuthenticated, authorize("own_client:ship"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { clientId } = req.actor;
+      
+      const templateData = insertOrderTemplateSchema.parse(req.body);
+      const template = await storage.createOrderTemplate(clientId, templateData, userId);
+      res.json(template);
+    } catch (error) {
+      console.error("Error creating order template:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid template data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create order template" });
+    }
+  });
+
+  app.patch("/api/order-templates/:id", isAuthenticated, authorize("own_client:ship"), async (req: any, res) => {
+    try {
+      const { clientId } = req.actor;
+      
+      const updates = insertOrderTemplateSchema.partial().parse(req.body);
+      const template = await storage.updateOrderTemplate(clientId, parseInt(req.params.id), updates);
+      if (!template) {
+        return res.status(404).json({ message: "Template not found" });
+      }
+      res.json(template);
+    } catch (error) {
+      console.error("Error updating order template:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid template data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update order template" });
+    }
+  });
+
+  app.delete("/api/order-templates/:id", isAuthenticated, authorize("own_client:ship"), async (req: any, res) => {
+    try {
+      const { clientId } = req.actor;
+      
+      const deleted = await storage.deleteOrderTemplate(clientId, parseInt(req.params.id));
+      if (!deleted) {
+        return res.status(404).json({ message: "Template not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting order template:", error);
+      res.status(500).json({ message: "Failed to delete order template" });
+    }
+  });
+
+  // Client API key management
+  app.get('/api/clients/:clientId/api-keys', isAuthenticated, authorize("client:read", clientParam("clientId")), async (req: any, res) => {
+    try {
+      const { clientId } = req.target;
+      
+      const apiKeys = await storage.getApiKeysForClient(clientId);
+      res.json(apiKeys.map(toApiKeyResponse));
+    } catch (error) {
+      console.error("Error fetching API keys:", error);
+      res.status(500).json({ message: "Failed to fetch API keys" });
+    }
+  });
+
+  app.post('/api/clients/:clientId/api-keys', isAuthenticated, authorize("client:administer", clientParam("clientId")), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { clientId } = req.target;
+      
+      const keyData = createApiKeySchema.parse(req.body);
+      const { key, keyPrefix, keyHash } = generateApiKey();
+      const apiKey = await storage.createApiKey(clientId, { ...keyData, keyPrefix, keyHash }, userId);
+      
+      await storage.logActivity(
+        userId,
+        "API_KEY_CREATED",
+        `Created API key ${keyPrefix}… for client ${clientId}`,
+        { clientId, apiKeyId: apiKey.id, scopes: keyData.scopes }
+      );
+      
+      // The plain key is only ever returned here
+      res.json({ ...toApiKeyResponse(apiKey), key });
+    } catch (error) {
+      console.error("Error creating API key:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid API key data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create API key" });
+    }
+  });
+
+  // Rotation issues a new key with the same name and scopes and revokes the old one
+  app.post('/api/clients/:clientId/api-keys/:id/rotate', isAuthenticated, authorize("client:administer", clientParam("clientId")), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { clientId } = req.target;
+      
+      const existing = await storage.getApiKey(clientId, parseInt(req.params.id));
+      if (!existing || existing.revokedAt) {
+        return res.status(404).json({ message: "API key not found" });
+      }
+      
+      const { key, keyPrefix, keyHash } = generateApiKey();
+      const apiKey = await storage.createApiKey(
+        clientId,
+        { name: existing.name, scopes: existing.scopes as ApiKeyScope[], keyPrefix, keyHash },
+        userId
+      );
+      await storage.revokeApiKey(clientId, existing.id);
+      
+      await storage.logActivity(
+        userId,
+        "API_KEY_ROTATED",
+        `Rotated API key ${existing.keyPrefix}… to ${keyPrefix}… for client ${clientId}`,
+        { clientId, previousApiKeyId: existing.id, apiKeyId: apiKey.id }
+      );
+      
+      res.json({ ...toApiKeyResponse(apiKey), key });
+    } catch (error) {
+      console.error("Error rotating API key:", error);
+      res.status(500).json({ message: "Failed to rotate API key" });
+    }
+  });
+
+  app.delete('/api/clients/:clientId/api-keys/:id', isAuthenticated, authorize("client:administer", clientParam("clientId")), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { clientId } = req.target;
+      
+      const revoked = await storage.revokeApiKey(clientId, parseInt(req.params.id));
+      if (!revoked) {
+        return res.status(404).json({ message: "API key not found" });
+      }
+      
+      await storage.logActivity(
+        userId,
+        "API_KEY_REVOKED",
+        `Revoked API key ${revoked.keyPrefix}… for client ${clientId}`,
+        { clientId, apiKeyId: revoked.id }
+      );
+      
+      res.json(toApiKeyResponse(revoked));
+    } catch (error) {
+      console.error("Error revoking API key:", error);
+      res.status(500).json({ message: "Failed to revoke API key" });
+    }
+  });
+
+  // Webhook endpoint routes (per client)
+  app.get("/api/webhooks", isAuthenticated, authorize("own_client:read"), async (req: any, res) => {
+    try {
+      const { clientId } = req.actor;
+      
+      const endpoints = await storage.getWebhookEndpoints(clientId);
+      res.json(endpoints);
+    } catch (error) {
+      console.error("Error fetching webhooks:", error);
+      res.status(500).json({ message: "Failed to fetch webhooks" });
+    }
+  });
+
+  app.post("/api/webhooks", isAuthenticated, authorize("own_client:administer"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { clientId } = req.actor;
+      
+      const endpointData = insertWebhookEndpointSchema.parse(req.body);
+      await assertPublicWebhookUrl(endpointData.url);
+      const endpoint = await storage.createWebhookEndpoint(clientId, endpointData, generateWebhookSecret());
+      
+      await storage.logActivity(
+        userId,
+        "WEBHOOK_CREATED",
+        `Registered webhook ${endpoint.url}`,
+        { clientId, webhookId: endpoint.id, events: endpointData.events }
+      );
+      
+      res.json(endpoint);
+    } catch (error) {
+      console.error("Error creating webhook:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid webhook data", errors: error.errors });
+      }
+      if (error instanceof WebhookUrlError) {
+        return res.status(error.status).json(error);
+      }
+      res.status(500).json({ message: "Failed to create webhook" });
+    }
+  });
+
+  app.patch("/api/webhooks/:id", isAuthenticated, authorize("own_client:administer"), async (req: any, res) => {
+    try {
+      const { clientId } = req.actor;
+      
+      const updates = insertWebhookEndpointSchema.partial().parse(req.body);
+      if (updates.url !== undefined) {
+        await assertPublicWebhookUrl(updates.url);
+      }
+      const endpoint = await storage.updateWebhookEndpoint(clientId, parseInt(req.params.id), updates);
+      if (!endpoint) {
+        return res.status(404).json({ message: "Webhook not found" });
+      }
+      res.json(endpoint);
+    } catch (error) {
+      console.error("Error updating webhook:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid webhook data", errors: error.errors });
+      }
+      if (error instanceof WebhookUrlError) {
+        return res.status(error.status).json(error);
+      }
+      res.status(500).json({ message: "Failed to update webhook" });
+    }
+  });
+
+  app.delete("/api/webhooks/:id", isAuthenticated, authorize("own_client:administer"), async (req: any, res) => {
+    try {
+      const { clientId } = req.actor;
+      
+      const deleted = await storage.deleteWebhookEndpoint(clientId, parseInt(req.params.id));
+      if (!deleted) {
+        return res.status(404).json({ message: "Webhook not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting webhook:", error);
+      res.status(500).json({ message: "Failed to delete webhook" });
+    }
+  });
+
+  // Sends a sample event straight away so clients can check their receiver and signature code
+  app.post("/api/webhooks/:id/test", isAuthenticated, authorize("own_client:administer"), async (req: any, res) => {
+    try {
+      const { clientId } = req.actor;
+      
+      const endpoint = await storage.getWebhookEndpoint(clientId, parseInt(req.params.id));
+      if (!endpoint) {
+        return res.status(404).json({ message: "Webhook not found" });
+      }
+      
+      const eventType = WEBHOOK_EVENTS.includes(req.body?.event) ? req.body.event : "order.created";
+      const [latestOrder] = await storage.getOrdersForClient(clientId);
+      const sampleOrder = latestOrder ?? {
+        id: 0,
+        orderNumber: "ORD-SAMPLE",
+        clientId,
+        status: eventType.replace("order.", "").replace("created", "pending"),
+        customerName: "Sample Customer",
+        deliveryLine1: "100 Main St",
+        deliveryCity: "Chicago",
+        deliveryState: "IL",
+        deliveryZip: "60601",
+        createdAt: new Date().toISOString(),
+      };
+      
+      const [delivery] = await storage.enqueueWebhookEvents(clientId, eventType, [{ order: sampleOrder }], {
+        endpointId: endpoint.id,
+        test: true,
+        claimed: true,
+      });
+      const status = await deliverWebhook(delivery, endpoint);
+      const [result] = await storage.getWebhookDeliveries(clientId, { endpointId: endpoint.id }, 1);
+      
+      res.json({ status, delivery: result });
+    } catch (error) {
+      console.error("Error sending test webhook:", error);
+      res.status(500).json({ message: "Failed to send test webhook" });
+    }
+  });
+
+  app.get("/api/webhook-deliveries", isAuthenticated, authorize("own_client:read"), async (req: any, res) => {
+    try {
+      const { clientId } = req.actor;
+      
+      const { endpointId, status, limit } = req.query;
+      const deliveries = await storage.getWebhookDeliveries(
+        clientId,
+        { endpointId: endpointId ? parseInt(endpointId) : undefined, status },
+        limit ? Math.min(parseInt(limit), 500) : undefined
+      );
+      res.json(deliveries);
+    } catch (error) {
+      console.error("Error fetching webhook deliveries:", error);
+      res.status(500).json({ message: "Failed to fetch webhook deliveries" });
+    }
+  });
+
+  app.post("/api/webhook-deliveries/:id/retry", isAuthenticated, authorize("own_client:administer"), async (req: any, res) => {
+    try {
+      const { clientId } = req.actor;
+      
+      const delivery = await storage.requeueWebhookDelivery(clientId, parseInt(req.params.id), STALE_SENDING_MS);
+      if (!delivery) {
+        return res.status(404).json({ message: "No failed delivery to retry" });
+      }
+      res.json(delivery);
+    } catch (error) {
+      console.error("Error retrying webhook delivery:", error);
+      res.status(500).json({ message: "Failed to retry webhook delivery" });
+    }
+  });
+
+  // Super Admin Routes
+  app.get('/api/super-admin/stats', isAuthenticated, authorize("platform:stats"), async (req: any, res) => {
+    try {
+      const stats = await storage.getSuperAdminStats();
+      res.json(stats);
+    } catch (error) {
+      console.error("Error fetching super admin stats:", error);
+      res.status(500).json({ message: "Failed to fetch stats" });
+    }
+  });
+
+  // Client Management Routes
+  app.get('/api/clients', isAuthenticated, authorize("clients:manage"), async (req: any, res) => {
+    try {
+      const clients = await storage.getAllClients();
+      res.json(clients.map(toClientResponse));
+    } catch (error) {
+      console.error("Error fetching clients:", error);
+      res.status(500).json({ message: "Failed to fetch clients" });
+    }
+  });
+
+  app.post('/api/clients', isAuthenticated, authorize("clients:manage"), async (req: any, res) => {
+    try {
+      const { loginPassword, ...clientData } = req.body;
+      const client = await storage.createClient({
+        ...clientData,
+        loginPassword: loginPassword && await hashPassword(loginPassword),
+      });
+      res.json(toClientResponse(client));
+    } catch (error) {
+      console.error("Error creating client:", error);
+      res.status(500).json({ message: "Failed to create client" });
+    }
+  });
+
+  // Per-client settings, e.g. whether orders need proof of delivery
+  app.patch('/api/clients/:id/settings', isAuthenticated, authorize("clients:manage"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const clientId = parseInt(req.params.id);
+      const settings = updateClientSettingsSchema.parse(req.body);
+      
+      if (!(await storage.getClient(clientId))) {
+        return res.status(404).json({ message: "Client not found" });
+      }
+      
+      const client = await storage.updateClient(clientId, settings);
+      
+      await storage.logActivity(
+        userId,
+        "CLIENT_SETTINGS_UPDATED",
+        `Updated settings for client ${client.name}`,
+        { clientId, settings }
+      );
+      
+      res.json(toClientResponse(client));
+    } catch (error) {
+      console.error("Error updating client settings:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid client settings", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update client settings" });
+    }
+  });
+
+  // Portal sessions of every user of the client, including admins impersonating it
+  app.get('/api/clients/:id/sessions', isAuthenticated, authorize("clients:manage"), async (req: any, res) => {
+    try {
+      const clientId = parseInt(req.params.id);
+      if (!(await storage.getClient(clientId))) {
+        return res.status(404).json({ message: "Client not found" });
+      }
+
+      res.json(await storage.getActiveSessions({ clientId }));
+    } catch (error) {
+      console.error("Error fetching client sessions:", error);
+      res.status(500).json({ message: "Failed to fetch client sessions" });
+    }
+  });
+
+  app.delete('/api/clients/:id/sessions/:sessionId?', isAuthenticated, authorize("clients:manage"), async (req: any, res) => {
+    try {
+      const clientId = parseInt(req.params.id);
+      const client = await storage.getClient(clientId);
+      if (!client) {
+        return res.status(404).json({ message: "Client not found" });
+      }
+
+      const revoked = await storage.revokeSessions({ clientId }, req.params.sessionId);
+      if (req.params.sessionId && revoked === 0) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+
+      await storage.logActivity(
+        req.user.claims.sub,
+        "CLIENT_SESSIONS_REVOKED",
+        `Revoked ${revoked} portal session${revoked === 1 ? "" : "s"} of client ${client.name}`,
+        { clientId, sessionId: req.params.sessionId, revoked }
+      );
+
+      res.json({ revoked });
+    } catch (error) {
+      console.error("Error revoking client sessions:", error);
+      res.status(500).json({ message: "Failed to revoke client sessions" });
+    }
+  });
+
+  // Zone Management Routes
+  app.get('/api/zones', isAuthenticated, authorize("zones:manage"), async (req: any, res) => {
+    try {
+      const zones = await storage.getAllZones();
+      res.json(zones);
+    } catch (error) {
+      console.error("Error fetching zones:", error);
+      res.status(500).json({ message: "Failed to fetch zones" });
+    }
+  });
+
+  app.post('/api/zones', isAuthenticated, authorize("zones:manage"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const zoneData = insertZoneSchema.parse(req.body);
+      const ruleError = getZoneRuleError(zoneData);
+      if (ruleError) {
+        return res.status(400).json({ message: ruleError });
+      }
+      
+      const zone = await storage.createZone(zoneData);
+      await storage.logActivity(userId, "ZONE_CREATED", `Created zone ${zone.name}`, { zoneId: zone.id });
+      res.status(201).json(zone);
+    } catch (error) {
+      console.error("Error creating zone:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid zone data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create zone" });
+    }
+  });
+
+  // Rule changes only affect new orders; use /api/zones/rezone to apply them to open ones
+  app.patch('/api/zones/:id', isAuthenticated, authorize("zones:manage"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const zoneId = parseInt(req.params.id);
+      const existing = await storage.getZone(zoneId);
+      if (!existing) {
+        return res.status(404).json({ message: "Zone not found" });
+      }
+      
+      const updates = insertZoneSchema.partial().parse(req.body);
+      const ruleError = getZoneRuleError({ ...existing, ...updates });
+      if (ruleError) {
+        return res.status(400).json({ message: ruleError });
+      }
+      
+      const zone = await storage.updateZone(zoneId, updates);
+      await storage.logActivity(userId, "ZONE_UPDATED", `Updated zone ${zone.name}`, { zoneId, updates });
+      res.json(zone);
+    } catch (error) {
+      console.error("Error updating zone:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid zone data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update zone" });
+    }
+  });
+
+  // Rate cards: ?clientId=<id> for one client's cards, ?clientId=default for the default card
+  app.get('/api/rate-cards', isAuthenticated, authorize("rate_cards:manage"), async (req: any, res) => {
+    try {
+      const clientId = req.query.clientId === undefined
+        ? undefined
+        : req.query.clientId === "default" ? null : parseInt(req.query.clientId);
+      const cards = await storage.getRateCards(clientId);
+      res.json(cards);
+    } catch (error) {
+      console.error("Error fetching rate cards:", error);
+      res.status(500).json({ message: "Failed to fetch rate cards" });
+    }
+  });
+
+  app.post('/api/rate-cards', isAuthenticated, authorize("rate_cards:manage"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const cardData = insertRateCardSchema.parse(req.body);
+      if (cardData.effectiveTo && cardData.effectiveTo <= cardData.effectiveFrom) {
+        return res.status(400).json({ message: "effectiveTo must be after effectiveFrom" });
+      }
+      if (cardData.clientId && !(await storage.getClient(cardData.clientId))) {
+        return res.status(404).json({ message: "Client not found" });
+      }
+      
+      const card = await storage.createRateCard(cardData, userId);
+      await storage.logActivity(userId, "RATE_CARD_CREATED", `Created rate card ${card.name}`, { rateCardId: card.id, clientId: card.clientId });
+      res.status(201).json(card);
+    } catch (error) {
+      console.error("Error creating rate card:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid rate card data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create rate card" });
+    }
+  });
+
+  // Orders keep the price they were created with, so a card already in effect can only be ended
+  app.patch('/api/rate-cards/:id', isAuthenticated, authorize("rate_cards:manage"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const cardId = parseInt(req.params.id);
+      const existing = await storage.getRateCard(cardId);
+      if (!existing) {
+        return res.status(404).json({ message: "Rate card not found" });
+      }
+      
+      const updates = updateRateCardSchema.parse(req.body);
+      const updateError = getRateCardUpdateError(existing, updates);
+      if (updateError) {
+        return res.status(409).json({ message: updateError });
+      }
+      
+      const card = await storage.updateRateCard(cardId, updates);
+      await storage.logActivity(userId, "RATE_CARD_UPDATED", `Updated rate card ${existing.name}`, { rateCardId: cardId, updates });
+      res.json(card);
+    } catch (error) {
+      console.error("Error updating rate card:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid rate card data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update rate card" });
+    }
+  });
+
+  // Invoices: admins see every client's (optionally filtered), client users their own
+  app.get('/api/invoices', isAuthenticated, authorize("invoices:list"), async (req: any, res) => {
+    try {
+      const actor: Actor = req.actor;
+      const status = INVOICE_STATUSES.find((value) => value === req.query.status);
+      
+      if (actor.kind === "client") {
+        return res.json(await storage.getInvoices({ clientId: actor.clientId, status }));
+      }
+      
+      const clientId = req.query.clientId ? parseInt(req.query.clientId) : undefined;
+      res.json(await storage.getInvoices({ clientId, status }));
+    } catch (error) {
+      console.error("Error fetching invoices:", error);
+      res.status(500).json({ message: "Failed to fetch invoices" });
+    }
+  });
+
+  app.get('/api/invoices/:id', isAuthenticated, authorize("client:read", invoiceParam()), async (req: any, res) => {
+    try {
+      const { invoice } = req.target;
+      
+      const lines = await storage.getInvoiceLines(invoice.id);
+      res.json({ ...invoice, lines });
+    } catch (error) {
+      console.error("Error fetching invoice:", error);
+      res.status(500).json({ message: "Failed to fetch invoice" });
+    }
+  });
+
+  app.get('/api/invoices/:id/pdf', isAuthenticated, authorize("client:read", invoiceParam()), async (req: any, res) => {
+    try {
+      const { invoice } = req.target;
+      
+      const [lines, client] = await Promise.all([
+        storage.getInvoiceLines(invoice.id),
+        storage.getClient(invoice.clientId),
+      ]);
+      const pdf = renderInvoicePdf(invoice, lines, client!);
+      
+      res.set("Content-Disposition", `attachment; filename="${invoice.invoiceNumber}.pdf"`);
+      res.type("application/pdf").send(pdf);
+    } catch (error) {
+      console.error("Error rendering invoice PDF:", error);
+      res.status(500).json({ message: "Failed to render invoice" });
+    }
+  });
+
+  // Monthly run: invoices every active client (or one) for orders completed in the month
+  app.post('/api/invoices/run', isAuthenticated, authorize("billing:manage"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const run = invoiceRunSchema.parse(req.body);
+      const results = await runMonthlyInvoicing(run, userId);
+      const invoiced = results.filter((result) => result.invoice);
+      
+      await storage.logActivity(
+        userId,
+        "INVOICES_GENERATED",
+        `Invoiced ${invoiced.length} clients for ${run.month}`,
+        { ...run, invoiceIds: invoiced.map((result) => result.invoice!.id) }
+      );
+      res.json(results);
+    } catch (error) {
+      console.error("Error running invoicing:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid invoice run", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to run invoicing" });
+    }
+  });
+
+  app.post('/api/orders/:id/invoice', isAuthenticated, authorize("billing:manage"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const order = await storage.getOrder(parseInt(req.params.id));
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+      
+      const invoice = await createOrderInvoice(order, userId);
+      await storage.logActivity(userId, "INVOICE_CREATED", `Invoiced order ${order.orderNumber} on ${invoice.invoiceNumber}`, { invoiceId: invoice.id, orderId: order.id });
+      res.status(201).json(invoice);
+    } catch (error) {
+      console.error("Error invoicing order:", error);
+      if (error instanceof InvoicingError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to invoice order" });
+    }
+  });
+
+  app.patch('/api/invoices/:id/status', isAuthenticated, authorize("billing:manage"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const existing = await storage.getInvoice(parseInt(req.params.id));
+      if (!existing) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+      
+      const { status, reason } = updateInvoiceStatusSchema.parse(req.body);
+      const invoice = await changeInvoiceStatus(existing, status, reason, userId);
+      await storage.logActivity(
+        userId,
+        "INVOICE_STATUS_CHANGED",
+        `Invoice ${invoice.invoiceNumber} changed from ${existing.status} to ${status}`,
+        { invoiceId: invoice.id, from: existing.status, to: status, reason }
+      );
+      res.json(invoice);
+    } catch (error) {
+      console.error("Error updating invoice status:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid status update", errors: error.errors });
+      }
+      if (error instanceof InvoicingError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to update invoice status" });
+    }
+  });
+
+  // Client ledger: balance, aging and every entry. Clients may read their own.
+  app.get('/api/clients/:id/ledger', isAuthenticated, authorize("client:read", clientParam()), async (req: any, res) => {
+    try {
+      const clientId = parseInt(req.params.id);
+      const client = await storage.getClient(clientId);
+      if (!client) {
+        return res.status(404).json({ message: "Client not found" });
+      }
+      
+      const [aging, entries, unbilled] = await Promise.all([
+        getClientAging(clientId),
+        storage.getLedgerEntries(clientId),
+        storage.getUnbilledOrderTotal(clientId),
+      ]);
+      res.json({
+        clientId,
+        creditLimit: client.creditLimit,
+        creditPolicy: client.creditPolicy,
+        unbilled,
+        ...aging,
+        entries,
+      });
+    } catch (error) {
+      console.error("Error fetching ledger:", error);
+      res.status(500).json({ message: "Failed to fetch ledger" });
+    }
+  });
+
+  // Payments, adjustments and credit notes entered by finance
+  app.post('/api/clients/:id/ledger', isAuthenticated, authorize("billing:manage"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const client = await storage.getClient(parseInt(req.params.id));
+      if (!client) {
+        return res.status(404).json({ message: "Client not found" });
+      }
+      
+      const entryData = insertLedgerEntrySchema.parse(req.body);
+      const entry = await recordLedgerEntry(client, entryData, userId);
+      
+      await storage.logActivity(
+        userId,
+        entry.type === "payment" ? "PAYMENT_RECORDED" : "LEDGER_ENTRY_RECORDED",
+        `Recorded ${entry.type.replace("_", " ")} of ${Math.abs(parseFloat(entry.amount)).toFixed(2)} for client ${client.name}`,
+        { clientId: client.id, ledgerEntryId: entry.id, invoiceId: entry.invoiceId }
+      );
+      res.status(201).json(entry);
+    } catch (error) {
+      console.error("Error recording ledger entry:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid ledger entry", errors: error.errors });
+      }
+      if (error instanceof LedgerError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to record ledger entry" });
+    }
+  });
+
+  app.get('/api/clients/:id/statement', isAuthenticated, authorize("client:read", clientParam()), async (req: any, res) => {
+    try {
+      const clientId = parseInt(req.params.id);
+      const client = await storage.getClient(clientId);
+      if (!client) {
+        return res.status(404).json({ message: "Client not found" });
+      }
+      
+      const { from, to, format } = statementQuerySchema.parse(req.query);
+      const statement = await buildStatement(client, from, to);
+      const filename = `statement-${clientId}-${from}-to-${to}.${format}`;
+      
+      res.set("Content-Disposition", `attachment; filename="${filename}"`);
+      if (format === "csv") {
+        return res.type("text/csv").send(renderStatementCsv(statement));
+      }
+      res.type("application/pdf").send(renderStatementPdf(statement));
+    } catch (error) {
+      console.error("Error rendering statement:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid statement range", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to render statement" });
+    }
+  });
+
+  // Receivables across clients: balance, aging buckets and credit headroom
+  app.get('/api/ledger/aging', isAuthenticated, authorize("billing:manage"), async (req: any, res) => {
     try {
-      const { username, password } = req.body;
+      const clients = await storage.getAllClients();
+      const summary = [];
+      for (const client of clients) {
+        summary.push({
+          clientId: client.id,
+          clientName: client.name,
+          creditLimit: client.creditLimit,
+          creditPolicy: client.creditPolicy,
+          ...(await getClientAging(client.id)),
+        });
+      }
+      res.json(summary);
+    } catch (error) {
+      console.error("Error fetching aging:", error);
+      res.status(500).json({ message: "Failed to fetch aging" });
+    }
+  });
+
+  // Orders waiting for a zone: no rule matched, several matched, or no coordinates
+  app.get('/api/zones/exceptions', isAuthenticated, authorize("zones:manage"), async (req: any, res) => {
+    try {
+      const unzoned = await storage.getUnzonedOrders();
+      res.json(unzoned);
+    } catch (error) {
+      console.error("Error fetching unzoned orders:", error);
+      res.status(500).json({ message: "Failed to fetch unzoned orders" });
+    }
+  });
+
+  // Re-applies the current zone rules to open orders (all, a list, or only unzoned ones)
+  app.post('/api/zones/rezone', isAuthenticated, authorize("zones:manage"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const options = rezoneOrdersSchema.parse(req.body ?? {});
+      const result = await storage.rezoneOrders(options);
       
-      if (!username || !password) {
-        return res.status(400).json({ message: 'Username and password required' });
+      await storage.logActivity(
+        userId,
+        "ORDERS_REZONED",
+        `Re-zoned ${result.processed} orders: ${result.changed} changed, ${result.exceptions.length} unzoned`,
+        { ...options, changed: result.changed, exceptions: result.exceptions.length }
+      );
+      res.json(result);
+    } catch (error) {
+      console.error("Error re-zoning orders:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid re-zone request", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to re-zone orders" });
+    }
+  });
+
+  // Manually place an order from the exception queue
+  app.post('/api/orders/:id/zone', isAuthenticated, authorize("orders:dispatch"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const orderId = parseInt(req.params.id);
+      const { zoneId } = setOrderZoneSchema.parse(req.body);
+      if (!(await storage.getZone(zoneId))) {
+        return res.status(404).json({ message: "Zone not found" });
       }
       
-      const client = await storage.getClientByCredentials(username, password);
-      if (!client) {
-        return res.status(401).json({ message: 'Invalid credentials' });
+      const order = await storage.setOrderZone(orderId, zoneId);
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
       }
       
-      // Create a user session for the client
-      const user = await storage.upsertUser({
-        id: `client_${client.id}`,
-        email: client.contactEmail,
-        firstName: client.name.split(' ')[0],
-        lastName: client.name.split(' ').slice(1).join(' '),
-        profileImageUrl: null,
-        role: 'client',
-        clientId: client.id,
-      });
+      await storage.logActivity(userId, "ORDER_ZONE_SET", `Placed order ${order.orderNumber} in zone ${zoneId}`, { orderId, zoneId });
+      res.json(order);
+    } catch (error) {
+      console.error("Error setting order zone:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid zone data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to set order zone" });
+    }
+  });
+
+  // Driver Zone Assignment
+  app.post('/api/drivers/:id/assign-zone', isAuthenticated, authorize("drivers:manage"), async (req: any, res) => {
+    try {
+      const driverId = parseInt(req.params.id);
+      const { zoneId } = req.body;
+      
+      const driver = await storage.assignDriverToZone(driverId, zoneId);
+      res.json(driver);
+    } catch (error) {
+      console.error("Error assigning zone:", error);
+      res.status(500).json({ message: "Failed to assign zone" });
+    }
+  });
+
+  // Route Batch Management
+  // Batch currently taking orders and its cutoff; drives the countdown in every portal
+  app.get('/api/route-batches/schedule', isAuthenticated, async (req, res) => {
+    try {
+      const schedule = await getBatchSchedule();
+      res.json(schedule);
+    } catch (error) {
+      console.error("Error fetching batch schedule:", error);
+      res.status(500).json({ message: "Failed to fetch batch schedule" });
+    }
+  });
+
+  app.get('/api/route-batches', isAuthenticated, authorize("route_batches:manage"), async (req: any, res) => {
+    try {
+      const batches = await storage.getRouteBatches();
+      res.json(batches);
+    } catch (error) {
+      console.error("Error fetching batches:", error);
+      res.status(500).json({ message: "Failed to fetch batches" });
+    }
+  });
+
+  app.post('/api/route-batches', isAuthenticated, authorize("route_batches:manage"), async (req: any, res) => {
+    try {
+      const batchData = insertRouteBatchSchema.parse(req.body);
+      const batch = await storage.createRouteBatch(batchData);
+      res.json(batch);
+    } catch (error) {
+      console.error("Error creating batch:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid batch data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create batch" });
+    }
+  });
+
+  // Plans routes for every order in the batch; replaces the previous plan
+  app.post('/api/route-batches/:id/optimize', isAuthenticated, authorize("route_batches:manage"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const batchId = parseInt(req.params.id);
+      const batch = await storage.getRouteBatch(batchId);
+      if (!batch) {
+        return res.status(404).json({ message: "Batch not found" });
+      }
+      
+      const result = await storage.optimizeBatch(batchId);
+      
+      await storage.logActivity(
+        userId,
+        "BATCH_OPTIMIZED",
+        `Optimized batch ${batch.date} into ${result.routes.length} routes`,
+        { batchId, routeIds: result.routes.map((route) => route.id), unassigned: result.unassigned.length }
+      );
+      
+      res.json(result);
+    } catch (error) {
+      console.error("Error optimizing batch:", error);
+      if (error instanceof RouteBatchLockedError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to optimize batch" });
+    }
+  });
+
+  app.get('/api/route-batches/:id/routes', isAuthenticated, authorize("route_batches:manage"), async (req: any, res) => {
+    try {
+      const routes = await storage.getRoutesByBatch(parseInt(req.params.id));
+      res.json(routes);
+    } catch (error) {
+      console.error("Error fetching batch routes:", error);
+      res.status(500).json({ message: "Failed to fetch batch routes" });
+    }
+  });
+
+  // Client Login Route
+  app.post('/api/client/login', async (req, res) => {
+    try {
+      const { username, password } = clientLoginSchema.parse(req.body);
+      const authenticated = await authenticateClient(username, password, getRequestContext(req));
+      const user = toUserResponse(authenticated.user)!;
+      const client = toClientResponse(authenticated.client);
       
       // Set up session similar to OAuth flow
       const sessionUser = { claims: { sub: user.id }, client };
@@ -568,23 +2052,180 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
       
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Username and password required', errors: error.errors });
+      }
+      if (error instanceof ClientAuthError) {
+        return res.status(error.status).json(error);
+      }
       console.error("Error logging in client:", error);
       res.status(500).json({ message: "Failed to login" });
     }
   });
 
-  // Client impersonation endpoint (super admin only)
-  app.post('/api/impersonate-client/:clientId', isAuthenticated, async (req: any, res) => {
-    const userId = req.user?.claims?.sub;
-    const { clientId } = req.params;
-    
+  // Emails a single-use reset link. Answers the same whether or not the account exists.
+  app.post('/api/client/forgot-password', async (req, res) => {
+    try {
+      const { username } = forgotPasswordSchema.parse(req.body);
+      await requestPasswordReset(username, getRequestContext(req));
+      res.json({ message: "If that account exists, a reset link has been sent to its contact email" });
+    } catch (error) {
+      console.error("Error requesting password reset:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid reset request", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to request password reset" });
+    }
+  });
+
+  app.post('/api/client/reset-password', async (req, res) => {
+    try {
+      const { token, password } = resetPasswordSchema.parse(req.body);
+      await resetPassword(token, password, getRequestContext(req));
+      res.json({ message: "Password updated. You can now sign in." });
+    } catch (error) {
+      console.error("Error resetting password:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid password reset", errors: error.errors });
+      }
+      if (error instanceof ClientAuthError) {
+        return res.status(error.status).json(error);
+      }
+      res.status(500).json({ message: "Failed to reset password" });
+    }
+  });
+
+  app.post('/api/client/change-password', isAuthenticated, authorize("own_client:read"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      
+      const { currentPassword, newPassword } = changePasswordSchema.parse(req.body);
+      await changePassword(req.actor.user!, currentPassword, newPassword, userId, getRequestContext(req));
+      res.json({ message: "Password changed" });
+    } catch (error) {
+      console.error("Error changing password:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid password change", errors: error.errors });
+      }
+      if (error instanceof ClientAuthError) {
+        return res.status(error.status).json(error);
+      }
+      res.status(500).json({ message: "Failed to change password" });
+    }
+  });
+
+  // Client users: listed, invited and managed by super admins and the client's admins
+  app.get('/api/clients/:clientId/users', isAuthenticated, authorize("client:administer", clientParam("clientId")), async (req: any, res) => {
+    try {
+      const { clientId } = req.target;
+      
+      const users = await storage.getClientUsers(clientId);
+      res.json(users.map(toClientUserResponse));
+    } catch (error) {
+      console.error("Error fetching client users:", error);
+      res.status(500).json({ message: "Failed to fetch users" });
+    }
+  });
+
+  app.post('/api/clients/:clientId/users', isAuthenticated, authorize("client:administer", clientParam("clientId")), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { clientId } = req.target;
+      
+      const client = await storage.getClient(clientId);
+      if (!client) {
+        return res.status(404).json({ message: "Client not found" });
+      }
+      
+      const inviteData = inviteClientUserSchema.parse(req.body);
+      const invitedBy = await storage.getUser(userId);
+      const user = await inviteClientUser(client, inviteData, invitedBy!, getRequestContext(req));
+      res.json(toClientUserResponse(user));
+    } catch (error) {
+      console.error("Error inviting client user:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid invite", errors: error.errors });
+      }
+      if (error instanceof ClientUserError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to invite user" });
+    }
+  });
+
+  app.post('/api/clients/:clientId/users/:userId/resend-invite', isAuthenticated, authorize("client:administer", clientParam("clientId")), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { clientId } = req.target;
+      
+      const client = await storage.getClient(clientId);
+      if (!client) {
+        return res.status(404).json({ message: "Client not found" });
+      }
+      
+      const invitedBy = await storage.getUser(userId);
+      const user = await resendClientInvite(client, req.params.userId, invitedBy!, getRequestContext(req));
+      res.json(toClientUserResponse(user));
+    } catch (error) {
+      console.error("Error resending invite:", error);
+      if (error instanceof ClientUserError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to resend invite" });
+    }
+  });
+
+  // Role changes and deactivation; users are never deleted
+  app.patch('/api/clients/:clientId/users/:userId', isAuthenticated, authorize("client:administer", clientParam("clientId")), async (req: any, res) => {
     try {
-      // Check if user is super admin
-      const currentUser = await storage.getUser(userId);
-      if (!currentUser || currentUser.role !== 'super_admin') {
-        return res.status(403).json({ message: 'Only super admins can impersonate clients' });
+      const userId = req.user.claims.sub;
+      const { clientId } = req.target;
+      
+      const client = await storage.getClient(clientId);
+      if (!client) {
+        return res.status(404).json({ message: "Client not found" });
       }
       
+      const updates = updateClientUserSchema.parse(req.body);
+      const changedBy = await storage.getUser(userId);
+      const user = await updateClientUser(client, req.params.userId, updates, changedBy!, getRequestContext(req));
+      res.json(toClientUserResponse(user));
+    } catch (error) {
+      console.error("Error updating client user:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid user update", errors: error.errors });
+      }
+      if (error instanceof ClientUserError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to update user" });
+    }
+  });
+
+  // Landing endpoint for the emailed invite link: sets the new user's name and password
+  app.post('/api/client/accept-invite', async (req, res) => {
+    try {
+      const inviteData = acceptInviteSchema.parse(req.body);
+      const user = await acceptClientInvite(inviteData, getRequestContext(req));
+      res.json({ message: "Invite accepted", email: user.email });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid invite details", errors: error.errors });
+      }
+      if (error instanceof ClientUserError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error accepting invite:", error);
+      res.status(500).json({ message: "Failed to accept invite" });
+    }
+  });
+
+  // Client impersonation (super admin only). The admin's session is kept alongside and
+  // comes back through /api/impersonation/exit or when the impersonation expires.
+  app.post('/api/impersonate-client/:clientId', isAuthenticated, authorize("clients:manage"), async (req: any, res) => {
+    const { clientId } = req.params;
+    
+    try {
       const client = await storage.getClient(parseInt(clientId));
       if (!client) {
         return res.status(404).json({ message: 'Client not found' });
@@ -601,6 +2242,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         clientId: client.id,
       });
       
+      const admin = req.actor.user as User;
+      const adminName = [admin.firstName, admin.lastName].filter(Boolean).join(' ') || admin.email || admin.id;
+      const impersonation = createImpersonation(req.user, adminName, client.id);
+      
       // Update the passport session to impersonate the client
       const impersonationUser = {
         claims: {
@@ -610,22 +2255,32 @@ export async function registerRoutes(app: Express): Promise<Server> {
           last_name: user.lastName,
           profile_image_url: user.profileImageUrl,
         },
-        access_token: 'impersonated',
-        refresh_token: 'impersonated',
-        expires_at: Math.floor(Date.now() / 1000) + 3600 // 1 hour
+        client: toClientResponse(client),
+        impersonation,
       };
 
       // Update both req.user and the session
       req.user = impersonationUser;
       req.session.passport = { user: impersonationUser };
 
+      await storage.logActivity(
+        admin.id,
+        "IMPERSONATION_STARTED",
+        `Started impersonating ${client.name} for ${IMPERSONATION_TTL_MINUTES} minutes`,
+        { clientId: client.id, clientUserId: user.id, expiresAt: impersonation.expiresAt }
+      );
+
       // Save the session data
       req.session.save((err: any) => {
         if (err) {
           console.error('Session save error:', err);
           return res.status(500).json({ message: 'Session update failed' });
         }
-        res.json({ message: 'Client impersonation successful', user });
+        res.json({
+          message: 'Client impersonation successful',
+          user: toUserResponse(user),
+          impersonation: toImpersonationResponse(impersonation),
+        });
       });
     } catch (error) {
       console.error('Client impersonation error:', error);
@@ -633,18 +2288,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Void Order Route
-  app.post('/api/orders/:id/void', isAuthenticated, async (req: any, res) => {
+  // Back to the super admin's own session. Not behind isAuthenticated so an expired
+  // impersonation can still be exited.
+  app.post('/api/impersonation/exit', async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
-      const user = await storage.getUser(userId);
-      
-      // Only clients and super admins can void orders
-      if (!['client', 'super_admin'].includes(user?.role || '')) {
-        return res.status(403).json({ message: 'Access denied' });
+      const impersonation = await endImpersonation(req, "exit");
+      if (!impersonation) {
+        return res.status(409).json({ message: 'Not impersonating a client' });
       }
+      res.json({ message: 'Impersonation ended' });
+    } catch (error) {
+      console.error('Error ending impersonation:', error);
+      res.status(500).json({ message: 'Failed to end impersonation' });
+    }
+  });
+
+  // Void order: super admins, and client users who ship for their own orders
+  app.post('/api/orders/:id/void', isAuthenticated, authorize("order:void", orderParam()), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const orderId = req.target.order.id;
       
-      const orderId = parseInt(req.params.id);
       const order = await storage.voidOrder(orderId, req.body, userId);
       
       await storage.logActivity(
@@ -657,6 +2321,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       res.json(order);
     } catch (error) {
       console.error("Error voiding order:", error);
+      if (error instanceof InvalidStatusTransitionError) {
+        return res.status(error.status).json(error);
+      }
       res.status(500).json({ message: "Failed to void order" });
     }
   });
@@ -673,6 +2340,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Order not found" });
       }
       
+      const [attempts, proof] = await Promise.all([
+        storage.getDeliveryAttempts(order.id),
+        storage.getDeliveryProof(order.id),
+      ]);
+      
       // Return order details for tracking
       res.json({
         orderNumber: order.orderNumber,
@@ -687,7 +2359,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
         distance: order.distance,
         pickupDate: order.pickupDate,
         createdAt: order.createdAt,
-        updatedAt: order.updatedAt
+        updatedAt: order.updatedAt,
+        maxAttempts: MAX_DELIVERY_ATTEMPTS,
+        attempts: attempts.map((attempt) => ({
+          attemptNumber: attempt.attemptNumber,
+          reasonCode: attempt.reasonCode,
+          attemptedAt: attempt.attemptedAt,
+        })),
+        // Public view gets the photo only; signature and geotag stay behind login
+        proofOfDelivery: proof ? {
+          recipientName: proof.recipientName,
+          capturedAt: proof.capturedAt,
+          photoUrl: `/api/orders/track/${encodeURIComponent(order.orderNumber)}/proof-photo`,
+        } : null,
       });
     } catch (error) {
       console.error("Error tracking order:", error);
@@ -695,6 +2379,98 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  const httpServer = createServer(app);
-  return httpServer;
+  app.get("/api/orders/track/:orderNumber/proof-photo", async (req, res) => {
+    try {
+      const order = await storage.getOrderByNumber(req.params.orderNumber);
+      const proof = order && await storage.getDeliveryProof(order.id);
+      const blob = proof && await readProofArtifact(proof, "photo");
+      if (!blob) {
+        return res.status(404).json({ message: "Not found" });
+      }
+      
+      res.set("Cache-Control", "public, max-age=3600");
+      res.type(blob.contentType).send(blob.data);
+    } catch (error) {
+      console.error("Error fetching tracking photo:", error);
+      res.status(500).json({ message: "Failed to fetch photo" });
+    }
+  });
+
+  // Versioned REST API for client integrations, authenticated by API key.
+  // Every query is scoped to the key's client, like getOrdersForClient.
+  app.get("/api/v1/orders", isApiKeyAuthenticated("orders:read"), async (req: any, res) => {
+    try {
+      const { status, search } = req.query;
+      const orders = await storage.getOrdersForClient(req.apiKey.clientId, { status, search });
+      res.json(orders);
+    } catch (error) {
+      console.error("Error fetching orders:", error);
+      res.status(500).json({ message: "Failed to fetch orders" });
+    }
+  });
+
+  app.get("/api/v1/orders/:orderNumber", isApiKeyAuthenticated("orders:read"), async (req: any, res) => {
+    try {
+      const order = await storage.getOrderByNumber(req.params.orderNumber);
+      if (!order || order.clientId !== req.apiKey.clientId) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+      res.json(order);
+    } catch (error) {
+      console.error("Error fetching order:", error);
+      res.status(500).json({ message: "Failed to fetch order" });
+    }
+  });
+
+  app.post("/api/v1/orders", isApiKeyAuthenticated("orders:write"), async (req: any, res) => {
+    try {
+      const orderData = insertOrderSchema.parse(req.body);
+      const { order, creditWarning } = await createOrderForClient(orderData, req.apiKey.clientId, `apikey_${req.apiKey.id}`);
+      res.status(201).json(creditWarning ? { ...order, creditWarning } : order);
+    } catch (error) {
+      console.error("Error creating order:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid order data", errors: error.errors });
+      }
+      if (error instanceof CreditLimitExceededError) {
+        return res.status(error.status).json(error);
+      }
+      res.status(500).json({ message: "Failed to create order" });
+    }
+  });
+
+  app.get("/api/v1/tracking/:orderNumber", isApiKeyAuthenticated("tracking:read"), async (req: any, res) => {
+    try {
+      const order = await storage.getOrderByNumber(req.params.orderNumber);
+      if (!order || order.clientId !== req.apiKey.clientId) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+      
+      const [history, attempts] = await Promise.all([
+        storage.getOrderStatusHistory(order.id),
+        storage.getDeliveryAttempts(order.id),
+      ]);
+      
+      res.json({
+        orderNumber: order.orderNumber,
+        status: order.status,
+        estimatedDeliveryTime: order.estimatedDeliveryTime,
+        actualDeliveryTime: order.actualDeliveryTime,
+        history: history.map((entry) => ({
+          status: entry.status,
+          notes: entry.notes,
+          timestamp: entry.timestamp,
+        })),
+        maxAttempts: MAX_DELIVERY_ATTEMPTS,
+        attempts: attempts.map((attempt) => ({
+          attemptNumber: attempt.attemptNumber,
+          reasonCode: attempt.reasonCode,
+          attemptedAt: attempt.attemptedAt,
+        })),
+      });
+    } catch (error) {
+      console.error("Error tracking order:", error);
+      res.status(500).json({ message: "Failed to track order" });
+    }
+  });
 }
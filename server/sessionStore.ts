@@ -0,0 +1,73 @@
+import session from "express-session";
+import { storage } from "./storage";
+
+// express-session store on the `sessions` table, so sign-ins survive restarts and
+// deploys and an admin can revoke them. Rows are keyed by the session id and hold the
+// session JSON, including the passport user, until `expire`. Expired rows are never
+// read and are deleted by the pruner.
+
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+// Whose sessions to list or revoke: a user's own (including while they impersonate a
+// client), or every session signed in to a client's portal
+export type SessionOwner = { userId: string } | { clientId: number };
+
+// A session as admins see it. `id` stands in for the session id, which never leaves
+// the server.
+export interface ActiveSession {
+  id: string;
+  userId: string | null;
+  clientId: number | null;
+  impersonatorId: string | null;
+  expiresAt: Date;
+}
+
+export class DatabaseSessionStore extends session.Store {
+  constructor(private ttlMs: number) {
+    super();
+  }
+
+  // The cookie's own expiry, so the row goes when the browser stops sending it
+  private expiryOf(sess: session.SessionData): Date {
+    const expires = sess.cookie?.expires;
+    return expires ? new Date(expires) : new Date(Date.now() + this.ttlMs);
+  }
+
+  get(sid: string, callback: (err: any, session?: session.SessionData | null) => void) {
+    storage.getSessionData(sid)
+      .then((sess) => callback(null, (sess as session.SessionData | undefined) ?? null))
+      .catch(callback);
+  }
+
+  set(sid: string, sess: session.SessionData, callback?: (err?: any) => void) {
+    storage.saveSession(sid, sess, this.expiryOf(sess))
+      .then(() => callback?.())
+      .catch((error) => callback?.(error));
+  }
+
+  destroy(sid: string, callback?: (err?: any) => void) {
+    storage.deleteSession(sid)
+      .then(() => callback?.())
+      .catch((error) => callback?.(error));
+  }
+
+  // No touch(): cookies aren't rolling, so an unchanged session keeps the expiry it was
+  // saved with, same as the browser's cookie, and requests don't each write a row
+}
+
+export async function pruneExpiredSessions(): Promise<void> {
+  try {
+    const removed = await storage.deleteExpiredSessions(new Date());
+    if (removed > 0) {
+      console.log(`Pruned ${removed} expired sessions`);
+    }
+  } catch (error) {
+    console.error("Error pruning expired sessions:", error);
+  }
+}
+
+export function startSessionPruner() {
+  pruneExpiredSessions();
+  const timer = setInterval(pruneExpiredSessions, PRUNE_INTERVAL_MS);
+  timer.unref();
+}
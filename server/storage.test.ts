@@ -0,0 +1,103 @@
+import { test, mock, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { getTableConfig } from "drizzle-orm/pg-core";
+import "./testSupport";
+import { db } from "./db";
+import { DatabaseStorage, InvalidStatusTransitionError, getPieceScanRollup, getPieceSettlement } from "./storage";
+import { deliveryAttempts, type DeliveryAttempt, type Order, type Package, type RouteBatch } from "@shared/schema";
+
+// Storage rules that don't need a database. Piece scans roll their order up: partial
+// until every piece is scanned, complete after, and moving the order on settles its
+// pieces, as missing when some were never scanned. Failed delivery attempts are
+// numbered one after another, with the batch that writes one mocked out.
+
+afterEach(() => mock.restoreAll());
+
+function pieces(...statuses: string[]): Pick<Package, "status">[] {
+  return statuses.map((status) => ({ status }));
+}
+
+test("pickup scans leave the order partially picked until no piece is pending", () => {
+  assert.equal(getPieceScanRollup("pickup", pieces("picked", "pending")), "partially_picked");
+  assert.equal(getPieceScanRollup("pickup", pieces("picked", "picked")), "picked");
+  // A piece already written off doesn't hold the order back
+  assert.equal(getPieceScanRollup("pickup", pieces("picked", "missing")), "picked");
+});
+
+test("delivery scans leave the order partially delivered until every piece is", () => {
+  assert.equal(getPieceScanRollup("delivery", pieces("delivered", "picked")), "partially_delivered");
+  assert.equal(getPieceScanRollup("delivery", pieces("delivered", "pending")), "partially_delivered");
+  assert.equal(getPieceScanRollup("delivery", pieces("delivered", "delivered")), "delivered");
+});
+
+test("moving on from a partial scan marks the unscanned pieces missing", () => {
+  assert.deepEqual(getPieceSettlement("partially_picked", "in_transit"), {
+    from: "partially_picked", to: "in_transit", pieces: ["pending"], becomes: "missing", exception: "missing_at_pickup",
+  });
+  assert.deepEqual(getPieceSettlement("partially_delivered", "delivered"), {
+    from: "partially_delivered", to: "delivered", pieces: ["pending", "picked"], becomes: "missing", exception: "missing_at_delivery",
+  });
+});
+
+test("confirming the whole order settles every piece without an exception", () => {
+  assert.deepEqual(getPieceSettlement("assigned", "picked"), { to: "picked", pieces: ["pending"], becomes: "picked" });
+  assert.deepEqual(getPieceSettlement("in_transit", "delivered"), { to: "delivered", pieces: ["pending", "picked"], becomes: "delivered" });
+  assert.deepEqual(getPieceSettlement("failed", "pending"), { to: "pending", pieces: ["picked"], becomes: "pending" });
+  assert.equal(getPieceSettlement("picked", "in_transit"), undefined);
+});
+
+// What db.batch is handed, as far as rendering its SQL goes
+type BatchQuery = { _prepare(): { getQuery(): { sql: string; params: unknown[] } } };
+
+// A storage whose order is in transit after `previous` failed attempts, with the next
+// open batch on 2026-10-19. Every statement sent in a batch is logged.
+function failedAttemptStorage(previous: number) {
+  const order = { id: 31, orderNumber: "ORD-31", status: "in_transit", clientId: null, driverId: 5 } as Order;
+  const store = new DatabaseStorage();
+  mock.method(store, "getOrder", async () => order);
+  mock.method(store, "getDeliveryAttempts", async () =>
+    Array.from({ length: previous }, (_, index) => ({ orderId: order.id, attemptNumber: index + 1 }) as DeliveryAttempt));
+  mock.method(store, "getNextOpenBatch", async () => ({ id: 8, date: "2026-10-19" }) as RouteBatch);
+
+  const statements: { sql: string; params: unknown[] }[] = [];
+  const batch = mock.method(db, "batch", async (queries: BatchQuery[]) => {
+    statements.push(...queries.map((query) => query._prepare().getQuery()));
+    return [[{ ...order, status: "pending" }], ...queries.slice(1).map(() => [])];
+  });
+  mock.method(db, "select", () => ({
+    from: () => ({ where: async () => [{ orderId: order.id, attemptNumber: previous + 1 }] }),
+  }));
+  return { store, order, statements, batch };
+}
+
+const ATTEMPT = { reasonCode: "no_one_home" } as const;
+
+test("each attempt takes the next number, and each number can be recorded once", async () => {
+  const { store, statements } = failedAttemptStorage(1);
+
+  const { order, attempt } = await store.recordFailedAttempt(31, ATTEMPT, "driver-user", "driver");
+
+  assert.equal(order.status, "pending");
+  assert.equal(attempt.attemptNumber, 2);
+  const insert = statements.find((statement) => statement.sql.includes('insert into "delivery_attempts"'))!;
+  assert.deepEqual(insert.params.slice(0, 2), [31, 2]);
+
+  // Two recordings that read the same attempts would both number theirs 2
+  const unique = getTableConfig(deliveryAttempts).indexes.find((index) => index.config.unique)!;
+  assert.deepEqual(unique.config.columns.map((column) => (column as { name: string }).name), ["order_id", "attempt_number"]);
+});
+
+test("the attempt is only written if the order update it belongs to applied", async () => {
+  const { store, order, statements, batch } = failedAttemptStorage(1);
+  // Another recording already moved the order on: the update matches nothing
+  batch.mock.mockImplementation(async (queries: BatchQuery[]) => {
+    statements.push(...queries.map((query) => query._prepare().getQuery()));
+    order.status = "pending";
+    return [[], ...queries.slice(1).map(() => [])];
+  });
+
+  await assert.rejects(store.recordFailedAttempt(31, ATTEMPT, "driver-user", "driver"), InvalidStatusTransitionError);
+
+  const insert = statements.find((statement) => statement.sql.includes('insert into "delivery_attempts"'))!;
+  assert.match(insert.sql, /where exists \(select 1 from "orders" where/);
+});
@@ -1,4 +1,5 @@
 import {
+  sessions,
   users,
   drivers,
   orders,
@@ -7,8 +8,28 @@ import {
   activityLogs,
   clients,
   zones,
+  driverLocationHistory,
+  driverSyncMutations,
   routeBatches,
   optimizedRoutes,
+  deliveryAttempts,
+  deliveryProofs,
+  packages,
+  packageScans,
+  addressBook,
+  orderTemplates,
+  rateCards,
+  invoices,
+  invoiceLines,
+  ledgerEntries,
+  clientApiKeys,
+  clientPasswordResets,
+  webhookEndpoints,
+  webhookDeliveries,
+  WEBHOOK_EVENTS,
+  DELIVERY_FAILURE_REASON_LABELS,
+  getPieceTrackingId,
+  parsePieceTrackingId,
   type User,
   type UpsertUser,
   type Driver,
@@ -29,27 +50,270 @@ import {
   type OptimizedRoute,
   type InsertOptimizedRoute,
   type VoidOrder,
+  type DeliveryAttempt,
+  type RecordDeliveryAttempt,
+  type DeliveryProof,
+  type OrderPackage,
+  type Package,
+  type PackageScan,
+  type PackageScanAction,
+  type PackageStatus,
+  type PieceException,
+  type WebhookEndpoint,
+  type WebhookDelivery,
+  type WebhookEvent,
+  type InsertWebhookEndpoint,
+  type ClientApiKey,
+  type ClientPasswordReset,
+  type PasswordTokenPurpose,
+  type CreateApiKey,
+  type AddressBookEntry,
+  type InsertAddressBookEntry,
+  type OrderTemplate,
+  type InsertOrderTemplate,
+  type RateCard,
+  type InsertRateCard,
+  type UpdateRateCard,
+  type Invoice,
+  type InvoiceLine,
+  type InvoiceStatus,
+  type LedgerEntry,
+  type RezoneOrders,
+  type AutoAssignOptions,
+  type DriverLocationPing,
+  type DriverLocationHistory,
+  type DriverSyncMutationRecord,
+  type ZoneException,
 } from "@shared/schema";
+import { ACTIVE_ORDER_STATUSES, ORDER_STATUS_LABELS, SYSTEM_ROLE, getAllowedTransitions, getScanStatusPath, type OrderStatus } from "@shared/orderStatus";
 import { db } from "./db";
-import { eq, desc, and, or, like, sql } from "drizzle-orm";
+import { solveVehicleRouting, parseTimeOfDay, formatTimeOfDay, DEFAULT_ROUTING_OPTIONS, type RouteStop, type RouteVehicle } from "./routeOptimizer";
+import { validateAddress, mapConcurrently, GEOCODE_CONCURRENCY } from "./geocoding";
+import { BATCH_CUTOFF_TIME, getNextServiceDay, getZonedDateTime, getZonedInstant } from "./batchCalendar";
+import { matchZone, zoneNeedsCoordinates } from "./zoning";
+import { publishDomainEvent } from "./events";
+import { getCurrentImpersonation } from "./impersonation";
+import type { ActiveSession, SessionOwner } from "./sessionStore";
+import type { QuoteResult } from "./rating";
+import { randomUUID } from "crypto";
+import { eq, desc, asc, and, or, gt, gte, lt, lte, like, inArray, isNull, isNotNull, sql, getTableColumns, type SQL } from "drizzle-orm";
+import type { BatchItem } from "drizzle-orm/batch";
+
+// Failed attempts allowed before an order is sent back to the shipper
+export const MAX_DELIVERY_ATTEMPTS = parseInt(process.env.MAX_DELIVERY_ATTEMPTS || "3");
+
+// Raised when an order is moved to a status the lifecycle table does not allow
+// from its current status (or not for the acting role). Serializes to the 409 body.
+export class InvalidStatusTransitionError extends Error {
+  status = 409;
+  code = "INVALID_STATUS_TRANSITION";
+
+  constructor(public from: string, public to: string, public allowed: OrderStatus[]) {
+    super(`Cannot change order status from ${from} to ${to}`);
+    this.name = "InvalidStatusTransitionError";
+  }
+
+  toJSON() {
+    return {
+      message: this.message,
+      code: this.code,
+      from: this.from,
+      to: this.to,
+      allowed: this.allowed,
+    };
+  }
+}
+
+// Raised when an order is marked delivered before proof of delivery was captured and
+// its client requires it. Serializes to the 422 body.
+export class ProofOfDeliveryRequiredError extends Error {
+  status = 422;
+  code = "PROOF_OF_DELIVERY_REQUIRED";
+
+  constructor(public orderId: number) {
+    super("Proof of delivery is required before this order can be marked delivered");
+    this.name = "ProofOfDeliveryRequiredError";
+  }
+
+  toJSON() {
+    return { message: this.message, code: this.code, orderId: this.orderId };
+  }
+}
+
+// Geocoder output stored alongside a validated address book entry
+export interface ValidatedLocation {
+  formattedAddress?: string;
+  latitude?: number;
+  longitude?: number;
+}
+
+// Raised when a batch can't be re-optimized because some of its routes are already with drivers
+export class RouteBatchLockedError extends Error {
+  status = 409;
+
+  constructor(batchId: number) {
+    super(`Batch ${batchId} already has assigned routes and can't be re-optimized`);
+    this.name = "RouteBatchLockedError";
+  }
+}
+
+// duplicate: the piece already had this scan, nothing changed. proofRequired: every piece
+// is delivered but the order stays open until proof of delivery is captured.
+export interface PackageScanResult {
+  package: Package;
+  order: Order;
+  duplicate: boolean;
+  proofRequired: boolean;
+}
+
+// How an order-level status change settles its pieces: confirming the whole order (e.g.
+// a scan of the order barcode) covers every piece, while moving on from a partial scan
+// marks the pieces nobody scanned as missing and raises a piece exception.
+const PIECE_SETTLEMENTS: {
+  from?: OrderStatus;
+  to: OrderStatus;
+  pieces: PackageStatus[];
+  becomes: PackageStatus;
+  exception?: PieceException;
+}[] = [
+  { from: "partially_picked", to: "in_transit", pieces: ["pending"], becomes: "missing", exception: "missing_at_pickup" },
+  { from: "partially_delivered", to: "delivered", pieces: ["pending", "picked"], becomes: "missing", exception: "missing_at_delivery" },
+  { to: "picked", pieces: ["pending"], becomes: "picked" },
+  { to: "delivered", pieces: ["pending", "picked"], becomes: "delivered" },
+  { to: "pending", pieces: ["picked"], becomes: "pending" }, // rescheduled: scan again on the next run
+];
+
+// Per scan action: the piece status it sets, pieces still outstanding, the order
+// statuses that accept it and the order status once nothing is outstanding
+const PIECE_SCAN_RULES: Record<PackageScanAction, {
+  status: PackageStatus;
+  outstanding: PackageStatus[];
+  orderStatuses: OrderStatus[];
+  partial: OrderStatus;
+  complete: OrderStatus;
+}> = {
+  pickup: {
+    status: "picked",
+    outstanding: ["pending"],
+    orderStatuses: ["assigned", "partially_picked"],
+    partial: "partially_picked",
+    complete: "picked",
+  },
+  delivery: {
+    status: "delivered",
+    outstanding: ["pending", "picked"],
+    orderStatuses: ["in_transit", "partially_delivered"],
+    partial: "partially_delivered",
+    complete: "delivered",
+  },
+};
+
+// How moving an order from `from` to `to` settles its pieces, if it does
+export function getPieceSettlement(from: string, to: OrderStatus) {
+  return PIECE_SETTLEMENTS.find((rule) => rule.to === to && (!rule.from || rule.from === from));
+}
+
+// The order status a scan rolls up to, given every piece of the order once it's scanned
+export function getPieceScanRollup(action: PackageScanAction, pieces: Pick<Package, "status">[]): OrderStatus {
+  const rule = PIECE_SCAN_RULES[action];
+  const outstanding = pieces.filter((piece) => rule.outstanding.includes(piece.status as PackageStatus));
+  return outstanding.length === 0 ? rule.complete : rule.partial;
+}
+
+// Times a piece scan works its order's rollup out again after losing a race with a scan
+// of another piece
+const SCAN_ROLLUP_ATTEMPTS = 3;
+
+export interface BatchOptimizationResult {
+  routes: OptimizedRoute[];
+  unassigned: { orderId: number; orderNumber: string; reason: string }[];
+}
+
+export type RouteBatchSummary = RouteBatch & { orderCount: number; routeCount: number };
+
+export interface DriverLoad {
+  driverId: number;
+  orderCount: number;
+  totalWeight: number;
+}
+
+// An order the monthly run may bill: delivered in the period, or (when asked for) returned
+// after failed attempts made in the period
+export interface BillableOrder {
+  order: Order;
+  type: "charge" | "failed_attempt";
+  serviceDate: Date;
+}
+
+// A charge on an issued or paid invoice whose order has since been voided
+export interface UncreditedCharge {
+  line: InvoiceLine;
+  invoiceNumber: string;
+  orderNumber: string;
+}
+
+export type NewInvoice = Omit<typeof invoices.$inferInsert, "id" | "invoiceNumber" | "subtotal" | "credits" | "total">;
+export type NewInvoiceLine = Omit<typeof invoiceLines.$inferInsert, "id" | "invoiceId">;
+export type NewLedgerEntry = Omit<typeof ledgerEntries.$inferInsert, "id" | "createdAt">;
+
+export type InvoiceStatusChange = Pick<Invoice, "status"> & Partial<Pick<Invoice, "issuedAt" | "dueAt" | "paidAt" | "voidedAt" | "voidReason">>;
+
+export interface RezoneResult {
+  processed: number;
+  zoned: number;
+  changed: number;
+  exceptions: { orderId: number; orderNumber: string; exception: ZoneException; candidates: number[] }[];
+}
 
 export interface IStorage {
   // User operations
   getUser(id: string): Promise<User | undefined>;
   upsertUser(user: UpsertUser): Promise<User>;
+  getUserByEmail(email: string): Promise<User | undefined>;
+  
+  // Client user operations
+  getClientUsers(clientId: number): Promise<User[]>;
+  createClientUserInvite(user: UpsertUser, invite: typeof clientPasswordResets.$inferInsert): Promise<User>;
+  updateClientUser(id: string, updates: Partial<Pick<User, "clientRole" | "isActive">>): Promise<User>;
   
   // Client operations
   createClient(client: InsertClient): Promise<Client>;
   getClient(id: number): Promise<Client | undefined>;
-  getClientByCredentials(username: string, password: string): Promise<Client | undefined>;
+  getClientByLogin(username: string): Promise<Client | undefined>;
   getAllClients(): Promise<Client[]>;
   updateClient(id: number, updates: Partial<InsertClient>): Promise<Client>;
   
+  // Client login security operations
+  recordFailedClientLogin(clientId: number, maxAttempts: number, lockoutMs: number): Promise<Client>;
+  clearClientLoginFailures(clientId: number): Promise<void>;
+  rehashClientPassword(clientId: number, passwordHash: string): Promise<void>;
+  changeClientPassword(clientId: number, passwordHash: string): Promise<Client>;
+  createClientPasswordReset(reset: typeof clientPasswordResets.$inferInsert): Promise<ClientPasswordReset>;
+  consumeClientPasswordReset(tokenHash: string, purpose: PasswordTokenPurpose): Promise<ClientPasswordReset | undefined>;
+  recordFailedUserLogin(userId: string, maxAttempts: number, lockoutMs: number): Promise<User>;
+  clearUserLoginFailures(userId: string): Promise<void>;
+  recordUserLogin(userId: string): Promise<User>;
+  rehashUserPassword(userId: string, passwordHash: string): Promise<void>;
+  changeUserPassword(userId: string, passwordHash: string, profile?: Partial<Pick<User, "firstName" | "lastName">>): Promise<User>;
+  
+  // Session operations
+  getSessionData(sid: string): Promise<unknown>;
+  saveSession(sid: string, sess: unknown, expire: Date): Promise<void>;
+  deleteSession(sid: string): Promise<void>;
+  deleteExpiredSessions(before: Date): Promise<number>;
+  getActiveSessions(owner: SessionOwner): Promise<ActiveSession[]>;
+  revokeSessions(owner: SessionOwner, sessionId?: string): Promise<number>;
+  
   // Zone operations
   createZone(zone: InsertZone): Promise<Zone>;
   getZone(id: number): Promise<Zone | undefined>;
   getAllZones(): Promise<Zone[]>;
   updateZone(id: number, updates: Partial<InsertZone>): Promise<Zone>;
+  assignOrderZone(order: Order): Promise<Order>;
+  assignOrderZones(orderList: Order[]): Promise<Order[]>;
+  rezoneOrders(options: RezoneOrders): Promise<RezoneResult>;
+  getUnzonedOrders(): Promise<Order[]>;
+  setOrderZone(orderId: number, zoneId: number): Promise<Order | undefined>;
   
   // Driver operations
   createDriver(driver: InsertDriver): Promise<Driver>;
@@ -60,29 +324,127 @@ export interface IStorage {
   getAvailableDrivers(): Promise<Driver[]>;
   assignDriverToZone(driverId: number, zoneId: number): Promise<Driver>;
   getDriversByZone(zoneId: number): Promise<Driver[]>;
+  recordDriverLocation(driverId: number, ping: DriverLocationPing): Promise<DriverLocationHistory>;
+  getDriverLocationHistory(driverId: number, since: Date, limit?: number): Promise<DriverLocationHistory[]>;
+  pruneDriverLocationHistory(before: Date): Promise<number>;
+  getActiveClientIdsForDriver(driverId: number): Promise<number[]>;
+  getActiveDriverIdsForClient(clientId: number): Promise<number[]>;
   
   // Customer operations
   createCustomer(customer: InsertCustomer): Promise<Customer>;
   getCustomer(id: number): Promise<Customer | undefined>;
   getCustomerByPhone(phone: string): Promise<Customer | undefined>;
   
+  // API key operations
+  createApiKey(clientId: number, key: CreateApiKey & { keyPrefix: string; keyHash: string }, createdBy: string): Promise<ClientApiKey>;
+  getApiKeysForClient(clientId: number): Promise<ClientApiKey[]>;
+  getApiKey(clientId: number, id: number): Promise<ClientApiKey | undefined>;
+  getActiveApiKeyByHash(keyHash: string): Promise<ClientApiKey | undefined>;
+  revokeApiKey(clientId: number, id: number): Promise<ClientApiKey | undefined>;
+  touchApiKey(id: number): Promise<void>;
+  
+  // Webhook operations
+  createWebhookEndpoint(clientId: number, endpoint: InsertWebhookEndpoint, secret: string): Promise<WebhookEndpoint>;
+  getWebhookEndpoints(clientId: number): Promise<WebhookEndpoint[]>;
+  getWebhookEndpoint(clientId: number, id: number): Promise<WebhookEndpoint | undefined>;
+  updateWebhookEndpoint(clientId: number, id: number, updates: Partial<InsertWebhookEndpoint>): Promise<WebhookEndpoint | undefined>;
+  deleteWebhookEndpoint(clientId: number, id: number): Promise<boolean>;
+  enqueueWebhookEvents(clientId: number, eventType: WebhookEvent, items: Record<string, any>[], options?: { endpointId?: number; test?: boolean; claimed?: boolean }): Promise<WebhookDelivery[]>;
+  claimDueWebhookDeliveries(limit: number): Promise<{ delivery: WebhookDelivery; endpoint: WebhookEndpoint }[]>;
+  updateWebhookDelivery(id: number, updates: Partial<typeof webhookDeliveries.$inferInsert>): Promise<void>;
+  getWebhookDeliveries(clientId: number, filters?: { endpointId?: number; status?: string }, limit?: number): Promise<WebhookDelivery[]>;
+  requeueWebhookDelivery(clientId: number, id: number, staleSendingAfterMs: number): Promise<WebhookDelivery | undefined>;
+  
+  // Address book operations (scoped to a client)
+  getAddressBook(clientId: number): Promise<AddressBookEntry[]>;
+  getAddressBookEntry(clientId: number, id: number): Promise<AddressBookEntry | undefined>;
+  createAddressBookEntry(clientId: number, entry: InsertAddressBookEntry, location: ValidatedLocation): Promise<AddressBookEntry>;
+  updateAddressBookEntry(clientId: number, id: number, updates: Partial<InsertAddressBookEntry>, location?: ValidatedLocation): Promise<AddressBookEntry | undefined>;
+  deleteAddressBookEntry(clientId: number, id: number): Promise<boolean>;
+  
+  // Order template operations (scoped to a client)
+  getOrderTemplates(clientId: number): Promise<OrderTemplate[]>;
+  getOrderTemplate(clientId: number, id: number): Promise<OrderTemplate | undefined>;
+  createOrderTemplate(clientId: number, template: InsertOrderTemplate, createdBy: string): Promise<OrderTemplate>;
+  updateOrderTemplate(clientId: number, id: number, updates: Partial<InsertOrderTemplate>): Promise<OrderTemplate | undefined>;
+  deleteOrderTemplate(clientId: number, id: number): Promise<boolean>;
+  
+  // Rate card operations
+  getRateCards(clientId?: number | null): Promise<RateCard[]>;
+  getRateCard(id: number): Promise<RateCard | undefined>;
+  createRateCard(card: InsertRateCard, createdBy: string): Promise<RateCard>;
+  updateRateCard(id: number, updates: UpdateRateCard): Promise<RateCard | undefined>;
+  getEffectiveRateCard(clientId: number | null, at: Date): Promise<RateCard | undefined>;
+  
+  // Invoice operations
+  getInvoices(filters?: { clientId?: number; status?: InvoiceStatus }): Promise<Invoice[]>;
+  getInvoice(id: number): Promise<Invoice | undefined>;
+  getInvoiceLines(invoiceId: number): Promise<InvoiceLine[]>;
+  getDraftMonthlyInvoice(clientId: number, periodStart: string): Promise<Invoice | undefined>;
+  getActiveInvoiceLineForOrder(orderId: number): Promise<{ line: InvoiceLine; invoice: Invoice } | undefined>;
+  getBillableOrders(clientId: number, from: Date, to: Date, includeFailedAttempts: boolean): Promise<BillableOrder[]>;
+  getUncreditedCharges(clientId: number): Promise<UncreditedCharge[]>;
+  createInvoice(invoice: NewInvoice, lines: NewInvoiceLine[]): Promise<Invoice>;
+  addInvoiceLines(invoiceId: number, lines: NewInvoiceLine[]): Promise<Invoice>;
+  transitionInvoice(id: number, from: string, updates: InvoiceStatusChange, entry?: NewLedgerEntry | null): Promise<Invoice | undefined>;
+  
+  // Ledger operations
+  getLedgerEntries(clientId: number, range?: { from?: string; to?: string }): Promise<LedgerEntry[]>;
+  getLedgerBalance(clientId: number, before?: string): Promise<number>;
+  getInvoiceLedgerBalance(invoiceId: number): Promise<number>;
+  createLedgerEntry(entry: NewLedgerEntry): Promise<LedgerEntry>;
+  getUnbilledOrderTotal(clientId: number): Promise<number>;
+  
   // Order operations
-  createOrder(order: InsertOrder): Promise<Order>;
+  createOrder(order: InsertOrder, pricing?: QuoteResult): Promise<Order>;
+  createOrders(orders: InsertOrder[], pricing?: QuoteResult[]): Promise<Order[]>;
   getOrder(id: number): Promise<Order | undefined>;
   getOrderByNumber(orderNumber: string): Promise<Order | undefined>;
   getAllOrders(filters?: any): Promise<Order[]>;
   getOrdersForClient(clientId: number, filters?: any): Promise<Order[]>;
-  updateOrderStatus(orderId: number, statusUpdate: UpdateOrderStatus, updatedBy: string): Promise<Order>;
-  assignOrderToDriver(orderId: number, driverId: number, assignedBy: string): Promise<Order>;
+  updateOrderStatus(orderId: number, statusUpdate: UpdateOrderStatus, updatedBy: string, role: string, occurredAt?: Date): Promise<Order>;
+  assignOrderToDriver(orderId: number, driverId: number, assignedBy: string, options?: { pinned?: boolean }): Promise<Order>;
+  setAssignmentPinned(orderId: number, pinned: boolean): Promise<Order | undefined>;
+  getAutoAssignableOrders(filter: Omit<AutoAssignOptions, "dryRun">): Promise<Order[]>;
+  getDriverLoads(): Promise<DriverLoad[]>;
   getOrdersForDriver(driverId: number, status?: string): Promise<Order[]>;
   voidOrder(orderId: number, voidData: VoidOrder, voidedBy: string): Promise<Order>;
   
+  // Delivery attempt operations
+  recordFailedAttempt(orderId: number, attempt: RecordDeliveryAttempt, recordedBy: string, role: string): Promise<{ order: Order; attempt: DeliveryAttempt }>;
+  getDeliveryAttempts(orderId: number): Promise<DeliveryAttempt[]>;
+  
+  // Proof of delivery operations
+  createDeliveryProof(proof: typeof deliveryProofs.$inferInsert, photoUrl: string): Promise<DeliveryProof>;
+  getDeliveryProof(orderId: number): Promise<DeliveryProof | undefined>;
+  isProofOfDeliveryRequired(order: Order): Promise<boolean>;
+  
+  // Package (piece) operations
+  getOrderPackages(order: Order): Promise<Package[]>;
+  getPackageByTrackingId(trackingId: string): Promise<{ package: Package; order: Order } | undefined>;
+  getPackageScans(orderId: number): Promise<PackageScan[]>;
+  scanPackage(trackingId: string, action: PackageScanAction, scannedBy: string, options: { role: string; driverId?: number | null; occurredAt?: Date }): Promise<PackageScanResult | undefined>;
+  getPieceExceptionOrders(): Promise<Order[]>;
+  
+  // Offline driver sync operations
+  getDriverSyncMutation(clientMutationId: string): Promise<DriverSyncMutationRecord | undefined>;
+  claimDriverSyncMutation(claim: Pick<typeof driverSyncMutations.$inferInsert, "clientMutationId" | "driverId" | "type" | "clientTimestamp">, staleAfterMs: number): Promise<boolean>;
+  recordDriverSyncMutation(clientMutationId: string, outcome: { orderId: number | null; outcome: string; result: unknown }): Promise<void>;
+  releaseDriverSyncMutation(clientMutationId: string): Promise<void>;
+  
   // Route batch operations
   createRouteBatch(batch: InsertRouteBatch): Promise<RouteBatch>;
   getCurrentBatch(date: string): Promise<RouteBatch | undefined>;
   getRouteBatch(id: number): Promise<RouteBatch | undefined>;
+  getOrCreateBatch(date: string): Promise<RouteBatch>;
+  getNextOpenBatch(afterDate: string): Promise<RouteBatch>;
+  getRouteBatches(limit?: number): Promise<RouteBatchSummary[]>;
+  getRouteBatchesByStatus(status: string): Promise<RouteBatch[]>;
+  updateRouteBatchStatus(id: number, from: string, to: string): Promise<RouteBatch | undefined>;
+  getUnbatchedOrders(): Promise<Order[]>;
   addOrderToBatch(orderId: number, batchId: number): Promise<void>;
-  optimizeBatch(batchId: number): Promise<OptimizedRoute[]>;
+  addOrdersToBatch(orderIds: number[], batchId: number): Promise<void>;
+  optimizeBatch(batchId: number): Promise<BatchOptimizationResult>;
   
   // Optimized route operations
   createOptimizedRoute(route: InsertOptimizedRoute): Promise<OptimizedRoute>;
@@ -103,6 +465,49 @@ export interface IStorage {
   getClientStats(clientId: number): Promise<any>;
 }
 
+// Sessions signed in as the user, including while they impersonate a client, or to the client's portal
+function sessionOwnerFilter(owner: SessionOwner): SQL {
+  if ("userId" in owner) {
+    return sql`(${sessions.sess} #>> '{passport,user,claims,sub}' = ${owner.userId}
+      or ${sessions.sess} #>> '{passport,user,impersonation,impersonatorId}' = ${owner.userId})`;
+  }
+  return sql`${sessions.sess} #>> '{passport,user,client,id}' = ${String(owner.clientId)}`;
+}
+
+// The order row as JSON, shaped the way drizzle returns it (camelCase keys, numerics and
+// times as text, timestamps as UTC ISO strings), so webhook payloads built in SQL match
+// the ones built from an Order. jsonb_build_object takes at most 100 arguments, hence
+// the chunks.
+const ORDER_JSON: SQL = (() => {
+  const pairs = Object.entries(getTableColumns(orders)).map(([key, column]) => {
+    switch (column.columnType) {
+      case "PgTimestamp":
+        return sql`${sql.raw(`'${key}'`)}, to_char(${column}, 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"')`;
+      case "PgNumeric":
+      case "PgTime":
+        return sql`${sql.raw(`'${key}'`)}, ${column}::text`;
+      default:
+        return sql`${sql.raw(`'${key}'`)}, ${column}`;
+    }
+  });
+  const objects = [];
+  for (let i = 0; i < pairs.length; i += 40) {
+    objects.push(sql`jsonb_build_object(${sql.join(pairs.slice(i, i + 40), sql`, `)})`);
+  }
+  return sql.join(objects, sql` || `);
+})();
+
+// The id of an order inserted earlier in the same batch, which the statement can't know
+function orderIdByNumber(orderNumber: string): SQL<number> {
+  return sql<number>`(select ${orders.id} from ${orders} where ${orders.orderNumber} = ${orderNumber})`;
+}
+
+// The point geocoded for the delivery address when the order was priced or zoned
+function storedCoordinates(order: Order): { lat: number; lng: number } | null {
+  const stored = order.deliveryCoordinates as { lat?: number; lng?: number } | null;
+  return typeof stored?.lat === "number" && typeof stored?.lng === "number" ? { lat: stored.lat, lng: stored.lng } : null;
+}
+
 export class DatabaseStorage implements IStorage {
   async getUser(id: string): Promise<User | undefined> {
     const result = await db.select().from(users).where(eq(users.id, id)).limit(1);
@@ -124,6 +529,47 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const result = await db.select().from(users)
+      .where(sql`lower(${users.email}) = ${email.trim().toLowerCase()}`)
+      .limit(1);
+    return result[0];
+  }
+
+  // Client user operations
+  async getClientUsers(clientId: number): Promise<User[]> {
+    return await db.select().from(users)
+      .where(and(eq(users.clientId, clientId), eq(users.role, "client")))
+      .orderBy(users.createdAt);
+  }
+
+  // The user row and its invite token are written together
+  async createClientUserInvite(user: UpsertUser, invite: typeof clientPasswordResets.$inferInsert): Promise<User> {
+    const [[created]] = await db.batch([
+      db.insert(users).values(user).returning(),
+      db.insert(clientPasswordResets).values(invite),
+    ]);
+    return created;
+  }
+
+  // Deactivating a user also cancels any invite or reset link still waiting for them
+  async updateClientUser(id: string, updates: Partial<Pick<User, "clientRole" | "isActive">>): Promise<User> {
+    const now = new Date();
+    const update = db.update(users).set({ ...updates, updatedAt: now }).where(eq(users.id, id)).returning();
+    if (updates.isActive !== false) {
+      const [user] = await update;
+      return user;
+    }
+    
+    const [[user]] = await db.batch([
+      update,
+      db.update(clientPasswordResets)
+        .set({ usedAt: now })
+        .where(and(eq(clientPasswordResets.userId, id), isNull(clientPasswordResets.usedAt))),
+    ]);
+    return user;
+  }
+
   // Client operations
   async createClient(clientData: InsertClient): Promise<Client> {
     const [client] = await db.insert(clients).values(clientData).returning();
@@ -135,14 +581,12 @@ export class DatabaseStorage implements IStorage {
     return result[0];
   }
 
-  async getClientByCredentials(username: string, password: string): Promise<Client | undefined> {
+  // Clients sign in with their username or contact email; the password is checked by the caller
+  async getClientByLogin(username: string): Promise<Client | undefined> {
     const result = await db.select().from(clients)
-      .where(and(
-        or(
-          eq(clients.loginUsername, username),
-          eq(clients.contactEmail, username)
-        ),
-        eq(clients.loginPassword, password)
+      .where(or(
+        eq(clients.loginUsername, username),
+        eq(clients.contactEmail, username)
       )).limit(1);
     return result[0];
   }
@@ -156,6 +600,178 @@ export class DatabaseStorage implements IStorage {
     return client;
   }
 
+  // Client login security operations
+
+  // Counted in SQL so concurrent guesses can't race past the limit; reaching it locks
+  // the account for lockoutMs
+  async recordFailedClientLogin(clientId: number, maxAttempts: number, lockoutMs: number): Promise<Client> {
+    const lockUntil = new Date(Date.now() + lockoutMs);
+    const [client] = await db.update(clients)
+      .set({
+        failedLoginAttempts: sql`${clients.failedLoginAttempts} + 1`,
+        lockedUntil: sql`case when ${clients.failedLoginAttempts} + 1 >= ${maxAttempts} then ${lockUntil.toISOString()}::timestamp else ${clients.lockedUntil} end`,
+      })
+      .where(eq(clients.id, clientId))
+      .returning();
+    return client;
+  }
+
+  async clearClientLoginFailures(clientId: number): Promise<void> {
+    await db.update(clients)
+      .set({ failedLoginAttempts: 0, lockedUntil: null })
+      .where(eq(clients.id, clientId));
+  }
+
+  // Upgrades the stored hash of a password that was just verified; not a password change
+  async rehashClientPassword(clientId: number, passwordHash: string): Promise<void> {
+    await db.update(clients).set({ loginPassword: passwordHash }).where(eq(clients.id, clientId));
+  }
+
+  // A new password also lifts any lockout and cancels outstanding reset links
+  async changeClientPassword(clientId: number, passwordHash: string): Promise<Client> {
+    const now = new Date();
+    const [[client]] = await db.batch([
+      db.update(clients)
+        .set({ loginPassword: passwordHash, passwordChangedAt: now, failedLoginAttempts: 0, lockedUntil: null, updatedAt: now })
+        .where(eq(clients.id, clientId))
+        .returning(),
+      db.update(clientPasswordResets)
+        .set({ usedAt: now })
+        .where(and(
+          eq(clientPasswordResets.clientId, clientId),
+          isNull(clientPasswordResets.userId),
+          isNull(clientPasswordResets.usedAt),
+        )),
+    ]);
+    return client;
+  }
+
+  // Only the newest link for a login works: issuing one cancels the earlier ones
+  async createClientPasswordReset(reset: typeof clientPasswordResets.$inferInsert): Promise<ClientPasswordReset> {
+    const [, [created]] = await db.batch([
+      db.update(clientPasswordResets)
+        .set({ usedAt: new Date() })
+        .where(and(
+          eq(clientPasswordResets.clientId, reset.clientId),
+          reset.userId ? eq(clientPasswordResets.userId, reset.userId) : isNull(clientPasswordResets.userId),
+          isNull(clientPasswordResets.usedAt),
+        )),
+      db.insert(clientPasswordResets).values(reset).returning(),
+    ]);
+    return created;
+  }
+
+  // Marks the token used if it is still valid, so a link works exactly once
+  async consumeClientPasswordReset(tokenHash: string, purpose: PasswordTokenPurpose): Promise<ClientPasswordReset | undefined> {
+    const [reset] = await db.update(clientPasswordResets)
+      .set({ usedAt: new Date() })
+      .where(and(
+        eq(clientPasswordResets.tokenHash, tokenHash),
+        eq(clientPasswordResets.purpose, purpose),
+        isNull(clientPasswordResets.usedAt),
+        gt(clientPasswordResets.expiresAt, new Date()),
+      ))
+      .returning();
+    return reset;
+  }
+
+  // Per-user counterparts of the client login operations above
+  async recordFailedUserLogin(userId: string, maxAttempts: number, lockoutMs: number): Promise<User> {
+    const lockUntil = new Date(Date.now() + lockoutMs);
+    const [user] = await db.update(users)
+      .set({
+        failedLoginAttempts: sql`${users.failedLoginAttempts} + 1`,
+        lockedUntil: sql`case when ${users.failedLoginAttempts} + 1 >= ${maxAttempts} then ${lockUntil.toISOString()}::timestamp else ${users.lockedUntil} end`,
+      })
+      .where(eq(users.id, userId))
+      .returning();
+    return user;
+  }
+
+  async clearUserLoginFailures(userId: string): Promise<void> {
+    await db.update(users)
+      .set({ failedLoginAttempts: 0, lockedUntil: null })
+      .where(eq(users.id, userId));
+  }
+
+  // A successful sign-in also ends any run of failed attempts
+  async recordUserLogin(userId: string): Promise<User> {
+    const [user] = await db.update(users)
+      .set({ lastLoginAt: new Date(), failedLoginAttempts: 0, lockedUntil: null })
+      .where(eq(users.id, userId))
+      .returning();
+    return user;
+  }
+
+  async rehashUserPassword(userId: string, passwordHash: string): Promise<void> {
+    await db.update(users).set({ passwordHash }).where(eq(users.id, userId));
+  }
+
+  async changeUserPassword(userId: string, passwordHash: string, profile: Partial<Pick<User, "firstName" | "lastName">> = {}): Promise<User> {
+    const now = new Date();
+    const [[user]] = await db.batch([
+      db.update(users)
+        .set({ ...profile, passwordHash, passwordChangedAt: now, failedLoginAttempts: 0, lockedUntil: null, updatedAt: now })
+        .where(eq(users.id, userId))
+        .returning(),
+      db.update(clientPasswordResets)
+        .set({ usedAt: now })
+        .where(and(eq(clientPasswordResets.userId, userId), isNull(clientPasswordResets.usedAt))),
+    ]);
+    return user;
+  }
+
+  // Session operations
+  async getSessionData(sid: string): Promise<unknown> {
+    const [row] = await db.select({ sess: sessions.sess }).from(sessions)
+      .where(and(eq(sessions.sid, sid), gt(sessions.expire, new Date())))
+      .limit(1);
+    return row?.sess;
+  }
+
+  async saveSession(sid: string, sess: unknown, expire: Date): Promise<void> {
+    await db.insert(sessions)
+      .values({ sid, sess, expire })
+      .onConflictDoUpdate({ target: sessions.sid, set: { sess, expire } });
+  }
+
+  async deleteSession(sid: string): Promise<void> {
+    await db.delete(sessions).where(eq(sessions.sid, sid));
+  }
+
+  async deleteExpiredSessions(before: Date): Promise<number> {
+    const deleted = await db.delete(sessions)
+      .where(lte(sessions.expire, before))
+      .returning({ sid: sessions.sid });
+    return deleted.length;
+  }
+
+  // Reads the passport user inside each session; newest expiry first
+  async getActiveSessions(owner: SessionOwner): Promise<ActiveSession[]> {
+    const rows = await db.select({
+      id: sql<string>`md5(${sessions.sid})`,
+      userId: sql<string | null>`${sessions.sess} #>> '{passport,user,claims,sub}'`,
+      clientId: sql<string | null>`${sessions.sess} #>> '{passport,user,client,id}'`,
+      impersonatorId: sql<string | null>`${sessions.sess} #>> '{passport,user,impersonation,impersonatorId}'`,
+      expiresAt: sessions.expire,
+    })
+      .from(sessions)
+      .where(and(sessionOwnerFilter(owner), gt(sessions.expire, new Date())))
+      .orderBy(desc(sessions.expire));
+    return rows.map((row) => ({ ...row, clientId: row.clientId === null ? null : parseInt(row.clientId) }));
+  }
+
+  // All of the owner's sessions, or just the one with that id
+  async revokeSessions(owner: SessionOwner, sessionId?: string): Promise<number> {
+    const deleted = await db.delete(sessions)
+      .where(and(
+        sessionOwnerFilter(owner),
+        sessionId === undefined ? undefined : sql`md5(${sessions.sid}) = ${sessionId}`,
+      ))
+      .returning({ sid: sessions.sid });
+    return deleted.length;
+  }
+
   // Zone operations
   async createZone(zoneData: InsertZone): Promise<Zone> {
     const [zone] = await db.insert(zones).values(zoneData).returning();
@@ -176,9 +792,91 @@ export class DatabaseStorage implements IStorage {
     return zone;
   }
 
+  async assignOrderZone(order: Order): Promise<Order> {
+    const [updated] = await this.applyZoneRules([order], await this.getAllZones());
+    return updated.order;
+  }
+
+  // Zones freshly created orders, such as an import, with the zones loaded once. Only the
+  // coordinates pricing stored are used; addresses it couldn't geocode aren't retried.
+  async assignOrderZones(orderList: Order[]): Promise<Order[]> {
+    const results = await this.applyZoneRules(orderList, await this.getAllZones(), { geocode: false });
+    return results.map(({ order }) => order);
+  }
+
+  // Re-runs the zone rules over open orders, e.g. after zones were edited. Orders
+  // already picked up keep their zone.
+  async rezoneOrders({ orderIds, unzonedOnly }: RezoneOrders): Promise<RezoneResult> {
+    const conditions = [inArray(orders.status, ["pending", "assigned"])];
+    if (orderIds?.length) conditions.push(inArray(orders.id, orderIds));
+    if (unzonedOnly) conditions.push(isNull(orders.zoneId));
+
+    const openOrders = await db.select().from(orders).where(and(...conditions));
+    const results = await this.applyZoneRules(openOrders, await this.getAllZones());
+
+    return {
+      processed: results.length,
+      zoned: results.filter(({ order }) => order.zoneId !== null).length,
+      changed: results.filter(({ order, previousZoneId }) => order.zoneId !== previousZoneId).length,
+      exceptions: results.flatMap(({ order, candidates }) =>
+        order.zoneException
+          ? [{ orderId: order.id, orderNumber: order.orderNumber, exception: order.zoneException as ZoneException, candidates }]
+          : []
+      ),
+    };
+  }
+
+  // The unzoned exception queue: open orders no rule placed in exactly one zone
+  async getUnzonedOrders(): Promise<Order[]> {
+    return await db.select().from(orders)
+      .where(and(isNull(orders.zoneId), inArray(orders.status, ["pending", "assigned"])))
+      .orderBy(asc(orders.createdAt));
+  }
+
+  // Manual resolution from the exception queue
+  async setOrderZone(orderId: number, zoneId: number): Promise<Order | undefined> {
+    const [order] = await db.update(orders)
+      .set({ zoneId, zoneException: null, updatedAt: new Date() })
+      .where(eq(orders.id, orderId))
+      .returning();
+    if (order) this.publishOrderEvents([order], "order.updated", order);
+    return order;
+  }
+
+  // Addresses are geocoded GEOCODE_CONCURRENCY at a time and the zones written in
+  // batches of 500
+  private async applyZoneRules(targets: Order[], allZones: Zone[], { geocode = true }: { geocode?: boolean } = {}) {
+    if (targets.length === 0) return [];
+
+    const needsCoordinates = allZones.some((zone) => zone.isActive && zoneNeedsCoordinates(zone));
+    const points = needsCoordinates
+      ? await mapConcurrently(targets, GEOCODE_CONCURRENCY, async (order) =>
+        geocode ? this.resolveDeliveryCoordinates(order) : storedCoordinates(order))
+      : targets.map(() => null);
+    const matches = targets.map((order, index) => matchZone(allZones, order.deliveryZip, points[index]));
+
+    const chunkSize = 500;
+    const updated: Order[] = [];
+    for (let i = 0; i < targets.length; i += chunkSize) {
+      const updates = targets.slice(i, i + chunkSize).map((order, index) => db.update(orders)
+        .set({ zoneId: matches[i + index].zoneId, zoneException: matches[i + index].exception })
+        .where(eq(orders.id, order.id))
+        .returning());
+      const results = await db.batch(updates as [typeof updates[number], ...typeof updates]);
+      updated.push(...results.map(([order]) => order));
+    }
+
+    return targets.map((order, index) => ({
+      order: updated[index],
+      previousZoneId: order.zoneId,
+      candidates: matches[index].zoneId === null ? matches[index].candidates : [],
+    }));
+  }
+
   // Driver operations
   async createDriver(driverData: InsertDriver): Promise<Driver> {
     const [driver] = await db.insert(drivers).values(driverData).returning();
+    publishDomainEvent({ type: "driver.updated", driver });
     return driver;
   }
 
@@ -207,6 +905,7 @@ export class DatabaseStorage implements IStorage {
     }
 
     const [driver] = await db.update(drivers).set(updateData).where(eq(drivers.id, id)).returning();
+    if (driver) publishDomainEvent({ type: "driver.updated", driver });
     return driver;
   }
 
@@ -226,6 +925,7 @@ export class DatabaseStorage implements IStorage {
       })
       .where(eq(drivers.id, driverId))
       .returning();
+    if (driver) publishDomainEvent({ type: "driver.updated", driver });
     return driver;
   }
 
@@ -233,6 +933,65 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(drivers).where(eq(drivers.assignedZoneId, zoneId));
   }
 
+  // Appends a breadcrumb and makes it the driver's current location, keeping any
+  // other keys (e.g. address) already on drivers.location
+  async recordDriverLocation(driverId: number, ping: DriverLocationPing): Promise<DriverLocationHistory> {
+    const recordedAt = ping.recordedAt ? new Date(ping.recordedAt) : new Date();
+    const current = {
+      lat: ping.lat,
+      lng: ping.lng,
+      heading: ping.heading ?? null,
+      speed: ping.speed ?? null,
+      updatedAt: recordedAt.toISOString(),
+    };
+
+    const [[entry]] = await db.batch([
+      db.insert(driverLocationHistory).values({
+        driverId,
+        lat: ping.lat.toString(),
+        lng: ping.lng.toString(),
+        accuracy: ping.accuracy?.toString(),
+        heading: ping.heading?.toString(),
+        speed: ping.speed?.toString(),
+        recordedAt,
+      }).returning(),
+      db.update(drivers)
+        .set({
+          location: sql`coalesce(${drivers.location}, '{}'::jsonb) || ${JSON.stringify(current)}::jsonb`,
+          updatedAt: new Date(),
+        })
+        .where(eq(drivers.id, driverId)),
+    ]);
+    return entry;
+  }
+
+  async getDriverLocationHistory(driverId: number, since: Date, limit = 500): Promise<DriverLocationHistory[]> {
+    return await db.select().from(driverLocationHistory)
+      .where(and(eq(driverLocationHistory.driverId, driverId), gt(driverLocationHistory.recordedAt, since)))
+      .orderBy(asc(driverLocationHistory.recordedAt))
+      .limit(limit);
+  }
+
+  async pruneDriverLocationHistory(before: Date): Promise<number> {
+    const deleted = await db.delete(driverLocationHistory)
+      .where(lte(driverLocationHistory.recordedAt, before))
+      .returning({ id: driverLocationHistory.id });
+    return deleted.length;
+  }
+
+  // Clients whose orders the driver is currently carrying; they may see the driver live
+  async getActiveClientIdsForDriver(driverId: number): Promise<number[]> {
+    const rows = await db.selectDistinct({ clientId: orders.clientId }).from(orders)
+      .where(and(eq(orders.driverId, driverId), inArray(orders.status, ACTIVE_ORDER_STATUSES)));
+    return rows.flatMap((row) => (row.clientId === null ? [] : [row.clientId]));
+  }
+
+  async getActiveDriverIdsForClient(clientId: number): Promise<number[]> {
+    const rows = await db.selectDistinct({ driverId: orders.driverId }).from(orders)
+      .where(and(eq(orders.clientId, clientId), inArray(orders.status, ACTIVE_ORDER_STATUSES)));
+    return rows.flatMap((row) => (row.driverId === null ? [] : [row.driverId]));
+  }
+
   // Customer operations
   async createCustomer(customerData: InsertCustomer): Promise<Customer> {
     const [customer] = await db.insert(customers).values(customerData).returning();
@@ -249,23 +1008,723 @@ export class DatabaseStorage implements IStorage {
     return result[0];
   }
 
+  // API key operations
+  async createApiKey(clientId: number, key: CreateApiKey & { keyPrefix: string; keyHash: string }, createdBy: string): Promise<ClientApiKey> {
+    const [created] = await db.insert(clientApiKeys)
+      .values({ ...key, clientId, createdBy })
+      .returning();
+    return created;
+  }
+
+  async getApiKeysForClient(clientId: number): Promise<ClientApiKey[]> {
+    return await db.select().from(clientApiKeys)
+      .where(eq(clientApiKeys.clientId, clientId))
+      .orderBy(desc(clientApiKeys.createdAt));
+  }
+
+  async getApiKey(clientId: number, id: number): Promise<ClientApiKey | undefined> {
+    const result = await db.select().from(clientApiKeys)
+      .where(and(eq(clientApiKeys.id, id), eq(clientApiKeys.clientId, clientId)))
+      .limit(1);
+    return result[0];
+  }
+
+  // Unrevoked keys of clients that are still active
+  async getActiveApiKeyByHash(keyHash: string): Promise<ClientApiKey | undefined> {
+    const result = await db.select({ key: clientApiKeys }).from(clientApiKeys)
+      .innerJoin(clients, eq(clientApiKeys.clientId, clients.id))
+      .where(and(eq(clientApiKeys.keyHash, keyHash), isNull(clientApiKeys.revokedAt), eq(clients.isActive, true)))
+      .limit(1);
+    return result[0]?.key;
+  }
+
+  async revokeApiKey(clientId: number, id: number): Promise<ClientApiKey | undefined> {
+    const [revoked] = await db.update(clientApiKeys)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(clientApiKeys.id, id), eq(clientApiKeys.clientId, clientId), isNull(clientApiKeys.revokedAt)))
+      .returning();
+    return revoked;
+  }
+
+  async touchApiKey(id: number): Promise<void> {
+    await db.update(clientApiKeys)
+      .set({ lastUsedAt: new Date() })
+      .where(eq(clientApiKeys.id, id));
+  }
+
+  // Webhook operations
+  async createWebhookEndpoint(clientId: number, endpoint: InsertWebhookEndpoint, secret: string): Promise<WebhookEndpoint> {
+    const [created] = await db.insert(webhookEndpoints)
+      .values({ ...endpoint, clientId, secret })
+      .returning();
+    return created;
+  }
+
+  async getWebhookEndpoints(clientId: number): Promise<WebhookEndpoint[]> {
+    return await db.select().from(webhookEndpoints)
+      .where(eq(webhookEndpoints.clientId, clientId))
+      .orderBy(asc(webhookEndpoints.createdAt));
+  }
+
+  async getWebhookEndpoint(clientId: number, id: number): Promise<WebhookEndpoint | undefined> {
+    const result = await db.select().from(webhookEndpoints)
+      .where(and(eq(webhookEndpoints.id, id), eq(webhookEndpoints.clientId, clientId)))
+      .limit(1);
+    return result[0];
+  }
+
+  async updateWebhookEndpoint(clientId: number, id: number, updates: Partial<InsertWebhookEndpoint>): Promise<WebhookEndpoint | undefined> {
+    const [updated] = await db.update(webhookEndpoints)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(webhookEndpoints.id, id), eq(webhookEndpoints.clientId, clientId)))
+      .returning();
+    return updated;
+  }
+
+  async deleteWebhookEndpoint(clientId: number, id: number): Promise<boolean> {
+    const [, deleted] = await db.batch([
+      db.delete(webhookDeliveries)
+        .where(and(eq(webhookDeliveries.endpointId, id), eq(webhookDeliveries.clientId, clientId))),
+      db.delete(webhookEndpoints)
+        .where(and(eq(webhookEndpoints.id, id), eq(webhookEndpoints.clientId, clientId)))
+        .returning({ id: webhookEndpoints.id }),
+    ]);
+    return deleted.length > 0;
+  }
+
+  private async getSubscribedEndpoints(clientId: number, eventType: WebhookEvent, endpointId?: number): Promise<WebhookEndpoint[]> {
+    return (await this.getWebhookEndpoints(clientId)).filter((endpoint) =>
+      endpointId
+        ? endpoint.id === endpointId
+        : endpoint.isActive && (endpoint.events as WebhookEvent[]).includes(eventType)
+    );
+  }
+
+  // Writes one outbox row per item per subscribed endpoint. The worker in
+  // server/webhooks.ts picks them up; nothing is sent inline. `claimed` rows are left
+  // for the caller to deliver, the worker never picks them up.
+  async enqueueWebhookEvents(
+    clientId: number,
+    eventType: WebhookEvent,
+    items: Record<string, any>[],
+    options: { endpointId?: number; test?: boolean; claimed?: boolean } = {},
+  ): Promise<WebhookDelivery[]> {
+    if (items.length === 0) return [];
+
+    const endpoints = await this.getSubscribedEndpoints(clientId, eventType, options.endpointId);
+    if (endpoints.length === 0) return [];
+
+    const now = new Date();
+    const rows = items.flatMap((data) => {
+      const eventId = randomUUID();
+      const payload = {
+        id: eventId,
+        type: eventType,
+        createdAt: now.toISOString(),
+        ...(options.test && { test: true }),
+        data,
+      };
+      return endpoints.map((endpoint) => ({
+        endpointId: endpoint.id,
+        clientId,
+        eventId,
+        eventType,
+        payload,
+        nextAttemptAt: now,
+        ...(options.claimed && { status: "sending" }),
+      }));
+    });
+
+    const chunkSize = 500;
+    const inserts = [];
+    for (let i = 0; i < rows.length; i += chunkSize) {
+      inserts.push(db.insert(webhookDeliveries).values(rows.slice(i, i + chunkSize)).returning());
+    }
+
+    const results = await db.batch(inserts as [typeof inserts[number], ...typeof inserts]);
+    return results.flat();
+  }
+
+  // Marks up to `limit` due rows "sending" in one statement, so of several app instances
+  // polling the outbox only one gets each row. nextAttemptAt becomes the claim time.
+  async claimDueWebhookDeliveries(limit: number): Promise<{ delivery: WebhookDelivery; endpoint: WebhookEndpoint }[]> {
+    const now = new Date();
+    const due = and(
+      inArray(webhookDeliveries.status, ["pending", "retrying"]),
+      lte(webhookDeliveries.nextAttemptAt, now),
+    );
+    const claimed = await db.update(webhookDeliveries)
+      .set({ status: "sending", nextAttemptAt: now })
+      .where(and(due, inArray(webhookDeliveries.id, db.select({ id: webhookDeliveries.id })
+        .from(webhookDeliveries)
+        .where(due)
+        .orderBy(asc(webhookDeliveries.nextAttemptAt))
+        .limit(limit)
+        .for("update", { skipLocked: true }))))
+      .returning();
+    if (claimed.length === 0) return [];
+
+    const endpoints = await db.select().from(webhookEndpoints)
+      .where(inArray(webhookEndpoints.id, Array.from(new Set(claimed.map((delivery) => delivery.endpointId)))));
+    return claimed
+      .sort((a, b) => a.id - b.id)
+      .map((delivery) => ({ delivery, endpoint: endpoints.find((endpoint) => endpoint.id === delivery.endpointId)! }));
+  }
+
+  async updateWebhookDelivery(id: number, updates: Partial<typeof webhookDeliveries.$inferInsert>): Promise<void> {
+    await db.update(webhookDeliveries).set(updates).where(eq(webhookDeliveries.id, id));
+  }
+
+  async getWebhookDeliveries(clientId: number, filters?: { endpointId?: number; status?: string }, limit = 100): Promise<WebhookDelivery[]> {
+    let whereClause = eq(webhookDeliveries.clientId, clientId);
+
+    if (filters?.endpointId) {
+      whereClause = and(whereClause, eq(webhookDeliveries.endpointId, filters.endpointId))!;
+    }
+    if (filters?.status) {
+      whereClause = and(whereClause, eq(webhookDeliveries.status, filters.status))!;
+    }
+
+    return await db.select().from(webhookDeliveries)
+      .where(whereClause)
+      .orderBy(desc(webhookDeliveries.createdAt))
+      .limit(limit);
+  }
+
+  // Manual retry: a dead (or stuck) delivery starts a fresh backoff schedule
+  // Failed rows, and rows left "sending" for staleSendingAfterMs by a worker that died
+  async requeueWebhookDelivery(clientId: number, id: number, staleSendingAfterMs: number): Promise<WebhookDelivery | undefined> {
+    const now = new Date();
+    const [requeued] = await db.update(webhookDeliveries)
+      .set({ status: "pending", attempts: 0, nextAttemptAt: now, lastError: null })
+      .where(and(
+        eq(webhookDeliveries.id, id),
+        eq(webhookDeliveries.clientId, clientId),
+        or(
+          inArray(webhookDeliveries.status, ["dead", "retrying"]),
+          and(
+            eq(webhookDeliveries.status, "sending"),
+            lt(webhookDeliveries.nextAttemptAt, new Date(now.getTime() - staleSendingAfterMs)),
+          ),
+        ),
+      ))
+      .returning();
+    return requeued;
+  }
+
+  // Outbox rows for `eventType` on orders written earlier in the same db.batch. Each
+  // row snapshots the order as the batch leaves it, so the event exists exactly when the
+  // write it announces committed; `guard` narrows it to the row that write produced.
+  private async orderWebhookInserts(clientId: number, eventType: string, orderNumbers: string[], guard?: SQL): Promise<BatchItem<"pg">[]> {
+    if (!(WEBHOOK_EVENTS as readonly string[]).includes(eventType) || orderNumbers.length === 0) return [];
+
+    const endpoints = await this.getSubscribedEndpoints(clientId, eventType as WebhookEvent);
+    if (endpoints.length === 0) return [];
+
+    const createdAt = new Date().toISOString();
+    const chunkSize = 500;
+    const inserts: BatchItem<"pg">[] = [];
+    for (let i = 0; i < orderNumbers.length; i += chunkSize) {
+      // One event id per order, shared by every endpoint
+      const events = sql.join(orderNumbers.slice(i, i + chunkSize).map((orderNumber) => sql`(${orderNumber}, ${randomUUID()})`), sql`, `);
+      for (const endpoint of endpoints) {
+        inserts.push(db.execute(sql`
+          insert into ${webhookDeliveries} (endpoint_id, client_id, event_id, event_type, payload, next_attempt_at)
+          select ${endpoint.id}::integer, ${clientId}::integer, e.event_id, ${eventType}::text,
+            jsonb_build_object('id', e.event_id, 'type', ${eventType}::text, 'createdAt', ${createdAt}::text,
+              'data', jsonb_build_object('order', ${ORDER_JSON})),
+            ${createdAt}::timestamp
+          from ${orders} join (values ${events}) as e(order_number, event_id) on ${orders.orderNumber} = e.order_number
+          where ${orders.clientId} = ${clientId}${guard ? sql` and ${guard}` : sql``}
+        `));
+      }
+    }
+    return inserts;
+  }
+
+  // Every order change goes to the in-process event bus for the live portals. Called
+  // once the change has committed; webhooks are queued with the write itself.
+  private publishOrderEvents(orderList: Order[], eventType: string, previous?: Order) {
+    for (const order of orderList) {
+      publishDomainEvent(eventType === "order.created"
+        ? { type: "order.created", order }
+        : { type: "order.updated", order, previousDriverId: previous?.driverId ?? null });
+    }
+  }
+
+  // Address book operations
+  async getAddressBook(clientId: number): Promise<AddressBookEntry[]> {
+    return await db.select().from(addressBook)
+      .where(eq(addressBook.clientId, clientId))
+      .orderBy(asc(addressBook.label));
+  }
+
+  async getAddressBookEntry(clientId: number, id: number): Promise<AddressBookEntry | undefined> {
+    const result = await db.select().from(addressBook)
+      .where(and(eq(addressBook.id, id), eq(addressBook.clientId, clientId)))
+      .limit(1);
+    return result[0];
+  }
+
+  async createAddressBookEntry(clientId: number, entry: InsertAddressBookEntry, location: ValidatedLocation): Promise<AddressBookEntry> {
+    const [created] = await db.insert(addressBook).values({
+      ...entry,
+      clientId,
+      formattedAddress: location.formattedAddress,
+      latitude: location.latitude?.toString(),
+      longitude: location.longitude?.toString(),
+      validatedAt: new Date(),
+    }).returning();
+    return created;
+  }
+
+  async updateAddressBookEntry(
+    clientId: number,
+    id: number,
+    updates: Partial<InsertAddressBookEntry>,
+    location?: ValidatedLocation,
+  ): Promise<AddressBookEntry | undefined> {
+    const [updated] = await db.update(addressBook)
+      .set({
+        ...updates,
+        ...(location && {
+          formattedAddress: location.formattedAddress,
+          latitude: location.latitude?.toString(),
+          longitude: location.longitude?.toString(),
+          validatedAt: new Date(),
+        }),
+        updatedAt: new Date(),
+      })
+      .where(and(eq(addressBook.id, id), eq(addressBook.clientId, clientId)))
+      .returning();
+    return updated;
+  }
+
+  async deleteAddressBookEntry(clientId: number, id: number): Promise<boolean> {
+    const deleted = await db.delete(addressBook)
+      .where(and(eq(addressBook.id, id), eq(addressBook.clientId, clientId)))
+      .returning({ id: addressBook.id });
+    return deleted.length > 0;
+  }
+
+  // Order template operations
+  async getOrderTemplates(clientId: number): Promise<OrderTemplate[]> {
+    return await db.select().from(orderTemplates)
+      .where(eq(orderTemplates.clientId, clientId))
+      .orderBy(asc(orderTemplates.name));
+  }
+
+  async getOrderTemplate(clientId: number, id: number): Promise<OrderTemplate | undefined> {
+    const result = await db.select().from(orderTemplates)
+      .where(and(eq(orderTemplates.id, id), eq(orderTemplates.clientId, clientId)))
+      .limit(1);
+    return result[0];
+  }
+
+  async createOrderTemplate(clientId: number, template: InsertOrderTemplate, createdBy: string): Promise<OrderTemplate> {
+    const [created] = await db.insert(orderTemplates)
+      .values({ ...template, clientId, createdBy })
+      .returning();
+    return created;
+  }
+
+  async updateOrderTemplate(clientId: number, id: number, updates: Partial<InsertOrderTemplate>): Promise<OrderTemplate | undefined> {
+    const [updated] = await db.update(orderTemplates)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(orderTemplates.id, id), eq(orderTemplates.clientId, clientId)))
+      .returning();
+    return updated;
+  }
+
+  async deleteOrderTemplate(clientId: number, id: number): Promise<boolean> {
+    const deleted = await db.delete(orderTemplates)
+      .where(and(eq(orderTemplates.id, id), eq(orderTemplates.clientId, clientId)))
+      .returning({ id: orderTemplates.id });
+    return deleted.length > 0;
+  }
+
+  // Rate card operations
+  async getRateCards(clientId?: number | null): Promise<RateCard[]> {
+    const condition = clientId === undefined
+      ? undefined
+      : clientId === null ? isNull(rateCards.clientId) : eq(rateCards.clientId, clientId);
+    return await db.select().from(rateCards)
+      .where(condition)
+      .orderBy(asc(rateCards.clientId), desc(rateCards.effectiveFrom));
+  }
+
+  async getRateCard(id: number): Promise<RateCard | undefined> {
+    const [card] = await db.select().from(rateCards).where(eq(rateCards.id, id)).limit(1);
+    return card;
+  }
+
+  async createRateCard(card: InsertRateCard, createdBy: string): Promise<RateCard> {
+    const [created] = await db.insert(rateCards).values({ ...card, createdBy }).returning();
+    return created;
+  }
+
+  async updateRateCard(id: number, updates: UpdateRateCard): Promise<RateCard | undefined> {
+    const [updated] = await db.update(rateCards)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(rateCards.id, id))
+      .returning();
+    return updated;
+  }
+
+  // The client's own card in effect at the given time, else the default card (no client).
+  // When effective periods overlap the most recently started card wins.
+  async getEffectiveRateCard(clientId: number | null, at: Date): Promise<RateCard | undefined> {
+    const inEffect = and(lte(rateCards.effectiveFrom, at), or(isNull(rateCards.effectiveTo), gt(rateCards.effectiveTo, at)));
+
+    if (clientId !== null) {
+      const [card] = await db.select().from(rateCards)
+        .where(and(eq(rateCards.clientId, clientId), inEffect))
+        .orderBy(desc(rateCards.effectiveFrom))
+        .limit(1);
+      if (card) return card;
+    }
+
+    const [fallback] = await db.select().from(rateCards)
+      .where(and(isNull(rateCards.clientId), inEffect))
+      .orderBy(desc(rateCards.effectiveFrom))
+      .limit(1);
+    return fallback;
+  }
+
+  // Invoice operations
+  async getInvoices(filters?: { clientId?: number; status?: InvoiceStatus }): Promise<Invoice[]> {
+    const conditions = [];
+    if (filters?.clientId !== undefined) conditions.push(eq(invoices.clientId, filters.clientId));
+    if (filters?.status) conditions.push(eq(invoices.status, filters.status));
+    return await db.select().from(invoices)
+      .where(and(...conditions))
+      .orderBy(desc(invoices.periodStart), desc(invoices.id));
+  }
+
+  async getInvoice(id: number): Promise<Invoice | undefined> {
+    const [invoice] = await db.select().from(invoices).where(eq(invoices.id, id)).limit(1);
+    return invoice;
+  }
+
+  async getInvoiceLines(invoiceId: number): Promise<InvoiceLine[]> {
+    return await db.select().from(invoiceLines)
+      .where(eq(invoiceLines.invoiceId, invoiceId))
+      .orderBy(asc(invoiceLines.serviceDate), asc(invoiceLines.id));
+  }
+
+  async getDraftMonthlyInvoice(clientId: number, periodStart: string): Promise<Invoice | undefined> {
+    const [invoice] = await db.select().from(invoices)
+      .where(and(
+        eq(invoices.clientId, clientId),
+        eq(invoices.kind, "monthly"),
+        eq(invoices.status, "draft"),
+        eq(invoices.periodStart, periodStart),
+      ))
+      .limit(1);
+    return invoice;
+  }
+
+  // The charge billing this order on an invoice that hasn't been voided
+  async getActiveInvoiceLineForOrder(orderId: number): Promise<{ line: InvoiceLine; invoice: Invoice } | undefined> {
+    const [result] = await db.select({ line: invoiceLines, invoice: invoices })
+      .from(invoiceLines)
+      .innerJoin(invoices, eq(invoiceLines.invoiceId, invoices.id))
+      .where(and(
+        eq(invoiceLines.orderId, orderId),
+        inArray(invoiceLines.type, ["charge", "failed_attempt"]),
+        sql`${invoices.status} <> 'void'`,
+      ))
+      .limit(1);
+    return result;
+  }
+
+  async getBillableOrders(clientId: number, from: Date, to: Date, includeFailedAttempts: boolean): Promise<BillableOrder[]> {
+    const notYetBilled = sql`not exists (
+      select 1 from ${invoiceLines} join ${invoices} on ${invoices.id} = ${invoiceLines.invoiceId}
+      where ${invoiceLines.orderId} = ${orders.id} and ${invoiceLines.type} <> 'credit' and ${invoices.status} <> 'void'
+    )`;
+
+    const delivered = await db.select().from(orders)
+      .where(and(
+        eq(orders.clientId, clientId),
+        eq(orders.status, "delivered"),
+        gte(orders.actualDeliveryTime, from),
+        lt(orders.actualDeliveryTime, to),
+        notYetBilled,
+      ))
+      .orderBy(asc(orders.actualDeliveryTime));
+    const billable: BillableOrder[] = delivered.map((order) => ({
+      order,
+      type: "charge",
+      serviceDate: order.actualDeliveryTime ?? from,
+    }));
+    if (!includeFailedAttempts) return billable;
+
+    const lastAttemptAt = sql<Date>`(select max(${deliveryAttempts.attemptedAt}) from ${deliveryAttempts} where ${deliveryAttempts.orderId} = ${orders.id})`;
+    const returned = await db.select({ order: orders, lastAttemptAt: lastAttemptAt.mapWith((value) => new Date(value)) })
+      .from(orders)
+      .where(and(
+        eq(orders.clientId, clientId),
+        inArray(orders.status, ["return_to_sender", "returned"]),
+        sql`${lastAttemptAt} >= ${from.toISOString()} and ${lastAttemptAt} < ${to.toISOString()}`,
+        notYetBilled,
+      ))
+      .orderBy(asc(orders.updatedAt));
+    return [
+      ...billable,
+      ...returned.map(({ order, lastAttemptAt }) => ({ order, type: "failed_attempt" as const, serviceDate: lastAttemptAt })),
+    ];
+  }
+
+  // Orders can only be voided before pickup, so this only catches orders billed up front
+  // on their own invoice
+  async getUncreditedCharges(clientId: number): Promise<UncreditedCharge[]> {
+    return await db.select({ line: invoiceLines, invoiceNumber: invoices.invoiceNumber, orderNumber: orders.orderNumber })
+      .from(invoiceLines)
+      .innerJoin(invoices, eq(invoiceLines.invoiceId, invoices.id))
+      .innerJoin(orders, eq(invoiceLines.orderId, orders.id))
+      .where(and(
+        eq(invoices.clientId, clientId),
+        inArray(invoices.status, ["issued", "paid"]),
+        inArray(invoiceLines.type, ["charge", "failed_attempt"]),
+        eq(orders.status, "voided"),
+        sql`not exists (
+          select 1 from ${invoiceLines} credit_line join ${invoices} credit_invoice on credit_invoice.id = credit_line.invoice_id
+          where credit_line.order_id = ${orders.id} and credit_line.type = 'credit' and credit_invoice.status <> 'void'
+        )`,
+      ))
+      .orderBy(asc(invoiceLines.id));
+  }
+
+  // Totals are always derived from the lines, in the same statement batch that changes them
+  private recalculateInvoiceTotals(invoiceId: number | SQL) {
+    const sumOf = (condition: SQL) =>
+      sql`coalesce((select sum(amount) from ${invoiceLines} where invoice_id = ${invoices.id} and ${condition}), 0)`;
+    return db.update(invoices)
+      .set({
+        subtotal: sumOf(sql`type <> 'credit'`),
+        credits: sumOf(sql`type = 'credit'`),
+        total: sumOf(sql`true`),
+        updatedAt: new Date(),
+      })
+      .where(eq(invoices.id, invoiceId))
+      .returning();
+  }
+
+  // Header, lines and totals go in one batch; the lines find their invoice through the
+  // id sequence's current value in that transaction
+  async createInvoice(invoice: NewInvoice, lines: NewInvoiceLine[]): Promise<Invoice> {
+    const invoiceId = sql`currval(pg_get_serial_sequence('invoices', 'id'))`;
+    const invoiceNumber = sql`'INV-' || to_char(now(), 'YYYY') || '-' || lpad(nextval('invoice_number_seq')::text, 6, '0')`;
+
+    const insertInvoice = db.insert(invoices).values({ ...invoice, invoiceNumber }).returning();
+    const recalculate = this.recalculateInvoiceTotals(invoiceId);
+    const results = lines.length
+      ? await db.batch([insertInvoice, db.insert(invoiceLines).values(lines.map((line) => ({ ...line, invoiceId }))), recalculate])
+      : await db.batch([insertInvoice, recalculate]);
+
+    const [created] = results[results.length - 1] as Invoice[];
+    return created;
+  }
+
+  async addInvoiceLines(invoiceId: number, lines: NewInvoiceLine[]): Promise<Invoice> {
+    const [, [updated]] = await db.batch([
+      db.insert(invoiceLines).values(lines.map((line) => ({ ...line, invoiceId }))),
+      this.recalculateInvoiceTotals(invoiceId),
+    ]);
+    return updated;
+  }
+
+  // Changes the status only while the invoice is still `from`, so of two concurrent
+  // changes one applies and the other gets undefined. `entry` is posted to the ledger in
+  // the same transaction, and only by the change that applied.
+  async transitionInvoice(id: number, from: string, updates: InvoiceStatusChange, entry?: NewLedgerEntry | null): Promise<Invoice | undefined> {
+    const updatedAt = new Date();
+    const update = db.update(invoices)
+      .set({ ...updates, updatedAt })
+      .where(and(eq(invoices.id, id), eq(invoices.status, from)))
+      .returning();
+    if (!entry) {
+      const [updated] = await update;
+      return updated;
+    }
+
+    const [[updated]] = await db.batch([
+      update,
+      db.execute(sql`
+        insert into ${ledgerEntries} (client_id, type, invoice_id, amount, entry_date, description, payment_method, reference, created_by)
+        select ${entry.clientId}::integer, ${entry.type}::text, ${entry.invoiceId ?? null}::integer, ${entry.amount}::numeric,
+          ${entry.entryDate}::date, ${entry.description}::text, ${entry.paymentMethod ?? null}::text,
+          ${entry.reference ?? null}::text, ${entry.createdBy ?? null}::text
+        where exists (
+          select 1 from ${invoices}
+          where ${and(eq(invoices.id, id), eq(invoices.status, updates.status), eq(invoices.updatedAt, updatedAt))}
+        )
+      `),
+    ]);
+    return updated;
+  }
+
+  // Ledger operations
+  async getLedgerEntries(clientId: number, range?: { from?: string; to?: string }): Promise<LedgerEntry[]> {
+    const conditions = [eq(ledgerEntries.clientId, clientId)];
+    if (range?.from) conditions.push(gte(ledgerEntries.entryDate, range.from));
+    if (range?.to) conditions.push(lte(ledgerEntries.entryDate, range.to));
+    return await db.select().from(ledgerEntries)
+      .where(and(...conditions))
+      .orderBy(asc(ledgerEntries.entryDate), asc(ledgerEntries.id));
+  }
+
+  // What the client owes, optionally as of the start of a date (the statement's opening balance)
+  async getLedgerBalance(clientId: number, before?: string): Promise<number> {
+    const [result] = await db.select({ balance: sql<string>`coalesce(sum(${ledgerEntries.amount}), 0)` })
+      .from(ledgerEntries)
+      .where(and(
+        eq(ledgerEntries.clientId, clientId),
+        before ? lt(ledgerEntries.entryDate, before) : undefined,
+      ));
+    return parseFloat(result.balance);
+  }
+
+  // What is still owed on one invoice: its debit less the payments and credits against it
+  async getInvoiceLedgerBalance(invoiceId: number): Promise<number> {
+    const [result] = await db.select({ balance: sql<string>`coalesce(sum(${ledgerEntries.amount}), 0)` })
+      .from(ledgerEntries)
+      .where(eq(ledgerEntries.invoiceId, invoiceId));
+    return parseFloat(result.balance);
+  }
+
+  async createLedgerEntry(entry: NewLedgerEntry): Promise<LedgerEntry> {
+    const [created] = await db.insert(ledgerEntries).values(entry).returning();
+    return created;
+  }
+
+  // Priced orders not yet on an issued invoice: the exposure the ledger doesn't show yet
+  async getUnbilledOrderTotal(clientId: number): Promise<number> {
+    const [result] = await db.select({ total: sql<string>`coalesce(sum(${orders.price}), 0)` })
+      .from(orders)
+      .where(and(
+        eq(orders.clientId, clientId),
+        isNotNull(orders.price),
+        sql`${orders.status} <> 'voided'`,
+        sql`not exists (
+          select 1 from ${invoiceLines} join ${invoices} on ${invoices.id} = ${invoiceLines.invoiceId}
+          where ${invoiceLines.orderId} = ${orders.id} and ${invoiceLines.type} <> 'credit' and ${invoices.status} in ('issued', 'paid')
+        )`,
+      ));
+    return parseFloat(result.total);
+  }
+
+  // A voided order comes off any draft it sits on: dropped from a monthly draft, or the
+  // whole draft voided when it was the order's own invoice. Issued invoices are credited
+  // on the client's next monthly run instead.
+  private async releaseOrderFromDraftInvoice(order: Order): Promise<void> {
+    const billed = await this.getActiveInvoiceLineForOrder(order.id);
+    if (!billed || billed.invoice.status !== "draft") return;
+
+    if (billed.invoice.kind === "order") {
+      await this.transitionInvoice(billed.invoice.id, "draft", {
+        status: "void",
+        voidedAt: new Date(),
+        voidReason: `Order ${order.orderNumber} voided`,
+      });
+      return;
+    }
+    await db.batch([
+      db.delete(invoiceLines).where(eq(invoiceLines.id, billed.line.id)),
+      this.recalculateInvoiceTotals(billed.invoice.id),
+    ]);
+  }
+
   // Order operations
-  async createOrder(orderData: InsertOrder): Promise<Order> {
+  private generateOrderNumber(): string {
+    return `ORD-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  // Columns that freeze a quote onto the order; the geocoded point is kept so zoning
+  // doesn't look the address up again
+  private toPricingColumns(pricing?: QuoteResult) {
+    if (!pricing) return {};
+    const { quote, coordinates } = pricing;
+    return {
+      rateCardId: quote.rateCardId,
+      price: quote.total.toFixed(2),
+      priceBreakdown: quote,
+      pricedAt: new Date(quote.quotedAt),
+      ...(coordinates ? { deliveryCoordinates: coordinates } : {}),
+    };
+  }
+
+  async createOrder(orderData: InsertOrder, pricing?: QuoteResult): Promise<Order> {
     // Generate order number
-    const orderNumber = `ORD-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+    const orderNumber = this.generateOrderNumber();
     
     const insertData = {
       ...orderData,
+      ...this.toPricingColumns(pricing),
       orderNumber,
       pickupDate: orderData.pickupDate,
       createdAt: new Date(),
       updatedAt: new Date(),
     };
 
-    const [order] = await db.insert(orders).values(insertData).returning();
+    const webhookInserts = orderData.clientId
+      ? await this.orderWebhookInserts(orderData.clientId, "order.created", [orderNumber])
+      : [];
+    const [[order]] = await db.batch([
+      db.insert(orders).values(insertData).returning(),
+      db.insert(packages).values(this.buildPieces(insertData, orderIdByNumber(orderNumber))),
+      ...webhookInserts,
+    ]);
+    this.publishOrderEvents([order], "order.created");
     return order;
   }
 
+  // Inserts many orders and their pieces atomically. Rows are chunked to stay under the
+  // Postgres parameter limit and the chunks are sent as one batch, which runs in a
+  // transaction.
+  async createOrders(orderData: InsertOrder[], pricing?: QuoteResult[]): Promise<Order[]> {
+    if (orderData.length === 0) return [];
+
+    const now = new Date();
+    const rows = orderData.map((order, index) => ({
+      ...order,
+      ...this.toPricingColumns(pricing?.[index]),
+      orderNumber: this.generateOrderNumber(),
+      weight: order.weight?.toString(),
+      distance: order.distance?.toString(),
+      createdAt: now,
+      updatedAt: now,
+    }));
+
+    const chunkSize = 500;
+    const inserts = [];
+    for (let i = 0; i < rows.length; i += chunkSize) {
+      inserts.push(db.insert(orders).values(rows.slice(i, i + chunkSize)).returning());
+    }
+
+    const pieces = rows.flatMap((row) => this.buildPieces(row, orderIdByNumber(row.orderNumber)));
+    const pieceInserts = [];
+    for (let i = 0; i < pieces.length; i += chunkSize) {
+      pieceInserts.push(db.insert(packages).values(pieces.slice(i, i + chunkSize)));
+    }
+
+    const byClient = new Map<number, string[]>();
+    for (const row of rows) {
+      if (row.clientId) byClient.set(row.clientId, [...(byClient.get(row.clientId) ?? []), row.orderNumber]);
+    }
+    const webhookInserts = [];
+    for (const [clientId, orderNumbers] of Array.from(byClient.entries())) {
+      webhookInserts.push(...await this.orderWebhookInserts(clientId, "order.created", orderNumbers));
+    }
+
+    const results = await db.batch([...inserts, ...pieceInserts, ...webhookInserts] as [typeof inserts[number], ...BatchItem<"pg">[]]);
+    const created = (results.slice(0, inserts.length) as Order[][]).flat();
+
+    this.publishOrderEvents(created, "order.created");
+    return created;
+  }
+
   async getOrder(id: number): Promise<Order | undefined> {
     const result = await db.select().from(orders).where(eq(orders.id, id)).limit(1);
     return result[0];
@@ -286,45 +1745,161 @@ export class DatabaseStorage implements IStorage {
     return query.orderBy(desc(orders.createdAt));
   }
 
-  async updateOrderStatus(orderId: number, statusUpdate: UpdateOrderStatus, updatedBy: string): Promise<Order> {
-    const updateData: any = {
-      status: statusUpdate.status,
-      updatedAt: new Date(),
-    };
+  // occurredAt backdates the history entry (and delivery time) for changes made offline
+  async updateOrderStatus(orderId: number, statusUpdate: UpdateOrderStatus, updatedBy: string, role: string, occurredAt?: Date): Promise<Order> {
+    return this.transitionOrder(orderId, statusUpdate.status, updatedBy, {
+      role,
+      notes: statusUpdate.notes,
+      occurredAt,
+    });
+  }
 
-    // Add timestamp fields based on status
-    if (statusUpdate.status === "assigned") {
-      updateData.assignedAt = new Date();
-    } else if (statusUpdate.status === "in_transit") {
-      updateData.pickedUpAt = new Date();
-    } else if (statusUpdate.status === "delivered") {
-      updateData.actualDeliveryTime = new Date();
+  // Manual assignments are pinned by default; auto-assignment passes pinned: false
+  async assignOrderToDriver(orderId: number, driverId: number, assignedBy: string, { pinned = true }: { pinned?: boolean } = {}): Promise<Order> {
+    const current = await this.getOrder(orderId);
+
+    // Reassigning an already assigned order just swaps the driver
+    if (current?.status === "assigned") {
+      const updatedAt = new Date();
+      const webhookInserts = current.clientId
+        ? await this.orderWebhookInserts(current.clientId, "order.assigned", [current.orderNumber],
+          and(eq(orders.id, orderId), eq(orders.driverId, driverId), eq(orders.updatedAt, updatedAt)))
+        : [];
+      const [[order]] = await db.batch([
+        db.update(orders)
+          .set({ driverId: driverId, assignmentPinned: pinned, updatedAt })
+          .where(and(eq(orders.id, orderId), eq(orders.status, "assigned")))
+          .returning(),
+        ...webhookInserts,
+      ]);
+      if (order) {
+        this.publishOrderEvents([order], "order.assigned", current);
+        return order;
+      }
     }
 
-    const [order] = await db.update(orders).set(updateData).where(eq(orders.id, orderId)).returning();
-
-    // Add to status history
-    await db.insert(orderStatusHistory).values({
-      orderId: orderId,
-      status: statusUpdate.status,
-      updatedBy: updatedBy,
-      notes: statusUpdate.notes,
-      timestamp: new Date(),
+    return this.transitionOrder(orderId, "assigned", assignedBy, {
+      role: SYSTEM_ROLE,
+      notes: `Assigned to driver #${driverId}`,
+      set: { driverId, assignmentPinned: pinned },
     });
-
-    return order;
   }
 
-  async assignOrderToDriver(orderId: number, driverId: number, assignedBy: string): Promise<Order> {
+  async setAssignmentPinned(orderId: number, pinned: boolean): Promise<Order | undefined> {
     const [order] = await db.update(orders)
-      .set({
-        driverId: driverId,
-        status: "assigned",
-        assignedAt: new Date(),
-        updatedAt: new Date(),
-      })
+      .set({ assignmentPinned: pinned, updatedAt: new Date() })
       .where(eq(orders.id, orderId))
       .returning();
+    if (order) this.publishOrderEvents([order], "order.updated", order);
+    return order;
+  }
+
+  // Pending, zoned, not yet assigned and not pinned by a dispatcher
+  async getAutoAssignableOrders({ batchId, orderIds }: Omit<AutoAssignOptions, "dryRun">): Promise<Order[]> {
+    const conditions = [
+      eq(orders.status, "pending"),
+      isNull(orders.driverId),
+      eq(orders.assignmentPinned, false),
+    ];
+    if (batchId) conditions.push(eq(orders.batchId, batchId));
+    if (orderIds?.length) conditions.push(inArray(orders.id, orderIds));
+
+    return await db.select().from(orders).where(and(...conditions)).orderBy(asc(orders.createdAt));
+  }
+
+  // Orders each driver currently holds (assigned through in transit)
+  async getDriverLoads(): Promise<DriverLoad[]> {
+    const rows = await db.select({
+      driverId: orders.driverId,
+      orderCount: sql<number>`cast(count(*) as int)`,
+      totalWeight: sql<string>`coalesce(sum(${orders.weight}), 0)`,
+    })
+      .from(orders)
+      .where(inArray(orders.status, ACTIVE_ORDER_STATUSES))
+      .groupBy(orders.driverId);
+
+    return rows
+      .filter((row): row is typeof row & { driverId: number } => row.driverId !== null)
+      .map((row) => ({ driverId: row.driverId, orderCount: row.orderCount, totalWeight: parseFloat(row.totalWeight) }));
+  }
+
+  // Moves an order along the lifecycle table, guarding on the status it was validated
+  // against so concurrent updates can't skip a step. `role` decides which moves are
+  // allowed; system-driven moves such as rescheduling pass SYSTEM_ROLE.
+  private async transitionOrder(
+    orderId: number,
+    to: OrderStatus,
+    updatedBy: string,
+    options: { role: string; notes?: string; occurredAt?: Date; set?: Partial<typeof orders.$inferInsert> },
+  ): Promise<Order> {
+    const current = await this.getOrder(orderId);
+    if (!current) {
+      throw new Error(`Order ${orderId} not found`);
+    }
+
+    const allowed = getAllowedTransitions(current.status, options.role);
+    if (!allowed.includes(to)) {
+      throw new InvalidStatusTransitionError(current.status, to, allowed);
+    }
+
+    if (to === "delivered" && await this.isProofOfDeliveryRequired(current) && !(await this.getDeliveryProof(orderId))) {
+      throw new ProofOfDeliveryRequiredError(orderId);
+    }
+
+    const updatedAt = new Date();
+    const updateData: Partial<typeof orders.$inferInsert> = {
+      ...options.set,
+      status: to,
+      updatedAt,
+    };
+
+    const settlement = getPieceSettlement(current.status, to);
+    if (settlement?.exception) {
+      const [{ count }] = await db.select({ count: sql<number>`cast(count(*) as int)` })
+        .from(packages)
+        .where(and(eq(packages.orderId, orderId), inArray(packages.status, settlement.pieces)));
+      if (count > 0) updateData.pieceException = settlement.exception;
+    }
+
+    // Add timestamp fields based on status
+    if (to === "delivered") {
+      updateData.actualDeliveryTime = options.occurredAt ?? new Date();
+    } else if (to === "pending") {
+      updateData.driverId = null;
+    }
+
+    // The history entry, settled pieces and webhooks are only written if the update
+    // applied, in the same transaction
+    const applied = and(eq(orders.id, orderId), eq(orders.status, to), eq(orders.updatedAt, updatedAt));
+    const webhookInserts = current.clientId
+      ? await this.orderWebhookInserts(current.clientId, `order.${to}`, [current.orderNumber], applied)
+      : [];
+    const [[order]] = await db.batch([
+      db.update(orders)
+        .set(updateData)
+        .where(and(eq(orders.id, orderId), eq(orders.status, current.status)))
+        .returning(),
+      db.execute(sql`
+        insert into ${orderStatusHistory} (order_id, status, updated_by, notes, timestamp)
+        select ${orderId}::integer, ${to}::text, ${updatedBy}::text, ${options.notes ?? null}::text,
+          ${(options.occurredAt ?? updatedAt).toISOString()}::timestamp
+        where exists (select 1 from ${orders} where ${applied})
+      `),
+      ...(settlement
+        ? [db.update(packages)
+          .set({ status: settlement.becomes, updatedAt })
+          .where(and(eq(packages.orderId, orderId), inArray(packages.status, settlement.pieces), sql`exists (select 1 from ${orders} where ${applied})`))]
+        : []),
+      ...webhookInserts,
+    ]);
+
+    if (!order) {
+      const latest = await this.getOrder(orderId);
+      const latestStatus = latest?.status ?? current.status;
+      throw new InvalidStatusTransitionError(latestStatus, to, getAllowedTransitions(latestStatus, options.role));
+    }
+
+    this.publishOrderEvents([order], `order.${to}`, current);
 
     return order;
   }
@@ -348,6 +1923,7 @@ export class DatabaseStorage implements IStorage {
   async logActivity(userId: string, action: string, description: string, metadata?: any): Promise<ActivityLog> {
     const [activity] = await db.insert(activityLogs).values({
       userId,
+      impersonatorId: getCurrentImpersonation()?.impersonatorId ?? null,
       action,
       description,
       metadata,
@@ -388,18 +1964,344 @@ export class DatabaseStorage implements IStorage {
   }
 
   async voidOrder(orderId: number, voidData: VoidOrder, voidedBy: string): Promise<Order> {
-    const [order] = await db.update(orders)
-      .set({
-        status: "voided",
+    const order = await this.transitionOrder(orderId, "voided", voidedBy, {
+      role: SYSTEM_ROLE,
+      notes: voidData.voidReason,
+      set: {
         voidReason: voidData.voidReason,
         voidedAt: new Date(),
         voidedBy: voidedBy,
-        updatedAt: new Date(),
+      },
+    });
+    await this.releaseOrderFromDraftInvoice(order);
+    return order;
+  }
+
+  async recordFailedAttempt(
+    orderId: number,
+    attempt: RecordDeliveryAttempt,
+    recordedBy: string,
+    role: string,
+  ): Promise<{ order: Order; attempt: DeliveryAttempt }> {
+    const current = await this.getOrder(orderId);
+    if (!current) {
+      throw new Error(`Order ${orderId} not found`);
+    }
+
+    const allowed = getAllowedTransitions(current.status, role);
+    if (!allowed.includes("failed")) {
+      throw new InvalidStatusTransitionError(current.status, "failed", allowed);
+    }
+
+    const previousAttempts = await this.getDeliveryAttempts(orderId);
+    const attemptNumber = previousAttempts.length + 1;
+    const reason = DELIVERY_FAILURE_REASON_LABELS[attempt.reasonCode];
+
+    // Retry in the next batch until the attempts run out, then send it back. The order
+    // goes through failed to where it ends up in one write, with its history, the
+    // attempt and the webhooks for both moves, so a failure part way leaves nothing.
+    const batch = attemptNumber < MAX_DELIVERY_ATTEMPTS ? await this.getNextOpenBatch(getZonedDateTime().date) : null;
+    const to: OrderStatus = batch ? "pending" : "return_to_sender";
+    const steps: { status: OrderStatus; notes: string }[] = [
+      {
+        status: "failed",
+        notes: `Attempt ${attemptNumber} of ${MAX_DELIVERY_ATTEMPTS}: ${reason}${attempt.notes ? ` - ${attempt.notes}` : ""}`,
+      },
+      batch
+        ? { status: "pending", notes: `Rescheduled into batch #${batch.id} (${batch.date}) for attempt ${attemptNumber + 1}` }
+        : { status: "return_to_sender", notes: `Maximum of ${MAX_DELIVERY_ATTEMPTS} delivery attempts reached - returning to sender` },
+    ];
+
+    const updatedAt = new Date();
+    const applied = and(eq(orders.id, orderId), eq(orders.status, to), eq(orders.updatedAt, updatedAt));
+    const webhookInserts = current.clientId
+      ? [
+        ...(await this.orderWebhookInserts(current.clientId, "order.failed", [current.orderNumber], applied)),
+        ...(await this.orderWebhookInserts(current.clientId, `order.${to}`, [current.orderNumber], applied)),
+      ]
+      : [];
+    // A millisecond apart, so the history lists failed before where the order went next
+    const history = sql.join(steps.map(({ status, notes }, index) =>
+      sql`(${status}::text, ${notes}::text, ${new Date(updatedAt.getTime() + index).toISOString()}::timestamp)`), sql`, `);
+
+    const [[order]] = await db.batch([
+      db.update(orders)
+        .set({ status: to, updatedAt, ...(batch && { batchId: batch.id, driverId: null }) })
+        .where(and(eq(orders.id, orderId), eq(orders.status, current.status)))
+        .returning(),
+      db.execute(sql`
+        insert into ${orderStatusHistory} (order_id, status, updated_by, notes, timestamp)
+        select ${orderId}::integer, h.status, ${recordedBy}::text, h.notes, h.at
+        from (values ${history}) as h(status, notes, at)
+        where exists (select 1 from ${orders} where ${applied})
+      `),
+      db.execute(sql`
+        insert into ${deliveryAttempts} (order_id, attempt_number, driver_id, reason_code, notes, rescheduled_batch_id, recorded_by, attempted_at)
+        select ${orderId}::integer, ${attemptNumber}::integer, ${current.driverId}::integer, ${attempt.reasonCode}::text,
+          ${attempt.notes ?? null}::text, ${batch?.id ?? null}::integer, ${recordedBy}::text, ${updatedAt.toISOString()}::timestamp
+        where exists (select 1 from ${orders} where ${applied})
+      `),
+      // Rescheduled: pieces picked up on this run are scanned again on the next
+      ...(batch
+        ? [db.update(packages)
+          .set({ status: "pending", updatedAt })
+          .where(and(eq(packages.orderId, orderId), eq(packages.status, "picked"), sql`exists (select 1 from ${orders} where ${applied})`))]
+        : []),
+      ...webhookInserts,
+    ]);
+
+    if (!order) {
+      const latest = await this.getOrder(orderId);
+      const latestStatus = latest?.status ?? current.status;
+      throw new InvalidStatusTransitionError(latestStatus, "failed", getAllowedTransitions(latestStatus, role));
+    }
+
+    const [attemptRow] = await db.select().from(deliveryAttempts)
+      .where(and(eq(deliveryAttempts.orderId, orderId), eq(deliveryAttempts.attemptNumber, attemptNumber)));
+    this.publishOrderEvents([order], `order.${to}`, current);
+
+    return { order, attempt: attemptRow };
+  }
+
+  async getDeliveryAttempts(orderId: number): Promise<DeliveryAttempt[]> {
+    return await db.select().from(deliveryAttempts)
+      .where(eq(deliveryAttempts.orderId, orderId))
+      .orderBy(asc(deliveryAttempts.attemptNumber));
+  }
+
+  // Proof of delivery operations
+  async createDeliveryProof(proof: typeof deliveryProofs.$inferInsert, photoUrl: string): Promise<DeliveryProof> {
+    const [[created], [order]] = await db.batch([
+      db.insert(deliveryProofs).values(proof).returning(),
+      db.update(orders)
+        .set({ deliveryProofUrl: photoUrl, updatedAt: new Date() })
+        .where(eq(orders.id, proof.orderId))
+        .returning(),
+    ]);
+    if (order) this.publishOrderEvents([order], "order.updated", order);
+    return created;
+  }
+
+  // Latest capture wins when a driver retakes the proof
+  async getDeliveryProof(orderId: number): Promise<DeliveryProof | undefined> {
+    const [proof] = await db.select().from(deliveryProofs)
+      .where(eq(deliveryProofs.orderId, orderId))
+      .orderBy(desc(deliveryProofs.capturedAt))
+      .limit(1);
+    return proof;
+  }
+
+  // Orders without a client (created by staff) follow the default and require POD
+  async isProofOfDeliveryRequired(order: Order): Promise<boolean> {
+    if (!order.clientId) return true;
+    const client = await this.getClient(order.clientId);
+    return client?.requireProofOfDelivery ?? true;
+  }
+
+  // Package (piece) operations
+  // One numbered piece per box: each package line repeated by its quantity
+  // orderId is SQL when the order is inserted in the same batch and has no id yet.
+  private buildPieces(order: Pick<Order, "orderNumber" | "packages">, orderId: number | SQL<number>, status: PackageStatus = "pending") {
+    const lines = (order.packages as OrderPackage[] | null) ?? [];
+    const pieces: (Omit<typeof packages.$inferInsert, "orderId"> & { orderId: number | SQL<number> })[] = [];
+    for (const line of lines.length ? lines : [{ description: "Package", quantity: 1 }]) {
+      const quantity = Math.max(1, Math.floor(line.quantity || 1));
+      for (let i = 0; i < quantity; i++) {
+        const pieceNumber = pieces.length + 1;
+        pieces.push({
+          orderId,
+          pieceNumber,
+          trackingId: getPieceTrackingId(order.orderNumber, pieceNumber),
+          description: line.description || null,
+          weight: line.weight?.toString() ?? null,
+          dimensions: line.dimensions || null,
+          status,
+        });
+      }
+    }
+    return pieces;
+  }
+
+  // Orders created before piece tracking get their pieces on first use, at the status
+  // the order already reached
+  async getOrderPackages(order: Order): Promise<Package[]> {
+    const existing = await db.select().from(packages)
+      .where(eq(packages.orderId, order.id))
+      .orderBy(asc(packages.pieceNumber));
+    if (existing.length > 0) return existing;
+
+    const status: PackageStatus = order.status === "delivered"
+      ? "delivered"
+      : ["picked", "in_transit", "failed", "return_to_sender", "returned"].includes(order.status) ? "picked" : "pending";
+    await db.insert(packages).values(this.buildPieces(order, order.id, status)).onConflictDoNothing();
+    return await db.select().from(packages)
+      .where(eq(packages.orderId, order.id))
+      .orderBy(asc(packages.pieceNumber));
+  }
+
+  async getPackageByTrackingId(trackingId: string): Promise<{ package: Package; order: Order } | undefined> {
+    const parsed = parsePieceTrackingId(trackingId);
+    if (!parsed) return undefined;
+
+    const order = await this.getOrderByNumber(parsed.orderNumber);
+    if (!order) return undefined;
+
+    const piece = (await this.getOrderPackages(order)).find((candidate) => candidate.pieceNumber === parsed.pieceNumber);
+    return piece && { package: piece, order };
+  }
+
+  async getPackageScans(orderId: number): Promise<PackageScan[]> {
+    return await db.select().from(packageScans)
+      .where(eq(packageScans.orderId, orderId))
+      .orderBy(asc(packageScans.scannedAt));
+  }
+
+  // Records a piece scan and rolls the order status up from its pieces, e.g. to
+  // partially_picked until the last piece is scanned. Undefined when no such piece.
+  async scanPackage(
+    trackingId: string,
+    action: PackageScanAction,
+    scannedBy: string,
+    { role, driverId, occurredAt }: { role: string; driverId?: number | null; occurredAt?: Date },
+  ): Promise<PackageScanResult | undefined> {
+    const found = await this.getPackageByTrackingId(trackingId);
+    if (!found) return undefined;
+
+    let { order } = found;
+    const rule = PIECE_SCAN_RULES[action];
+
+    if (found.package.status === rule.status) {
+      return { package: found.package, order, duplicate: true, proofRequired: false };
+    }
+    // As with whole labels, delivering a piece of an order still marked picked first
+    // takes the order in transit
+    for (const status of getScanStatusPath(order.status, action).slice(0, -1)) {
+      const orderId = order.id;
+      order = await this.transitionOrder(orderId, status, scannedBy, {
+        role,
+        notes: `${ORDER_STATUS_LABELS[status]} - Piece ${found.package.pieceNumber} scanned for delivery`,
+        occurredAt,
+      }).catch((error) => this.getOrderMovedTo(orderId, status, error));
+    }
+    if (!rule.orderStatuses.includes(order.status as OrderStatus) || !getAllowedTransitions(order.status, role).includes(rule.complete)) {
+      throw new InvalidStatusTransitionError(order.status, rule.complete, getAllowedTransitions(order.status, role));
+    }
+
+    const scannedAt = occurredAt ?? new Date();
+    const [[piece]] = await db.batch([
+      db.update(packages)
+        .set({ status: rule.status, lastScannedAt: scannedAt, updatedAt: new Date() })
+        .where(eq(packages.id, found.package.id))
+        .returning(),
+      db.insert(packageScans).values({
+        packageId: found.package.id,
+        orderId: order.id,
+        action,
+        driverId: driverId ?? null,
+        scannedBy,
+        scannedAt,
+      }),
+    ]);
+
+    // Scans of the order's other pieces may be rolling it up at the same time. If one of
+    // them moves the order first, the rollup is worked out again from where it left it.
+    let updated = order;
+    let proofRequired = false;
+    for (let attempt = 1; ; attempt++) {
+      const pieces = await this.getOrderPackages(updated);
+      const rollup = getPieceScanRollup(action, pieces);
+      // A missing piece that turns up clears the exception once none are missing
+      const set = updated.pieceException && !pieces.some((candidate) => candidate.status === "missing")
+        ? { pieceException: null }
+        : undefined;
+
+      try {
+        if (rollup !== updated.status) {
+          updated = await this.transitionOrder(updated.id, rollup, scannedBy, {
+            role,
+            notes: `Piece ${piece.pieceNumber} of ${pieces.length} ${action === "pickup" ? "picked up" : "delivered"} - Barcode scanned`,
+            occurredAt,
+            set,
+          });
+        } else if (set) {
+          const previous = updated;
+          [updated] = await db.update(orders)
+            .set({ ...set, updatedAt: new Date() })
+            .where(eq(orders.id, updated.id))
+            .returning();
+          this.publishOrderEvents([updated], "order.updated", previous);
+        }
+        break;
+      } catch (error) {
+        if (error instanceof ProofOfDeliveryRequiredError) {
+          proofRequired = true;
+          break;
+        }
+        if (!(error instanceof InvalidStatusTransitionError) || attempt === SCAN_ROLLUP_ATTEMPTS) throw error;
+        updated = (await this.getOrder(updated.id)) ?? updated;
+      }
+    }
+
+    return { package: piece, order: updated, duplicate: false, proofRequired };
+  }
+
+  // For a transition that failed because another scan already took the order to `status`
+  private async getOrderMovedTo(orderId: number, status: OrderStatus, error: unknown): Promise<Order> {
+    const latest = error instanceof InvalidStatusTransitionError ? await this.getOrder(orderId) : undefined;
+    if (latest?.status !== status) throw error;
+    return latest;
+  }
+
+  // The missing-piece exception queue
+  async getPieceExceptionOrders(): Promise<Order[]> {
+    return await db.select().from(orders)
+      .where(isNotNull(orders.pieceException))
+      .orderBy(desc(orders.updatedAt));
+  }
+
+  // Offline driver sync operations
+  async getDriverSyncMutation(clientMutationId: string): Promise<DriverSyncMutationRecord | undefined> {
+    const [record] = await db.select().from(driverSyncMutations)
+      .where(eq(driverSyncMutations.clientMutationId, clientMutationId));
+    return record;
+  }
+
+  // False when the id is already claimed, by an earlier upload or one still in flight.
+  // A claim still without an outcome after staleAfterMs was left by an upload that died
+  // before recording one, and the same driver's next upload takes it over.
+  async claimDriverSyncMutation(
+    claim: Pick<typeof driverSyncMutations.$inferInsert, "clientMutationId" | "driverId" | "type" | "clientTimestamp">,
+    staleAfterMs: number,
+  ): Promise<boolean> {
+    const claimedAt = new Date();
+    const inserted = await db.insert(driverSyncMutations)
+      .values({ ...claim, claimedAt })
+      .onConflictDoUpdate({
+        target: driverSyncMutations.clientMutationId,
+        set: { claimedAt },
+        setWhere: and(
+          isNull(driverSyncMutations.outcome),
+          eq(driverSyncMutations.driverId, claim.driverId),
+          lt(driverSyncMutations.claimedAt, new Date(claimedAt.getTime() - staleAfterMs)),
+        ),
       })
-      .where(eq(orders.id, orderId))
-      .returning();
+      .returning({ id: driverSyncMutations.id });
+    return inserted.length > 0;
+  }
 
-    return order;
+  async recordDriverSyncMutation(
+    clientMutationId: string,
+    { orderId, outcome, result }: { orderId: number | null; outcome: string; result: unknown },
+  ): Promise<void> {
+    await db.update(driverSyncMutations)
+      .set({ orderId, outcome, result, processedAt: new Date() })
+      .where(eq(driverSyncMutations.clientMutationId, clientMutationId));
+  }
+
+  // Gives up a claim whose mutation failed to apply, so the device's retry can take it
+  async releaseDriverSyncMutation(clientMutationId: string): Promise<void> {
+    await db.delete(driverSyncMutations)
+      .where(and(eq(driverSyncMutations.clientMutationId, clientMutationId), isNull(driverSyncMutations.outcome)));
   }
 
   async createRouteBatch(batchData: InsertRouteBatch): Promise<RouteBatch> {
@@ -419,56 +2321,241 @@ export class DatabaseStorage implements IStorage {
     return result[0];
   }
 
+  // Batch dates are unique, so concurrent callers converge on the same row
+  async getOrCreateBatch(date: string): Promise<RouteBatch> {
+    const existing = await this.getCurrentBatch(date);
+    if (existing) return existing;
+
+    await db.insert(routeBatches)
+      .values({ date, cutoffTime: BATCH_CUTOFF_TIME })
+      .onConflictDoNothing({ target: routeBatches.date });
+    return (await this.getCurrentBatch(date))!;
+  }
+
+  // First batch after `afterDate` that still takes orders, skipping weekends and holidays
+  async getNextOpenBatch(afterDate: string): Promise<RouteBatch> {
+    let date = afterDate;
+    while (true) {
+      date = getNextServiceDay(date);
+      const batch = await this.getOrCreateBatch(date);
+      if (batch.status === "open") return batch;
+    }
+  }
+
+  async getRouteBatches(limit = 60): Promise<RouteBatchSummary[]> {
+    const batches = await db.select().from(routeBatches)
+      .orderBy(desc(routeBatches.date))
+      .limit(limit);
+    if (batches.length === 0) return [];
+
+    const batchIds = batches.map((batch) => batch.id);
+    const [orderCounts, routeCounts] = await Promise.all([
+      db.select({ batchId: orders.batchId, count: sql<number>`cast(count(*) as int)` })
+        .from(orders)
+        .where(inArray(orders.batchId, batchIds))
+        .groupBy(orders.batchId),
+      db.select({ batchId: optimizedRoutes.batchId, count: sql<number>`cast(count(*) as int)` })
+        .from(optimizedRoutes)
+        .where(inArray(optimizedRoutes.batchId, batchIds))
+        .groupBy(optimizedRoutes.batchId),
+    ]);
+
+    return batches.map((batch) => ({
+      ...batch,
+      orderCount: orderCounts.find((row) => row.batchId === batch.id)?.count ?? 0,
+      routeCount: routeCounts.find((row) => row.batchId === batch.id)?.count ?? 0,
+    }));
+  }
+
+  async getRouteBatchesByStatus(status: string): Promise<RouteBatch[]> {
+    return await db.select().from(routeBatches)
+      .where(eq(routeBatches.status, status))
+      .orderBy(asc(routeBatches.date));
+  }
+
+  // Guarded on the current status so only one caller can claim a batch transition
+  async updateRouteBatchStatus(id: number, from: string, to: string): Promise<RouteBatch | undefined> {
+    const updates: Partial<typeof routeBatches.$inferInsert> = { status: to };
+    if (to === "processing") {
+      const [{ count }] = await db.select({ count: sql<number>`cast(count(*) as int)` })
+        .from(orders)
+        .where(eq(orders.batchId, id));
+      updates.closedAt = new Date();
+      updates.totalOrders = count;
+    } else if (to === "completed") {
+      updates.completedAt = new Date();
+    }
+
+    const [batch] = await db.update(routeBatches)
+      .set(updates)
+      .where(and(eq(routeBatches.id, id), eq(routeBatches.status, from)))
+      .returning();
+    return batch;
+  }
+
+  async getUnbatchedOrders(): Promise<Order[]> {
+    return await db.select().from(orders)
+      .where(and(isNull(orders.batchId), eq(orders.status, "pending")))
+      .orderBy(asc(orders.createdAt));
+  }
+
   async addOrderToBatch(orderId: number, batchId: number): Promise<void> {
     await db.update(orders)
       .set({ batchId: batchId })
       .where(eq(orders.id, orderId));
   }
 
-  async optimizeBatch(batchId: number): Promise<OptimizedRoute[]> {
-    // Get all orders for this batch
+  async addOrdersToBatch(orderIds: number[], batchId: number): Promise<void> {
+    if (orderIds.length === 0) return;
+    await db.update(orders)
+      .set({ batchId: batchId })
+      .where(inArray(orders.id, orderIds));
+  }
+
+  // Plans the batch's routes zone by zone with the VRP solver, splitting a zone across
+  // its available drivers (and unassigned overflow routes) as capacity and shifts require.
+  // Replaces any previous plan and writes routeSequence/ETA onto each order.
+  async optimizeBatch(batchId: number): Promise<BatchOptimizationResult> {
+    const batch = await this.getRouteBatch(batchId);
+    if (!batch) {
+      throw new Error(`Batch ${batchId} not found`);
+    }
+
+    const existingRoutes = await this.getRoutesByBatch(batchId);
+    if (existingRoutes.some((route) => route.status !== "pending")) {
+      throw new RouteBatchLockedError(batchId);
+    }
+
     const batchOrders = await db.select().from(orders)
-      .where(eq(orders.batchId, batchId));
+      .where(and(eq(orders.batchId, batchId), inArray(orders.status, ["pending", "assigned"])));
+
+    const unassigned: BatchOptimizationResult["unassigned"] = [];
+    const stopsByZone = new Map<number, RouteStop[]>();
+    const ordersById = new Map(batchOrders.map((order) => [order.id, order]));
 
-    // Group orders by zone
-    const ordersByZone = new Map();
     for (const order of batchOrders) {
-      if (!order.zoneId) continue;
-      
-      if (!ordersByZone.has(order.zoneId)) {
-        ordersByZone.set(order.zoneId, []);
+      if (!order.zoneId) {
+        unassigned.push({ orderId: order.id, orderNumber: order.orderNumber, reason: "No zone assigned" });
+        continue;
+      }
+
+      const coordinates = await this.resolveDeliveryCoordinates(order);
+      if (!coordinates) {
+        unassigned.push({ orderId: order.id, orderNumber: order.orderNumber, reason: "Delivery address has no coordinates" });
+        continue;
       }
-      ordersByZone.get(order.zoneId).push(order);
+
+      const zoneStops = stopsByZone.get(order.zoneId) ?? [];
+      zoneStops.push({
+        id: order.id,
+        ...coordinates,
+        weight: parseFloat(order.weight ?? "0") || 0,
+        windowStart: parseTimeOfDay(order.deliveryWindowStart),
+        windowEnd: parseTimeOfDay(order.deliveryWindowEnd),
+      });
+      stopsByZone.set(order.zoneId, zoneStops);
     }
 
-    // Create optimized routes for each zone
-    const routes = [];
-    for (const [zoneId, zoneOrders] of ordersByZone) {
-      const [route] = await db.insert(optimizedRoutes).values({
-        batchId,
-        zoneId,
-        routeData: zoneOrders,
-        estimatedDistance: "50", // Placeholder calculation
-        estimatedTime: zoneOrders.length * 30, // 30 min per order
-        createdAt: new Date(),
-      }).returning();
-      
-      routes.push(route);
+    const fallback = DEFAULT_ROUTING_OPTIONS.fallbackVehicle!;
+    const routeRows: (typeof optimizedRoutes.$inferInsert)[] = [];
+    const orderUpdates: { id: number; routeSequence: number | null; estimatedDeliveryTime: Date | null }[] = [];
+
+    for (const [zoneId, zoneStops] of Array.from(stopsByZone.entries())) {
+      const vehicles: RouteVehicle[] = (await this.getDriversByZone(zoneId))
+        .filter((driver) => driver.isAvailable)
+        .map((driver) => ({
+          driverId: driver.id,
+          capacity: driver.vehicleCapacity ? parseFloat(driver.vehicleCapacity) : fallback.capacity,
+          shiftMinutes: driver.shiftMinutes ?? fallback.shiftMinutes,
+        }));
+
+      const plan = solveVehicleRouting(zoneStops, vehicles);
+
+      for (const route of plan.routes) {
+        routeRows.push({
+          batchId,
+          zoneId,
+          driverId: route.vehicle.driverId,
+          routeData: {
+            depot: DEFAULT_ROUTING_OPTIONS.depot,
+            departure: formatTimeOfDay(DEFAULT_ROUTING_OPTIONS.startMinutes),
+            load: route.load,
+            capacity: route.vehicle.capacity,
+            stops: route.stops.map((stop) => ({
+              orderId: stop.stopId,
+              orderNumber: ordersById.get(stop.stopId)?.orderNumber,
+              sequence: stop.sequence,
+              arrival: formatTimeOfDay(stop.arrivalMinutes),
+              departure: formatTimeOfDay(stop.departureMinutes),
+              legMiles: Math.round(stop.legMiles * 10) / 10,
+            })),
+          },
+          estimatedDistance: route.distanceMiles.toFixed(2),
+          estimatedTime: Math.round(route.durationMinutes),
+          status: "pending",
+          createdAt: new Date(),
+        });
+
+        for (const stop of route.stops) {
+          orderUpdates.push({
+            id: stop.stopId,
+            routeSequence: stop.sequence,
+            estimatedDeliveryTime: getZonedInstant(batch.date, stop.arrivalMinutes),
+          });
+        }
+      }
+
+      for (const { stopId, reason } of plan.unassigned) {
+        unassigned.push({ orderId: stopId, orderNumber: ordersById.get(stopId)!.orderNumber, reason });
+      }
     }
 
-    return routes;
+    for (const { orderId } of unassigned) {
+      orderUpdates.push({ id: orderId, routeSequence: null, estimatedDeliveryTime: null });
+    }
+
+    // Swap the old plan for the new one in a single batch
+    const queries = [
+      db.delete(optimizedRoutes).where(eq(optimizedRoutes.batchId, batchId)),
+      ...orderUpdates.map(({ id, ...update }) =>
+        db.update(orders).set({ ...update, updatedAt: new Date() }).where(eq(orders.id, id))
+      ),
+      ...(routeRows.length > 0 ? [db.insert(optimizedRoutes).values(routeRows).returning()] : []),
+    ];
+    const results = await db.batch(queries as [typeof queries[number], ...typeof queries]);
+    const routes = routeRows.length > 0 ? results[results.length - 1] as OptimizedRoute[] : [];
+
+    return { routes, unassigned };
   }
 
-  private determineZone(state: string, coordinates?: any): number {
-    // Simple zone determination logic based on state
-    const northStates = ['WI', 'MI', 'MN', 'ND', 'SD'];
-    const southStates = ['TX', 'FL', 'GA', 'AL', 'MS', 'LA', 'SC', 'NC', 'TN', 'KY'];
-    const eastStates = ['NY', 'NJ', 'PA', 'CT', 'MA', 'VT', 'NH', 'ME', 'RI'];
-    
-    if (northStates.includes(state)) return 1; // North zone
-    if (southStates.includes(state)) return 2; // South zone  
-    if (eastStates.includes(state)) return 3; // East zone
-    return 4; // West zone (default)
+  // Stored coordinates, or a geocode of the delivery address saved back onto the order.
+  // Returns null when neither is available so the order can be reported, not guessed.
+  private async resolveDeliveryCoordinates(order: Order): Promise<{ lat: number; lng: number } | null> {
+    const stored = storedCoordinates(order);
+    if (stored) {
+      return stored;
+    }
+
+    try {
+      const result = await validateAddress({
+        line1: order.deliveryLine1,
+        line2: order.deliveryLine2,
+        city: order.deliveryCity,
+        state: order.deliveryState,
+        zip: order.deliveryZip,
+        country: order.deliveryCountry,
+      });
+      if (!result.isValid || result.latitude === undefined || result.longitude === undefined) {
+        return null;
+      }
+
+      const coordinates = { lat: result.latitude, lng: result.longitude };
+      await db.update(orders).set({ deliveryCoordinates: coordinates }).where(eq(orders.id, order.id));
+      return coordinates;
+    } catch (error) {
+      console.error(`Error geocoding order ${order.orderNumber}:`, error);
+      return null;
+    }
   }
 
   async createOptimizedRoute(routeData: InsertOptimizedRoute): Promise<OptimizedRoute> {
@@ -0,0 +1,64 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createServer, type IncomingMessage } from "http";
+import type { AddressInfo } from "net";
+import "./testSupport";
+import { isPublicAddress, assertPublicWebhookUrl, resolvePublicWebhookUrl, postWebhook, WebhookUrlError } from "./webhooks";
+
+// Webhook URLs are tenant input; anything that reaches the server's own network is refused
+
+test("loopback, private, link-local and metadata addresses aren't public", () => {
+  for (const address of [
+    "127.0.0.1", "10.1.2.3", "172.16.0.1", "192.168.1.1", "169.254.169.254", "100.64.0.1", "0.0.0.0",
+    "::1", "fd00::1", "fe80::1", "::ffff:127.0.0.1", "::ffff:169.254.169.254",
+  ]) {
+    assert.equal(isPublicAddress(address), false, address);
+  }
+});
+
+test("public addresses are", () => {
+  for (const address of ["8.8.8.8", "93.184.216.34", "2606:4700:4700::1111"]) {
+    assert.equal(isPublicAddress(address), true, address);
+  }
+});
+
+test("endpoint URLs that reach a non-public address are rejected", async () => {
+  for (const url of [
+    "http://127.0.0.1:5000/api/orders",
+    "http://localhost/hook",
+    "http://169.254.169.254/latest/meta-data/",
+    "http://[::1]/hook",
+    "https://10.0.0.5/hook",
+    "ftp://8.8.8.8/hook",
+  ]) {
+    await assert.rejects(assertPublicWebhookUrl(url), WebhookUrlError, url);
+  }
+});
+
+test("endpoint URLs on a public address are accepted", async () => {
+  await assertPublicWebhookUrl("https://8.8.8.8/hook");
+});
+
+test("the resolved address is the one a delivery connects to", async () => {
+  assert.deepEqual((await resolvePublicWebhookUrl("https://8.8.8.8/hook")).address, { address: "8.8.8.8", family: 4 });
+
+  // The host doesn't resolve at all, so the request can only reach the receiver through
+  // the address it was given
+  const received: IncomingMessage[] = [];
+  const server = createServer((req, res) => {
+    received.push(req);
+    res.writeHead(204).end();
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  try {
+    const { port } = server.address() as AddressInfo;
+    const status = await postWebhook(new URL(`http://hooks.example.invalid:${port}/hook`), { address: "127.0.0.1", family: 4 }, {
+      "Content-Type": "application/json",
+    }, "{}");
+
+    assert.equal(status, 204);
+    assert.equal(received[0].headers.host, `hooks.example.invalid:${port}`);
+  } finally {
+    server.close();
+  }
+});
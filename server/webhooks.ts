@@ -0,0 +1,222 @@
+import { createHmac, randomBytes } from "crypto";
+import { lookup } from "dns/promises";
+import type { LookupAddress } from "dns";
+import http from "http";
+import https from "https";
+import { BlockList, isIP } from "net";
+import { storage } from "./storage";
+import type { WebhookDelivery, WebhookEndpoint } from "@shared/schema";
+
+// Outbound webhook delivery. Events are written to the webhook_deliveries outbox by
+// storage; this worker posts them with an HMAC signature and retries failures with
+// exponential backoff until MAX_WEBHOOK_ATTEMPTS, after which the row is dead-lettered.
+//
+// Receivers verify `X-ShipXpress-Signature: t=<unix seconds>,v1=<hex>` where
+// v1 = HMAC-SHA256(secret, `${t}.${rawBody}`).
+//
+// Endpoint URLs are tenant input, so they must resolve to public addresses only, both
+// when saved and before every send, redirects aren't followed and only the receiver's
+// status code is kept. The request is sent to the address the check passed, so a host
+// that resolves differently the second time can't redirect it to the server's network.
+
+export const MAX_WEBHOOK_ATTEMPTS = parseInt(process.env.MAX_WEBHOOK_ATTEMPTS || "8");
+
+const POLL_INTERVAL_MS = 15 * 1000;
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+const BATCH_SIZE = 50;
+const BASE_BACKOFF_MS = 30 * 1000;
+const MAX_BACKOFF_MS = 6 * 60 * 60 * 1000;
+
+// A row still "sending" this long after it was claimed was left by a worker that died;
+// twice what a batch of timed-out requests takes
+export const STALE_SENDING_MS = 2 * BATCH_SIZE * REQUEST_TIMEOUT_MS;
+
+// Loopback, private, link-local (including cloud metadata), CGNAT, multicast and other
+// reserved ranges. IPv4-mapped IPv6 addresses are checked against the IPv4 ranges.
+const NON_PUBLIC_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8], ["10.0.0.0", 8], ["100.64.0.0", 10], ["127.0.0.0", 8], ["169.254.0.0", 16],
+  ["172.16.0.0", 12], ["192.0.0.0", 24], ["192.0.2.0", 24], ["192.168.0.0", 16], ["198.18.0.0", 15],
+  ["198.51.100.0", 24], ["203.0.113.0", 24], ["224.0.0.0", 4], ["240.0.0.0", 4],
+] as const) {
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128], ["::1", 128], ["64:ff9b::", 96], ["100::", 64], ["2001:db8::", 32],
+  ["fc00::", 7], ["fe80::", 10], ["fec0::", 10], ["ff00::", 8],
+] as const) {
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
+
+// Raised for endpoint URLs that aren't http(s) or reach a non-public address
+export class WebhookUrlError extends Error {
+  status = 400;
+
+  constructor(message: string) {
+    super(message);
+    this.name = "WebhookUrlError";
+  }
+
+  toJSON() {
+    return { message: this.message };
+  }
+}
+
+export function isPublicAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) return false;
+  return !NON_PUBLIC_ADDRESSES.check(address, family === 6 ? "ipv6" : "ipv4");
+}
+
+// Resolves the URL's host; every address it resolves to must be public. Returns the
+// address to connect to.
+export async function resolvePublicWebhookUrl(url: string): Promise<{ url: URL; address: LookupAddress }> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new WebhookUrlError("Must be a valid URL");
+  }
+  if (parsed.protocol !== "https:" && parsed.protocol !== "http:") {
+    throw new WebhookUrlError("Must be an http(s) URL");
+  }
+
+  const host = parsed.hostname.replace(/^\[|\]$/g, "");
+  let addresses: LookupAddress[];
+  try {
+    addresses = isIP(host) ? [{ address: host, family: isIP(host) }] : await lookup(host, { all: true, verbatim: true });
+  } catch {
+    throw new WebhookUrlError(`Could not resolve ${host}`);
+  }
+  if (addresses.length === 0 || !addresses.every((entry) => isPublicAddress(entry.address))) {
+    throw new WebhookUrlError("Webhook URLs must point to a public address");
+  }
+  return { url: parsed, address: addresses[0] };
+}
+
+export async function assertPublicWebhookUrl(url: string): Promise<void> {
+  await resolvePublicWebhookUrl(url);
+}
+
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString("hex")}`;
+}
+
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  const signature = createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+  return `t=${timestamp},v1=${signature}`;
+}
+
+// POSTs `body` to `url`, connecting to `address` rather than resolving the host again;
+// resolves to the response status
+export function postWebhook(url: URL, address: LookupAddress, headers: Record<string, string>, body: string): Promise<number> {
+  const request = url.protocol === "https:" ? https.request : http.request;
+  return new Promise((resolve, reject) => {
+    const req = request(url, {
+      method: "POST",
+      headers: { ...headers, "Content-Length": Buffer.byteLength(body) },
+      lookup: (_hostname, options, callback) =>
+        options.all ? callback(null, [address]) : callback(null, address.address, address.family),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    }, (response) => {
+      // The receiver's body is never read back to the tenant
+      response.resume();
+      resolve(response.statusCode ?? 0);
+    });
+    req.on("error", reject);
+    req.end(body);
+  });
+}
+
+// 30s, 1m, 2m, 4m ... capped at 6h
+export function getBackoffDelay(attempts: number): number {
+  return Math.min(BASE_BACKOFF_MS * 2 ** Math.max(attempts - 1, 0), MAX_BACKOFF_MS);
+}
+
+export async function deliverWebhook(delivery: WebhookDelivery, endpoint: WebhookEndpoint): Promise<WebhookDelivery["status"]> {
+  const attempts = delivery.attempts + 1;
+  const now = new Date();
+
+  if (!endpoint.isActive) {
+    await storage.updateWebhookDelivery(delivery.id, {
+      status: "dead",
+      lastAttemptAt: now,
+      lastError: "Endpoint is disabled",
+    });
+    return "dead";
+  }
+
+  const body = JSON.stringify(delivery.payload);
+  let responseStatus: number | null = null;
+  let error: string | null = null;
+
+  try {
+    const { url, address } = await resolvePublicWebhookUrl(endpoint.url);
+    responseStatus = await postWebhook(url, address, {
+      "Content-Type": "application/json",
+      "User-Agent": "ShipXpress-Webhooks/1.0",
+      "X-ShipXpress-Event": delivery.eventType,
+      "X-ShipXpress-Delivery": String(delivery.id),
+      "X-ShipXpress-Signature": signWebhookPayload(endpoint.secret, Math.floor(now.getTime() / 1000), body),
+    }, body);
+    // A redirect counts as a failed delivery rather than a request to wherever it points
+    if (responseStatus < 200 || responseStatus >= 300) {
+      error = `HTTP ${responseStatus}`;
+    }
+  } catch (err) {
+    error = err instanceof Error ? err.message : String(err);
+  }
+
+  if (!error) {
+    await storage.updateWebhookDelivery(delivery.id, {
+      status: "delivered",
+      attempts,
+      lastAttemptAt: now,
+      lastResponseStatus: responseStatus,
+      lastError: null,
+      deliveredAt: now,
+    });
+    return "delivered";
+  }
+
+  const status = attempts >= MAX_WEBHOOK_ATTEMPTS ? "dead" : "retrying";
+  await storage.updateWebhookDelivery(delivery.id, {
+    status,
+    attempts,
+    lastAttemptAt: now,
+    lastResponseStatus: responseStatus,
+    lastError: error,
+    nextAttemptAt: status === "retrying" ? new Date(now.getTime() + getBackoffDelay(attempts)) : null,
+  });
+  return status;
+}
+
+let running = false;
+
+// Drains every due delivery. Skips if a previous run in this process is still going;
+// other instances draining at the same time claim different rows.
+export async function processWebhookOutbox(): Promise<void> {
+  if (running) return;
+  running = true;
+
+  try {
+    while (true) {
+      const due = await storage.claimDueWebhookDeliveries(BATCH_SIZE);
+      if (due.length === 0) break;
+
+      for (const { delivery, endpoint } of due) {
+        await deliverWebhook(delivery, endpoint);
+      }
+      if (due.length < BATCH_SIZE) break;
+    }
+  } catch (error) {
+    console.error("Error processing webhook outbox:", error);
+  } finally {
+    running = false;
+  }
+}
+
+export function startWebhookWorker() {
+  const timer = setInterval(processWebhookOutbox, POLL_INTERVAL_MS);
+  timer.unref();
+}
@@ -0,0 +1,77 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { matchZone, polygonContains } from "./zoning";
+import type { Zone, ZonePolygon } from "@shared/schema";
+
+// Which zone a delivery falls in: polygon containment, radius and ZIP prefix rules,
+// with the highest priority winning and ties left for a dispatcher
+
+// A 2x2 degree square round the origin with a 1x1 hole in the middle; [lng, lat] positions
+const SQUARE_WITH_HOLE: ZonePolygon = {
+  type: "Polygon",
+  coordinates: [
+    [[-1, -1], [1, -1], [1, 1], [-1, 1], [-1, -1]],
+    [[-0.5, -0.5], [0.5, -0.5], [0.5, 0.5], [-0.5, 0.5], [-0.5, -0.5]],
+  ],
+};
+
+function zone(id: number, fields: Partial<Zone>): Zone {
+  return { id, name: `Zone ${id}`, ruleType: "radius", priority: 0, isActive: true, radius: 10, ...fields } as Zone;
+}
+
+const LOOP = { lat: 41.88, lng: -87.63 };
+
+test("polygons contain points inside the outer ring and outside its holes", () => {
+  assert.equal(polygonContains(SQUARE_WITH_HOLE, { lat: 0.75, lng: 0.75 }), true);
+  assert.equal(polygonContains(SQUARE_WITH_HOLE, { lat: 0, lng: 0 }), false);
+  assert.equal(polygonContains(SQUARE_WITH_HOLE, { lat: 0, lng: 1.5 }), false);
+});
+
+test("a multipolygon contains points in any of its parts", () => {
+  const islands: ZonePolygon = {
+    type: "MultiPolygon",
+    coordinates: [
+      [[[0, 0], [1, 0], [1, 1], [0, 1], [0, 0]]],
+      [[[10, 10], [11, 10], [11, 11], [10, 11], [10, 10]]],
+    ],
+  };
+  assert.equal(polygonContains(islands, { lat: 0.5, lng: 0.5 }), true);
+  assert.equal(polygonContains(islands, { lat: 10.5, lng: 10.5 }), true);
+  assert.equal(polygonContains(islands, { lat: 5, lng: 5 }), false);
+});
+
+test("each rule type matches its own deliveries", () => {
+  const zones = [
+    zone(1, { ruleType: "polygon", polygon: SQUARE_WITH_HOLE }),
+    zone(2, { ruleType: "radius", centerLat: "41.88", centerLng: "-87.63", radius: 10 }),
+    zone(3, { ruleType: "zip_prefix", zipPrefixes: ["606", "607"] }),
+  ];
+
+  assert.deepEqual(matchZone(zones, "00000", { lat: 0.75, lng: 0.75 }), { zoneId: 1, exception: null });
+  assert.deepEqual(matchZone(zones, "00000", { lat: 41.95, lng: -87.65 }), { zoneId: 2, exception: null });
+  assert.deepEqual(matchZone(zones, " 60714", null), { zoneId: 3, exception: null });
+  // About 43 miles north of the center
+  assert.deepEqual(matchZone(zones, "00000", { lat: 42.5, lng: -87.63 }), { zoneId: null, exception: "unmatched", candidates: [] });
+});
+
+test("overlapping zones go to the highest priority, and a tie to nobody", () => {
+  const zones = [
+    zone(1, { ruleType: "zip_prefix", zipPrefixes: ["606"], priority: 0 }),
+    zone(2, { centerLat: "41.88", centerLng: "-87.63", priority: 5 }),
+    zone(3, { centerLat: "41.90", centerLng: "-87.60", priority: 5 }),
+  ];
+
+  assert.deepEqual(matchZone(zones.slice(0, 2), "60601", LOOP), { zoneId: 2, exception: null });
+  assert.deepEqual(matchZone(zones, "60601", LOOP), { zoneId: null, exception: "ambiguous", candidates: [2, 3] });
+});
+
+test("inactive zones are ignored, and geometric zones need coordinates", () => {
+  const zones = [
+    zone(1, { centerLat: "41.88", centerLng: "-87.63", isActive: false }),
+    zone(2, { ruleType: "zip_prefix", zipPrefixes: ["606"], isActive: false }),
+  ];
+  assert.deepEqual(matchZone(zones, "60601", LOOP), { zoneId: null, exception: "unmatched", candidates: [] });
+
+  zones[0].isActive = true;
+  assert.deepEqual(matchZone(zones, "60601", null), { zoneId: null, exception: "no_coordinates", candidates: [] });
+});
@@ -0,0 +1,69 @@
+import { haversineMiles, type LatLng } from "./routeOptimizer";
+import type { Zone, ZoneException, ZonePolygon } from "@shared/schema";
+
+// Zone rules for delivery addresses. A zone matches by one of:
+//   polygon     GeoJSON Polygon/MultiPolygon containing the delivery coordinates
+//   radius      within `radius` miles of centerLat/centerLng
+//   zip_prefix  delivery ZIP starts with one of zipPrefixes
+// When several zones match, the highest priority wins; a tie is ambiguous and the
+// order goes to the unzoned queue rather than being guessed.
+
+export type ZoneMatch =
+  | { zoneId: number; exception: null }
+  | { zoneId: null; exception: ZoneException; candidates: number[] };
+
+// Ray casting on one ring; positions are [lng, lat]
+function ringContains(ring: number[][], point: LatLng): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if ((yi > point.lat) !== (yj > point.lat) && point.lng < ((xj - xi) * (point.lat - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+// First ring is the outer boundary, the rest are holes
+export function polygonContains(polygon: ZonePolygon, point: LatLng): boolean {
+  const polygons = polygon.type === "Polygon" ? [polygon.coordinates] : polygon.coordinates;
+  return polygons.some(([outer, ...holes]) =>
+    ringContains(outer, point) && !holes.some((hole) => ringContains(hole, point))
+  );
+}
+
+// True when the rule needs the delivery coordinates rather than just the ZIP
+export function zoneNeedsCoordinates(zone: Zone): boolean {
+  return zone.ruleType !== "zip_prefix";
+}
+
+function zoneMatches(zone: Zone, zip: string, point: LatLng | null): boolean {
+  switch (zone.ruleType) {
+    case "zip_prefix":
+      return (zone.zipPrefixes ?? []).some((prefix) => zip.trim().startsWith(prefix));
+    case "polygon":
+      return !!point && !!zone.polygon && polygonContains(zone.polygon as ZonePolygon, point);
+    default:
+      if (!point || !zone.centerLat || !zone.centerLng) return false;
+      return haversineMiles(point, { lat: parseFloat(zone.centerLat), lng: parseFloat(zone.centerLng) }) <= zone.radius;
+  }
+}
+
+export function matchZone(zones: Zone[], zip: string, point: LatLng | null): ZoneMatch {
+  const active = zones.filter((zone) => zone.isActive);
+  const matches = active.filter((zone) => zoneMatches(zone, zip, point));
+
+  if (matches.length === 0) {
+    // Without coordinates we can't tell whether a geometric zone would have matched
+    const exception = !point && active.some(zoneNeedsCoordinates) ? "no_coordinates" : "unmatched";
+    return { zoneId: null, exception, candidates: [] };
+  }
+
+  const topPriority = Math.max(...matches.map((zone) => zone.priority));
+  const top = matches.filter((zone) => zone.priority === topPriority);
+  if (top.length > 1) {
+    return { zoneId: null, exception: "ambiguous", candidates: top.map((zone) => zone.id) };
+  }
+  return { zoneId: top[0].id, exception: null };
+}
@@ -0,0 +1,126 @@
+// Order status lifecycle shared by the server and all portals.
+// Assigned → Picked → In-Transit → Delivered/Failed, with pending and voided at the edges.
+// Failed orders are either rescheduled (back to pending) or sent back via return_to_sender.
+// Multi-piece orders pass through partially_picked/partially_delivered while the driver
+// scans their pieces one by one (see the packages table).
+
+export const ORDER_STATUSES = [
+  "pending",
+  "assigned",
+  "partially_picked",
+  "picked",
+  "in_transit",
+  "partially_delivered",
+  "delivered",
+  "failed",
+  "return_to_sender",
+  "returned",
+  "voided",
+] as const;
+
+export type OrderStatus = (typeof ORDER_STATUSES)[number];
+
+export type OrderActorRole = "super_admin" | "staff" | "client" | "driver";
+
+// Moves the server makes itself (assignment, voiding, rescheduling after a failed
+// attempt) once the route's policy has allowed the request; may take any transition
+export const SYSTEM_ROLE = "system";
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  pending: "Pending",
+  assigned: "Assigned",
+  partially_picked: "Partially Picked",
+  picked: "Picked",
+  in_transit: "In Transit",
+  partially_delivered: "Partially Delivered",
+  delivered: "Delivered",
+  failed: "Failed",
+  return_to_sender: "Return to Sender",
+  returned: "Returned",
+  voided: "Voided",
+};
+
+const DISPATCH: OrderActorRole[] = ["super_admin", "staff"];
+const FIELD: OrderActorRole[] = ["super_admin", "staff", "driver"];
+const CANCEL: OrderActorRole[] = ["super_admin", "client"];
+
+// Allowed next states for each status, and which roles may make that move.
+// Delivered, returned and voided are terminal.
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, Partial<Record<OrderStatus, OrderActorRole[]>>> = {
+  pending: {
+    assigned: DISPATCH,
+    voided: CANCEL,
+  },
+  assigned: {
+    partially_picked: FIELD,
+    picked: FIELD,
+    pending: DISPATCH,
+    voided: CANCEL,
+  },
+  // Leaving with pieces unscanned marks them missing
+  partially_picked: {
+    picked: FIELD,
+    in_transit: FIELD,
+    failed: FIELD,
+  },
+  picked: {
+    in_transit: FIELD,
+    failed: FIELD,
+  },
+  in_transit: {
+    partially_delivered: FIELD,
+    delivered: FIELD,
+    failed: FIELD,
+  },
+  partially_delivered: {
+    delivered: FIELD,
+    failed: FIELD,
+  },
+  failed: {
+    pending: DISPATCH,
+    assigned: DISPATCH,
+    return_to_sender: DISPATCH,
+  },
+  return_to_sender: {
+    returned: FIELD,
+  },
+  returned: {},
+  delivered: {},
+  voided: {},
+};
+
+// Statuses in which the order is with a driver, from assignment until it leaves the van
+export const ACTIVE_ORDER_STATUSES: OrderStatus[] = ["assigned", "partially_picked", "picked", "in_transit", "partially_delivered"];
+
+export function isOrderStatus(value: string): value is OrderStatus {
+  return (ORDER_STATUSES as readonly string[]).includes(value);
+}
+
+// Next states `role` may move an order to from `from`. A missing or unknown role gets
+// none; SYSTEM_ROLE gets every transition in the table.
+export function getAllowedTransitions(from: string, role: string | null | undefined): OrderStatus[] {
+  if (!isOrderStatus(from) || !role) return [];
+
+  const targets = ORDER_STATUS_TRANSITIONS[from];
+  return (Object.keys(targets) as OrderStatus[]).filter((to) =>
+    role === SYSTEM_ROLE || (targets[to] as string[]).includes(role)
+  );
+}
+
+export function canTransition(from: string, to: string, role: string | null | undefined): boolean {
+  return getAllowedTransitions(from, role).includes(to as OrderStatus);
+}
+
+// Status a barcode scan of the whole label moves the order to
+export const SCAN_TARGET_STATUSES: Record<"pickup" | "delivery", OrderStatus> = {
+  pickup: "picked",
+  delivery: "delivered",
+};
+
+// Statuses a scan takes an order through, in order, to reach its target. Drivers often
+// skip marking an order in transit; one scanned for delivery while still picked has
+// evidently left the depot, so it steps through in_transit rather than being refused.
+export function getScanStatusPath(from: string, action: "pickup" | "delivery"): OrderStatus[] {
+  const target = SCAN_TARGET_STATUSES[action];
+  return action === "delivery" && from === "picked" ? ["in_transit", target] : [target];
+}
@@ -5,16 +5,19 @@ import {
   timestamp,
   jsonb,
   index,
+  uniqueIndex,
   integer,
   numeric,
   boolean,
   date,
   time,
   serial,
+  pgSequence,
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
-import { relations } from "drizzle-orm";
+import { relations, sql } from "drizzle-orm";
 import { z } from "zod";
+import { ORDER_STATUSES } from "./orderStatus";
 
 // Session storage table.
 export const sessions = pgTable(
@@ -36,6 +39,15 @@ export const users = pgTable("users", {
   profileImageUrl: varchar("profile_image_url"),
   role: varchar("role").notNull().default("client"), // super_admin, client, driver, staff
   clientId: integer("client_id"),
+  clientRole: varchar("client_role"), // see CLIENT_ROLES; set for users who belong to a client
+  // Client portal users sign in with their email and this scrypt hash; null until an invite is accepted
+  passwordHash: varchar("password_hash"),
+  failedLoginAttempts: integer("failed_login_attempts").notNull().default(0),
+  lockedUntil: timestamp("locked_until"),
+  passwordChangedAt: timestamp("password_changed_at"),
+  isActive: boolean("is_active").notNull().default(true),
+  invitedBy: varchar("invited_by"),
+  lastLoginAt: timestamp("last_login_at"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -52,6 +64,8 @@ export const drivers = pgTable("drivers", {
   location: jsonb("location"),
   isAvailable: boolean("is_available").notNull().default(true),
   assignedZoneId: integer("assigned_zone_id"),
+  vehicleCapacity: numeric("vehicle_capacity", { precision: 10, scale: 2 }), // lbs
+  shiftMinutes: integer("shift_minutes"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -63,7 +77,10 @@ export const orders = pgTable("orders", {
   clientId: integer("client_id"),
   customerId: integer("customer_id"),
   driverId: integer("driver_id"),
+  assignmentPinned: boolean("assignment_pinned").notNull().default(false), // manual assignment; auto-assign leaves it alone
   zoneId: integer("zone_id"),
+  zoneException: varchar("zone_exception"), // see ZONE_EXCEPTIONS; set while the order sits in the unzoned queue
+  pieceException: varchar("piece_exception"), // see PIECE_EXCEPTIONS; set while some of its pieces are missing
   customerName: varchar("customer_name").notNull(),
   customerPhone: varchar("customer_phone"),
   customerEmail: varchar("customer_email"),
@@ -78,7 +95,7 @@ export const orders = pgTable("orders", {
   weight: numeric("weight", { precision: 10, scale: 2 }),
   distance: numeric("distance", { precision: 10, scale: 2 }),
   specialInstructions: text("special_instructions"),
-  status: varchar("status").notNull().default("pending"), // pending, assigned, in_transit, delivered, voided
+  status: varchar("status").notNull().default("pending"), // see ORDER_STATUSES in orderStatus.ts
   actualDeliveryTime: timestamp("actual_delivery_time"),
   estimatedDeliveryTime: timestamp("estimated_delivery_time"),
   deliveryCoordinates: jsonb("delivery_coordinates"),
@@ -89,6 +106,14 @@ export const orders = pgTable("orders", {
   voidedBy: varchar("voided_by"),
   batchId: integer("batch_id"),
   routeSequence: integer("route_sequence"),
+  deliveryWindowStart: time("delivery_window_start"),
+  deliveryWindowEnd: time("delivery_window_end"),
+  priority: varchar("priority").notNull().default("normal"), // see ORDER_PRIORITIES
+  fragile: boolean("fragile").notNull().default(false),
+  rateCardId: integer("rate_card_id"),
+  price: numeric("price", { precision: 10, scale: 2 }), // frozen at creation; rate card changes don't rewrite it
+  priceBreakdown: jsonb("price_breakdown").$type<PriceQuote>(),
+  pricedAt: timestamp("priced_at"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -113,10 +138,101 @@ export const orderStatusHistory = pgTable("order_status_history", {
   notes: text("notes"),
 });
 
+// Delivery attempts table - one row per failed attempt at the door
+export const deliveryAttempts = pgTable("delivery_attempts", {
+  id: serial("id").primaryKey(),
+  orderId: integer("order_id").notNull().references(() => orders.id),
+  attemptNumber: integer("attempt_number").notNull(),
+  driverId: integer("driver_id"),
+  reasonCode: varchar("reason_code").notNull(), // see DELIVERY_FAILURE_REASONS
+  notes: text("notes"),
+  rescheduledBatchId: integer("rescheduled_batch_id"),
+  recordedBy: varchar("recorded_by"),
+  attemptedAt: timestamp("attempted_at").defaultNow(),
+}, (table) => [uniqueIndex("UQ_delivery_attempts_order_attempt").on(table.orderId, table.attemptNumber)]);
+
+// Breadcrumbs from driver location pings; pruned after LOCATION_HISTORY_RETENTION_DAYS
+export const driverLocationHistory = pgTable("driver_location_history", {
+  id: serial("id").primaryKey(),
+  driverId: integer("driver_id").notNull().references(() => drivers.id),
+  lat: numeric("lat", { precision: 10, scale: 8 }).notNull(),
+  lng: numeric("lng", { precision: 11, scale: 8 }).notNull(),
+  accuracy: numeric("accuracy", { precision: 8, scale: 2 }), // meters
+  heading: numeric("heading", { precision: 5, scale: 2 }), // degrees from north
+  speed: numeric("speed", { precision: 6, scale: 2 }), // meters per second
+  recordedAt: timestamp("recorded_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [index("IDX_driver_location_history_driver").on(table.driverId, table.recordedAt)]);
+
+// Proof of delivery captured at the door. Photo and signature live in the blob store
+// (see server/blobStore.ts); only their keys are kept here.
+export const deliveryProofs = pgTable("delivery_proofs", {
+  id: serial("id").primaryKey(),
+  orderId: integer("order_id").notNull().references(() => orders.id),
+  driverId: integer("driver_id"),
+  photoKey: varchar("photo_key").notNull(),
+  signatureKey: varchar("signature_key").notNull(),
+  recipientName: varchar("recipient_name").notNull(),
+  lat: numeric("lat", { precision: 10, scale: 8 }),
+  lng: numeric("lng", { precision: 11, scale: 8 }),
+  accuracy: numeric("accuracy", { precision: 8, scale: 2 }), // meters
+  capturedAt: timestamp("captured_at").notNull(),
+  capturedBy: varchar("captured_by"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [index("IDX_delivery_proofs_order").on(table.orderId)]);
+
+// Physical pieces of an order: the orders.packages lines expanded by quantity, one row
+// per box. Each piece has its own tracking id (printed on its label) and status, and the
+// order status rolls up from them.
+export const packages = pgTable("packages", {
+  id: serial("id").primaryKey(),
+  orderId: integer("order_id").notNull().references(() => orders.id),
+  pieceNumber: integer("piece_number").notNull(), // 1-based, "piece n of N" on the label
+  trackingId: varchar("tracking_id").notNull().unique(), // see getPieceTrackingId
+  description: varchar("description"),
+  weight: numeric("weight", { precision: 10, scale: 2 }),
+  dimensions: varchar("dimensions"),
+  status: varchar("status").notNull().default("pending"), // see PACKAGE_STATUSES
+  lastScannedAt: timestamp("last_scanned_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [index("IDX_packages_order").on(table.orderId)]);
+
+// Scan history of each piece
+export const packageScans = pgTable("package_scans", {
+  id: serial("id").primaryKey(),
+  packageId: integer("package_id").notNull().references(() => packages.id),
+  orderId: integer("order_id").notNull(),
+  action: varchar("action").notNull(), // see PACKAGE_SCAN_ACTIONS
+  driverId: integer("driver_id"),
+  scannedBy: varchar("scanned_by"),
+  scannedAt: timestamp("scanned_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [index("IDX_package_scans_package").on(table.packageId)]);
+
+// Offline driver mutations replayed through /api/driver/sync, keyed by the id the
+// device generated so a retried upload returns the original result. A row is claimed
+// before the mutation is applied; outcome and result stay null until it has been, and
+// claimedAt tells a live claim from one whose upload died before recording them.
+export const driverSyncMutations = pgTable("driver_sync_mutations", {
+  id: serial("id").primaryKey(),
+  clientMutationId: varchar("client_mutation_id").notNull().unique(),
+  driverId: integer("driver_id").notNull().references(() => drivers.id),
+  type: varchar("type").notNull(), // see DRIVER_SYNC_MUTATION_TYPES
+  orderId: integer("order_id"),
+  outcome: varchar("outcome"), // see DRIVER_SYNC_OUTCOMES
+  result: jsonb("result"),
+  clientTimestamp: timestamp("client_timestamp").notNull(),
+  claimedAt: timestamp("claimed_at").notNull().defaultNow(),
+  processedAt: timestamp("processed_at").defaultNow(),
+}, (table) => [index("IDX_driver_sync_mutations_driver").on(table.driverId, table.processedAt)]);
+
 // Activity logs table
 export const activityLogs = pgTable("activity_logs", {
   id: serial("id").primaryKey(),
   userId: varchar("user_id").notNull(),
+  // Super admin who was impersonating userId's client when this happened
+  impersonatorId: varchar("impersonator_id"),
   action: varchar("action").notNull(),
   description: text("description"),
   metadata: jsonb("metadata"),
@@ -131,8 +247,14 @@ export const clients = pgTable("clients", {
   contactEmail: varchar("contact_email"),
   contactPhone: varchar("contact_phone"),
   loginUsername: varchar("login_username").unique().notNull(),
-  loginPassword: varchar("login_password").notNull(),
+  loginPassword: varchar("login_password").notNull(), // scrypt hash; legacy plaintext rows are hashed on next login
+  failedLoginAttempts: integer("failed_login_attempts").notNull().default(0), // consecutive, reset on success
+  lockedUntil: timestamp("locked_until"),
+  passwordChangedAt: timestamp("password_changed_at"),
   isActive: boolean("is_active").notNull().default(true),
+  requireProofOfDelivery: boolean("require_proof_of_delivery").notNull().default(true), // orders can't be marked delivered without POD
+  creditLimit: numeric("credit_limit", { precision: 12, scale: 2 }), // null means no limit
+  creditPolicy: varchar("credit_policy").notNull().default("warn"), // see CREDIT_POLICIES
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -145,6 +267,10 @@ export const zones = pgTable("zones", {
   radius: integer("radius").notNull().default(300), // miles
   centerLat: numeric("center_lat", { precision: 10, scale: 8 }),
   centerLng: numeric("center_lng", { precision: 11, scale: 8 }),
+  ruleType: varchar("rule_type").notNull().default("radius"), // see ZONE_RULE_TYPES
+  polygon: jsonb("polygon"), // GeoJSON Polygon or MultiPolygon geometry, [lng, lat] positions
+  zipPrefixes: jsonb("zip_prefixes").$type<string[]>(),
+  priority: integer("priority").notNull().default(0), // higher wins when rules overlap
   isActive: boolean("is_active").notNull().default(true),
   createdAt: timestamp("created_at").defaultNow(),
 });
@@ -152,10 +278,12 @@ export const zones = pgTable("zones", {
 // Route batches table for daily batch processing
 export const routeBatches = pgTable("route_batches", {
   id: serial("id").primaryKey(),
-  date: date("date").notNull(),
+  date: date("date").notNull().unique(),
   cutoffTime: time("cutoff_time").notNull().default("14:30:00"), // 2:30 PM
   status: varchar("status").notNull().default("open"), // open, processing, completed
   totalOrders: integer("total_orders").notNull().default(0),
+  closedAt: timestamp("closed_at"),
+  completedAt: timestamp("completed_at"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -173,6 +301,202 @@ export const optimizedRoutes = pgTable("optimized_routes", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// API keys for client integrations. Only a SHA-256 hash of the key is stored;
+// the prefix is kept in clear so a key can be recognised in the UI.
+export const clientApiKeys = pgTable("client_api_keys", {
+  id: serial("id").primaryKey(),
+  clientId: integer("client_id").notNull().references(() => clients.id),
+  name: varchar("name").notNull(),
+  keyPrefix: varchar("key_prefix").notNull(),
+  keyHash: varchar("key_hash").notNull().unique(),
+  scopes: jsonb("scopes").notNull(), // ApiKeyScope[]
+  lastUsedAt: timestamp("last_used_at"),
+  revokedAt: timestamp("revoked_at"),
+  createdBy: varchar("created_by"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [index("IDX_client_api_keys_client").on(table.clientId)]);
+
+// Single-use forgot-password and invite tokens. Like API keys, only a SHA-256 hash of
+// the token is stored; the token itself is only ever in the emailed link. A null userId
+// is the client's shared login.
+export const clientPasswordResets = pgTable("client_password_resets", {
+  id: serial("id").primaryKey(),
+  clientId: integer("client_id").notNull().references(() => clients.id),
+  userId: varchar("user_id").references(() => users.id),
+  purpose: varchar("purpose").notNull().default("reset"), // see PASSWORD_TOKEN_PURPOSES
+  tokenHash: varchar("token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  requestedIp: varchar("requested_ip"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [index("IDX_client_password_resets_client").on(table.clientId)]);
+
+// Webhook endpoints registered by clients for order lifecycle events
+export const webhookEndpoints = pgTable("webhook_endpoints", {
+  id: serial("id").primaryKey(),
+  clientId: integer("client_id").notNull().references(() => clients.id),
+  url: varchar("url").notNull(),
+  secret: varchar("secret").notNull(), // HMAC signing secret shared with the client
+  events: jsonb("events").notNull(), // WebhookEvent[]
+  isActive: boolean("is_active").default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [index("IDX_webhook_endpoints_client").on(table.clientId)]);
+
+// Webhook outbox - one row per event per endpoint, retried until delivered or dead
+export const webhookDeliveries = pgTable("webhook_deliveries", {
+  id: serial("id").primaryKey(),
+  endpointId: integer("endpoint_id").notNull().references(() => webhookEndpoints.id),
+  clientId: integer("client_id").notNull().references(() => clients.id),
+  eventId: varchar("event_id").notNull(),
+  eventType: varchar("event_type").notNull(),
+  payload: jsonb("payload").notNull(),
+  status: varchar("status").notNull().default("pending"), // pending, retrying, sending (claimed for an inline send), delivered, dead
+  attempts: integer("attempts").notNull().default(0),
+  nextAttemptAt: timestamp("next_attempt_at").defaultNow(),
+  lastAttemptAt: timestamp("last_attempt_at"),
+  lastResponseStatus: integer("last_response_status"),
+  lastError: text("last_error"),
+  deliveredAt: timestamp("delivered_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_webhook_deliveries_due").on(table.status, table.nextAttemptAt),
+  index("IDX_webhook_deliveries_client").on(table.clientId),
+]);
+
+// Per-client address book. Only addresses that passed validation are stored.
+export const addressBook = pgTable("address_book", {
+  id: serial("id").primaryKey(),
+  clientId: integer("client_id").notNull().references(() => clients.id),
+  label: varchar("label").notNull(),
+  customerName: varchar("customer_name").notNull(),
+  customerPhone: varchar("customer_phone"),
+  customerEmail: varchar("customer_email"),
+  deliveryLine1: varchar("delivery_line1").notNull(),
+  deliveryLine2: varchar("delivery_line2"),
+  deliveryCity: varchar("delivery_city").notNull(),
+  deliveryState: varchar("delivery_state").notNull(),
+  deliveryZip: varchar("delivery_zip").notNull(),
+  deliveryCountry: varchar("delivery_country").notNull().default("USA"),
+  formattedAddress: varchar("formatted_address"),
+  latitude: numeric("latitude", { precision: 10, scale: 8 }),
+  longitude: numeric("longitude", { precision: 11, scale: 8 }),
+  validatedAt: timestamp("validated_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [index("IDX_address_book_client").on(table.clientId)]);
+
+// Saved order templates for repeat shipments
+export const orderTemplates = pgTable("order_templates", {
+  id: serial("id").primaryKey(),
+  clientId: integer("client_id").notNull().references(() => clients.id),
+  name: varchar("name").notNull(),
+  customerName: varchar("customer_name").notNull(),
+  customerPhone: varchar("customer_phone"),
+  customerEmail: varchar("customer_email"),
+  deliveryLine1: varchar("delivery_line1").notNull(),
+  deliveryLine2: varchar("delivery_line2"),
+  deliveryCity: varchar("delivery_city").notNull(),
+  deliveryState: varchar("delivery_state").notNull(),
+  deliveryZip: varchar("delivery_zip").notNull(),
+  deliveryCountry: varchar("delivery_country").notNull().default("USA"),
+  packages: jsonb("packages").notNull(),
+  specialInstructions: text("special_instructions"),
+  createdBy: varchar("created_by"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [index("IDX_order_templates_client").on(table.clientId)]);
+
+// Billing rate cards. A null clientId is the default card for clients without their own;
+// a card applies from effectiveFrom until effectiveTo (open-ended when null).
+export const rateCards = pgTable("rate_cards", {
+  id: serial("id").primaryKey(),
+  clientId: integer("client_id").references(() => clients.id),
+  name: varchar("name").notNull(),
+  currency: varchar("currency").notNull().default("USD"),
+  baseFee: numeric("base_fee", { precision: 10, scale: 2 }).notNull().default("0"),
+  weightTiers: jsonb("weight_tiers").$type<RateTier[]>().notNull(), // per lb of billable weight
+  distanceTiers: jsonb("distance_tiers").$type<RateTier[]>().notNull(), // per mile
+  dimDivisor: integer("dim_divisor"), // cubic inches per lb; no dimensional weight when null
+  prioritySurcharges: jsonb("priority_surcharges").$type<Partial<Record<OrderPriority, Surcharge>>>(),
+  fragileSurcharge: jsonb("fragile_surcharge").$type<Surcharge>(),
+  zoneSurcharges: jsonb("zone_surcharges").$type<ZoneSurcharge[]>(),
+  minimumCharge: numeric("minimum_charge", { precision: 10, scale: 2 }),
+  effectiveFrom: timestamp("effective_from").notNull(),
+  effectiveTo: timestamp("effective_to"),
+  createdBy: varchar("created_by"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [index("IDX_rate_cards_client").on(table.clientId, table.effectiveFrom)]);
+
+// Invoice numbers come from a sequence so they stay sequential across concurrent runs
+export const invoiceNumberSequence = pgSequence("invoice_number_seq", { startWith: 1 });
+
+// Invoices: a monthly statement per client, or a single order billed on its own
+export const invoices = pgTable("invoices", {
+  id: serial("id").primaryKey(),
+  invoiceNumber: varchar("invoice_number").notNull().unique(),
+  clientId: integer("client_id").notNull().references(() => clients.id),
+  kind: varchar("kind").notNull(), // see INVOICE_KINDS
+  status: varchar("status").notNull().default("draft"), // see INVOICE_STATUSES
+  periodStart: date("period_start").notNull(),
+  periodEnd: date("period_end").notNull(), // inclusive
+  currency: varchar("currency").notNull().default("USD"),
+  subtotal: numeric("subtotal", { precision: 12, scale: 2 }).notNull().default("0"),
+  credits: numeric("credits", { precision: 12, scale: 2 }).notNull().default("0"), // negative
+  total: numeric("total", { precision: 12, scale: 2 }).notNull().default("0"),
+  issuedAt: timestamp("issued_at"),
+  dueAt: timestamp("due_at"),
+  paidAt: timestamp("paid_at"),
+  voidedAt: timestamp("voided_at"),
+  voidReason: varchar("void_reason"),
+  createdBy: varchar("created_by"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [index("IDX_invoices_client").on(table.clientId, table.periodStart)]);
+
+// One line per billed order, or a credit for an invoiced order that was later voided.
+// Charges are split out of the order's frozen quote so invoices can show them by type.
+export const invoiceLines = pgTable("invoice_lines", {
+  id: serial("id").primaryKey(),
+  invoiceId: integer("invoice_id").notNull().references(() => invoices.id),
+  orderId: integer("order_id").references(() => orders.id),
+  type: varchar("type").notNull(), // see INVOICE_LINE_TYPES
+  description: varchar("description").notNull(),
+  serviceDate: date("service_date"),
+  weightCharge: numeric("weight_charge", { precision: 10, scale: 2 }).notNull().default("0"),
+  distanceCharge: numeric("distance_charge", { precision: 10, scale: 2 }).notNull().default("0"),
+  priorityCharge: numeric("priority_charge", { precision: 10, scale: 2 }).notNull().default("0"),
+  otherCharges: numeric("other_charges", { precision: 10, scale: 2 }).notNull().default("0"), // base, fragile, zone, minimum
+  amount: numeric("amount", { precision: 10, scale: 2 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_invoice_lines_invoice").on(table.invoiceId),
+  index("IDX_invoice_lines_order").on(table.orderId),
+]);
+
+// Client account ledger. Amounts are signed from the client's side: debits (issued
+// invoices, positive adjustments) add to what they owe, credits (payments, credit notes)
+// reduce it, so the balance is the plain sum.
+export const ledgerEntries = pgTable("ledger_entries", {
+  id: serial("id").primaryKey(),
+  clientId: integer("client_id").notNull().references(() => clients.id),
+  type: varchar("type").notNull(), // see LEDGER_ENTRY_TYPES
+  invoiceId: integer("invoice_id").references(() => invoices.id), // the invoice it posts or settles, if any
+  amount: numeric("amount", { precision: 12, scale: 2 }).notNull(),
+  entryDate: date("entry_date").notNull(),
+  description: varchar("description").notNull(),
+  paymentMethod: varchar("payment_method"), // see PAYMENT_METHODS, payments only
+  reference: varchar("reference"), // check number, remittance id, ...
+  createdBy: varchar("created_by"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_ledger_entries_client").on(table.clientId, table.entryDate),
+  index("IDX_ledger_entries_invoice").on(table.invoiceId),
+  // An invoice is posted once; payments and credit notes against it may be many
+  uniqueIndex("UQ_ledger_entries_invoice_posting").on(table.invoiceId, table.type).where(sql`${table.type} = 'invoice'`),
+]);
+
 // Relations
 export const usersRelations = relations(users, ({ one, many }) => ({
   driver: one(drivers, {
@@ -184,6 +508,86 @@ export const usersRelations = relations(users, ({ one, many }) => ({
 
 export const clientsRelations = relations(clients, ({ many }) => ({
   orders: many(orders),
+  apiKeys: many(clientApiKeys),
+  webhookEndpoints: many(webhookEndpoints),
+  addressBook: many(addressBook),
+  orderTemplates: many(orderTemplates),
+  rateCards: many(rateCards),
+  invoices: many(invoices),
+  ledgerEntries: many(ledgerEntries),
+}));
+
+export const clientApiKeysRelations = relations(clientApiKeys, ({ one }) => ({
+  client: one(clients, {
+    fields: [clientApiKeys.clientId],
+    references: [clients.id],
+  }),
+}));
+
+export const webhookEndpointsRelations = relations(webhookEndpoints, ({ one, many }) => ({
+  client: one(clients, {
+    fields: [webhookEndpoints.clientId],
+    references: [clients.id],
+  }),
+  deliveries: many(webhookDeliveries),
+}));
+
+export const webhookDeliveriesRelations = relations(webhookDeliveries, ({ one }) => ({
+  endpoint: one(webhookEndpoints, {
+    fields: [webhookDeliveries.endpointId],
+    references: [webhookEndpoints.id],
+  }),
+}));
+
+export const addressBookRelations = relations(addressBook, ({ one }) => ({
+  client: one(clients, {
+    fields: [addressBook.clientId],
+    references: [clients.id],
+  }),
+}));
+
+export const orderTemplatesRelations = relations(orderTemplates, ({ one }) => ({
+  client: one(clients, {
+    fields: [orderTemplates.clientId],
+    references: [clients.id],
+  }),
+}));
+
+export const invoicesRelations = relations(invoices, ({ one, many }) => ({
+  client: one(clients, {
+    fields: [invoices.clientId],
+    references: [clients.id],
+  }),
+  lines: many(invoiceLines),
+}));
+
+export const invoiceLinesRelations = relations(invoiceLines, ({ one }) => ({
+  invoice: one(invoices, {
+    fields: [invoiceLines.invoiceId],
+    references: [invoices.id],
+  }),
+  order: one(orders, {
+    fields: [invoiceLines.orderId],
+    references: [orders.id],
+  }),
+}));
+
+export const ledgerEntriesRelations = relations(ledgerEntries, ({ one }) => ({
+  client: one(clients, {
+    fields: [ledgerEntries.clientId],
+    references: [clients.id],
+  }),
+  invoice: one(invoices, {
+    fields: [ledgerEntries.invoiceId],
+    references: [invoices.id],
+  }),
+}));
+
+export const rateCardsRelations = relations(rateCards, ({ one }) => ({
+  client: one(clients, {
+    fields: [rateCards.clientId],
+    references: [clients.id],
+  }),
 }));
 
 export const driversRelations = relations(drivers, ({ one, many }) => ({
@@ -227,6 +631,9 @@ export const ordersRelations = relations(orders, ({ one, many }) => ({
     references: [routeBatches.id],
   }),
   statusHistory: many(orderStatusHistory),
+  deliveryAttempts: many(deliveryAttempts),
+  deliveryProofs: many(deliveryProofs),
+  pieces: many(packages),
 }));
 
 export const customersRelations = relations(customers, ({ many }) => ({
@@ -240,6 +647,58 @@ export const orderStatusHistoryRelations = relations(orderStatusHistory, ({ one
   }),
 }));
 
+export const deliveryAttemptsRelations = relations(deliveryAttempts, ({ one }) => ({
+  order: one(orders, {
+    fields: [deliveryAttempts.orderId],
+    references: [orders.id],
+  }),
+  driver: one(drivers, {
+    fields: [deliveryAttempts.driverId],
+    references: [drivers.id],
+  }),
+  rescheduledBatch: one(routeBatches, {
+    fields: [deliveryAttempts.rescheduledBatchId],
+    references: [routeBatches.id],
+  }),
+}));
+
+export const deliveryProofsRelations = relations(deliveryProofs, ({ one }) => ({
+  order: one(orders, {
+    fields: [deliveryProofs.orderId],
+    references: [orders.id],
+  }),
+  driver: one(drivers, {
+    fields: [deliveryProofs.driverId],
+    references: [drivers.id],
+  }),
+}));
+
+export const packagesRelations = relations(packages, ({ one, many }) => ({
+  order: one(orders, {
+    fields: [packages.orderId],
+    references: [orders.id],
+  }),
+  scans: many(packageScans),
+}));
+
+export const packageScansRelations = relations(packageScans, ({ one }) => ({
+  package: one(packages, {
+    fields: [packageScans.packageId],
+    references: [packages.id],
+  }),
+  driver: one(drivers, {
+    fields: [packageScans.driverId],
+    references: [drivers.id],
+  }),
+}));
+
+export const driverLocationHistoryRelations = relations(driverLocationHistory, ({ one }) => ({
+  driver: one(drivers, {
+    fields: [driverLocationHistory.driverId],
+    references: [drivers.id],
+  }),
+}));
+
 export const activityLogsRelations = relations(activityLogs, ({ one }) => ({
   user: one(users, {
     fields: [activityLogs.userId],
@@ -273,12 +732,61 @@ export const insertUserSchema = createInsertSchema(users).omit({
   updatedAt: true,
 });
 
+export const CLIENT_ROLES = ["client_admin", "shipper", "viewer"] as const;
+
+export const CLIENT_ROLE_LABELS: Record<(typeof CLIENT_ROLES)[number], string> = {
+  client_admin: "Admin",
+  shipper: "Shipper",
+  viewer: "Viewer",
+};
+
+// Client roles allowed to create, import and void orders
+export const CLIENT_SHIPPING_ROLES: readonly ClientRole[] = ["client_admin", "shipper"];
+
 export const insertDriverSchema = createInsertSchema(drivers).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
 });
 
+// Order numbers are ORD-<digits>-<lowercase base36> (older ones ORD-YYYY-NNNNNN). Labels,
+// QR payloads such as tracking URLs and hand-typed input are matched and normalized here.
+const ORDER_NUMBER_PATTERN = /ORD-(\d+)-([0-9a-z]+)/i;
+
+export function normalizeOrderNumber(text: string): string | null {
+  const match = ORDER_NUMBER_PATTERN.exec(text.trim());
+  return match ? `ORD-${match[1]}-${match[2].toLowerCase()}` : null;
+}
+
+// Piece labels carry <order number>-P<piece number>, so a piece barcode still resolves
+// to its order wherever only order numbers are understood
+const PIECE_TRACKING_ID_PATTERN = /ORD-(\d+)-([0-9a-z]+)-P(\d+)/i;
+
+export function getPieceTrackingId(orderNumber: string, pieceNumber: number): string {
+  return `${orderNumber}-P${pieceNumber}`;
+}
+
+export function parsePieceTrackingId(text: string): { orderNumber: string; pieceNumber: number } | null {
+  const match = PIECE_TRACKING_ID_PATTERN.exec(text.trim());
+  if (!match) return null;
+  return { orderNumber: `ORD-${match[1]}-${match[2].toLowerCase()}`, pieceNumber: parseInt(match[3]) };
+}
+
+export const orderPackageSchema = z.object({
+  description: z.string(),
+  quantity: z.number(),
+  weight: z.number().optional(),
+  dimensions: z.string().optional(),
+});
+
+export const ORDER_PRIORITIES = ["normal", "priority", "express"] as const;
+
+export const ORDER_PRIORITY_LABELS: Record<(typeof ORDER_PRIORITIES)[number], string> = {
+  normal: "Normal",
+  priority: "Priority",
+  express: "Express",
+};
+
 export const insertOrderSchema = z.object({
   customerName: z.string().min(1, "Customer name is required"),
   customerPhone: z.string().optional(),
@@ -290,15 +798,14 @@ export const insertOrderSchema = z.object({
   deliveryZip: z.string().min(1, "Zip code is required"),
   deliveryCountry: z.string().default("USA"),
   pickupDate: z.string(),
-  packages: z.array(z.object({
-    description: z.string(),
-    quantity: z.number(),
-    weight: z.number().optional(),
-    dimensions: z.string().optional(),
-  })),
+  packages: z.array(orderPackageSchema),
   weight: z.number().optional(),
   distance: z.number().optional(),
   specialInstructions: z.string().optional(),
+  deliveryWindowStart: z.string().regex(/^\d{2}:\d{2}(:\d{2})?$/, "Use HH:MM").optional(),
+  deliveryWindowEnd: z.string().regex(/^\d{2}:\d{2}(:\d{2})?$/, "Use HH:MM").optional(),
+  priority: z.enum(ORDER_PRIORITIES).optional(),
+  fragile: z.boolean().optional(),
   createdBy: z.string().optional(),
   clientId: z.number().optional(),
 });
@@ -309,23 +816,190 @@ export const insertCustomerSchema = createInsertSchema(customers).omit({
 });
 
 export const updateOrderStatusSchema = z.object({
-  status: z.enum(["pending", "assigned", "in_transit", "delivered", "voided"]),
+  status: z.enum(ORDER_STATUSES),
+  notes: z.string().optional(),
+});
+
+export const DELIVERY_FAILURE_REASONS = [
+  "no_one_home",
+  "wrong_address",
+  "refused",
+  "access_denied",
+] as const;
+
+export const DELIVERY_FAILURE_REASON_LABELS: Record<(typeof DELIVERY_FAILURE_REASONS)[number], string> = {
+  no_one_home: "No one home",
+  wrong_address: "Wrong address",
+  refused: "Refused by recipient",
+  access_denied: "Access denied",
+};
+
+export const recordDeliveryAttemptSchema = z.object({
+  reasonCode: z.enum(DELIVERY_FAILURE_REASONS),
   notes: z.string().optional(),
 });
 
 export const insertClientSchema = createInsertSchema(clients).omit({
   id: true,
+  failedLoginAttempts: true,
+  lockedUntil: true,
+  passwordChangedAt: true,
   createdAt: true,
   updatedAt: true,
 });
 
+export const CREDIT_POLICIES = ["warn", "block"] as const;
+
+export const updateClientSettingsSchema = z.object({
+  requireProofOfDelivery: z.boolean(),
+  creditLimit: z.union([z.number(), z.string()]).transform(String).refine(
+    (value) => /^\d+(\.\d{1,2})?$/.test(value),
+    "Must be an amount with up to 2 decimals",
+  ).nullable(),
+  creditPolicy: z.enum(CREDIT_POLICIES),
+}).partial();
+
+// Photo and signature arrive as data URLs from the driver app (canvas / camera capture)
+const imageDataUrl = z.string().regex(/^data:image\/(jpeg|png|webp);base64,/, "Must be a JPEG, PNG or WebP data URL");
+
+export const captureDeliveryProofSchema = z.object({
+  photo: imageDataUrl,
+  signature: imageDataUrl,
+  recipientName: z.string().trim().min(1, "Recipient name is required"),
+  lat: z.number().min(-90).max(90).nullable().optional(),
+  lng: z.number().min(-180).max(180).nullable().optional(),
+  accuracy: z.number().nonnegative().nullable().optional(),
+  capturedAt: z.string().datetime(),
+});
+
+export const ZONE_RULE_TYPES = ["polygon", "radius", "zip_prefix"] as const;
+
+export const ZONE_EXCEPTIONS = ["unmatched", "ambiguous", "no_coordinates"] as const;
+
+// missing: the order moved on without this piece being scanned (see PIECE_EXCEPTIONS)
+export const PACKAGE_STATUSES = ["pending", "picked", "delivered", "missing"] as const;
+
+export const PACKAGE_SCAN_ACTIONS = ["pickup", "delivery"] as const;
+
+// Raised when a driver left the pickup, or finished the delivery, having scanned fewer
+// pieces than the order contains
+export const PIECE_EXCEPTIONS = ["missing_at_pickup", "missing_at_delivery"] as const;
+
+export const PIECE_EXCEPTION_LABELS: Record<(typeof PIECE_EXCEPTIONS)[number], string> = {
+  missing_at_pickup: "Pieces missing at pickup",
+  missing_at_delivery: "Pieces missing at delivery",
+};
+
+export const scanPackageSchema = z.object({
+  code: z.string().trim().min(1, "Scan a piece label"),
+  action: z.enum(PACKAGE_SCAN_ACTIONS),
+});
+
+const geoJsonPosition = z.tuple([z.number().min(-180).max(180), z.number().min(-90).max(90)]);
+const geoJsonRing = z.array(geoJsonPosition).min(4, "A polygon ring needs at least 4 positions");
+
+export const zonePolygonSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("Polygon"), coordinates: z.array(geoJsonRing).min(1) }),
+  z.object({ type: z.literal("MultiPolygon"), coordinates: z.array(z.array(geoJsonRing).min(1)).min(1) }),
+]);
+
 export const insertZoneSchema = createInsertSchema(zones).omit({
   id: true,
   createdAt: true,
+}).extend({
+  ruleType: z.enum(ZONE_RULE_TYPES).optional(),
+  polygon: zonePolygonSchema.nullable().optional(),
+  zipPrefixes: z.array(z.string().regex(/^\d{1,5}$/, "ZIP prefixes are 1-5 digits")).nullable().optional(),
+});
+
+// Each rule type needs its own fields; checked on the merged zone so partial updates work
+export function getZoneRuleError(zone: {
+  ruleType?: string | null;
+  polygon?: unknown;
+  zipPrefixes?: string[] | null;
+  centerLat?: string | null;
+  centerLng?: string | null;
+}): string | null {
+  switch (zone.ruleType ?? "radius") {
+    case "polygon":
+      return zone.polygon ? null : "Polygon zones need a GeoJSON polygon";
+    case "zip_prefix":
+      return zone.zipPrefixes?.length ? null : "ZIP prefix zones need at least one prefix";
+    default:
+      return zone.centerLat && zone.centerLng ? null : "Radius zones need a center latitude and longitude";
+  }
+}
+
+export const rezoneOrdersSchema = z.object({
+  orderIds: z.array(z.number().int()).optional(),
+  unzonedOnly: z.boolean().default(false),
+});
+
+export const setOrderZoneSchema = z.object({
+  zoneId: z.number().int(),
+});
+
+export const driverLocationPingSchema = z.object({
+  lat: z.number().min(-90).max(90),
+  lng: z.number().min(-180).max(180),
+  accuracy: z.number().nonnegative().nullable().optional(),
+  heading: z.number().min(0).max(360).nullable().optional(),
+  speed: z.number().nonnegative().nullable().optional(),
+  recordedAt: z.string().datetime().optional(),
+});
+
+export const DRIVER_SYNC_MUTATION_TYPES = ["status", "scan", "proof"] as const;
+
+// applied: change is on the server; conflict: the order moved on while the driver was
+// offline (voided, reassigned...) and server state wins; rejected: the change is invalid
+export const DRIVER_SYNC_OUTCOMES = ["applied", "conflict", "rejected"] as const;
+
+const driverSyncMutationBase = {
+  id: z.string().uuid(),
+  clientTimestamp: z.string().datetime(),
+};
+
+export const driverSyncMutationSchema = z.discriminatedUnion("type", [
+  z.object({
+    ...driverSyncMutationBase,
+    type: z.literal("status"),
+    orderId: z.number().int(),
+    status: z.enum(ORDER_STATUSES),
+    notes: z.string().optional(),
+  }),
+  z.object({
+    ...driverSyncMutationBase,
+    type: z.literal("scan"),
+    orderNumber: z.string().min(1), // as scanned: an order number or a piece tracking id
+    action: z.enum(["pickup", "delivery"]),
+  }),
+  z.object({
+    ...driverSyncMutationBase,
+    type: z.literal("proof"),
+    orderId: z.number().int(),
+    proof: captureDeliveryProofSchema,
+  }),
+]);
+
+export const driverSyncSchema = z.object({
+  mutations: z.array(driverSyncMutationSchema).max(100),
+});
+
+export const autoAssignSchema = z.object({
+  dryRun: z.boolean().default(true),
+  batchId: z.number().int().optional(),
+  orderIds: z.array(z.number().int()).optional(),
+});
+
+export const assignOrderSchema = z.object({
+  driverId: z.number().int(),
+  pinned: z.boolean().default(true),
 });
 
 export const insertRouteBatchSchema = createInsertSchema(routeBatches).omit({
   id: true,
+  closedAt: true,
+  completedAt: true,
   createdAt: true,
 });
 
@@ -334,6 +1008,239 @@ export const insertOptimizedRouteSchema = createInsertSchema(optimizedRoutes).om
   createdAt: true,
 });
 
+export const API_KEY_SCOPES = ["orders:write", "orders:read", "tracking:read"] as const;
+
+const clientPasswordSchema = z.string()
+  .min(8, "Password must be at least 8 characters")
+  .max(200, "Password is too long");
+
+export const forgotPasswordSchema = z.object({
+  username: z.string().trim().min(1, "Username or email is required"),
+});
+
+export const resetPasswordSchema = z.object({
+  token: z.string().min(1, "Reset token is required"),
+  password: clientPasswordSchema,
+});
+
+// Staff and drivers signing in with the built-in (local) auth provider
+export const staffLoginSchema = z.object({
+  email: z.string().trim().min(1, "Email is required"),
+  password: z.string().min(1, "Password is required"),
+});
+
+export const setUserPasswordSchema = z.object({
+  password: clientPasswordSchema,
+});
+
+export const PASSWORD_TOKEN_PURPOSES = ["reset", "invite"] as const;
+
+export const inviteClientUserSchema = z.object({
+  email: z.string().trim().toLowerCase().email("A valid email is required"),
+  firstName: z.string().trim().max(100).optional(),
+  lastName: z.string().trim().max(100).optional(),
+  clientRole: z.enum(CLIENT_ROLES),
+});
+
+export const updateClientUserSchema = z.object({
+  clientRole: z.enum(CLIENT_ROLES).optional(),
+  isActive: z.boolean().optional(),
+}).refine((data) => data.clientRole !== undefined || data.isActive !== undefined, {
+  message: "Nothing to update",
+});
+
+export const acceptInviteSchema = z.object({
+  token: z.string().min(1, "Invite token is required"),
+  firstName: z.string().trim().min(1, "First name is required").max(100),
+  lastName: z.string().trim().min(1, "Last name is required").max(100),
+  password: clientPasswordSchema,
+});
+
+export const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1, "Current password is required"),
+  newPassword: clientPasswordSchema,
+}).refine((data) => data.currentPassword !== data.newPassword, {
+  message: "The new password must be different",
+  path: ["newPassword"],
+});
+
+export const createApiKeySchema = z.object({
+  name: z.string().min(1, "Name is required"),
+  scopes: z.array(z.enum(API_KEY_SCOPES)).min(1, "At least one scope is required"),
+});
+
+export const WEBHOOK_EVENTS = [
+  "order.created",
+  "order.assigned",
+  "order.picked",
+  "order.in_transit",
+  "order.delivered",
+  "order.failed",
+  "order.voided",
+] as const;
+
+export const WEBHOOK_DELIVERY_STATUSES = ["pending", "retrying", "delivered", "dead"] as const;
+
+export const insertWebhookEndpointSchema = z.object({
+  url: z.string().url("Must be a valid URL").refine(
+    (url) => url.startsWith("https://") || url.startsWith("http://"),
+    "Must be an http(s) URL"
+  ),
+  events: z.array(z.enum(WEBHOOK_EVENTS)).min(1, "Subscribe to at least one event"),
+  isActive: z.boolean().optional(),
+});
+
+export const insertAddressBookSchema = createInsertSchema(addressBook).omit({
+  id: true,
+  clientId: true,
+  formattedAddress: true,
+  latitude: true,
+  longitude: true,
+  validatedAt: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertOrderTemplateSchema = createInsertSchema(orderTemplates).omit({
+  id: true,
+  clientId: true,
+  createdBy: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  packages: z.array(orderPackageSchema).min(1, "At least one package is required"),
+});
+
+// Tiers are graduated: each rate applies to the part of the quantity up to its bound,
+// the last tier (upTo null) to everything beyond
+const rateTierSchema = z.object({
+  upTo: z.number().positive().nullable(),
+  rate: z.number().nonnegative(),
+});
+
+const rateTiersSchema = z.array(rateTierSchema).min(1, "At least one tier is required").refine(
+  (tiers) => tiers.every((tier, i) => i === tiers.length - 1
+    ? true
+    : tier.upTo !== null && (i === 0 || tier.upTo > (tiers[i - 1].upTo ?? Infinity))),
+  "Tier bounds must increase, and only the last tier may be open-ended",
+);
+
+const surchargeSchema = z.object({
+  type: z.enum(["flat", "percent"]),
+  amount: z.number().nonnegative(),
+});
+
+const moneySchema = z.union([z.number(), z.string()]).transform(String).refine(
+  (value) => /^\d+(\.\d{1,2})?$/.test(value),
+  "Must be an amount with up to 2 decimals",
+);
+
+export const insertRateCardSchema = z.object({
+  clientId: z.number().int().nullable().optional(),
+  name: z.string().min(1, "Name is required"),
+  currency: z.string().length(3).default("USD"),
+  baseFee: moneySchema,
+  weightTiers: rateTiersSchema,
+  distanceTiers: rateTiersSchema,
+  dimDivisor: z.number().int().positive().nullable().optional(),
+  prioritySurcharges: z.record(z.enum(ORDER_PRIORITIES), surchargeSchema).nullable().optional(),
+  fragileSurcharge: surchargeSchema.nullable().optional(),
+  zoneSurcharges: z.array(z.object({ zoneId: z.number().int(), amount: z.number().nonnegative() })).nullable().optional(),
+  minimumCharge: moneySchema.nullable().optional(),
+  effectiveFrom: z.coerce.date(),
+  effectiveTo: z.coerce.date().nullable().optional(),
+});
+
+export const updateRateCardSchema = insertRateCardSchema.omit({ clientId: true }).partial();
+
+export const quoteRequestSchema = insertOrderSchema.pick({
+  deliveryLine1: true,
+  deliveryLine2: true,
+  deliveryCity: true,
+  deliveryState: true,
+  deliveryZip: true,
+  deliveryCountry: true,
+  packages: true,
+  weight: true,
+  distance: true,
+  priority: true,
+  fragile: true,
+  clientId: true,
+});
+
+export const INVOICE_KINDS = ["monthly", "order"] as const;
+
+export const INVOICE_STATUSES = ["draft", "issued", "paid", "void"] as const;
+
+// charge: a delivered order; failed_attempt: an order returned after failed attempts,
+// billed only when the run asks for it; credit: reverses a charge whose order was voided
+export const INVOICE_LINE_TYPES = ["charge", "failed_attempt", "credit"] as const;
+
+// Paid and void are final; voiding an invoice releases its orders for the next run
+export const INVOICE_STATUS_TRANSITIONS: Record<(typeof INVOICE_STATUSES)[number], (typeof INVOICE_STATUSES)[number][]> = {
+  draft: ["issued", "void"],
+  issued: ["paid", "void"],
+  paid: [],
+  void: [],
+};
+
+export const invoiceRunSchema = z.object({
+  month: z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, "Use YYYY-MM"),
+  clientId: z.number().int().optional(),
+  includeFailedAttempts: z.boolean().default(false),
+  issue: z.boolean().default(false),
+});
+
+export const updateInvoiceStatusSchema = z.object({
+  status: z.enum(INVOICE_STATUSES),
+  reason: z.string().optional(),
+}).refine((data) => data.status !== "void" || !!data.reason?.trim(), {
+  message: "A reason is required to void an invoice",
+  path: ["reason"],
+});
+
+// invoice and credit_note entries for invoices are posted by the invoice lifecycle;
+// the rest are entered by finance
+export const LEDGER_ENTRY_TYPES = ["invoice", "payment", "adjustment", "credit_note"] as const;
+
+export const PAYMENT_METHODS = ["check", "ach", "wire", "card", "cash", "other"] as const;
+
+// Days past due each aging bucket starts at; "current" is anything not yet due
+export const AGING_BUCKETS = [
+  { key: "current", label: "Current", fromDays: 0 },
+  { key: "days30", label: "1-30", fromDays: 1 },
+  { key: "days60", label: "31-60", fromDays: 31 },
+  { key: "days90", label: "61-90", fromDays: 61 },
+  { key: "over90", label: "90+", fromDays: 91 },
+] as const;
+
+// Payments and credit notes are entered as positive amounts and stored as credits;
+// adjustments are signed (positive adds to the balance)
+export const insertLedgerEntrySchema = z.object({
+  type: z.enum(["payment", "adjustment", "credit_note"]),
+  amount: z.union([z.number(), z.string()]).transform(String).refine(
+    (value) => /^-?\d+(\.\d{1,2})?$/.test(value) && parseFloat(value) !== 0,
+    "Must be a non-zero amount with up to 2 decimals",
+  ),
+  invoiceId: z.number().int().optional(),
+  entryDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD").optional(),
+  description: z.string().optional(),
+  paymentMethod: z.enum(PAYMENT_METHODS).optional(),
+  reference: z.string().optional(),
+}).refine((data) => data.type === "adjustment" || parseFloat(data.amount) > 0, {
+  message: "Payments and credit notes are entered as positive amounts",
+  path: ["amount"],
+}).refine((data) => data.type !== "adjustment" || !!data.description?.trim(), {
+  message: "A description is required for adjustments",
+  path: ["description"],
+});
+
+export const statementQuerySchema = z.object({
+  from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD"),
+  to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD"),
+  format: z.enum(["pdf", "csv"]).default("pdf"),
+});
+
 export const voidOrderSchema = z.object({
   voidReason: z.string().min(1, "Void reason is required"),
 });
@@ -361,11 +1268,31 @@ export type ActivityLog = typeof activityLogs.$inferSelect;
 
 export type UpdateOrderStatus = z.infer<typeof updateOrderStatusSchema>;
 
+export type DeliveryAttempt = typeof deliveryAttempts.$inferSelect;
+export type RecordDeliveryAttempt = z.infer<typeof recordDeliveryAttemptSchema>;
+export type DeliveryFailureReason = RecordDeliveryAttempt["reasonCode"];
+
+export type DeliveryProof = typeof deliveryProofs.$inferSelect;
+export type CaptureDeliveryProof = z.infer<typeof captureDeliveryProofSchema>;
+
 export type InsertClient = z.infer<typeof insertClientSchema>;
 export type Client = typeof clients.$inferSelect;
+export type UpdateClientSettings = z.infer<typeof updateClientSettingsSchema>;
 
 export type InsertZone = z.infer<typeof insertZoneSchema>;
 export type Zone = typeof zones.$inferSelect;
+export type ZoneRuleType = (typeof ZONE_RULE_TYPES)[number];
+export type ZoneException = (typeof ZONE_EXCEPTIONS)[number];
+export type ZonePolygon = z.infer<typeof zonePolygonSchema>;
+export type RezoneOrders = z.infer<typeof rezoneOrdersSchema>;
+export type AutoAssignOptions = z.infer<typeof autoAssignSchema>;
+
+export type DriverLocationPing = z.infer<typeof driverLocationPingSchema>;
+export type DriverLocationHistory = typeof driverLocationHistory.$inferSelect;
+
+export type DriverSyncMutation = z.infer<typeof driverSyncMutationSchema>;
+export type DriverSyncOutcome = (typeof DRIVER_SYNC_OUTCOMES)[number];
+export type DriverSyncMutationRecord = typeof driverSyncMutations.$inferSelect;
 
 export type InsertRouteBatch = z.infer<typeof insertRouteBatchSchema>;
 export type RouteBatch = typeof routeBatches.$inferSelect;
@@ -373,5 +1300,84 @@ export type RouteBatch = typeof routeBatches.$inferSelect;
 export type InsertOptimizedRoute = z.infer<typeof insertOptimizedRouteSchema>;
 export type OptimizedRoute = typeof optimizedRoutes.$inferSelect;
 
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+export type ForgotPassword = z.infer<typeof forgotPasswordSchema>;
+export type ResetPassword = z.infer<typeof resetPasswordSchema>;
+export type ChangePassword = z.infer<typeof changePasswordSchema>;
+export type ClientPasswordReset = typeof clientPasswordResets.$inferSelect;
+export type PasswordTokenPurpose = (typeof PASSWORD_TOKEN_PURPOSES)[number];
+export type ClientRole = (typeof CLIENT_ROLES)[number];
+export type InviteClientUser = z.infer<typeof inviteClientUserSchema>;
+export type UpdateClientUser = z.infer<typeof updateClientUserSchema>;
+export type AcceptInvite = z.infer<typeof acceptInviteSchema>;
+export type CreateApiKey = z.infer<typeof createApiKeySchema>;
+export type ClientApiKey = typeof clientApiKeys.$inferSelect;
+
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+export type WebhookDeliveryStatus = (typeof WEBHOOK_DELIVERY_STATUSES)[number];
+export type InsertWebhookEndpoint = z.infer<typeof insertWebhookEndpointSchema>;
+export type WebhookEndpoint = typeof webhookEndpoints.$inferSelect;
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+
+export type OrderPackage = z.infer<typeof orderPackageSchema>;
+export type Package = typeof packages.$inferSelect;
+export type PackageScan = typeof packageScans.$inferSelect;
+export type PackageStatus = (typeof PACKAGE_STATUSES)[number];
+export type PackageScanAction = (typeof PACKAGE_SCAN_ACTIONS)[number];
+export type PieceException = (typeof PIECE_EXCEPTIONS)[number];
+
+export type InsertAddressBookEntry = z.infer<typeof insertAddressBookSchema>;
+export type AddressBookEntry = typeof addressBook.$inferSelect;
+
+export type InsertOrderTemplate = z.infer<typeof insertOrderTemplateSchema>;
+export type OrderTemplate = typeof orderTemplates.$inferSelect;
+
+export type OrderPriority = (typeof ORDER_PRIORITIES)[number];
+export type RateTier = z.infer<typeof rateTierSchema>;
+export type Surcharge = z.infer<typeof surchargeSchema>;
+export type ZoneSurcharge = { zoneId: number; amount: number };
+export type InsertRateCard = z.infer<typeof insertRateCardSchema>;
+export type UpdateRateCard = z.infer<typeof updateRateCardSchema>;
+export type RateCard = typeof rateCards.$inferSelect;
+export type QuoteRequest = z.infer<typeof quoteRequestSchema>;
+
+export type PriceQuoteLine = {
+  code: "base" | "weight" | "distance" | "priority" | "fragile" | "zone" | "minimum";
+  description: string;
+  amount: number;
+};
+
+// Itemized price as returned by POST /api/quote and frozen onto orders.priceBreakdown
+export type PriceQuote = {
+  rateCardId: number | null; // null: built-in default rates, no card configured
+  rateCardName: string;
+  currency: string;
+  actualWeight: number;
+  dimensionalWeight: number | null;
+  billableWeight: number;
+  distanceMiles: number;
+  distanceSource: "geocoded" | "provided" | "none";
+  zoneId: number | null;
+  lines: PriceQuoteLine[];
+  total: number;
+  quotedAt: string;
+};
+
+export type Invoice = typeof invoices.$inferSelect;
+export type InvoiceLine = typeof invoiceLines.$inferSelect;
+export type InvoiceKind = (typeof INVOICE_KINDS)[number];
+export type InvoiceStatus = (typeof INVOICE_STATUSES)[number];
+export type InvoiceLineType = (typeof INVOICE_LINE_TYPES)[number];
+export type InvoiceRun = z.infer<typeof invoiceRunSchema>;
+export type UpdateInvoiceStatus = z.infer<typeof updateInvoiceStatusSchema>;
+
+export type LedgerEntry = typeof ledgerEntries.$inferSelect;
+export type LedgerEntryType = (typeof LEDGER_ENTRY_TYPES)[number];
+export type InsertLedgerEntry = z.infer<typeof insertLedgerEntrySchema>;
+export type PaymentMethod = (typeof PAYMENT_METHODS)[number];
+export type CreditPolicy = (typeof CREDIT_POLICIES)[number];
+export type AgingBucket = (typeof AGING_BUCKETS)[number]["key"];
+export type StatementQuery = z.infer<typeof statementQuerySchema>;
+
 export type VoidOrder = z.infer<typeof voidOrderSchema>;
 export type ClientLogin = z.infer<typeof clientLoginSchema>;
\ No newline at end of file